@@ -0,0 +1,73 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+
+// Named Gmail accounts ("personal", "work"), each with its own OAuth token
+// in the config directory. The OAuth client in credentials.json is shared.
+
+export const DEFAULT_ACCOUNT = "default";
+
+export const CONFIG_DIR =
+  process.env.GMAIL_CONFIG_DIR ||
+  path.join(os.homedir(), ".config", "gmail-power-cli");
+
+const TOKENS_DIR = path.join(CONFIG_DIR, "tokens");
+const CACHE_DIR = path.join(CONFIG_DIR, "cache");
+
+// used as a file name, so nothing that could leave the tokens directory
+const ACCOUNT_NAME = /^[a-z0-9][a-z0-9._-]*$/i;
+
+export function validateAccountName(account: string): string {
+  if (!ACCOUNT_NAME.test(account)) {
+    throw new Error(
+      `Invalid account name "${account}": use letters, numbers, ".", "_" and "-"`
+    );
+  }
+  return account;
+}
+
+// GMAIL_ACCOUNT picks the account used when none is named
+export function defaultAccount(): string {
+  return validateAccountName(process.env.GMAIL_ACCOUNT || DEFAULT_ACCOUNT);
+}
+
+export function accountTokenPath(account: string): string {
+  return path.join(TOKENS_DIR, `${validateAccountName(account)}.json`);
+}
+
+export function accountCachePath(account: string): string {
+  return path.join(CACHE_DIR, `${validateAccountName(account)}.json`);
+}
+
+// Accounts that have signed in, in name order
+export async function listAccounts(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(TOKENS_DIR);
+    return files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => file.slice(0, -".json".length))
+      .filter((account) => ACCOUNT_NAME.test(account))
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The account named by `--account <name>` or `--account=<name>` in a
+ * command line, if any.
+ */
+export function accountFromArgs(argv: string[]): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--account") {
+      if (!argv[i + 1] || argv[i + 1].startsWith("-")) {
+        throw new Error("--account needs an account name");
+      }
+      return validateAccountName(argv[i + 1]);
+    }
+    if (argv[i].startsWith("--account=")) {
+      return validateAccountName(argv[i].slice("--account=".length));
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,197 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { GmailService } from "./gmail-service.js";
+import type { EmailAttachment } from "./types.js";
+
+export interface DownloadAttachmentsOptions {
+  messageId?: string;
+  query?: string;
+  filename?: string;
+  mimeType?: string;
+  targetDir?: string;
+  onCollision?: "skip" | "suffix";
+  maxMessages?: number;
+}
+
+export interface DownloadAttachmentsResult {
+  targetDir: string;
+  saved: { messageId: string; filename: string; path: string; size: number }[];
+  skipped: { messageId: string; filename: string; reason: string }[];
+  failed: { messageId: string; filename: string; error: string }[];
+}
+
+export const DEFAULT_ATTACHMENTS_DIR = path.join(process.cwd(), "attachments");
+
+const MAX_FILENAME_BYTES = 255;
+const WINDOWS_RESERVED = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+/**
+ * Make an attachment filename safe to write inside the target directory:
+ * no path separators, control or reserved characters, no leading dots and
+ * no more than 255 bytes (the extension is kept when truncating).
+ */
+export function sanitizeFilename(filename: string): string {
+  let name = (filename || "")
+    .normalize("NFC")
+    .replace(/[\u0000-\u001f\u007f<>:"/\\|?*]+/g, "_")
+    .replace(/^[.\s]+/, "")
+    .replace(/[.\s]+$/, "")
+    .trim();
+
+  if (!name) {
+    name = "attachment";
+  }
+  if (WINDOWS_RESERVED.test(name)) {
+    name = `_${name}`;
+  }
+
+  if (Buffer.byteLength(name) > MAX_FILENAME_BYTES) {
+    const ext = path.extname(name).slice(0, 16);
+    let base = name.slice(0, name.length - ext.length);
+    while (Buffer.byteLength(base + ext) > MAX_FILENAME_BYTES) {
+      base = base.slice(0, -1);
+    }
+    name = base + ext;
+  }
+
+  return name;
+}
+
+function withSuffix(filename: string, n: number): string {
+  const ext = path.extname(filename);
+  return `${filename.slice(0, filename.length - ext.length)} (${n})${ext}`;
+}
+
+function matchesFilter(
+  attachment: EmailAttachment,
+  options: DownloadAttachmentsOptions
+): boolean {
+  if (
+    options.filename &&
+    !attachment.filename.toLowerCase().includes(options.filename.toLowerCase())
+  ) {
+    return false;
+  }
+  if (options.mimeType) {
+    // accept full types ("application/pdf") or shorthand ("pdf")
+    const wanted = options.mimeType.toLowerCase();
+    const mimeType = (attachment.mimeType || "").toLowerCase();
+    const ext = path.extname(attachment.filename).slice(1).toLowerCase();
+    if (mimeType !== wanted && !mimeType.endsWith(`/${wanted}`) && ext !== wanted) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// write without overwriting: "wx" fails if the file exists, so collisions
+// are detected atomically and either skipped or retried with a suffix
+async function writeUnique(
+  dir: string,
+  filename: string,
+  data: Buffer,
+  onCollision: "skip" | "suffix"
+): Promise<string | null> {
+  for (let n = 0; n < 1000; n++) {
+    const candidate = n === 0 ? filename : withSuffix(filename, n);
+    const filePath = path.join(dir, candidate);
+    try {
+      await fs.writeFile(filePath, data, { flag: "wx" });
+      return filePath;
+    } catch (error: any) {
+      if (error?.code !== "EEXIST") {
+        throw error;
+      }
+      if (onCollision === "skip") {
+        return null;
+      }
+    }
+  }
+  throw new Error(`Too many files named ${filename}`);
+}
+
+/**
+ * Save attachments of one message, or of every message matching a query,
+ * into a target directory.
+ */
+export async function downloadAttachments(
+  service: GmailService,
+  options: DownloadAttachmentsOptions
+): Promise<DownloadAttachmentsResult> {
+  if (!options.messageId && options.query === undefined) {
+    throw new Error("Either messageId or query is required");
+  }
+
+  const targetDir = path.resolve(options.targetDir || DEFAULT_ATTACHMENTS_DIR);
+  const onCollision = options.onCollision || "suffix";
+  const result: DownloadAttachmentsResult = {
+    targetDir,
+    saved: [],
+    skipped: [],
+    failed: [],
+  };
+
+  const messageIds: string[] = [];
+  if (options.messageId) {
+    messageIds.push(options.messageId);
+  } else {
+    const maxMessages = options.maxMessages || 50;
+    const query = options.query!.trim()
+      ? `(${options.query}) has:attachment`
+      : "has:attachment";
+    for await (const message of service.iterateEmails(
+      query,
+      Math.min(maxMessages, 100)
+    )) {
+      messageIds.push(message.id!);
+      if (messageIds.length >= maxMessages) break;
+    }
+  }
+
+  await fs.mkdir(targetDir, { recursive: true });
+
+  for (const messageId of messageIds) {
+    // re-read the message (bypassing the cache): attachment IDs are not
+    // stable between fetches
+    const email = await service.readEmail(messageId, { cache: false });
+    const attachments = (email.attachments || []).filter((a) =>
+      matchesFilter(a, options)
+    );
+
+    for (const attachment of attachments) {
+      const filename = sanitizeFilename(attachment.filename);
+      try {
+        const { data } = await service.getAttachment(
+          messageId,
+          attachment.attachmentId
+        );
+
+        if (attachment.size !== undefined && data.length !== attachment.size) {
+          throw new Error(
+            `Size mismatch: expected ${attachment.size} bytes, got ${data.length}`
+          );
+        }
+
+        const filePath = await writeUnique(targetDir, filename, data, onCollision);
+        if (filePath) {
+          result.saved.push({
+            messageId,
+            filename: path.basename(filePath),
+            path: filePath,
+            size: data.length,
+          });
+        } else {
+          result.skipped.push({ messageId, filename, reason: "File already exists" });
+        }
+      } catch (error: any) {
+        result.failed.push({
+          messageId,
+          filename,
+          error: error?.message || String(error),
+        });
+      }
+    }
+  }
+
+  return result;
+}
@@ -4,17 +4,24 @@ import { OAuth2Client as GoogleApisOAuth2Client } from "googleapis-common";
 import { OAuth2Client as GoogleAuthOAuth2Client } from "google-auth-library";
 import * as fs from "fs/promises";
 import * as path from "path";
+import {
+  DEFAULT_ACCOUNT,
+  accountFromArgs,
+  accountTokenPath,
+  defaultAccount,
+} from "./accounts.js";
 
 const SCOPES = [
   "https://www.googleapis.com/auth/gmail.modify",
   "https://www.googleapis.com/auth/gmail.settings.basic"
 ];
-const TOKEN_PATH = path.join(process.cwd(), "token.json");
+// where the single token lived before accounts; read for the default account
+const LEGACY_TOKEN_PATH = path.join(process.cwd(), "token.json");
 const CREDENTIALS_PATH = path.join(process.cwd(), "credentials.json");
 
-export async function loadSavedCredentialsIfExist(): Promise<GoogleApisOAuth2Client | null> {
+async function readToken(tokenPath: string): Promise<GoogleApisOAuth2Client | null> {
   try {
-    const content = await fs.readFile(TOKEN_PATH, "utf-8");
+    const content = await fs.readFile(tokenPath, "utf-8");
     const credentials = JSON.parse(content);
     const auth = google.auth.fromJSON(credentials);
     if (auth instanceof GoogleApisOAuth2Client) {
@@ -26,7 +33,29 @@ export async function loadSavedCredentialsIfExist(): Promise<GoogleApisOAuth2Cli
   }
 }
 
-export async function saveCredentials(client: GoogleAuthOAuth2Client): Promise<void> {
+export async function loadSavedCredentialsIfExist(
+  account: string = DEFAULT_ACCOUNT
+): Promise<GoogleApisOAuth2Client | null> {
+  const tokenPath = accountTokenPath(account);
+  const client = await readToken(tokenPath);
+  if (client || account !== DEFAULT_ACCOUNT) {
+    return client;
+  }
+
+  // move a token.json from before accounts into the config directory
+  const legacy = await readToken(LEGACY_TOKEN_PATH);
+  if (legacy) {
+    await fs.mkdir(path.dirname(tokenPath), { recursive: true });
+    await fs.copyFile(LEGACY_TOKEN_PATH, tokenPath);
+    await fs.unlink(LEGACY_TOKEN_PATH);
+  }
+  return legacy;
+}
+
+export async function saveCredentials(
+  client: GoogleAuthOAuth2Client,
+  account: string = DEFAULT_ACCOUNT
+): Promise<void> {
   const content = await fs.readFile(CREDENTIALS_PATH, "utf-8");
   const keys = JSON.parse(content);
   const key = keys.installed || keys.web;
@@ -36,11 +65,16 @@ export async function saveCredentials(client: GoogleAuthOAuth2Client): Promise<v
     client_secret: key.client_secret,
     refresh_token: client.credentials.refresh_token,
   });
-  await fs.writeFile(TOKEN_PATH, payload);
+  const tokenPath = accountTokenPath(account);
+  await fs.mkdir(path.dirname(tokenPath), { recursive: true });
+  // the refresh token grants full mailbox access
+  await fs.writeFile(tokenPath, payload, { mode: 0o600 });
 }
 
-export async function authorize(): Promise<GoogleApisOAuth2Client> {
-  let client = await loadSavedCredentialsIfExist();
+export async function authorize(
+  account: string = DEFAULT_ACCOUNT
+): Promise<GoogleApisOAuth2Client> {
+  let client = await loadSavedCredentialsIfExist(account);
 
   if (client) {
     // Test if the token is still valid
@@ -52,7 +86,7 @@ export async function authorize(): Promise<GoogleApisOAuth2Client> {
         console.log('Refresh token expired, requiring re-authentication...');
         // Delete the expired token file
         try {
-          await fs.unlink(TOKEN_PATH);
+          await fs.unlink(accountTokenPath(account));
         } catch (unlinkError) {
           // Token file might not exist, ignore
         }
@@ -73,7 +107,7 @@ export async function authorize(): Promise<GoogleApisOAuth2Client> {
   }
 
   if (authClient.credentials) {
-    await saveCredentials(authClient);
+    await saveCredentials(authClient, account);
   }
 
   // Convert from google-auth-library OAuth2Client to googleapis-common OAuth2Client
@@ -97,14 +131,19 @@ export async function authorize(): Promise<GoogleApisOAuth2Client> {
   throw new Error("Failed to convert auth client to googleapis-compatible format");
 }
 
-export async function getGmailService(): Promise<gmail_v1.Gmail> {
-  const auth = await authorize();
-  return google.gmail({ version: "v1", auth: auth });
+export async function getGmailService(
+  account: string = DEFAULT_ACCOUNT
+): Promise<gmail_v1.Gmail> {
+  const auth = await authorize(account);
+  // GmailService applies its own retry policy; gaxios' built-in retries
+  // would multiply attempts and ignore which calls are safe to repeat
+  return google.gmail({ version: "v1", auth: auth, retry: false });
 }
 
-// Run this directly to set up authentication
+// Run this directly to set up authentication: npm run auth -- --account work
 if (import.meta.url === `file://${process.argv[1]}`) {
-  console.log("Setting up Gmail authentication...");
-  await authorize();
-  console.log("Authentication successful! Token saved.");
+  const account = accountFromArgs(process.argv.slice(2)) || defaultAccount();
+  console.log(`Setting up Gmail authentication for account "${account}"...`);
+  await authorize(account);
+  console.log(`Authentication successful! Token saved to ${accountTokenPath(account)}.`);
 }
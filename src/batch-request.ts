@@ -0,0 +1,141 @@
+import { randomBytes } from "crypto";
+
+// Gmail's HTTP batch endpoint: many API calls in one multipart/mixed request.
+// Each inner call still counts against quota, but the connection and
+// request overhead is paid once.
+
+export const BATCH_URL = "https://gmail.googleapis.com/batch/gmail/v1";
+
+// Gmail accepts up to 100 calls per batch but rate-limits batches larger
+// than about 50
+export const MAX_BATCH_SIZE = 50;
+
+export interface BatchRequest {
+  // relative to /gmail/v1/users/me/, e.g. "messages/18c2f..."
+  path: string;
+  params?: Record<string, string | string[] | undefined>;
+}
+
+export interface BatchResponsePart {
+  status: number;
+  body: any;
+}
+
+// the subset of an OAuth2 client used to send the batch
+export interface BatchAuthClient {
+  request(options: {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    data: string;
+    responseType: "text";
+    retry: boolean;
+  }): Promise<{ data: unknown; headers: any }>;
+}
+
+const CRLF = "\r\n";
+
+export function buildRequestPath(request: BatchRequest): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(request.params || {})) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      query.append(key, item);
+    }
+  }
+  const search = query.toString();
+  return `/gmail/v1/users/me/${request.path}${search ? `?${search}` : ""}`;
+}
+
+export function buildBatchBody(requests: BatchRequest[], boundary: string): string {
+  const parts = requests.map((request, index) =>
+    [
+      `--${boundary}`,
+      "Content-Type: application/http",
+      `Content-ID: <item-${index}>`,
+      "",
+      `GET ${buildRequestPath(request)}`,
+      "",
+    ].join(CRLF)
+  );
+  return `${parts.join(CRLF)}${CRLF}--${boundary}--${CRLF}`;
+}
+
+function splitHead(text: string): [string, string] {
+  const match = text.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) {
+    return [text, ""];
+  }
+  return [text.slice(0, match.index), text.slice(match.index + match[0].length)];
+}
+
+/**
+ * Parse a multipart/mixed batch response into per-call results, indexed
+ * by the position of the request they answer (Content-ID "response-item-N").
+ */
+export function parseBatchResponse(
+  body: string,
+  contentType: string
+): Map<number, BatchResponsePart> {
+  const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+  if (!boundary) {
+    throw new Error(`Batch response has no boundary: ${contentType}`);
+  }
+
+  const results = new Map<number, BatchResponsePart>();
+  const sections = body.split(`--${boundary}`).slice(1);
+
+  for (const section of sections) {
+    if (section.startsWith("--")) break;
+
+    const [partHeaders, http] = splitHead(section.replace(/^\r?\n/, ""));
+    const index = partHeaders.match(/Content-ID:\s*<response-item-(\d+)>/i)?.[1];
+    const [statusAndHeaders, content] = splitHead(http);
+    const status = statusAndHeaders.match(/^HTTP\/[\d.]+\s+(\d{3})/)?.[1];
+    if (index === undefined || status === undefined) continue;
+
+    const text = content.trim();
+    let parsed: any = null;
+    try {
+      parsed = text ? JSON.parse(text) : null;
+    } catch {
+      parsed = text;
+    }
+
+    results.set(parseInt(index, 10), { status: parseInt(status, 10), body: parsed });
+  }
+
+  return results;
+}
+
+/**
+ * Send up to MAX_BATCH_SIZE GET calls in one HTTP request. The result
+ * array lines up with `requests`; a call missing from the response is
+ * undefined so the caller can fetch it on its own.
+ */
+export async function sendBatch(
+  auth: BatchAuthClient,
+  requests: BatchRequest[]
+): Promise<(BatchResponsePart | undefined)[]> {
+  if (requests.length > MAX_BATCH_SIZE) {
+    throw new Error(`A batch holds at most ${MAX_BATCH_SIZE} calls`);
+  }
+
+  const boundary = `batch_${randomBytes(12).toString("hex")}`;
+  const response = await auth.request({
+    url: BATCH_URL,
+    method: "POST",
+    headers: { "Content-Type": `multipart/mixed; boundary=${boundary}` },
+    data: buildBatchBody(requests, boundary),
+    responseType: "text",
+    retry: false,
+  });
+
+  const contentType =
+    typeof response.headers?.get === "function"
+      ? response.headers.get("content-type")
+      : response.headers?.["content-type"];
+  const parts = parseBatchResponse(String(response.data), contentType || "");
+
+  return requests.map((_, index) => parts.get(index));
+}
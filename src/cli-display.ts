@@ -1,5 +1,19 @@
 import chalk from "chalk";
-import { EmailMessage, Label } from "./types.js";
+import { htmlToText } from "./html-to-text.js";
+import {
+  BatchChunkResult,
+  DraftList,
+  DraftSummary,
+  EmailAttachment,
+  EmailContent,
+  EmailDraft,
+  EmailMessage,
+  EmailThread,
+  Label,
+  LabelRename,
+  SendAsAlias,
+  ThreadSummary,
+} from "./types.js";
 
 // HTML entity decoder utility
 function decodeHtmlEntities(text: string): string {
@@ -21,6 +35,33 @@ function decodeHtmlEntities(text: string): string {
   return text.replace(/&#?\w+;/g, (entity) => entities[entity] || entity);
 }
 
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Label IDs are shown by name when the label is known
+function labelNames(ids: string[], labels: Label[]): string {
+  return ids
+    .map((id) => labels.find((label) => label.id === id)?.name || id)
+    .join(", ");
+}
+
+function filterActionLines(action: any, labels: Label[]): string[] {
+  const lines: string[] = [];
+  if (action.addLabelIds?.length) {
+    lines.push(`Apply labels: ${labelNames(action.addLabelIds, labels)}`);
+  }
+  if (action.removeLabelIds?.length) {
+    lines.push(`Remove labels: ${labelNames(action.removeLabelIds, labels)}`);
+  }
+  if (action.forward) {
+    lines.push(`Forward to: ${action.forward}`);
+  }
+  return lines;
+}
+
 export class CLIDisplay {
   static showSearchResults(result: any): void {
     if (!result) {
@@ -47,8 +88,18 @@ export class CLIDisplay {
 
         console.log();
       });
+
+      if (result.nextPageToken) {
+        console.log(chalk.gray('More results available - say "next page" to see them'));
+      }
+      if (result.searched !== undefined) {
+        console.log(chalk.gray(`Searched ${result.searched} cached emails`));
+      }
     } else {
       console.log(chalk.yellow("\n📭 No emails found."));
+      if (result.searched !== undefined) {
+        console.log(chalk.gray(`Searched ${result.searched} cached emails`));
+      }
     }
   }
 
@@ -65,13 +116,23 @@ export class CLIDisplay {
     console.log(chalk.white(`Date: ${result.date}`));
     console.log(chalk.white(`\n--- Message ---\n`));
 
-    const body = result.body || result.snippet || "";
-    const decodedBody = decodeHtmlEntities(body);
-    console.log(decodedBody.substring(0, 2000));
+    // HTML parts are rendered (headings, lists, tables, link footnotes)
+    const body = result.bodyHtml
+      ? htmlToText(result.bodyHtml)
+      : decodeHtmlEntities(result.body || result.snippet || "");
+    console.log(body.substring(0, 2000));
 
     if (body.length > 2000) {
       console.log(chalk.gray("\n... (truncated for display)"));
     }
+
+    if (result.attachments?.length > 0) {
+      console.log(chalk.white(`\n📎 Attachments:`));
+      result.attachments.forEach((attachment: EmailAttachment) => {
+        const size = attachment.size !== undefined ? ` (${formatBytes(attachment.size)})` : "";
+        console.log(chalk.gray(`   ${attachment.filename}${size}`));
+      });
+    }
   }
 
   static showLabelsModified(result: any): void {
@@ -85,7 +146,56 @@ export class CLIDisplay {
     console.log(chalk.white(`Label name: ${result.name}`));
   }
 
-  static showFilterResult(result: any): void {
+  static showLabelUpdated(result: any): void {
+    if (result.cancelled) {
+      console.log(chalk.yellow("\n❌ Label change cancelled"));
+      return;
+    }
+
+    console.log(chalk.green(`\n✅ Label ${result.name} updated`));
+    const renamed = result.renamed || [];
+    renamed.forEach((rename: LabelRename) => {
+      console.log(chalk.gray(`   ${rename.from} → ${rename.to}`));
+    });
+  }
+
+  static showLabelDeleted(result: any): void {
+    if (result.cancelled) {
+      console.log(chalk.yellow("\n❌ Label deletion cancelled"));
+      return;
+    }
+
+    console.log(chalk.green(`\n🗑️  Label ${result.name || result.id} deleted`));
+  }
+
+  static showLabelsMerged(result: any): void {
+    if (result.cancelled) {
+      console.log(chalk.yellow("\n❌ Label merge cancelled"));
+      return;
+    }
+
+    const names = result.sources.map((l: Label) => l.name).join(", ");
+    console.log(
+      chalk.green(`\n🔀 Merged ${names} into ${result.target.name}`)
+    );
+    console.log(chalk.gray(`Moved ${result.moved} emails`));
+    if (result.filtersRewritten > 0) {
+      console.log(
+        chalk.gray(`Rewrote ${result.filtersRewritten} filters to use ${result.target.name}`)
+      );
+    }
+    if (result.failed > 0) {
+      console.log(
+        chalk.yellow(
+          `⚠️  ${result.failed} of ${result.messages} emails could not be moved; the merged labels were kept`
+        )
+      );
+    } else if (result.deletedSources.length > 0) {
+      console.log(chalk.gray(`Deleted ${names}`));
+    }
+  }
+
+  static showFilterResult(result: any, labels: Label[] = []): void {
     if (result.cancelled) {
       console.log(chalk.yellow("\n❌ Filter creation cancelled"));
       return;
@@ -102,20 +212,47 @@ export class CLIDisplay {
 
     if (result.action) {
       console.log(chalk.white("Actions:"));
-      if (result.action.addLabelIds) {
-        console.log(
-          chalk.gray(`  Apply labels: ${result.action.addLabelIds.join(", ")}`)
-        );
-      }
-      if (result.action.removeLabelIds) {
+      filterActionLines(result.action, labels).forEach((line) => {
+        console.log(chalk.gray(`  ${line}`));
+      });
+    }
+
+    const applied = result.appliedToExisting;
+    if (applied) {
+      console.log(chalk.gray(`Applied to ${applied.affected} existing emails`));
+      if (applied.failed > 0) {
         console.log(
-          chalk.gray(`  Remove labels: ${result.action.removeLabelIds.join(", ")}`)
+          chalk.yellow(`⚠️  ${applied.failed} of ${applied.matched} existing emails could not be changed`)
         );
       }
     }
   }
 
-  static showFiltersList(result: any[]): void {
+  static showFilterUpdated(result: any, labels: Label[] = []): void {
+    if (result.cancelled) {
+      console.log(chalk.yellow("\n❌ Filter change cancelled"));
+      return;
+    }
+
+    console.log(chalk.green(`\n✏️  Filter updated (new ID: ${result.id})`));
+    Object.entries(result.criteria || {}).forEach(([key, value]) => {
+      console.log(chalk.gray(`  ${key}: ${value}`));
+    });
+    filterActionLines(result.action || {}, labels).forEach((line) => {
+      console.log(chalk.gray(`  ${line}`));
+    });
+  }
+
+  static showFilterDeleted(result: any): void {
+    if (result.cancelled) {
+      console.log(chalk.yellow("\n❌ Filter deletion cancelled"));
+      return;
+    }
+
+    console.log(chalk.green(`\n🗑️  Filter ${result.filterId} deleted`));
+  }
+
+  static showFiltersList(result: any[], labels: Label[] = []): void {
     if (!result) {
       console.log(chalk.yellow("\n📋 No filters data available."));
       return;
@@ -138,12 +275,8 @@ export class CLIDisplay {
       }
       if (filter.action) {
         console.log(chalk.gray("   Actions:"));
-        Object.entries(filter.action).forEach(([key, value]) => {
-          if (Array.isArray(value)) {
-            console.log(chalk.gray(`     ${key}: ${value.join(", ")}`));
-          } else {
-            console.log(chalk.gray(`     ${key}: ${value}`));
-          }
+        filterActionLines(filter.action, labels).forEach((line) => {
+          console.log(chalk.gray(`     ${line}`));
         });
       }
       console.log();
@@ -159,15 +292,121 @@ export class CLIDisplay {
     console.log(chalk.green(`\n✅ Batch operation completed!`));
     console.log(chalk.white(`Operation: ${result.operation}`));
     console.log(chalk.gray(`Affected ${result.affected} emails`));
+
+    if (result.failed > 0) {
+      console.log(
+        chalk.yellow(`⚠️  ${result.failed} of ${result.matched} emails could not be updated:`)
+      );
+      result.chunks
+        ?.filter((chunk: BatchChunkResult) => !chunk.success)
+        .forEach((chunk: BatchChunkResult) => {
+          console.log(chalk.gray(`   Chunk ${chunk.index + 1} (${chunk.size} emails): ${chunk.error}`));
+        });
+    }
   }
 
   static showSendEmailResult(result: any): void {
     console.log(chalk.green(`\n✅ Email sent successfully!`));
+    if (result.from) {
+      console.log(chalk.gray(`From: ${result.from}`));
+    }
+    if (result.to?.length) {
+      console.log(chalk.gray(`To: ${result.to.join(", ")}`));
+    }
+    if (result.cc?.length) {
+      console.log(chalk.gray(`Cc: ${result.cc.join(", ")}`));
+    }
+    if (result.subject) {
+      console.log(chalk.gray(`Subject: ${result.subject}`));
+    }
+    if (result.attachments) {
+      console.log(chalk.gray(`Attachments: ${result.attachments}`));
+    }
     if (result.id) {
       console.log(chalk.gray(`Message ID: ${result.id}`));
     }
   }
 
+  static showDraftSaved(result: any, updated: boolean = false): void {
+    console.log(chalk.green(`\n📝 Draft ${updated ? "updated" : "saved"} - review it in Gmail before sending`));
+    if (result.to?.length) {
+      console.log(chalk.gray(`To: ${result.to.join(", ")}`));
+    }
+    if (result.subject) {
+      console.log(chalk.gray(`Subject: ${result.subject}`));
+    }
+    console.log(chalk.gray(`Draft ID: ${result.id}`));
+  }
+
+  static showDraftsList(result: DraftList): void {
+    if (!result || !result.drafts || result.drafts.length === 0) {
+      console.log(chalk.yellow("\n📝 No drafts found."));
+      return;
+    }
+
+    console.log(chalk.bold(`\n📝 Found ${result.drafts.length} drafts:\n`));
+
+    result.drafts.forEach((draft: DraftSummary, i: number) => {
+      console.log(chalk.white(`${i + 1}. ${decodeHtmlEntities(draft.subject || "(No subject)")}`));
+      console.log(chalk.gray(`   To: ${draft.to || "(no recipients)"}`));
+      if (draft.snippet) {
+        console.log(chalk.gray(`   ${decodeHtmlEntities(draft.snippet).substring(0, 80)}`));
+      }
+      console.log(chalk.gray(`   Draft ID: ${draft.id}`));
+      console.log();
+    });
+
+    if (result.nextPageToken) {
+      console.log(chalk.gray('More drafts available - say "next page" to see them'));
+    }
+  }
+
+  static showDraft(draft: EmailDraft): void {
+    const message = draft.message;
+
+    console.log(chalk.bold(`\n📝 Draft:\n`));
+    console.log(chalk.white(`Subject: ${decodeHtmlEntities(message.subject || "(No subject)")}`));
+    console.log(chalk.white(`To: ${message.to || "(no recipients)"}`));
+    if (message.cc) {
+      console.log(chalk.white(`Cc: ${message.cc}`));
+    }
+    if (message.bcc) {
+      console.log(chalk.white(`Bcc: ${message.bcc}`));
+    }
+    console.log(chalk.white(`\n--- Message ---\n`));
+    console.log(message.bodyText || (message.bodyHtml ? htmlToText(message.bodyHtml) : ""));
+
+    if (message.attachments?.length) {
+      console.log(chalk.white(`\n📎 Attachments:`));
+      message.attachments.forEach((attachment: EmailAttachment) => {
+        const size = attachment.size !== undefined ? ` (${formatBytes(attachment.size)})` : "";
+        console.log(chalk.gray(`   ${attachment.filename}${size}`));
+      });
+    }
+    console.log(chalk.gray(`\nDraft ID: ${draft.id}`));
+  }
+
+  static showDraftSent(result: any): void {
+    if (result.cancelled) {
+      console.log(chalk.yellow("\n❌ Draft not sent"));
+      return;
+    }
+
+    console.log(chalk.green(`\n✅ Draft sent successfully!`));
+    if (result.id) {
+      console.log(chalk.gray(`Message ID: ${result.id}`));
+    }
+  }
+
+  static showDraftDeleted(result: any): void {
+    if (result.cancelled) {
+      console.log(chalk.yellow("\n❌ Draft deletion cancelled"));
+      return;
+    }
+
+    console.log(chalk.green(`\n🗑️  Draft ${result.id} deleted`));
+  }
+
   static showLabelsList(labels: Label[]): void {
     if (!labels) {
       console.log(chalk.yellow("\n📋 No labels data available."));
@@ -190,4 +429,302 @@ export class CLIDisplay {
       console.log();
     });
   }
-}
\ No newline at end of file
+
+  static showThreadsList(result: any): void {
+    if (!result || !result.threads || result.threads.length === 0) {
+      console.log(chalk.yellow("\n💬 No conversations found."));
+      return;
+    }
+
+    console.log(chalk.bold(`\n💬 Found ${result.threads.length} conversations:\n`));
+
+    result.threads.forEach((thread: ThreadSummary, i: number) => {
+      const count = thread.messageCount > 1 ? ` (${thread.messageCount})` : "";
+      console.log(chalk.white(`${i + 1}. ${decodeHtmlEntities(thread.subject || "(No subject)")}${count}`));
+      console.log(chalk.gray(`   From: ${thread.from}`));
+      console.log(chalk.gray(`   Last message: ${thread.date}`));
+
+      if (thread.labelIds?.includes("UNREAD")) {
+        console.log(chalk.yellow(`   📌 Unread`));
+      }
+
+      console.log();
+    });
+
+    if (result.nextPageToken) {
+      console.log(chalk.gray('More results available - say "next page" to see them'));
+    }
+  }
+
+  /**
+   * Render a conversation with each message indented under its header.
+   * Older read messages collapse to a one-line preview; the latest message
+   * and any unread ones are expanded unless expandAll is set.
+   */
+  static showThread(thread: EmailThread, options: { expandAll?: boolean } = {}): void {
+    if (!thread || !thread.messages || thread.messages.length === 0) {
+      console.log(chalk.yellow("\n💬 No conversation content available."));
+      return;
+    }
+
+    const count = thread.messages.length;
+    console.log(chalk.bold(`\n💬 Conversation: ${decodeHtmlEntities(thread.subject || "(No subject)")}`));
+    console.log(chalk.gray(`${count} message${count > 1 ? "s" : ""}\n`));
+
+    let collapsed = 0;
+
+    thread.messages.forEach((msg: EmailContent, i: number) => {
+      const isLast = i === count - 1;
+      const expanded =
+        options.expandAll || isLast || !!msg.labelIds?.includes("UNREAD");
+
+      console.log(chalk.white(`${expanded ? "▾" : "▸"} ${i + 1}. ${msg.from || "(Unknown sender)"}`));
+      console.log(chalk.gray(`   Date: ${msg.date}`));
+
+      if (expanded) {
+        const body = decodeHtmlEntities(msg.body || msg.snippet || "");
+        body
+          .substring(0, 2000)
+          .split("\n")
+          .forEach((line) => console.log(`   │ ${line}`));
+        if (body.length > 2000) {
+          console.log(chalk.gray("   │ ... (truncated for display)"));
+        }
+      } else {
+        collapsed++;
+        const preview = decodeHtmlEntities(msg.snippet || msg.body || "");
+        console.log(chalk.gray(`     ${preview.substring(0, 80)}...`));
+      }
+
+      console.log();
+    });
+
+    if (collapsed > 0) {
+      console.log(
+        chalk.gray(`${collapsed} earlier message${collapsed > 1 ? "s" : ""} collapsed - ask to expand the conversation to see them`)
+      );
+    }
+  }
+
+  static showThreadModified(result: any): void {
+    if (result.cancelled) {
+      console.log(chalk.yellow("\n❌ Conversation update cancelled"));
+      return;
+    }
+
+    if (result.trashed) {
+      console.log(chalk.green(`\n🗑️  Conversation moved to trash`));
+    } else {
+      console.log(chalk.green(`\n✅ Conversation updated successfully!`));
+    }
+
+    if (result.messageCount) {
+      const count = result.messageCount;
+      console.log(chalk.gray(`Affected ${count} message${count > 1 ? "s" : ""} in the thread`));
+    }
+  }
+
+  static showAttachmentsDownloaded(result: any): void {
+    if (!result) {
+      console.log(chalk.yellow("\n📎 No attachment data available."));
+      return;
+    }
+
+    const { saved = [], skipped = [], failed = [] } = result;
+
+    if (saved.length === 0 && skipped.length === 0 && failed.length === 0) {
+      console.log(chalk.yellow("\n📎 No matching attachments found."));
+      return;
+    }
+
+    if (saved.length > 0) {
+      console.log(chalk.green(`\n✅ Saved ${saved.length} attachment${saved.length > 1 ? "s" : ""} to ${result.targetDir}`));
+      saved.forEach((file: any) => {
+        console.log(chalk.gray(`   ${file.filename} (${formatBytes(file.size)})`));
+      });
+    }
+
+    if (skipped.length > 0) {
+      console.log(chalk.yellow(`\n⏭️  Skipped ${skipped.length}:`));
+      skipped.forEach((file: any) => {
+        console.log(chalk.gray(`   ${file.filename} - ${file.reason}`));
+      });
+    }
+
+    if (failed.length > 0) {
+      console.log(chalk.red(`\n❌ Failed ${failed.length}:`));
+      failed.forEach((file: any) => {
+        console.log(chalk.gray(`   ${file.filename} - ${file.error}`));
+      });
+    }
+  }
+
+  static showFiltersExported(result: any): void {
+    console.log(
+      chalk.green(`\n✅ Exported ${result.exported} filters to ${result.path}`)
+    );
+    if (result.skipped?.length > 0) {
+      console.log(chalk.yellow(`⏭️  Skipped ${result.skipped.length}:`));
+      result.skipped.forEach((filter: any) => {
+        console.log(chalk.gray(`   ${filter.id} - ${filter.reason}`));
+      });
+    }
+  }
+
+  static showFiltersImported(result: any): void {
+    // e.g. from: shop@example.com → Shopping
+    const describe = (filter: any) => {
+      const criteria = Object.entries(filter.criteria || {})
+        .map(([key, value]) => `${key}: ${value}`)
+        .join(", ");
+      return filter.labels?.length
+        ? `${criteria} → ${filter.labels.join(", ")}`
+        : criteria;
+    };
+
+    if (result.cancelled) {
+      console.log(chalk.yellow("\n❌ Filter import cancelled"));
+      return;
+    }
+
+    console.log(
+      chalk.green(
+        `\n✅ ${result.dryRun ? "Would import" : "Imported"} ${result.created.length} filters from ${result.path}`
+      )
+    );
+    result.created.forEach((filter: any) => {
+      console.log(chalk.gray(`   ${describe(filter)}`));
+    });
+    if (result.createdLabels.length > 0) {
+      console.log(chalk.gray(`Created labels: ${result.createdLabels.join(", ")}`));
+    }
+    if (result.duplicates.length > 0) {
+      console.log(
+        chalk.yellow(`⏭️  Skipped ${result.duplicates.length} filters that already exist`)
+      );
+    }
+    if (result.failed.length > 0) {
+      console.log(chalk.red(`\n❌ Failed ${result.failed.length}:`));
+      result.failed.forEach((failure: any) => {
+        console.log(chalk.gray(`   ${describe(failure.filter)} - ${failure.error}`));
+      });
+    }
+  }
+
+  static showFilterAudit(result: any): void {
+    const headings: Record<string, string> = {
+      deleted_label: "Labels that no longer exist",
+      duplicate: "Exact copies",
+      subsumed: "Covered by another filter",
+      conflict: "Conflicting actions",
+      unverified_forward: "Forwards Gmail won't deliver",
+    };
+
+    if (result.findings.length === 0) {
+      console.log(chalk.green(`\n✅ All ${result.filters} filters look fine`));
+      return;
+    }
+
+    console.log(
+      chalk.bold(
+        `\n🔎 Checked ${result.filters} filters and found ${result.findings.length} problems:`
+      )
+    );
+    Object.entries(headings).forEach(([kind, heading]) => {
+      const findings = result.findings.filter((f: any) => f.kind === kind);
+      if (findings.length === 0) return;
+      console.log(chalk.white(`\n${heading} (${findings.length}):`));
+      findings.forEach((finding: any) => {
+        console.log(chalk.gray(`   - ${finding.message}`));
+      });
+    });
+
+    const fixResult = result.fixResult;
+    if (fixResult) {
+      console.log(chalk.green(`\n🔧 Fixed ${fixResult.applied.length} filters`));
+      if (fixResult.failed.length > 0) {
+        console.log(chalk.red(`\n❌ Failed ${fixResult.failed.length}:`));
+        fixResult.failed.forEach((failure: any) => {
+          console.log(chalk.gray(`   ${failure.fix.description} - ${failure.error}`));
+        });
+      }
+    } else if (result.fixes.length > 0) {
+      console.log(
+        chalk.yellow(
+          `\n${result.fixes.length} fixes suggested; no filters were changed`
+        )
+      );
+    }
+  }
+
+  static showVacation(result: any): void {
+    if (result.cancelled) {
+      console.log(chalk.yellow("\n❌ Vacation responder unchanged"));
+      return;
+    }
+
+    if (!result.enabled) {
+      console.log(chalk.white("\n🏖️  Vacation responder is off"));
+    } else {
+      console.log(chalk.green("\n🏖️  Vacation responder is on"));
+      const when = (iso?: string) => new Date(iso!).toLocaleString();
+      if (result.start) {
+        console.log(chalk.gray(`Starts: ${when(result.start)}`));
+      }
+      console.log(
+        chalk.gray(`Ends: ${result.end ? when(result.end) : "when you turn it off"}`)
+      );
+      if (result.restrictToContacts) {
+        console.log(chalk.gray("Only replies to your contacts"));
+      } else if (result.restrictToDomain) {
+        console.log(chalk.gray("Only replies to people in your domain"));
+      }
+    }
+
+    if (result.subject || result.bodyText || result.bodyHtml) {
+      console.log(chalk.white(`Subject: ${result.subject || "(No subject)"}`));
+      const body = result.bodyText || htmlToText(result.bodyHtml);
+      console.log(chalk.gray(body));
+    }
+  }
+
+  static showSendAsList(aliases: SendAsAlias[]): void {
+    console.log(chalk.bold(`\n✉️  You can send from ${aliases.length} addresses:\n`));
+    aliases.forEach((alias) => {
+      const name = alias.displayName
+        ? `${alias.displayName} <${alias.email}>`
+        : alias.email;
+      const notes = [
+        alias.isDefault ? "default" : "",
+        alias.verified ? "" : "not verified",
+      ].filter(Boolean);
+      console.log(
+        chalk.white(`${name}${notes.length ? ` (${notes.join(", ")})` : ""}`)
+      );
+      if (alias.replyTo) {
+        console.log(chalk.gray(`   Replies go to: ${alias.replyTo}`));
+      }
+      if (alias.signature) {
+        const signature = htmlToText(alias.signature).split("\n").join("\n   ");
+        console.log(chalk.gray(`   Signature:\n   ${signature}`));
+      }
+    });
+  }
+
+  static showSendAsUpdated(alias: SendAsAlias): void {
+    console.log(chalk.green(`\n✏️  Updated ${alias.email}`));
+    if (alias.displayName) {
+      console.log(chalk.gray(`Name: ${alias.displayName}`));
+    }
+    if (alias.isDefault) {
+      console.log(chalk.gray("Default address for new emails"));
+    }
+    console.log(
+      chalk.gray(
+        alias.signature
+          ? `Signature:\n${htmlToText(alias.signature)}`
+          : "No signature"
+      )
+    );
+  }
+}
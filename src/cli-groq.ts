@@ -4,25 +4,103 @@ import ora from "ora";
 import { CLIMessages } from "./cli-messages.js";
 import { CLIDisplay } from "./cli-display.js";
 import { createSystemPrompt } from "./system-prompts.js";
+import { downloadAttachments } from "./attachments.js";
+import { exportFilters, importFilters } from "./filter-xml.js";
+import { applyFilterFixes, auditFilters } from "./filter-audit.js";
+import { suggestFilters } from "./filter-suggest.js";
+import { lintQuery } from "./query-linter.js";
+import type { GmailAccounts } from "./gmail-service.js";
+import {
+  accountFromArgs,
+  defaultAccount,
+  listAccounts,
+  validateAccountName,
+} from "./accounts.js";
 import {
   ChatMessage,
   // ToolCall,
   // ChatResponse,
   EmailMessage,
+  FilterPreview,
   Label,
+  LabelImpact,
+  BatchProgress,
+  SendAsAlias,
+  VacationSettings,
   // SearchResult
 } from "./types.js";
 
+// shared by create_filter and update_filter
+const FILTER_CRITERIA_PARAMETER = {
+  type: "object",
+  properties: {
+    from: {
+      type: "string",
+      description:
+        'Filter emails from this address/domain (e.g., "*@email.shopify.com")',
+    },
+    to: {
+      type: "string",
+      description: "Filter emails to this address",
+    },
+    subject: {
+      type: "string",
+      description: "Filter emails with this in subject",
+    },
+    query: {
+      type: "string",
+      description: "Gmail search query for complex filters",
+    },
+    hasAttachment: {
+      type: "boolean",
+      description: "Filter emails with attachments",
+    },
+  },
+  description: "Criteria for the filter",
+};
+
+const FILTER_ACTION_PARAMETER = {
+  type: "object",
+  properties: {
+    addLabelIds: {
+      type: "array",
+      items: { type: "string" },
+      description: "Label IDs to apply to matching emails",
+    },
+    removeLabelIds: {
+      type: "array",
+      items: { type: "string" },
+      description:
+        "Label IDs to remove (use carefully - INBOX means skip inbox/archive)",
+    },
+    forward: {
+      type: "string",
+      description: "Forward to this email address",
+    },
+  },
+  description: "Actions to perform on matching emails",
+};
+
 class GmailAICLI {
   private groq: Groq;
+  private account: string;
+  private accounts: GmailAccounts | null = null;
   private gmailService: any = null; // TODO: Type this properly when gmail-service is typed
   private lastEmailIds: string[] = [];
   private lastSearchResults: EmailMessage[] = [];
+  private lastSearchQuery: string | null = null;
+  private lastSearchMaxResults = 10;
+  private lastNextPageToken: string | null = null;
   private lastReadEmailId: string | null = null;
+  private lastThreadId: string | null = null;
+  private lastDraftIds: string[] = [];
+  private lastFilterIds: string[] = [];
+  private lastDraftId: string | null = null;
   private conversationHistory: ChatMessage[] = [];
   private labelsCache: Label[] = [];
 
-  constructor() {
+  constructor(account: string = defaultAccount()) {
+    this.account = account;
     const apiKey = process.env.GROQ_API_KEY;
     if (!apiKey) {
       CLIMessages.showApiKeyError();
@@ -34,15 +112,50 @@ class GmailAICLI {
 
   private async initializeGmailService() {
     if (!this.gmailService) {
-      const { GmailService } = await import("./gmail-service.js");
-      this.gmailService = new GmailService();
-      await this.gmailService.initialize();
+      if (!this.accounts) {
+        const { GmailAccounts } = await import("./gmail-service.js");
+        this.accounts = new GmailAccounts({ cache: true }, this.account);
+      }
+      this.gmailService = await this.accounts.get(this.account);
       // cache labels on initialization
       await this.refreshLabelsCache();
     }
     return this.gmailService;
   }
 
+  // Use another account. What was found or read so far belongs to the
+  // old one, so the conversation starts over.
+  private async switchAccount(account: string): Promise<void> {
+    const previous = { account: this.account, service: this.gmailService };
+    const spinner = ora(`Connecting to ${account}...`).start();
+    try {
+      this.account = validateAccountName(account);
+      this.gmailService = null;
+      await this.initializeGmailService();
+      spinner.stop();
+    } catch (error: any) {
+      spinner.stop();
+      this.account = previous.account;
+      this.gmailService = previous.service;
+      CLIMessages.showError(
+        `Could not switch to ${account}: ${error.message || error}`
+      );
+      return;
+    }
+
+    this.lastEmailIds = [];
+    this.lastSearchResults = [];
+    this.lastSearchQuery = null;
+    this.lastNextPageToken = null;
+    this.lastReadEmailId = null;
+    this.lastThreadId = null;
+    this.lastDraftIds = [];
+    this.lastFilterIds = [];
+    this.lastDraftId = null;
+    this.conversationHistory = [];
+    CLIMessages.showGmailConnected(this.account);
+  }
+
   private async refreshLabelsCache() {
     try {
       this.labelsCache = await this.gmailService.listLabels();
@@ -58,6 +171,206 @@ class GmailAICLI {
     return label ? label.id : null;
   }
 
+  // Convert label names to IDs, skipping (with a warning) any that don't exist
+  private async resolveLabelIds(labels: string[]): Promise<string[]> {
+    const labelIds = await Promise.all(
+      labels.map(async (label: string) => {
+        // System labels are already IDs
+        if (label.toUpperCase() === label || label.startsWith("Label_")) {
+          return label;
+        }
+        // Look up custom label ID by name
+        const labelId = this.getLabelIdByName(label);
+        if (labelId) {
+          return labelId;
+        }
+        // If not found, refresh cache and try again
+        await this.refreshLabelsCache();
+        const refreshedId = this.getLabelIdByName(label);
+        if (refreshedId) {
+          return refreshedId;
+        }
+        CLIMessages.showWarning(`Label "${label}" not found. Skipping.`);
+        return null;
+      })
+    );
+    return labelIds.filter((id): id is string => id !== null);
+  }
+
+  // Resolve contextual message references ("this", "first", "2") to message IDs
+  private resolveMessageId(messageRef: string): string {
+    if (
+      ["this", "it", "current", "last_read"].includes(messageRef) &&
+      this.lastReadEmailId
+    ) {
+      return this.lastReadEmailId;
+    }
+    if (
+      (messageRef === "first" || messageRef === "latest" || messageRef === "last") &&
+      this.lastEmailIds.length > 0
+    ) {
+      return this.lastEmailIds[0];
+    }
+    if (!isNaN(parseInt(messageRef))) {
+      const index = parseInt(messageRef) - 1;
+      if (index >= 0 && index < this.lastEmailIds.length) {
+        return this.lastEmailIds[index];
+      }
+    }
+    return messageRef;
+  }
+
+  // Resolve contextual thread references ("this", "first", "2") to thread IDs
+  private resolveThreadId(threadRef: string): string {
+    if (
+      ["this", "it", "current", "last_read"].includes(threadRef) &&
+      this.lastThreadId
+    ) {
+      return this.lastThreadId;
+    }
+    if (
+      (threadRef === "first" || threadRef === "latest" || threadRef === "last") &&
+      this.lastSearchResults[0]?.threadId
+    ) {
+      return this.lastSearchResults[0].threadId;
+    }
+    if (!isNaN(parseInt(threadRef))) {
+      const index = parseInt(threadRef) - 1;
+      const threadId = this.lastSearchResults[index]?.threadId;
+      if (threadId) {
+        return threadId;
+      }
+    }
+    return threadRef;
+  }
+
+  // Resolve contextual draft references ("this", "first", "2") to draft IDs
+  private resolveDraftId(draftRef: string): string {
+    if (["this", "it", "current", "last"].includes(draftRef) && this.lastDraftId) {
+      return this.lastDraftId;
+    }
+    if (draftRef === "first" && this.lastDraftIds.length > 0) {
+      return this.lastDraftIds[0];
+    }
+    if (!isNaN(parseInt(draftRef))) {
+      const index = parseInt(draftRef) - 1;
+      if (index >= 0 && index < this.lastDraftIds.length) {
+        return this.lastDraftIds[index];
+      }
+    }
+    return draftRef;
+  }
+
+  // Resolve a filter's number in the last list ("1", "2") to its ID
+  private resolveFilterId(filterRef: string): string {
+    if (/^\d+$/.test(filterRef)) {
+      const index = parseInt(filterRef) - 1;
+      if (index >= 0 && index < this.lastFilterIds.length) {
+        return this.lastFilterIds[index];
+      }
+    }
+    return filterRef;
+  }
+
+  // Convert filter label names to IDs; a filter can't use a missing label
+  private async filterLabelIds(labels: string[]): Promise<string[]> {
+    return Promise.all(
+      labels.map(async (label: string) => {
+        if (label.toUpperCase() === label) return label; // System label
+        const labelId = this.getLabelIdByName(label);
+        if (!labelId) {
+          await this.refreshLabelsCache();
+          const refreshedId = this.getLabelIdByName(label);
+          if (!refreshedId) {
+            throw new Error(`Label not found: ${label}`);
+          }
+          return refreshedId;
+        }
+        return labelId;
+      })
+    );
+  }
+
+  // e.g. from: shop@example.com → apply "Shopping", skip inbox
+  private describeFilter(filter: any): string {
+    const labelName = (id: string) =>
+      this.labelsCache.find((l) => l.id === id)?.name || id;
+    const criteria = Object.entries(filter.criteria || {}).map(
+      ([key, value]) => `${key}: ${value}`
+    );
+    const actions: string[] = [];
+    for (const id of filter.action?.addLabelIds || []) {
+      actions.push(`apply "${labelName(id)}"`);
+    }
+    for (const id of filter.action?.removeLabelIds || []) {
+      actions.push(id === "INBOX" ? "skip inbox" : `remove "${labelName(id)}"`);
+    }
+    if (filter.action?.forward) {
+      actions.push(`forward to ${filter.action.forward}`);
+    }
+    return `${criteria.join(", ")} → ${actions.join(", ") || "no actions"}`;
+  }
+
+  // e.g. Matches 42 existing emails, including:
+  //   - Your order has shipped (Shop <shop@example.com>)
+  private describeFilterPreview(preview: FilterPreview): string {
+    if (preview.total === 0) {
+      return `No existing emails match "${preview.query}"`;
+    }
+    const lines = preview.sample.map(
+      (msg) => `  - ${msg.subject || "(No subject)"} (${msg.from})`
+    );
+    const count = preview.capped ? `${preview.total}+` : String(preview.total);
+    return [
+      `Matches ${count} existing email${preview.total === 1 ? "" : "s"}, including:`,
+      ...lines,
+    ].join("\n");
+  }
+
+  // the auto-reply as the people writing in will get it
+  private describeVacation(settings: VacationSettings): string {
+    const when = (iso?: string) => (iso ? new Date(iso).toLocaleString() : "");
+    const lines = [
+      settings.start || settings.end
+        ? `From ${when(settings.start) || "now"} until ${when(settings.end) || "turned off"}`
+        : "From now until turned off",
+      settings.restrictToContacts
+        ? "Only to people in your contacts"
+        : settings.restrictToDomain
+          ? "Only to people in your domain"
+          : "To everyone who writes",
+      `Subject: ${settings.subject || "(No subject)"}`,
+      settings.bodyText || settings.bodyHtml || "",
+    ];
+    return `\n${lines.join("\n")}`;
+  }
+
+  // e.g. 12 messages in "Work", 30 messages in 2 sub-labels: Work/A, Work/B
+  private describeLabelImpact(impact: LabelImpact): string {
+    const plural = (count: number, word: string) =>
+      `${count} ${word}${count === 1 ? "" : "s"}`;
+    let details = `${plural(impact.messages, "message")} in "${impact.label.name}"`;
+    if (impact.sublabels.length > 0) {
+      const nested = impact.sublabels.reduce((sum, l) => sum + l.messages, 0);
+      details += `, ${plural(nested, "message")} in ${plural(
+        impact.sublabels.length,
+        "sub-label"
+      )}: ${impact.sublabels.map((l) => l.name).join(", ")}`;
+    }
+    return details;
+  }
+
+  // Check a model-written query against Gmail's grammar and our labels.
+  // Corrections are shown to the user; anything ambiguous throws so the
+  // model can rewrite the query.
+  private checkQuery(query: string, allowEmpty: boolean = false): string {
+    const checked = lintQuery(query, { labels: this.labelsCache, allowEmpty });
+    if (checked.fixes.length > 0) {
+      CLIMessages.showQueryCorrected(checked.query, checked.fixes);
+    }
+    return checked.query;
+  }
+
   private getTools() {
     return [
       {
@@ -79,6 +392,35 @@ class GmailAICLI {
                 description: "Max number of results to return",
                 default: 10,
               },
+              pageToken: {
+                type: "string",
+                description:
+                  'Use "next" to fetch the next page of the previous search (for "show me more" or "next page")',
+              },
+            },
+            required: ["query"],
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "local_search",
+          description:
+            "Ranked full-text search over emails cached on this machine. Use when Gmail search is too coarse: exact phrases, words near each other, or regular expressions over message bodies. Works offline, but only covers emails that were searched or read before.",
+          parameters: {
+            type: "object",
+            properties: {
+              query: {
+                type: "string",
+                description:
+                  'Local search query. Words must all match; "exact phrase"; "word1 word2"~5 for words within 5 words of each other; /regex/i over the text; subject:, from:, to:, body: restrict a term to one field; -word excludes; budg* matches a prefix.',
+              },
+              maxResults: {
+                type: "number",
+                description: "Max number of results to return",
+                default: 10,
+              },
             },
             required: ["query"],
           },
@@ -103,6 +445,125 @@ class GmailAICLI {
           },
         },
       },
+      {
+        type: "function" as const,
+        function: {
+          name: "list_threads",
+          description:
+            "List conversations (threads) matching a Gmail query. Use when the user asks about conversations rather than individual emails.",
+          parameters: {
+            type: "object",
+            properties: {
+              query: {
+                type: "string",
+                description: "Gmail search query",
+              },
+              maxResults: {
+                type: "number",
+                description: "Max number of threads to return",
+                default: 10,
+              },
+            },
+            required: ["query"],
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "get_thread",
+          description:
+            "Show a whole conversation with every message in it. Use for 'show the conversation', 'show the whole thread', 'what did they reply'.",
+          parameters: {
+            type: "object",
+            properties: {
+              threadId: {
+                type: "string",
+                description:
+                  "Thread ID, OR contextual reference: 'this' (thread of the last read email), 'first' (thread of the first search result), '1', '2', etc.",
+              },
+              expandAll: {
+                type: "boolean",
+                description:
+                  "Show every message in full instead of collapsing older ones",
+              },
+            },
+            required: ["threadId"],
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "modify_thread",
+          description:
+            "Add or remove labels on a whole conversation, or move the whole conversation to trash",
+          parameters: {
+            type: "object",
+            properties: {
+              threadId: {
+                type: "string",
+                description:
+                  "Thread ID, OR contextual reference: 'this', 'first', '1', '2', etc.",
+              },
+              addLabels: {
+                type: "array",
+                items: { type: "string" },
+                description: "Labels to add (names or IDs)",
+              },
+              removeLabels: {
+                type: "array",
+                items: { type: "string" },
+                description:
+                  'Labels to remove (names or IDs). "INBOX" archives the conversation',
+              },
+              trash: {
+                type: "boolean",
+                description: "Move the whole conversation to trash",
+              },
+            },
+            required: ["threadId"],
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "download_attachments",
+          description:
+            "Save email attachments to disk. Use for 'save the PDF from that email', 'download the attachments', 'save all invoices from Stripe'.",
+          parameters: {
+            type: "object",
+            properties: {
+              messageId: {
+                type: "string",
+                description:
+                  "Message to save attachments from. Use actual message ID OR contextual reference: 'this' (last read email), 'first', '1', '2', etc.",
+              },
+              query: {
+                type: "string",
+                description:
+                  "Gmail search query; saves attachments of every matching email. Use instead of messageId for 'all attachments from X'",
+              },
+              filename: {
+                type: "string",
+                description:
+                  "Only save attachments whose filename contains this text",
+              },
+              mimeType: {
+                type: "string",
+                description:
+                  'Only save attachments of this type, e.g. "pdf", "jpg", "application/pdf"',
+              },
+              targetDir: {
+                type: "string",
+                description:
+                  "Directory to save into. Omit unless the user names one (default: ./attachments)",
+              },
+            },
+          },
+        },
+      },
       {
         type: "function" as const,
         function: {
@@ -190,6 +651,37 @@ class GmailAICLI {
                 items: { type: "string" },
                 description: "CC recipients (optional)",
               },
+              bcc: {
+                type: "array",
+                items: { type: "string" },
+                description: "BCC recipients (optional)",
+              },
+              replyTo: {
+                type: "string",
+                description:
+                  "Address replies should go to, if different from the sender (optional)",
+              },
+              html: {
+                type: "string",
+                description:
+                  "HTML version of the body (optional). Only when the user asks for formatting",
+              },
+              attachments: {
+                type: "array",
+                items: { type: "string" },
+                description:
+                  "Local file paths to attach, exactly as the user named them (optional)",
+              },
+              from: {
+                type: "string",
+                description:
+                  'Send-as address to send from, e.g. a shared support alias (optional). Call list_send_as if unsure which addresses exist',
+              },
+              includeSignature: {
+                type: "boolean",
+                description:
+                  "Append the sending address's signature (optional). Use when the user asks for their signature",
+              },
             },
             required: ["to", "subject", "body"],
           },
@@ -198,99 +690,689 @@ class GmailAICLI {
       {
         type: "function" as const,
         function: {
-          name: "list_labels",
-          description: "List all available Gmail labels in the account",
+          name: "reply_email",
+          description:
+            "Reply to the sender of an email, in the same conversation. Use for 'reply to this', 'tell them ...'.",
           parameters: {
             type: "object",
-            properties: {},
+            properties: {
+              messageId: {
+                type: "string",
+                description:
+                  "Message to reply to. Use 'this' for the last read email, or an actual message ID, 'first', '1', '2', etc.",
+              },
+              body: {
+                type: "string",
+                description:
+                  "Reply text only; the original message is quoted automatically",
+              },
+              cc: {
+                type: "array",
+                items: { type: "string" },
+                description: "Additional CC recipients (optional)",
+              },
+              attachments: {
+                type: "array",
+                items: { type: "string" },
+                description:
+                  "Local file paths to attach, exactly as the user named them (optional)",
+              },
+            },
+            required: ["messageId", "body"],
           },
         },
       },
       {
         type: "function" as const,
         function: {
-          name: "create_label",
-          description: "Create a new Gmail label",
+          name: "reply_all_email",
+          description:
+            "Reply to the sender and all other recipients of an email. Use only when the user says 'reply all' or 'reply to everyone'.",
           parameters: {
             type: "object",
             properties: {
-              name: {
+              messageId: {
                 type: "string",
                 description:
-                  'Name for the new label. Use "/" for nested labels (e.g., "Work/Shopify")',
+                  "Message to reply to. Use 'this' for the last read email, or an actual message ID, 'first', '1', '2', etc.",
+              },
+              body: {
+                type: "string",
+                description:
+                  "Reply text only; the original message is quoted automatically",
+              },
+              cc: {
+                type: "array",
+                items: { type: "string" },
+                description: "Additional CC recipients (optional)",
+              },
+              attachments: {
+                type: "array",
+                items: { type: "string" },
+                description:
+                  "Local file paths to attach, exactly as the user named them (optional)",
               },
             },
-            required: ["name"],
+            required: ["messageId", "body"],
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "forward_email",
+          description:
+            "Forward an email (with its attachments) to other people. Use for 'forward this to ...'.",
+          parameters: {
+            type: "object",
+            properties: {
+              messageId: {
+                type: "string",
+                description:
+                  "Message to forward. Use 'this' for the last read email, or an actual message ID, 'first', '1', '2', etc.",
+              },
+              to: {
+                type: "array",
+                items: { type: "string" },
+                description: "Recipient email addresses",
+              },
+              body: {
+                type: "string",
+                description: "Optional note above the forwarded message",
+              },
+              includeAttachments: {
+                type: "boolean",
+                description: "Forward the original attachments (default true)",
+              },
+            },
+            required: ["messageId", "to"],
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "create_draft",
+          description:
+            "Save an email as a draft instead of sending it. Use for 'draft', 'write a draft', 'prepare an email for me to review'.",
+          parameters: {
+            type: "object",
+            properties: {
+              to: {
+                type: "array",
+                items: { type: "string" },
+                description: "Recipient email addresses",
+              },
+              subject: {
+                type: "string",
+                description: "Email subject line",
+              },
+              body: {
+                type: "string",
+                description: "Email body content",
+              },
+              cc: {
+                type: "array",
+                items: { type: "string" },
+                description: "CC recipients (optional)",
+              },
+              bcc: {
+                type: "array",
+                items: { type: "string" },
+                description: "BCC recipients (optional)",
+              },
+              html: {
+                type: "string",
+                description:
+                  "HTML version of the body (optional). Only when the user asks for formatting",
+              },
+              attachments: {
+                type: "array",
+                items: { type: "string" },
+                description:
+                  "Local file paths to attach, exactly as the user named them (optional)",
+              },
+              from: {
+                type: "string",
+                description:
+                  "Send-as address to write from, e.g. a shared support alias (optional). Call list_send_as if unsure which addresses exist",
+              },
+              includeSignature: {
+                type: "boolean",
+                description:
+                  "Append the sending address's signature (optional). Use when the user asks for their signature",
+              },
+            },
+            required: ["to", "subject", "body"],
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "list_drafts",
+          description: "List saved drafts",
+          parameters: {
+            type: "object",
+            properties: {
+              query: {
+                type: "string",
+                description: "Optional Gmail search query to filter drafts",
+              },
+              maxResults: {
+                type: "number",
+                description: "Maximum number of drafts (default: 10)",
+              },
+            },
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "get_draft",
+          description: "Show the full content of a draft",
+          parameters: {
+            type: "object",
+            properties: {
+              draftId: {
+                type: "string",
+                description:
+                  "Draft to use. Use 'this' for the last created or viewed draft, 'first', '1', '2' from the last draft list, or an actual draft ID",
+              },
+            },
+            required: ["draftId"],
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "update_draft",
+          description:
+            "Change a draft. Only pass the fields that change; everything else is kept. Attachments are added to the existing ones.",
+          parameters: {
+            type: "object",
+            properties: {
+              draftId: {
+                type: "string",
+                description:
+                  "Draft to use. Use 'this' for the last created or viewed draft, 'first', '1', '2' from the last draft list, or an actual draft ID",
+              },
+              to: {
+                type: "array",
+                items: { type: "string" },
+                description: "New recipient list (optional)",
+              },
+              subject: {
+                type: "string",
+                description: "New subject (optional)",
+              },
+              body: {
+                type: "string",
+                description: "New full body text (optional)",
+              },
+              cc: {
+                type: "array",
+                items: { type: "string" },
+                description: "CC recipients (optional)",
+              },
+              bcc: {
+                type: "array",
+                items: { type: "string" },
+                description: "BCC recipients (optional)",
+              },
+              html: {
+                type: "string",
+                description:
+                  "HTML version of the body (optional). Only when the user asks for formatting",
+              },
+              attachments: {
+                type: "array",
+                items: { type: "string" },
+                description: "Local file paths to add (optional)",
+              },
+              from: {
+                type: "string",
+                description:
+                  "Send-as address to send the draft from (optional); keeps the current sender when left out",
+              },
+              includeSignature: {
+                type: "boolean",
+                description:
+                  "Append the sender's signature to the body (optional)",
+              },
+            },
+            required: ["draftId"],
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "send_draft",
+          description: "Send a saved draft",
+          parameters: {
+            type: "object",
+            properties: {
+              draftId: {
+                type: "string",
+                description:
+                  "Draft to use. Use 'this' for the last created or viewed draft, 'first', '1', '2' from the last draft list, or an actual draft ID",
+              },
+            },
+            required: ["draftId"],
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "delete_draft",
+          description: "Delete a saved draft",
+          parameters: {
+            type: "object",
+            properties: {
+              draftId: {
+                type: "string",
+                description:
+                  "Draft to use. Use 'this' for the last created or viewed draft, 'first', '1', '2' from the last draft list, or an actual draft ID",
+              },
+            },
+            required: ["draftId"],
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "list_labels",
+          description: "List all available Gmail labels in the account",
+          parameters: {
+            type: "object",
+            properties: {},
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "create_label",
+          description: "Create a new Gmail label",
+          parameters: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                description:
+                  'Name for the new label. Use "/" for nested labels (e.g., "Work/Shopify")',
+              },
+              color: {
+                type: "object",
+                description:
+                  "Label color from Gmail's palette, as hex codes (e.g., textColor #ffffff on backgroundColor #16a765)",
+                properties: {
+                  textColor: { type: "string" },
+                  backgroundColor: { type: "string" },
+                },
+                required: ["textColor", "backgroundColor"],
+              },
+              labelListVisibility: {
+                type: "string",
+                enum: ["labelShow", "labelShowIfUnread", "labelHide"],
+                description:
+                  'Whether the label shows in the label list ("hide the label" → labelHide)',
+              },
+              messageListVisibility: {
+                type: "string",
+                enum: ["show", "hide"],
+                description: "Whether the label shows on messages",
+              },
+            },
+            required: ["name"],
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "update_label",
+          description:
+            "Rename, recolor or hide/show an existing label. Only the given fields change. Renaming moves every sub-label along (renaming Work moves Work/Shopify); the user is asked to confirm renames.",
+          parameters: {
+            type: "object",
+            properties: {
+              labelId: {
+                type: "string",
+                description: "Current label name or ID",
+              },
+              name: {
+                type: "string",
+                description:
+                  'New name. Use "/" to nest it under another label (e.g., "Work/Shopify")',
+              },
+              color: {
+                type: "object",
+                description:
+                  "Label color from Gmail's palette, as hex codes (e.g., textColor #ffffff on backgroundColor #16a765)",
+                properties: {
+                  textColor: { type: "string" },
+                  backgroundColor: { type: "string" },
+                },
+                required: ["textColor", "backgroundColor"],
+              },
+              labelListVisibility: {
+                type: "string",
+                enum: ["labelShow", "labelShowIfUnread", "labelHide"],
+                description:
+                  'Whether the label shows in the label list ("hide the label" → labelHide)',
+              },
+              messageListVisibility: {
+                type: "string",
+                enum: ["show", "hide"],
+                description: "Whether the label shows on messages",
+              },
+            },
+            required: ["labelId"],
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "delete_label",
+          description:
+            "Delete a label. Messages keep their other labels; sub-labels are not deleted. The user is asked to confirm. Only use when the user explicitly asks to delete or remove a label.",
+          parameters: {
+            type: "object",
+            properties: {
+              labelId: {
+                type: "string",
+                description: "Label name or ID",
+              },
+            },
+            required: ["labelId"],
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "merge_labels",
+          description:
+            "Merge labels into another label: their messages get the target label instead, and filters that apply them are pointed at the target. The user sees message and filter counts and is asked to confirm.",
+          parameters: {
+            type: "object",
+            properties: {
+              sourceLabels: {
+                type: "array",
+                items: { type: "string" },
+                description: "Names or IDs of the labels to merge away",
+              },
+              targetLabel: {
+                type: "string",
+                description: "Name or ID of the label to merge them into",
+              },
+              deleteSources: {
+                type: "boolean",
+                description:
+                  "Delete the source labels afterwards (when the user says merge/combine/consolidate, default true; false if they want to keep them)",
+              },
+            },
+            required: ["sourceLabels", "targetLabel"],
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "create_filter",
+          description:
+            "Create a Gmail filter to automatically process incoming emails",
+          parameters: {
+            type: "object",
+            properties: {
+              criteria: FILTER_CRITERIA_PARAMETER,
+              action: FILTER_ACTION_PARAMETER,
+            },
+            required: ["criteria", "action"],
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "filter_from_email",
+          description:
+            'Create a filter for "emails like this one": proposes criteria from the email\'s sender, mailing list, recipient alias and subject, with how many existing emails each matches, and lets the user pick one',
+          parameters: {
+            type: "object",
+            properties: {
+              messageId: {
+                type: "string",
+                description:
+                  'The example email: an ID, "this" for the email just read, or a number from the last search (default: the email just read)',
+              },
+              action: FILTER_ACTION_PARAMETER,
+            },
+            required: ["action"],
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "list_filters",
+          description: "List all existing Gmail filters",
+          parameters: {
+            type: "object",
+            properties: {},
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "update_filter",
+          description:
+            "Change an existing filter. Only pass the criteria and action fields that change; the rest are kept. An empty string or list clears a field. The filter gets a new ID.",
+          parameters: {
+            type: "object",
+            properties: {
+              filterId: {
+                type: "string",
+                description:
+                  'Filter ID, or its number from the last list_filters ("1", "2")',
+              },
+              criteria: FILTER_CRITERIA_PARAMETER,
+              action: FILTER_ACTION_PARAMETER,
+            },
+            required: ["filterId"],
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "delete_filter",
+          description:
+            "Delete a filter. The user is asked to confirm. Only use when the user explicitly asks to delete or remove a filter.",
+          parameters: {
+            type: "object",
+            properties: {
+              filterId: {
+                type: "string",
+                description:
+                  'Filter ID, or its number from the last list_filters ("1", "2")',
+              },
+            },
+            required: ["filterId"],
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "export_filters",
+          description:
+            "Save every filter to a mailFilters.xml file that Gmail (Settings → Filters → Import) or import_filters can load into another account, or to a Sieve script for other mail servers",
+          parameters: {
+            type: "object",
+            properties: {
+              path: {
+                type: "string",
+                description:
+                  "File to write. Omit unless the user names one (default: ./mailFilters.xml, or ./gmail-filters.sieve)",
+              },
+              format: {
+                type: "string",
+                enum: ["xml", "sieve"],
+                description:
+                  'Use "sieve" when the user mentions Sieve, Dovecot or another mail server',
+              },
+            },
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "import_filters",
+          description:
+            "Create the filters from a mailFilters.xml file. Missing labels are created and filters that already exist are skipped; the user is asked to confirm.",
+          parameters: {
+            type: "object",
+            properties: {
+              path: {
+                type: "string",
+                description:
+                  "File to read. Omit unless the user names one (default: ./mailFilters.xml)",
+              },
+            },
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "audit_filters",
+          description:
+            "Check every filter for deleted labels, duplicates, filters another filter already covers, conflicting actions and forwards to unverified addresses. Explains each problem and offers to fix them all with one confirmation.",
+          parameters: {
+            type: "object",
+            properties: {},
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "list_send_as",
+          description:
+            "List the addresses the user can send from (their own and aliases such as support@), with signatures",
+          parameters: {
+            type: "object",
+            properties: {},
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "update_send_as",
+          description:
+            "Change the signature, display name or reply-to address of a send-as address, or make it the default",
+          parameters: {
+            type: "object",
+            properties: {
+              email: {
+                type: "string",
+                description:
+                  "The send-as address to change (default: the default address)",
+              },
+              displayName: {
+                type: "string",
+                description: "Name recipients see",
+              },
+              replyTo: {
+                type: "string",
+                description: 'Address replies should go to; "" to remove',
+              },
+              signature: {
+                type: "string",
+                description:
+                  'The complete new signature as plain text with line breaks; "" to remove',
+              },
+              isDefault: {
+                type: "boolean",
+                description: "Make this the address new emails are sent from",
+              },
+            },
+          },
+        },
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "get_vacation",
+          description:
+            "Show the vacation (out-of-office) auto-reply: whether it is on, its message, dates and who gets it",
+          parameters: {
+            type: "object",
+            properties: {},
           },
         },
       },
       {
         type: "function" as const,
         function: {
-          name: "create_filter",
+          name: "set_vacation",
           description:
-            "Create a Gmail filter to automatically process incoming emails",
+            "Turn on the vacation (out-of-office) auto-reply. Fields left out keep their current values, except the dates. The user sees a preview and confirms first.",
           parameters: {
             type: "object",
             properties: {
-              criteria: {
-                type: "object",
-                properties: {
-                  from: {
-                    type: "string",
-                    description:
-                      'Filter emails from this address/domain (e.g., "*@email.shopify.com")',
-                  },
-                  to: {
-                    type: "string",
-                    description: "Filter emails to this address",
-                  },
-                  subject: {
-                    type: "string",
-                    description: "Filter emails with this in subject",
-                  },
-                  query: {
-                    type: "string",
-                    description: "Gmail search query for complex filters",
-                  },
-                  hasAttachment: {
-                    type: "boolean",
-                    description: "Filter emails with attachments",
-                  },
-                },
-                description: "Criteria for the filter",
+              subject: {
+                type: "string",
+                description: 'Subject of the reply, e.g. "Out of office"',
               },
-              action: {
-                type: "object",
-                properties: {
-                  addLabelIds: {
-                    type: "array",
-                    items: { type: "string" },
-                    description: "Label IDs to apply to matching emails",
-                  },
-                  removeLabelIds: {
-                    type: "array",
-                    items: { type: "string" },
-                    description:
-                      "Label IDs to remove (use carefully - INBOX means skip inbox/archive)",
-                  },
-                  forward: {
-                    type: "string",
-                    description: "Forward to this email address",
-                  },
-                },
-                description: "Actions to perform on matching emails",
+              bodyText: {
+                type: "string",
+                description: "The reply message, written as the user",
+              },
+              bodyHtml: {
+                type: "string",
+                description: "HTML version of the message, only if the user asks for formatting",
+              },
+              startDate: {
+                type: "string",
+                description:
+                  'First day away as YYYY-MM-DD (omit or "" to start now)',
+              },
+              endDate: {
+                type: "string",
+                description:
+                  'Last day away as YYYY-MM-DD; "back Monday" means the day before. Omit or "" to keep replying until turned off',
+              },
+              restrictToContacts: {
+                type: "boolean",
+                description: "Only reply to people in the user's contacts",
+              },
+              restrictToDomain: {
+                type: "boolean",
+                description:
+                  "Only reply to people in the user's own domain (Google Workspace)",
               },
             },
-            required: ["criteria", "action"],
           },
         },
       },
       {
         type: "function" as const,
         function: {
-          name: "list_filters",
-          description: "List all existing Gmail filters",
+          name: "disable_vacation",
+          description:
+            "Turn off the vacation (out-of-office) auto-reply, keeping its message for next time",
           parameters: {
             type: "object",
             properties: {},
@@ -339,6 +1421,88 @@ class GmailAICLI {
     return confirmed;
   }
 
+  // Create a filter after showing what it would catch, then offer to run
+  // it over the existing matches; shared by create_filter and
+  // filter_from_email
+  private async createFilterWithPreview(
+    service: any,
+    filter: { criteria: any; action: any },
+    spinner?: any
+  ): Promise<any> {
+    const action = filter.action || {};
+    if (
+      !action.addLabelIds?.length &&
+      !action.removeLabelIds?.length &&
+      !action.forward
+    ) {
+      throw new Error(
+        "The filter needs an action: a label to apply, a label to remove or an address to forward to"
+      );
+    }
+    filter.action = action;
+
+    // Convert label names to IDs in the action
+    if (filter.action.addLabelIds) {
+      filter.action.addLabelIds = await this.filterLabelIds(
+        filter.action.addLabelIds
+      );
+    }
+
+    // Show what the filter would catch before creating it
+    const preview = await service.previewFilter(filter.criteria);
+    const archives = filter.action.removeLabelIds?.includes("INBOX");
+    const createConfirmed = await this.confirmAction(
+      archives
+        ? "Create filter that archives emails"
+        : "Create filter",
+      [
+        this.describeFilter(filter),
+        archives
+          ? "Emails matching this filter will skip the inbox (be archived automatically)"
+          : "",
+        this.describeFilterPreview(preview),
+      ]
+        .filter(Boolean)
+        .join("\n"),
+      spinner
+    );
+    if (!createConfirmed) {
+      return { cancelled: true };
+    }
+
+    const createdFilter = await service.createFilter(
+      filter.criteria,
+      filter.action
+    );
+
+    // Offer to do what Gmail's "also apply to matching conversations" does
+    const changesLabels =
+      filter.action.addLabelIds?.length || filter.action.removeLabelIds?.length;
+    if (preview.total === 0 || !changesLabels) {
+      return createdFilter;
+    }
+    const applyConfirmed = await this.confirmAction(
+      "Apply filter to existing emails",
+      `${this.describeFilter(filter)} for the ${preview.total} emails matching "${preview.query}"`,
+      spinner
+    );
+    if (!applyConfirmed) {
+      return createdFilter;
+    }
+    const applied = await service.applyFilterToExisting(
+      filter.criteria,
+      filter.action,
+      {
+        onProgress: (progress: BatchProgress) => {
+          if (spinner) {
+            spinner.text = `Applied filter to ${progress.processed}/${progress.total} emails...`;
+          }
+        },
+      }
+    );
+    return { ...createdFilter, appliedToExisting: applied };
+  }
+
   private async callTool(
     toolName: string,
     args: any,
@@ -348,17 +1512,50 @@ class GmailAICLI {
 
     switch (toolName) {
       case "search_emails":
+        let searchQuery = args.query;
+        let searchMaxResults = args.maxResults || 10;
+        let pageToken: string | undefined;
+
+        // "next" continues the previous search where it left off
+        if (args.pageToken === "next") {
+          if (!this.lastNextPageToken || this.lastSearchQuery === null) {
+            throw new Error("No more results for the previous search");
+          }
+          searchQuery = this.lastSearchQuery;
+          searchMaxResults = args.maxResults || this.lastSearchMaxResults;
+          pageToken = this.lastNextPageToken;
+        } else {
+          searchQuery = this.checkQuery(searchQuery, true);
+          pageToken = args.pageToken;
+        }
+
         const searchResult = await service.searchEmails(
-          args.query,
-          args.maxResults || 10
+          searchQuery,
+          searchMaxResults,
+          pageToken
         );
         // Store results for context
         if (searchResult.messages) {
           this.lastSearchResults = searchResult.messages;
           this.lastEmailIds = searchResult.messages.map((m: any) => m.id);
         }
+        this.lastSearchQuery = searchQuery;
+        this.lastSearchMaxResults = searchMaxResults;
+        this.lastNextPageToken = searchResult.nextPageToken || null;
         return searchResult;
 
+      case "local_search":
+        const localResult = await service.localSearch(
+          args.query,
+          args.maxResults || 10
+        );
+        this.lastSearchResults = localResult.messages;
+        this.lastEmailIds = localResult.messages.map((m: any) => m.id);
+        // local results are ranked in one go; there is no next page
+        this.lastSearchQuery = null;
+        this.lastNextPageToken = null;
+        return localResult;
+
       case "read_email":
         // Handle context-aware message IDs
         let messageId = args.messageId;
@@ -401,6 +1598,7 @@ class GmailAICLI {
         const emailContent = await service.readEmail(messageId);
         // Store this as the last read email
         this.lastReadEmailId = messageId;
+        this.lastThreadId = emailContent.threadId || this.lastThreadId;
         return emailContent;
 
       case "modify_labels":
@@ -430,56 +1628,8 @@ class GmailAICLI {
         let addLabelIds = args.addLabels || [];
         let removeLabelIds = args.removeLabels || [];
 
-        // Process addLabels - convert names to IDs
-        if (addLabelIds.length > 0) {
-          addLabelIds = await Promise.all(
-            addLabelIds.map(async (label: string) => {
-              // System labels are already IDs
-              if (label.toUpperCase() === label || label.startsWith("Label_")) {
-                return label;
-              }
-              // Look up custom label ID by name
-              const labelId = this.getLabelIdByName(label);
-              if (labelId) {
-                return labelId;
-              }
-              // If not found, refresh cache and try again
-              await this.refreshLabelsCache();
-              const refreshedId = this.getLabelIdByName(label);
-              if (refreshedId) {
-                return refreshedId;
-              }
-              CLIMessages.showWarning(`Label "${label}" not found. Skipping.`);
-              return null;
-            })
-          );
-          addLabelIds = addLabelIds.filter((id: any) => id !== null);
-        }
-
-        // Process removeLabels - convert names to IDs
-        if (removeLabelIds.length > 0) {
-          removeLabelIds = await Promise.all(
-            removeLabelIds.map(async (label: string) => {
-              // System labels
-              if (label.toUpperCase() === label || label.startsWith("Label_")) {
-                return label;
-              }
-              // Look up custom label ID
-              const labelId = this.getLabelIdByName(label);
-              if (labelId) {
-                return labelId;
-              }
-              await this.refreshLabelsCache();
-              const refreshedId = this.getLabelIdByName(label);
-              if (refreshedId) {
-                return refreshedId;
-              }
-              CLIMessages.showWarning(`Label "${label}" not found. Skipping.`);
-              return null;
-            })
-          );
-          removeLabelIds = removeLabelIds.filter((id: any) => id !== null);
-        }
+        addLabelIds = await this.resolveLabelIds(addLabelIds);
+        removeLabelIds = await this.resolveLabelIds(removeLabelIds);
 
         return await service.modifyLabels(
           messageIds,
@@ -488,42 +1638,151 @@ class GmailAICLI {
         );
 
       case "create_filter":
-        // Convert label names to IDs in the action
-        if (args.action.addLabelIds) {
-          const labelIds = await Promise.all(
-            args.action.addLabelIds.map(async (label: string) => {
-              if (label.toUpperCase() === label) return label; // System label
-              const labelId = this.getLabelIdByName(label);
-              if (!labelId) {
-                await this.refreshLabelsCache();
-                const refreshedId = this.getLabelIdByName(label);
-                if (!refreshedId) {
-                  throw new Error(`Label not found: ${label}`);
-                }
-                return refreshedId;
-              }
-              return labelId;
-            })
+        return await this.createFilterWithPreview(service, args, spinner);
+
+      case "filter_from_email":
+        if (!args.messageId && !this.lastReadEmailId) {
+          throw new Error(
+            "No email to build the filter from. Read one first or give its ID"
           );
-          args.action.addLabelIds = labelIds;
         }
+        const exampleId = this.resolveMessageId(args.messageId || "this");
+        const suggestions = await suggestFilters(service, exampleId);
+        if (spinner) {
+          spinner.stop();
+        }
+        const candidate = await CLIMessages.chooseFilterCandidate(
+          suggestions.candidates
+        );
+        if (!candidate) {
+          return { cancelled: true };
+        }
+        if (spinner) {
+          spinner.start();
+        }
+        return await this.createFilterWithPreview(
+          service,
+          { criteria: candidate.criteria, action: args.action },
+          spinner
+        );
 
-        // Warn if archiving (removing from INBOX)
-        if (args.action.removeLabelIds?.includes("INBOX")) {
+      case "list_filters":
+        const filters = await service.listFilters();
+        this.lastFilterIds = filters.map((filter: any) => filter.id);
+        return filters;
+
+      case "update_filter":
+        const updateFilterId = this.resolveFilterId(args.filterId);
+        const currentFilter = await service.getFilter(updateFilterId);
+        const actionChanges = { ...args.action };
+        for (const field of ["addLabelIds", "removeLabelIds"] as const) {
+          if (actionChanges[field]) {
+            actionChanges[field] = await this.filterLabelIds(
+              actionChanges[field]
+            );
+          }
+        }
+        const removes =
+          actionChanges.removeLabelIds ?? currentFilter.action?.removeLabelIds;
+        if (
+          removes?.includes("INBOX") &&
+          !currentFilter.action?.removeLabelIds?.includes("INBOX")
+        ) {
           const confirmed = await this.confirmAction(
-            "Create filter that archives emails",
+            "Change filter to archive emails",
             `Emails matching this filter will skip the inbox (be archived automatically)`,
             spinner
           );
           if (!confirmed) {
-            return { cancelled: true };
+            return { cancelled: true, filterId: updateFilterId };
           }
         }
+        return await service.patchFilter(updateFilterId, {
+          criteria: args.criteria,
+          action: actionChanges,
+        });
+
+      case "delete_filter":
+        const deleteFilterId = this.resolveFilterId(args.filterId);
+        const filterToDelete = await service.getFilter(deleteFilterId);
+        const deleteFilterConfirmed = await this.confirmAction(
+          "Delete filter",
+          this.describeFilter(filterToDelete),
+          spinner
+        );
+        if (!deleteFilterConfirmed) {
+          return { cancelled: true, filterId: deleteFilterId };
+        }
+        return await service.deleteFilter(deleteFilterId);
 
-        return await service.createFilter(args.criteria, args.action);
+      case "export_filters":
+        return await exportFilters(service, {
+          path: args.path,
+          format: args.format,
+        });
 
-      case "list_filters":
-        return await service.listFilters();
+      case "import_filters":
+        const importPlan = await importFilters(service, {
+          path: args.path,
+          dryRun: true,
+        });
+        if (importPlan.created.length > 0) {
+          const importConfirmed = await this.confirmAction(
+            `Import ${importPlan.created.length} filters from ${importPlan.path}`,
+            `${importPlan.duplicates.length} already exist and will be skipped${
+              importPlan.createdLabels.length
+                ? `; new labels: ${importPlan.createdLabels.join(", ")}`
+                : ""
+            }`,
+            spinner
+          );
+          if (!importConfirmed) {
+            return { ...importPlan, cancelled: true };
+          }
+        }
+        const imported = await importFilters(service, { path: args.path });
+        if (imported.createdLabels.length > 0) {
+          await this.refreshLabelsCache();
+        }
+        return imported;
+
+      case "audit_filters":
+        const audit = await auditFilters(service);
+        if (audit.fixes.length === 0) {
+          return audit;
+        }
+        const fixConfirmed = await this.confirmAction(
+          `Fix ${audit.fixes.length} of ${audit.filters} filters`,
+          audit.fixes.map((fix) => `\n  - ${fix.description}`).join(""),
+          spinner
+        );
+        if (!fixConfirmed) {
+          return audit;
+        }
+        return {
+          ...audit,
+          fixResult: await applyFilterFixes(service, audit.fixes),
+        };
+
+      case "get_vacation":
+        return await service.getVacation();
+
+      case "set_vacation":
+        const vacationPreview = await service.setVacation(args, {
+          dryRun: true,
+        });
+        const vacationConfirmed = await this.confirmAction(
+          "Turn on vacation auto-reply",
+          this.describeVacation(vacationPreview),
+          spinner
+        );
+        if (!vacationConfirmed) {
+          return { cancelled: true };
+        }
+        return await service.setVacation(args);
+
+      case "disable_vacation":
+        return await service.disableVacation();
 
       case "confirm_dangerous_action":
         const confirmed = await this.confirmAction(
@@ -534,11 +1793,12 @@ class GmailAICLI {
         return { confirmed };
 
       case "batch_operation":
+        const batchQuery = this.checkQuery(args.query);
         // Add safety check for batch operations
         if (args.operation === "delete") {
           const confirmed = await this.confirmAction(
             "Batch delete emails",
-            `This will move emails matching "${args.query}" to trash`
+            `This will move emails matching "${batchQuery}" to trash`
           );
           if (!confirmed) {
             return { cancelled: true, operation: args.operation };
@@ -547,29 +1807,305 @@ class GmailAICLI {
         if (args.operation === "archive") {
           const confirmed = await this.confirmAction(
             "Batch archive emails",
-            `This will remove emails matching "${args.query}" from inbox`
+            `This will remove emails matching "${batchQuery}" from inbox`
           );
           if (!confirmed) {
             return { cancelled: true, operation: args.operation };
           }
         }
-        return await service.batchOperation(args.query, args.operation);
+        return await service.batchOperation(batchQuery, args.operation, {
+          onProgress: (progress: BatchProgress) => {
+            if (spinner) {
+              spinner.text = `Processed ${progress.processed}/${progress.total} emails (${progress.chunksDone}/${progress.chunks} chunks)...`;
+            }
+          },
+        });
 
       case "send_email":
         return await service.sendEmail(args.to, args.subject, args.body, {
           cc: args.cc,
+          bcc: args.bcc,
+          replyTo: args.replyTo,
+          html: args.html,
+          attachments: args.attachments,
+          from: args.from,
+          includeSignature: args.includeSignature,
+        });
+
+      case "list_send_as":
+        return await service.listSendAs();
+
+      case "update_send_as":
+        const { email: sendAsEmail, ...sendAsChanges } = args;
+        const aliases = await service.listSendAs();
+        const alias = sendAsEmail
+          ? aliases.find(
+              (a: SendAsAlias) =>
+                a.email.toLowerCase() === sendAsEmail.toLowerCase()
+            )
+          : aliases.find((a: SendAsAlias) => a.isDefault);
+        if (!alias) {
+          throw new Error(
+            `${sendAsEmail} is not one of your send-as addresses: ${aliases
+              .map((a: SendAsAlias) => a.email)
+              .join(", ")}`
+          );
+        }
+        return await service.updateSendAs(alias.email, sendAsChanges);
+
+      case "reply_email":
+      case "reply_all_email":
+        const replyToId = this.resolveMessageId(args.messageId || "this");
+        if (replyToId === "this") {
+          throw new Error("No email to reply to. Read an email first");
+        }
+        return await service.replyToEmail(replyToId, args.body, {
+          replyAll: toolName === "reply_all_email",
+          cc: args.cc,
+          attachments: args.attachments,
+        });
+
+      case "forward_email":
+        const forwardId = this.resolveMessageId(args.messageId || "this");
+        if (forwardId === "this") {
+          throw new Error("No email to forward. Read an email first");
+        }
+        return await service.forwardEmail(forwardId, args.to, {
+          body: args.body,
+          cc: args.cc,
+          includeAttachments: args.includeAttachments,
         });
 
+      case "list_threads":
+        const threadList = await service.listThreads(
+          args.query,
+          args.maxResults || 10,
+          args.pageToken
+        );
+        if (threadList.threads.length > 0) {
+          this.lastThreadId = threadList.threads[0].id;
+        }
+        return threadList;
+
+      case "get_thread":
+        const threadId = this.resolveThreadId(args.threadId);
+        const thread = await service.getThread(threadId);
+        this.lastThreadId = thread.id;
+        if (thread.messages.length > 0) {
+          this.lastReadEmailId = thread.messages[thread.messages.length - 1].id;
+        }
+        return thread;
+
+      case "modify_thread":
+        const targetThreadId = this.resolveThreadId(args.threadId);
+        const threadAddLabels = await this.resolveLabelIds(args.addLabels || []);
+        const threadRemoveLabels = await this.resolveLabelIds(
+          args.removeLabels || []
+        );
+
+        if (args.trash) {
+          const confirmed = await this.confirmAction(
+            "Move conversation to trash",
+            `Every message in thread ${targetThreadId} will be moved to trash`,
+            spinner
+          );
+          if (!confirmed) {
+            return { cancelled: true, threadId: targetThreadId };
+          }
+        }
+
+        let threadResult: any = { threadId: targetThreadId, success: true };
+        if (threadAddLabels.length || threadRemoveLabels.length) {
+          threadResult = await service.modifyThreadLabels(
+            targetThreadId,
+            threadAddLabels,
+            threadRemoveLabels
+          );
+        }
+        if (args.trash) {
+          threadResult = await service.trashThread(targetThreadId);
+        }
+        return threadResult;
+
+      case "download_attachments":
+        if (!args.messageId && args.query === undefined) {
+          if (!this.lastReadEmailId) {
+            throw new Error("No email selected. Read an email first or give a search query");
+          }
+          args.messageId = this.lastReadEmailId;
+        }
+        return await downloadAttachments(service, {
+          ...args,
+          messageId: args.messageId
+            ? this.resolveMessageId(args.messageId)
+            : undefined,
+        });
+
+      case "create_draft":
+        const createdDraft = await service.createDraft(
+          args.to,
+          args.subject,
+          args.body,
+          {
+            cc: args.cc,
+            bcc: args.bcc,
+            html: args.html,
+            attachments: args.attachments,
+            from: args.from,
+            includeSignature: args.includeSignature,
+          }
+        );
+        this.lastDraftId = createdDraft.id;
+        return createdDraft;
+
+      case "list_drafts":
+        const draftList = await service.listDrafts(
+          args.maxResults || 10,
+          undefined,
+          args.query
+        );
+        this.lastDraftIds = draftList.drafts.map((draft: any) => draft.id);
+        return draftList;
+
+      case "get_draft":
+        const draft = await service.getDraft(this.resolveDraftId(args.draftId));
+        this.lastDraftId = draft.id;
+        return draft;
+
+      case "update_draft":
+        const { draftId: draftRef, ...draftChanges } = args;
+        const updatedDraft = await service.updateDraft(
+          this.resolveDraftId(draftRef),
+          draftChanges
+        );
+        this.lastDraftId = updatedDraft.id;
+        return updatedDraft;
+
+      case "send_draft":
+        const sendDraftId = this.resolveDraftId(args.draftId);
+        const draftToSend = await service.getDraft(sendDraftId);
+        const sendConfirmed = await this.confirmAction(
+          "Send draft",
+          `"${draftToSend.message.subject || "(No subject)"}" will be sent to ${
+            draftToSend.message.to || "(no recipients)"
+          }`,
+          spinner
+        );
+        if (!sendConfirmed) {
+          return { cancelled: true, id: sendDraftId };
+        }
+        const sentDraft = await service.sendDraft(sendDraftId);
+        this.lastDraftId = null;
+        return sentDraft;
+
+      case "delete_draft":
+        const deleteDraftId = this.resolveDraftId(args.draftId);
+        const deleteConfirmed = await this.confirmAction(
+          "Delete draft",
+          `Draft ${deleteDraftId} will be permanently deleted`,
+          spinner
+        );
+        if (!deleteConfirmed) {
+          return { cancelled: true, id: deleteDraftId };
+        }
+        const deletedDraft = await service.deleteDraft(deleteDraftId);
+        this.lastDraftId = null;
+        return deletedDraft;
+
       case "list_labels":
         const labels = await service.listLabels();
         this.labelsCache = labels; // Update cache
         return labels;
 
       case "create_label":
-        const newLabel = await service.createLabel(args.name);
+        const newLabel = await service.createLabel(args.name, {
+          color: args.color,
+          labelListVisibility: args.labelListVisibility,
+          messageListVisibility: args.messageListVisibility,
+        });
         await this.refreshLabelsCache(); // Refresh cache after creating
         return newLabel;
 
+      case "update_label":
+        const updateLabelId =
+          this.getLabelIdByName(args.labelId) || args.labelId;
+        if (args.name) {
+          const renameImpact = await service.getLabelImpact(updateLabelId);
+          const renameConfirmed = await this.confirmAction(
+            `Rename label "${renameImpact.label.name}" to "${args.name}"`,
+            this.describeLabelImpact(renameImpact),
+            spinner
+          );
+          if (!renameConfirmed) {
+            return { cancelled: true, id: updateLabelId };
+          }
+        }
+        const updatedLabel = await service.patchLabel(updateLabelId, {
+          name: args.name,
+          color: args.color,
+          labelListVisibility: args.labelListVisibility,
+          messageListVisibility: args.messageListVisibility,
+        });
+        await this.refreshLabelsCache();
+        return updatedLabel;
+
+      case "delete_label":
+        const deleteLabelId =
+          this.getLabelIdByName(args.labelId) || args.labelId;
+        const deleteImpact = await service.getLabelImpact(deleteLabelId);
+        const deleteLabelConfirmed = await this.confirmAction(
+          `Delete label "${deleteImpact.label.name}"`,
+          this.describeLabelImpact(deleteImpact),
+          spinner
+        );
+        if (!deleteLabelConfirmed) {
+          return { cancelled: true, id: deleteLabelId };
+        }
+        const deletedLabel = await service.deleteLabel(deleteLabelId);
+        await this.refreshLabelsCache();
+        return { ...deletedLabel, name: deleteImpact.label.name };
+
+      case "merge_labels":
+        const mergeSourceIds = args.sourceLabels.map(
+          (label: string) => this.getLabelIdByName(label) || label
+        );
+        const mergeTargetId =
+          this.getLabelIdByName(args.targetLabel) || args.targetLabel;
+        // count first so the user sees what the merge touches
+        const mergePlan = await service.mergeLabels(
+          mergeSourceIds,
+          mergeTargetId,
+          { dryRun: true }
+        );
+        const mergeConfirmed = await this.confirmAction(
+          `Merge ${mergePlan.sources
+            .map((l: Label) => `"${l.name}"`)
+            .join(", ")} into "${mergePlan.target.name}"`,
+          `${mergePlan.messages} messages will move and ${
+            mergePlan.filters
+          } filters will be rewritten${
+            args.deleteSources ? "; the merged labels will be deleted" : ""
+          }`,
+          spinner
+        );
+        if (!mergeConfirmed) {
+          return { cancelled: true, target: mergePlan.target };
+        }
+        const merged = await service.mergeLabels(
+          mergeSourceIds,
+          mergeTargetId,
+          {
+            deleteSources: args.deleteSources,
+            onProgress: (progress: BatchProgress) => {
+              if (spinner) {
+                spinner.text = `Moved ${progress.processed}/${progress.total} emails...`;
+              }
+            },
+          }
+        );
+        await this.refreshLabelsCache();
+        return merged;
+
       default:
         throw new Error(`Unknown tool: ${toolName}`);
     }
@@ -580,7 +2116,8 @@ class GmailAICLI {
 
     try {
       // build context information
-      let contextInfo = "";
+      // lets the model turn "next week" or "back Monday" into dates
+      let contextInfo = `\nToday is ${new Date().toDateString()}`;
 
       if (this.lastReadEmailId) {
         contextInfo += `\nLast read email ID: ${this.lastReadEmailId}`;
@@ -596,6 +2133,18 @@ class GmailAICLI {
         contextInfo += `\nFor "add these to [label]" or "label these", use modify_labels with these email IDs.`;
       }
 
+      if (this.lastNextPageToken) {
+        contextInfo += `\nMore results are available for the search "${this.lastSearchQuery}". For "show me more" or "next page", call search_emails with that query and pageToken "next".`;
+      }
+
+      if (this.lastThreadId) {
+        contextInfo += `\nCurrent conversation thread ID: ${this.lastThreadId}`;
+      }
+
+      if (this.lastDraftId) {
+        contextInfo += `\nCurrent draft ID: ${this.lastDraftId}`;
+      }
+
       if (this.lastSearchResults.length > 0) {
         const lastEmail = this.lastSearchResults[0];
         contextInfo += `\nMost recent email from search: "${lastEmail.subject}" from ${lastEmail.from} (ID: ${lastEmail.id})`;
@@ -644,7 +2193,9 @@ class GmailAICLI {
         CLIMessages.showAssistantResponse(message.content);
       }
 
-      // execute tool calls
+      // execute tool calls; failures go into the history so the model
+      // can correct itself on the next turn
+      const toolErrors: string[] = [];
       if (message.tool_calls) {
         for (const toolCall of message.tool_calls) {
           const toolSpinner = ora(
@@ -663,9 +2214,10 @@ class GmailAICLI {
             );
             toolSpinner.succeed(`Completed ${toolCall.function.name}`);
 
-            this.displayResult(toolCall.function.name, result);
+            this.displayResult(toolCall.function.name, result, args);
           } catch (error: any) {
             toolSpinner.fail(`Failed: ${error.message}`);
+            toolErrors.push(`${toolCall.function.name} failed: ${error.message}`);
           }
         }
       }
@@ -673,7 +2225,12 @@ class GmailAICLI {
       // add to conversation history
       this.conversationHistory.push(
         { role: "user", content: input },
-        { role: "assistant", content: message.content || "[Tool execution]" }
+        {
+          role: "assistant",
+          content: [message.content || "[Tool execution]", ...toolErrors].join(
+            "\n"
+          ),
+        }
       );
 
       // keep history manageable
@@ -690,9 +2247,10 @@ class GmailAICLI {
     }
   }
 
-  private displayResult(toolName: string, result: any): void {
+  private displayResult(toolName: string, result: any, args: any = {}): void {
     switch (toolName) {
       case "search_emails":
+      case "local_search":
         CLIDisplay.showSearchResults(result);
         break;
 
@@ -708,12 +2266,33 @@ class GmailAICLI {
         CLIDisplay.showLabelCreated(result);
         break;
 
+      case "update_label":
+        CLIDisplay.showLabelUpdated(result);
+        break;
+
+      case "delete_label":
+        CLIDisplay.showLabelDeleted(result);
+        break;
+
+      case "merge_labels":
+        CLIDisplay.showLabelsMerged(result);
+        break;
+
       case "create_filter":
-        CLIDisplay.showFilterResult(result);
+      case "filter_from_email":
+        CLIDisplay.showFilterResult(result, this.labelsCache);
         break;
 
       case "list_filters":
-        CLIDisplay.showFiltersList(result);
+        CLIDisplay.showFiltersList(result, this.labelsCache);
+        break;
+
+      case "update_filter":
+        CLIDisplay.showFilterUpdated(result, this.labelsCache);
+        break;
+
+      case "delete_filter":
+        CLIDisplay.showFilterDeleted(result);
         break;
 
       case "batch_operation":
@@ -721,24 +2300,177 @@ class GmailAICLI {
         break;
 
       case "send_email":
+      case "reply_email":
+      case "reply_all_email":
+      case "forward_email":
         CLIDisplay.showSendEmailResult(result);
         break;
 
+      case "create_draft":
+      case "update_draft":
+        CLIDisplay.showDraftSaved(result, toolName === "update_draft");
+        break;
+
+      case "list_drafts":
+        CLIDisplay.showDraftsList(result);
+        break;
+
+      case "get_draft":
+        CLIDisplay.showDraft(result);
+        break;
+
+      case "send_draft":
+        CLIDisplay.showDraftSent(result);
+        break;
+
+      case "delete_draft":
+        CLIDisplay.showDraftDeleted(result);
+        break;
+
       case "list_labels":
         CLIDisplay.showLabelsList(result);
         break;
 
+      case "list_threads":
+        CLIDisplay.showThreadsList(result);
+        break;
+
+      case "get_thread":
+        CLIDisplay.showThread(result, { expandAll: args.expandAll });
+        break;
+
+      case "modify_thread":
+        CLIDisplay.showThreadModified(result);
+        break;
+
+      case "download_attachments":
+        CLIDisplay.showAttachmentsDownloaded(result);
+        break;
+
+      case "export_filters":
+        CLIDisplay.showFiltersExported(result);
+        break;
+
+      case "import_filters":
+        CLIDisplay.showFiltersImported(result);
+        break;
+
+      case "audit_filters":
+        CLIDisplay.showFilterAudit(result);
+        break;
+
+      case "get_vacation":
+      case "set_vacation":
+      case "disable_vacation":
+        CLIDisplay.showVacation(result);
+        break;
+
+      case "list_send_as":
+        CLIDisplay.showSendAsList(result);
+        break;
+
+      case "update_send_as":
+        CLIDisplay.showSendAsUpdated(result);
+        break;
+
       default:
         break;
     }
   }
 
+  // The "filters" command: pick a filter from the list, then edit or
+  // delete it, until the user picks Done
+  private async manageFilters(): Promise<void> {
+    try {
+      const service = await this.initializeGmailService();
+      const labelName = (id: string) =>
+        this.labelsCache.find((l) => l.id === id)?.name || id;
+
+      while (true) {
+        const filters = await service.listFilters();
+        this.lastFilterIds = filters.map((filter: any) => filter.id);
+        CLIDisplay.showFiltersList(filters, this.labelsCache);
+        if (filters.length === 0) {
+          return;
+        }
+
+        const filterId = await CLIMessages.chooseFilter(
+          filters.map((filter: any) => ({
+            name: this.describeFilter(filter),
+            value: filter.id,
+          }))
+        );
+        const filter = filters.find((f: any) => f.id === filterId);
+        if (!filter) {
+          return;
+        }
+
+        const choice = await CLIMessages.chooseFilterAction();
+        if (choice === "delete") {
+          const confirmed = await this.confirmAction(
+            "Delete filter",
+            this.describeFilter(filter)
+          );
+          CLIDisplay.showFilterDeleted(
+            confirmed
+              ? await service.deleteFilter(filter.id)
+              : { cancelled: true, filterId: filter.id }
+          );
+        } else if (choice === "edit") {
+          const criteria = filter.criteria || {};
+          const action = filter.action || {};
+          const removeLabelIds: string[] = action.removeLabelIds || [];
+          const form = await CLIMessages.editFilter({
+            from: criteria.from || "",
+            to: criteria.to || "",
+            subject: criteria.subject || "",
+            query: criteria.query || "",
+            hasAttachment: criteria.hasAttachment === true,
+            labels: (action.addLabelIds || []).map(labelName).join(", "),
+            skipInbox: removeLabelIds.includes("INBOX"),
+            forward: action.forward || "",
+          });
+
+          const labels = form.labels
+            .split(",")
+            .map((label) => label.trim())
+            .filter(Boolean);
+          const removes = removeLabelIds.filter((id) => id !== "INBOX");
+          if (form.skipInbox) {
+            removes.push("INBOX");
+          }
+          const updated = await service.updateFilter(
+            filter.id,
+            {
+              ...criteria,
+              from: form.from || undefined,
+              to: form.to || undefined,
+              subject: form.subject || undefined,
+              query: form.query || undefined,
+              hasAttachment: form.hasAttachment || undefined,
+            },
+            {
+              addLabelIds: labels.length
+                ? await this.filterLabelIds(labels)
+                : undefined,
+              removeLabelIds: removes.length ? removes : undefined,
+              forward: form.forward || undefined,
+            }
+          );
+          CLIDisplay.showFilterUpdated(updated, this.labelsCache);
+        }
+      }
+    } catch (error: any) {
+      CLIMessages.showError(error.message);
+    }
+  }
+
   private showHelp(): void {
     CLIMessages.showHelp();
   }
 
   private async promptUser(): Promise<string> {
-    return CLIMessages.showPrompt();
+    return CLIMessages.showPrompt(this.account);
   }
 
   async start(): Promise<void> {
@@ -746,9 +2478,9 @@ class GmailAICLI {
 
     try {
       await this.initializeGmailService();
-      CLIMessages.showGmailConnected();
+      CLIMessages.showGmailConnected(this.account);
     } catch (error) {
-      CLIMessages.showGmailAuthNeeded();
+      CLIMessages.showGmailAuthNeeded(this.account);
     }
 
     // main loop
@@ -767,6 +2499,21 @@ class GmailAICLI {
         continue;
       }
 
+      if (input.toLowerCase() === "filters") {
+        await this.manageFilters();
+        continue;
+      }
+
+      const switchTo = input.match(/^switch account(?:\s+(\S+))?$/i);
+      if (switchTo) {
+        if (switchTo[1]) {
+          await this.switchAccount(switchTo[1]);
+        } else {
+          CLIMessages.showAccounts(await listAccounts(), this.account);
+        }
+        continue;
+      }
+
       if (input.toLowerCase() === "clear") {
         CLIMessages.showClearScreen();
         continue;
@@ -784,7 +2531,8 @@ process.on("SIGINT", () => {
 
 async function main() {
   try {
-    const cli = new GmailAICLI();
+    // npm run gmail -- --account work
+    const cli = new GmailAICLI(accountFromArgs(process.argv.slice(2)));
     await cli.start();
   } catch (error: any) {
     CLIMessages.showError(`Failed to start: ${error.message}`);
@@ -1,6 +1,19 @@
 import chalk from "chalk";
 import inquirer from "inquirer";
 import * as readline from "readline";
+import type { FilterCandidate } from "./filter-suggest.js";
+import { DEFAULT_ACCOUNT } from "./accounts.js";
+
+export interface FilterForm {
+  from: string;
+  to: string;
+  subject: string;
+  query: string;
+  hasAttachment: boolean;
+  labels: string;
+  skipInbox: boolean;
+  forward: string;
+}
 
 export class CLIMessages {
   static showWelcome(): void {
@@ -14,12 +27,35 @@ export class CLIMessages {
     console.log(chalk.gray('Try: "show my unread emails" or "help" for more\n'));
   }
 
-  static showGmailConnected(): void {
-    console.log(chalk.green("✓ Connected to Gmail\n"));
+  static showGmailConnected(account: string = DEFAULT_ACCOUNT): void {
+    const name = account === DEFAULT_ACCOUNT ? "" : ` (${account})`;
+    console.log(chalk.green(`✓ Connected to Gmail${name}\n`));
+  }
+
+  static showGmailAuthNeeded(account: string = DEFAULT_ACCOUNT): void {
+    const flag = account === DEFAULT_ACCOUNT ? "" : ` -- --account ${account}`;
+    console.error(
+      chalk.yellow(`⚠️  Gmail auth needed. Run: npm run auth${flag}\n`)
+    );
   }
 
-  static showGmailAuthNeeded(): void {
-    console.error(chalk.yellow("⚠️  Gmail auth needed. Run: npm run auth\n"));
+  static showAccounts(accounts: string[], current: string): void {
+    console.log(chalk.bold("\n👤 Accounts:"));
+    if (accounts.length === 0) {
+      console.log(chalk.gray("  No accounts have signed in yet"));
+    }
+    accounts.forEach((account) => {
+      console.log(
+        account === current
+          ? chalk.green(`  • ${account} (current)`)
+          : chalk.gray(`  • ${account}`)
+      );
+    });
+    console.log(
+      chalk.gray(
+        '\nType "switch account <name>" to use another one; a new name signs in a new account.\n'
+      )
+    );
   }
 
   static showApiKeyError(): void {
@@ -45,6 +81,11 @@ export class CLIMessages {
     console.log(chalk.yellow(`Warning: ${message}`));
   }
 
+  static showQueryCorrected(query: string, fixes: string[]): void {
+    console.log(chalk.yellow(`Corrected query: ${query}`));
+    fixes.forEach((fix) => console.log(chalk.gray(`  • ${fix}`)));
+  }
+
   static showRateLimit(): void {
     console.log(
       chalk.yellow("\n💡 Groq service tier `on_demand` tokens per day (TPD): Limit 100000.")
@@ -76,16 +117,31 @@ export class CLIMessages {
     console.log(chalk.gray('  • "Read the most recent email from Shopify"'));
     console.log(chalk.gray('  • "Create a label called Work/Shopify"'));
     console.log(chalk.gray('  • "Move this email to the Shopify label"'));
+    console.log(chalk.gray('  • "Rename the Work label to Office" or "make Travel red"'));
+    console.log(chalk.gray('  • "Merge Receipts and Invoices into Finance"'));
+    console.log(chalk.gray('  • "Export my filters" or "import filters from team-filters.xml"'));
+    console.log(chalk.gray('  • "Check my filters for problems"'));
+    console.log(chalk.gray('  • "Set my out-of-office for next week saying I\'m back Monday"'));
+    console.log(chalk.gray('  • "Change my signature to: Ann Lee, Example Corp"'));
     console.log(chalk.gray('  • "Mark it as read"'));
     console.log(chalk.gray('  • "Star those emails"'));
     console.log(chalk.gray('  • "Archive all promotional emails"'));
+    console.log(chalk.gray('  • "Find cached emails mentioning \"budget review\""'));
 
     console.log(chalk.yellow("\nContext-aware commands:"));
     console.log(chalk.gray('  • After reading an email: "move it to Work"'));
     console.log(chalk.gray('  • After searching: "mark them all as read"'));
+    console.log(chalk.gray('  • After searching: "show me more" or "next page"'));
     console.log(chalk.gray('  • "Reply to this email" (after reading)'));
+    console.log(chalk.gray('  • "Show the whole conversation" (after reading)'));
+    console.log(chalk.gray('  • "Save the PDF from that email" (after reading)'));
+    console.log(chalk.gray('  • "Make a filter for emails like this" (after reading)'));
+    console.log(chalk.gray('  • "Reply all: sounds good" or "Forward this to bob@example.com"'));
+    console.log(chalk.gray('  • "Draft an email to Ann about Friday" then "send the draft"'));
 
     console.log(chalk.yellow("\nCommands:"));
+    console.log(chalk.gray("  • filters - Review, edit or delete your filters"));
+    console.log(chalk.gray("  • switch account <name> - Use another Gmail account, e.g. work"));
     console.log(chalk.gray("  • clear - Clear the screen"));
     console.log(chalk.gray("  • help - Show this help message"));
     console.log(chalk.gray("  • exit - Quit the assistant\n"));
@@ -108,14 +164,115 @@ export class CLIMessages {
     return confirm;
   }
 
-  static showPrompt(): Promise<string> {
+  // returns "" when the user is done
+  static async chooseFilter(
+    choices: { name: string; value: string }[]
+  ): Promise<string> {
+    const { filterId } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "filterId",
+        message: "Choose a filter:",
+        choices: [...choices, { name: "Done", value: "" }],
+      },
+    ]);
+
+    return filterId;
+  }
+
+  // returns null when the user cancels
+  static async chooseFilterCandidate(
+    candidates: FilterCandidate[]
+  ): Promise<FilterCandidate | null> {
+    const { candidate } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "candidate",
+        message: "Filter emails like this one by:",
+        choices: [
+          ...candidates.map((c) => ({
+            name: `${c.description} (${c.matches}${c.capped ? "+" : ""} existing emails)`,
+            value: c,
+          })),
+          { name: "Cancel", value: null },
+        ],
+      },
+    ]);
+
+    return candidate;
+  }
+
+  static async chooseFilterAction(): Promise<"edit" | "delete" | "back"> {
+    const { action } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "action",
+        message: "What do you want to do with it?",
+        choices: [
+          { name: "Edit", value: "edit" },
+          { name: "Delete", value: "delete" },
+          { name: "Back", value: "back" },
+        ],
+      },
+    ]);
+
+    return action;
+  }
+
+  static async editFilter(current: FilterForm): Promise<FilterForm> {
+    console.log(chalk.gray("Leave a field empty to drop it."));
+
+    return inquirer.prompt([
+      { type: "input", name: "from", message: "From:", default: current.from },
+      { type: "input", name: "to", message: "To:", default: current.to },
+      {
+        type: "input",
+        name: "subject",
+        message: "Subject:",
+        default: current.subject,
+      },
+      {
+        type: "input",
+        name: "query",
+        message: "Has the words:",
+        default: current.query,
+      },
+      {
+        type: "confirm",
+        name: "hasAttachment",
+        message: "Only emails with attachments?",
+        default: current.hasAttachment,
+      },
+      {
+        type: "input",
+        name: "labels",
+        message: "Apply labels (comma-separated):",
+        default: current.labels,
+      },
+      {
+        type: "confirm",
+        name: "skipInbox",
+        message: "Skip the inbox?",
+        default: current.skipInbox,
+      },
+      {
+        type: "input",
+        name: "forward",
+        message: "Forward to:",
+        default: current.forward,
+      },
+    ]);
+  }
+
+  static showPrompt(account: string = DEFAULT_ACCOUNT): Promise<string> {
     return new Promise((resolve) => {
       const rl = readline.createInterface({
         input: process.stdin,
         output: process.stdout,
       });
 
-      rl.question(chalk.blue("\nGmail AI > "), (answer: string) => {
+      const name = account === DEFAULT_ACCOUNT ? "" : ` (${account})`;
+      rl.question(chalk.blue(`\nGmail AI${name} > `), (answer: string) => {
         rl.close();
         resolve(answer.trim());
       });
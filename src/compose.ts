@@ -0,0 +1,155 @@
+import type { EmailContent } from "./types.js";
+import type { MimeMessage } from "./mime-builder.js";
+import { extractEmail, parseAddressList } from "./mime-builder.js";
+
+export interface ReplyOptions {
+  body: string;
+  html?: string;
+  cc?: string[];
+  replyAll?: boolean;
+}
+
+export interface ForwardOptions {
+  to: string[];
+  body?: string;
+  html?: string;
+  cc?: string[];
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function withPrefix(prefix: string, pattern: RegExp, subject = ""): string {
+  return pattern.test(subject.trim()) ? subject.trim() : `${prefix} ${subject.trim()}`.trim();
+}
+
+export function replySubject(subject?: string): string {
+  return withPrefix("Re:", /^re:/i, subject);
+}
+
+export function forwardSubject(subject?: string): string {
+  return withPrefix("Fwd:", /^(fwd?|fw):/i, subject);
+}
+
+// drop duplicates and any address in `exclude`, comparing bare addresses
+function uniqueAddresses(addresses: string[], exclude: Set<string>): string[] {
+  const seen = new Set(exclude);
+  return addresses.filter((address) => {
+    const email = extractEmail(address);
+    if (!email || seen.has(email)) return false;
+    seen.add(email);
+    return true;
+  });
+}
+
+function quotedText(original: EmailContent): string {
+  const quoted = (original.body || "")
+    .split(/\r?\n/)
+    .map((line) => (line ? `> ${line}` : ">"))
+    .join("\n");
+  return `On ${original.date}, ${original.from} wrote:\n${quoted}`;
+}
+
+function quotedHtml(original: EmailContent): string {
+  const content =
+    original.bodyHtml || escapeHtml(original.body || "").replace(/\n/g, "<br>");
+  return (
+    `<div class="gmail_quote"><div>On ${escapeHtml(original.date || "")}, ${escapeHtml(original.from || "")} wrote:</div>` +
+    `<blockquote class="gmail_quote" style="margin:0 0 0 .8ex;border-left:1px #ccc solid;padding-left:1ex">${content}</blockquote></div>`
+  );
+}
+
+/**
+ * Build a reply to `original`. Replies go to Reply-To (or From); reply-all
+ * adds the original To and Cc. Our own addresses are never included, and
+ * a reply to a message we sent goes back to its recipients.
+ */
+export function buildReply(
+  original: EmailContent,
+  options: ReplyOptions,
+  selfAddresses: string[] = []
+): MimeMessage & { threadId?: string } {
+  const self = new Set(selfAddresses.map(extractEmail));
+  const sentByMe = self.has(extractEmail(original.from || ""));
+
+  const primary = sentByMe
+    ? parseAddressList(original.to)
+    : parseAddressList(original.replyTo || original.from);
+
+  const others = options.replyAll
+    ? [
+        ...(sentByMe ? [] : parseAddressList(original.to)),
+        ...parseAddressList(original.cc),
+      ]
+    : [];
+
+  const to = uniqueAddresses(primary, self);
+  const cc = uniqueAddresses(
+    [...others, ...(options.cc || [])],
+    new Set([...self, ...to.map(extractEmail)])
+  );
+
+  if (to.length === 0) {
+    throw new Error("Could not determine who to reply to");
+  }
+
+  // References carries the whole chain, ending with the message we reply to
+  const references = [
+    ...(original.references || original.inReplyTo || "").split(/\s+/),
+    original.messageId || "",
+  ]
+    .filter((id) => id.length > 0)
+    .filter((id, i, ids) => ids.indexOf(id) === i)
+    .join(" ");
+
+  return {
+    to,
+    cc,
+    subject: replySubject(original.subject),
+    text: `${options.body}\n\n${quotedText(original)}`,
+    html: options.html ? `${options.html}<br>${quotedHtml(original)}` : undefined,
+    inReplyTo: original.messageId,
+    references: references || undefined,
+    threadId: original.threadId,
+  };
+}
+
+/**
+ * Build a forward of `original` with the usual "Forwarded message" block.
+ * Attachments are added by the caller.
+ */
+export function buildForward(
+  original: EmailContent,
+  options: ForwardOptions
+): MimeMessage {
+  const header = [
+    "---------- Forwarded message ---------",
+    `From: ${original.from}`,
+    `Date: ${original.date}`,
+    `Subject: ${original.subject}`,
+    `To: ${original.to}`,
+    ...(original.cc ? [`Cc: ${original.cc}`] : []),
+  ];
+
+  const text = [options.body || "", "", ...header, "", original.body || ""]
+    .join("\n")
+    .trimStart();
+
+  const html = options.html
+    ? `${options.html}<br><div class="gmail_quote">${header.map(escapeHtml).join("<br>")}<br><br>` +
+      `${original.bodyHtml || escapeHtml(original.body || "").replace(/\n/g, "<br>")}</div>`
+    : undefined;
+
+  return {
+    to: options.to,
+    cc: options.cc,
+    subject: forwardSubject(original.subject),
+    text,
+    html,
+  };
+}
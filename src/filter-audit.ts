@@ -0,0 +1,366 @@
+import type { gmail_v1 } from "googleapis";
+import type { GmailService } from "./gmail-service.js";
+import { filterKey } from "./filter-xml.js";
+import {
+  filterCriteriaQuery,
+  formatQuery,
+  parseGmailQuery,
+} from "./gmail-query.js";
+import type { Label } from "./types.js";
+
+// Checks a mailbox's filters for the rot that builds up over years:
+// labels deleted out from under them, copies, filters another filter
+// already covers, filters fighting over a label, and forwards Gmail will
+// no longer deliver. Every finding is explained in plain English; the ones
+// with an obvious repair come with a fix the caller can apply.
+
+export type FilterFindingKind =
+  | "deleted_label"
+  | "duplicate"
+  | "subsumed"
+  | "conflict"
+  | "unverified_forward";
+
+export interface FilterFinding {
+  kind: FilterFindingKind;
+  // the filter the finding is about, then any it was compared with
+  filterIds: string[];
+  message: string;
+}
+
+export type FilterFix =
+  | { type: "delete"; filterId: string; description: string }
+  | {
+      type: "update";
+      filterId: string;
+      description: string;
+      criteria: gmail_v1.Schema$FilterCriteria;
+      action: gmail_v1.Schema$FilterAction;
+    };
+
+export interface FilterAuditReport {
+  filters: number;
+  findings: FilterFinding[];
+  // at most one per filter
+  fixes: FilterFix[];
+}
+
+export interface FilterFixResult {
+  applied: FilterFix[];
+  failed: { fix: FilterFix; error: string }[];
+}
+
+// search syntax inside a criteria field: "ann OR bob", "(a b)", "-spam"
+const FIELD_SYNTAX = /\bor\b|[(){}"]|(^|\s)-/i;
+
+function describe(filter: gmail_v1.Schema$Filter): string {
+  return `the filter for "${filterCriteriaQuery(filter.criteria || {})}"`;
+}
+
+// top-level AND terms of a query, normalized so spacing and operator
+// groups don't matter
+function queryTerms(query: string): string[] {
+  try {
+    const node = parseGmailQuery(query);
+    return node.type === "and"
+      ? node.children.map(formatQuery)
+      : [formatQuery(node)];
+  } catch {
+    return [query.trim()];
+  }
+}
+
+// The domain an address criterion names: "*@example.com", "@example.com"
+// and "example.com" as domain forms, or "ann@example.com" (only when
+// `domainFormOnly` is false). Undefined for names and other words.
+function addressDomain(value: string, domainFormOnly: boolean): string | undefined {
+  const form = /^\*?@([a-z0-9.-]+\.[a-z]+)$/.exec(value) ||
+    /^([a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]+)$/.exec(value);
+  if (form) return form[1];
+  if (domainFormOnly) return undefined;
+  return /^[^\s@*]+@([a-z0-9.-]+\.[a-z]+)$/.exec(value)?.[1];
+}
+
+function containsWords(text: string, words: string): boolean {
+  const escaped = words.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|\\W)${escaped}(\\W|$)`).test(text);
+}
+
+// whether every email `narrow` matches is also matched by `broad`. Errs
+// towards false: filters are only called redundant when it is certain.
+function criteriaImplies(
+  narrow: gmail_v1.Schema$FilterCriteria,
+  broad: gmail_v1.Schema$FilterCriteria
+): boolean {
+  for (const field of ["from", "to", "subject"] as const) {
+    const wanted = broad[field]?.toLowerCase();
+    if (!wanted) continue;
+    const value = narrow[field]?.toLowerCase();
+    if (!value) return false;
+    if (value === wanted) continue;
+    if (FIELD_SYNTAX.test(value) || FIELD_SYNTAX.test(wanted)) return false;
+    if (field === "subject") {
+      // "report" covers "weekly report", but not "reporting"
+      if (!containsWords(value, wanted)) return false;
+      continue;
+    }
+    // "*@example.com" covers "ann@example.com"; "bob@example.com" does not
+    // cover "jimbob@example.com"
+    const domain = addressDomain(wanted, true);
+    if (!domain || addressDomain(value, false) !== domain) return false;
+  }
+
+  if (broad.query) {
+    const terms = narrow.query ? queryTerms(narrow.query) : [];
+    if (!queryTerms(broad.query).every((term) => terms.includes(term))) {
+      return false;
+    }
+  }
+  if (broad.negatedQuery) {
+    if (
+      !narrow.negatedQuery ||
+      queryTerms(narrow.negatedQuery).join(" ") !==
+        queryTerms(broad.negatedQuery).join(" ")
+    ) {
+      return false;
+    }
+  }
+  if (broad.hasAttachment && !narrow.hasAttachment) return false;
+  if (broad.size) {
+    if (!narrow.size || narrow.sizeComparison !== broad.sizeComparison) {
+      return false;
+    }
+    const larger = broad.sizeComparison !== "smaller";
+    if (larger ? narrow.size < broad.size : narrow.size > broad.size) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// whether `broad` already does everything `narrow` does
+function actionCovers(
+  broad: gmail_v1.Schema$FilterAction,
+  narrow: gmail_v1.Schema$FilterAction
+): boolean {
+  const covers = (mine?: string[] | null, theirs?: string[] | null) =>
+    (theirs || []).every((id) => (mine || []).includes(id));
+  return (
+    covers(broad.addLabelIds, narrow.addLabelIds) &&
+    covers(broad.removeLabelIds, narrow.removeLabelIds) &&
+    (!narrow.forward ||
+      narrow.forward.toLowerCase() === broad.forward?.toLowerCase())
+  );
+}
+
+/**
+ * Audit a list of filters against the account's labels and verified
+ * forwarding addresses. Pure, so it can run on an export as well as on
+ * what the API returns.
+ */
+export function auditFilterList(
+  filters: gmail_v1.Schema$Filter[],
+  labels: Label[],
+  forwardingAddresses: gmail_v1.Schema$ForwardingAddress[]
+): FilterAuditReport {
+  const findings: FilterFinding[] = [];
+  const labelName = (id: string) =>
+    labels.find((l) => l.id === id)?.name || id;
+  // only user labels can be deleted
+  const labelIds = new Set(labels.map((l) => l.id));
+
+  // filter ID → reason it should go
+  const redundant = new Map<string, string>();
+  // filter ID → what has to come out of it
+  const deadLabels = new Map<string, string[]>();
+  const deadForwards = new Set<string>();
+
+  for (const filter of filters) {
+    const action = filter.action || {};
+    const missing = [
+      ...(action.addLabelIds || []),
+      ...(action.removeLabelIds || []),
+    ].filter((id) => id.startsWith("Label_") && !labelIds.has(id));
+    if (missing.length > 0) {
+      deadLabels.set(filter.id!, missing);
+      findings.push({
+        kind: "deleted_label",
+        filterIds: [filter.id!],
+        message: `${describe(filter)} uses ${missing.join(", ")}, which ${
+          missing.length === 1 ? "was" : "were"
+        } deleted. Gmail skips that part of the filter.`,
+      });
+    }
+
+    if (action.forward) {
+      const address = forwardingAddresses.find(
+        (a) =>
+          a.forwardingEmail?.toLowerCase() === action.forward!.toLowerCase()
+      );
+      if (address?.verificationStatus !== "accepted") {
+        deadForwards.add(filter.id!);
+        findings.push({
+          kind: "unverified_forward",
+          filterIds: [filter.id!],
+          message: `${describe(filter)} forwards to ${action.forward}, which ${
+            address
+              ? "has not been verified yet"
+              : "is not a forwarding address on this account"
+          }. Gmail won't forward anything there.`,
+        });
+      }
+    }
+  }
+
+  // exact copies: keep the first
+  const firstByKey = new Map<string, gmail_v1.Schema$Filter>();
+  for (const filter of filters) {
+    const key = filterKey(filter.criteria || {}, filter.action || {});
+    const first = firstByKey.get(key);
+    if (!first) {
+      firstByKey.set(key, filter);
+      continue;
+    }
+    redundant.set(filter.id!, `it is a copy of filter ${first.id}`);
+    findings.push({
+      kind: "duplicate",
+      filterIds: [filter.id!, first.id!],
+      message: `${describe(filter)} is an exact copy of filter ${first.id}.`,
+    });
+  }
+
+  // filters another, broader filter already does the work of
+  for (const filter of filters) {
+    if (redundant.has(filter.id!)) continue;
+    const broader = filters.find(
+      (other) =>
+        other !== filter &&
+        !redundant.has(other.id!) &&
+        criteriaImplies(filter.criteria || {}, other.criteria || {}) &&
+        actionCovers(other.action || {}, filter.action || {})
+    );
+    if (!broader) continue;
+    redundant.set(filter.id!, `filter ${broader.id} already covers it`);
+    findings.push({
+      kind: "subsumed",
+      filterIds: [filter.id!, broader.id!],
+      message:
+        `${describe(filter)} does nothing ${describe(broader)} doesn't: ` +
+        "every email it catches, the other catches too, and the other's " +
+        "actions include all of its own.",
+    });
+  }
+
+  // a label one filter adds and another removes from the same emails
+  for (const filter of filters) {
+    for (const other of filters) {
+      if (other === filter) continue;
+      const overlaps =
+        criteriaImplies(filter.criteria || {}, other.criteria || {}) ||
+        criteriaImplies(other.criteria || {}, filter.criteria || {});
+      if (!overlaps) continue;
+      const contested = (filter.action?.addLabelIds || []).filter((id) =>
+        (other.action?.removeLabelIds || []).includes(id)
+      );
+      for (const id of contested) {
+        const name = labelName(id);
+        findings.push({
+          kind: "conflict",
+          filterIds: [filter.id!, other.id!],
+          message:
+            `${describe(filter)} applies "${name}" but ${describe(other)} ` +
+            "removes it, and some emails match both. Gmail runs both " +
+            "filters, so which one wins isn't predictable; drop " +
+            `"${name}" from whichever filter is wrong.`,
+        });
+      }
+    }
+  }
+
+  const fixes: FilterFix[] = [];
+  for (const filter of filters) {
+    const id = filter.id!;
+    const name = describe(filter);
+    const reason = redundant.get(id);
+    if (reason) {
+      fixes.push({
+        type: "delete",
+        filterId: id,
+        description: `Delete ${name}: ${reason}`,
+      });
+      continue;
+    }
+
+    const dead = deadLabels.get(id) || [];
+    if (dead.length === 0 && !deadForwards.has(id)) continue;
+
+    const action: gmail_v1.Schema$FilterAction = { ...filter.action };
+    const without = (ids?: string[] | null) =>
+      (ids || []).filter((labelId) => !dead.includes(labelId));
+    if (action.addLabelIds) action.addLabelIds = without(action.addLabelIds);
+    if (action.removeLabelIds) {
+      action.removeLabelIds = without(action.removeLabelIds);
+    }
+    if (deadForwards.has(id)) delete action.forward;
+
+    const lost = [
+      ...(dead.length ? [`the deleted ${dead.join(", ")}`] : []),
+      ...(deadForwards.has(id) ? [`the forward to ${filter.action!.forward}`] : []),
+    ].join(" and ");
+    const empty =
+      !action.addLabelIds?.length &&
+      !action.removeLabelIds?.length &&
+      !action.forward;
+    if (empty) {
+      fixes.push({
+        type: "delete",
+        filterId: id,
+        description: `Delete ${name}: without ${lost} it has nothing left to do`,
+      });
+    } else {
+      fixes.push({
+        type: "update",
+        filterId: id,
+        description: `Remove ${lost} from ${name}`,
+        criteria: filter.criteria || {},
+        action,
+      });
+    }
+  }
+
+  return { filters: filters.length, findings, fixes };
+}
+
+// Audit the account's own filters
+export async function auditFilters(
+  service: GmailService
+): Promise<FilterAuditReport> {
+  const [filters, labels, forwardingAddresses] = await Promise.all([
+    service.listFilters(),
+    service.listLabels(),
+    service.listForwardingAddresses(),
+  ]);
+  return auditFilterList(filters, labels as Label[], forwardingAddresses);
+}
+
+// Apply an audit's fixes one by one; a failure is reported and the rest
+// still go through
+export async function applyFilterFixes(
+  service: GmailService,
+  fixes: FilterFix[]
+): Promise<FilterFixResult> {
+  const result: FilterFixResult = { applied: [], failed: [] };
+  for (const fix of fixes) {
+    try {
+      if (fix.type === "delete") {
+        await service.deleteFilter(fix.filterId);
+      } else {
+        await service.updateFilter(fix.filterId, fix.criteria, fix.action);
+      }
+      result.applied.push(fix);
+    } catch (error: any) {
+      result.failed.push({ fix, error: error?.message || String(error) });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,154 @@
+import type { gmail_v1 } from "googleapis";
+import type { GmailService } from "./gmail-service.js";
+import { filterKey } from "./filter-xml.js";
+import { filterCriteriaQuery } from "./gmail-query.js";
+import { extractEmail, parseAddressList } from "./mime-builder.js";
+
+// "Make a filter for emails like this one": read an example email's
+// headers, propose the criteria a person would pick by hand, and count how
+// much existing mail each would catch.
+
+export interface FilterCandidate {
+  criteria: gmail_v1.Schema$FilterCriteria;
+  // e.g. Mail from the dev.example.com mailing list
+  description: string;
+  query: string;
+  matches: number;
+  // counting stopped at `matches`; there are more
+  capped: boolean;
+}
+
+export interface FilterSuggestions {
+  messageId: string;
+  from?: string;
+  subject?: string;
+  // best first
+  candidates: FilterCandidate[];
+}
+
+const SUGGESTION_HEADERS = ["From", "To", "Delivered-To", "List-Id", "Subject"];
+const MATCH_LIMIT = 1000;
+
+// a domain shared by strangers says nothing about the sender
+const FREEMAIL_DOMAINS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "msn.com",
+  "yahoo.com",
+  "icloud.com",
+  "me.com",
+  "aol.com",
+  "gmx.com",
+  "gmx.de",
+  "proton.me",
+  "protonmail.com",
+]);
+
+// "Re: Your order #10234 has shipped!" → "Your order has shipped": the
+// words that stay the same from one email of a kind to the next
+function subjectPattern(subject: string): string | undefined {
+  const words = subject
+    .replace(/^((re|fwd?|aw|wg)\s*:\s*)+/i, "")
+    .split(/\s+/)
+    .map((word) => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ""))
+    // numbers and IDs change; OR and AND would read as operators
+    .filter((word) => word && !/\d/.test(word) && !/^(OR|AND)$/.test(word));
+  return words.length >= 2 ? words.slice(0, 6).join(" ") : undefined;
+}
+
+/**
+ * Candidate criteria for filtering mail like the email these headers
+ * came from, most specific signal first. Counts are filled in by
+ * suggestFilters().
+ */
+export function filterCandidates(
+  headers: Record<string, string>
+): Omit<FilterCandidate, "matches" | "capped">[] {
+  const candidates: Omit<FilterCandidate, "matches" | "capped">[] = [];
+  const add = (criteria: gmail_v1.Schema$FilterCriteria, description: string) => {
+    const key = filterKey(criteria);
+    if (candidates.some((c) => filterKey(c.criteria) === key)) return;
+    candidates.push({
+      criteria,
+      description,
+      query: filterCriteriaQuery(criteria),
+    });
+  };
+
+  // List-Id: "Dev list" <dev.lists.example.com>
+  const listId = headers["List-Id"]?.match(/<([^>]+)>/)?.[1]?.trim();
+  if (listId) {
+    add({ query: `list:${listId}` }, `Mail from the ${listId} mailing list`);
+  }
+
+  const sender = headers["From"] ? extractEmail(headers["From"]) : "";
+  const domain = sender.includes("@") ? sender.split("@")[1] : "";
+  const subject = subjectPattern(headers["Subject"] || "");
+  if (sender) {
+    add({ from: sender }, `Everything from ${sender}`);
+  }
+  if (sender && subject) {
+    add(
+      { from: sender, subject },
+      `Mail from ${sender} with "${subject}" in the subject`
+    );
+  }
+
+  // a plus address or an alias that forwards here: me+shop@, team@
+  const mailbox = parseAddressList(headers["Delivered-To"]).map(extractEmail);
+  const recipients = parseAddressList(headers["To"]).map(extractEmail);
+  const alias = recipients.find(
+    (address) =>
+      /^[^@]+\+[^@]+@/.test(address) ||
+      (recipients.length === 1 && mailbox.length > 0 && !mailbox.includes(address))
+  );
+  if (alias) {
+    add({ to: alias }, `Mail sent to ${alias}`);
+  }
+
+  if (domain && !FREEMAIL_DOMAINS.has(domain)) {
+    add({ from: `*@${domain}` }, `Everything from anyone at ${domain}`);
+  }
+  if (subject) {
+    add({ subject }, `Any email with "${subject}" in the subject`);
+  }
+
+  return candidates;
+}
+
+/**
+ * Propose filter criteria from an example email, with how many existing
+ * emails each would catch. A candidate that only matches the example
+ * itself is ranked last: it wouldn't catch the next one.
+ */
+export async function suggestFilters(
+  service: GmailService,
+  messageId: string
+): Promise<FilterSuggestions> {
+  const headers = await service.getMessageHeaders(messageId, SUGGESTION_HEADERS);
+  const candidates = filterCandidates(headers);
+  if (candidates.length === 0) {
+    throw new Error(
+      `Email ${messageId} has no sender, list or subject to build a filter from`
+    );
+  }
+
+  const counted = await Promise.all(
+    candidates.map(async (candidate): Promise<FilterCandidate> => {
+      const matches = await service.countMessages(candidate.query, MATCH_LIMIT);
+      return { ...candidate, matches, capped: matches >= MATCH_LIMIT };
+    })
+  );
+  // stable, so the specific-first order holds within each group
+  counted.sort((a, b) => Number(a.matches <= 1) - Number(b.matches <= 1));
+
+  return {
+    messageId,
+    from: headers["From"],
+    subject: headers["Subject"],
+    candidates: counted,
+  };
+}
@@ -0,0 +1,438 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { gmail_v1 } from "googleapis";
+import type { GmailService } from "./gmail-service.js";
+import { filtersToSieve } from "./sieve.js";
+import type { Label } from "./types.js";
+
+/**
+ * A filter as Gmail's web UI imports and exports it: user labels by name
+ * (so the file works in any account), everything else as in the API.
+ */
+export interface FilterDefinition {
+  criteria: gmail_v1.Schema$FilterCriteria;
+  action: gmail_v1.Schema$FilterAction;
+  labels: string[];
+}
+
+export interface ExportFiltersResult {
+  path: string;
+  exported: number;
+  skipped: { id: string; reason: string }[];
+}
+
+export interface ImportFiltersResult {
+  path: string;
+  dryRun: boolean;
+  created: FilterDefinition[];
+  duplicates: FilterDefinition[];
+  failed: { filter: FilterDefinition; error: string }[];
+  createdLabels: string[];
+}
+
+export const DEFAULT_FILTERS_FILE = path.join(process.cwd(), "mailFilters.xml");
+export const DEFAULT_SIEVE_FILE = path.join(process.cwd(), "gmail-filters.sieve");
+
+// system labels the web UI expresses as checkboxes
+const ADD_PROPERTIES: Record<string, string> = {
+  STARRED: "shouldStar",
+  TRASH: "shouldTrash",
+  IMPORTANT: "shouldAlwaysMarkAsImportant",
+};
+const REMOVE_PROPERTIES: Record<string, string> = {
+  INBOX: "shouldArchive",
+  UNREAD: "shouldMarkAsRead",
+  SPAM: "shouldNeverSpam",
+  IMPORTANT: "shouldNeverMarkAsImportant",
+};
+const SMART_LABELS: Record<string, string> = {
+  CATEGORY_PERSONAL: "^smartlabel_personal",
+  CATEGORY_SOCIAL: "^smartlabel_social",
+  CATEGORY_PROMOTIONS: "^smartlabel_promo",
+  CATEGORY_UPDATES: "^smartlabel_notification",
+  CATEGORY_FORUMS: "^smartlabel_group",
+};
+const CRITERIA_PROPERTIES: Record<string, string> = {
+  from: "from",
+  to: "to",
+  subject: "subject",
+  query: "hasTheWord",
+  negatedQuery: "doesNotHaveTheWord",
+};
+const SIZE_UNITS: [string, number][] = [
+  ["s_smb", 1024 * 1024],
+  ["s_skb", 1024],
+  ["s_sb", 1],
+];
+
+const XML_ENTITIES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  "'": "&apos;",
+  '"': "&quot;",
+};
+
+function escapeXml(value: string): string {
+  return value.replace(/[&<>'"]/g, (c) => XML_ENTITIES[c]);
+}
+
+function unescapeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const n = code[1].toLowerCase() === "x"
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+      return String.fromCodePoint(n);
+    }
+    const char = Object.keys(XML_ENTITIES).find(
+      (c) => XML_ENTITIES[c] === entity
+    );
+    return char ?? entity;
+  });
+}
+
+/**
+ * Identity of a filter's rules, ignoring its ID, key order and the order
+ * of label IDs. Two filters with the same key do the same thing.
+ */
+export function filterKey(
+  criteria: gmail_v1.Schema$FilterCriteria = {},
+  action: gmail_v1.Schema$FilterAction = {}
+): string {
+  const sorted = (value: object) =>
+    Object.entries(value)
+      .filter(([, v]) => v !== undefined && v !== null)
+      .filter(([, v]) => !Array.isArray(v) || v.length > 0)
+      .map(([k, v]) => [k, Array.isArray(v) ? [...v].sort() : v])
+      .sort(([a], [b]) => String(a).localeCompare(String(b)));
+  return JSON.stringify([sorted(criteria), sorted(action)]);
+}
+
+// The web UI's format has room for one label per filter, so a filter
+// applying several labels is written as several entries; only the first
+// carries the other actions. The entries share the filter's ID, which
+// parseFiltersXml joins them up again by. Returns the reason when the
+// format can't express the filter.
+function filterProperties(
+  filter: gmail_v1.Schema$Filter,
+  labels: Label[]
+): [string, string][][] | string {
+  const properties: [string, string][] = [];
+  const actions: [string, string][] = [];
+  const criteria = filter.criteria || {};
+  const action = filter.action || {};
+
+  for (const [field, name] of Object.entries(CRITERIA_PROPERTIES)) {
+    const value = criteria[field as keyof typeof criteria];
+    if (typeof value === "string" && value) {
+      properties.push([name, value]);
+    }
+  }
+  if (criteria.hasAttachment) {
+    properties.push(["hasAttachment", "true"]);
+  }
+  if (criteria.excludeChats) {
+    properties.push(["excludeChats", "true"]);
+  }
+  if (criteria.size) {
+    const [unit, bytes] = SIZE_UNITS.find(([, b]) => criteria.size! % b === 0)!;
+    properties.push(["size", String(criteria.size / bytes)]);
+    properties.push([
+      "sizeOperator",
+      criteria.sizeComparison === "smaller" ? "s_ss" : "s_sl",
+    ]);
+    properties.push(["sizeUnit", unit]);
+  }
+
+  const userLabels: string[] = [];
+  for (const id of action.addLabelIds || []) {
+    if (ADD_PROPERTIES[id]) {
+      actions.push([ADD_PROPERTIES[id], "true"]);
+    } else if (SMART_LABELS[id]) {
+      actions.push(["smartLabelToApply", SMART_LABELS[id]]);
+    } else {
+      const label = labels.find((l) => l.id === id);
+      if (!label) {
+        return `applies label ${id}, which no longer exists`;
+      }
+      if (label.type === "system") {
+        return `applies label ${id}, which the file format can't express`;
+      }
+      userLabels.push(label.name);
+    }
+  }
+  for (const id of action.removeLabelIds || []) {
+    if (!REMOVE_PROPERTIES[id]) {
+      return `removes label ${id}, which the file format can't express`;
+    }
+    actions.push([REMOVE_PROPERTIES[id], "true"]);
+  }
+  if (action.forward) {
+    actions.push(["forwardTo", action.forward]);
+  }
+
+  if (userLabels.length === 0) {
+    return [[...properties, ...actions]];
+  }
+  return userLabels.map((name, i) => [
+    ...properties,
+    ...(i === 0 ? actions : []),
+    ["label", name],
+  ]);
+}
+
+/**
+ * Write filters as a mailFilters.xml Atom feed that Gmail's
+ * Settings → Filters → Import filters accepts.
+ */
+export function filtersToXml(
+  filters: gmail_v1.Schema$Filter[],
+  labels: Label[],
+  options: { now?: Date } = {}
+): { xml: string; exported: number; skipped: ExportFiltersResult["skipped"] } {
+  const updated = (options.now || new Date()).toISOString().replace(/\.\d+Z$/, "Z");
+  const entries: string[] = [];
+  const skipped: ExportFiltersResult["skipped"] = [];
+  let exported = 0;
+
+  for (const filter of filters) {
+    const result = filterProperties(filter, labels);
+    if (typeof result === "string") {
+      skipped.push({ id: filter.id || "", reason: `The filter ${result}` });
+      continue;
+    }
+    exported++;
+    for (const properties of result) {
+      entries.push(
+        [
+          "\t<entry>",
+          "\t\t<category term='filter'></category>",
+          "\t\t<title>Mail Filter</title>",
+          `\t\t<id>tag:mail.google.com,2008:filter:${escapeXml(filter.id || String(exported))}</id>`,
+          `\t\t<updated>${updated}</updated>`,
+          "\t\t<content></content>",
+          ...properties.map(
+            ([name, value]) =>
+              `\t\t<apps:property name='${name}' value='${escapeXml(value)}'/>`
+          ),
+          "\t</entry>",
+        ].join("\n")
+      );
+    }
+  }
+
+  const xml = [
+    "<?xml version='1.0' encoding='UTF-8'?><feed xmlns='http://www.w3.org/2005/Atom' xmlns:apps='http://schemas.google.com/apps/2006'>",
+    "\t<title>Mail Filters</title>",
+    `\t<id>tag:mail.google.com,2008:filters:${escapeXml(filters.map((f) => f.id).join(","))}</id>`,
+    `\t<updated>${updated}</updated>`,
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+
+  return { xml, exported, skipped };
+}
+
+// Adds the entry's labels and actions to the filter it was split from,
+// undoing the split filtersToXml makes. False when the entry isn't part
+// of the same filter after all.
+function mergeInto(filter: FilterDefinition, entry: FilterDefinition): boolean {
+  if (filterKey(filter.criteria) !== filterKey(entry.criteria)) {
+    return false;
+  }
+  const forwards = [filter.action.forward, entry.action.forward];
+  if (forwards[0] && forwards[1] && forwards[0] !== forwards[1]) {
+    return false;
+  }
+  const union = (a?: string[] | null, b?: string[] | null) => [
+    ...new Set([...(a || []), ...(b || [])]),
+  ];
+  const addLabelIds = union(filter.action.addLabelIds, entry.action.addLabelIds);
+  const removeLabelIds = union(filter.action.removeLabelIds, entry.action.removeLabelIds);
+  if (addLabelIds.length) filter.action.addLabelIds = addLabelIds;
+  if (removeLabelIds.length) filter.action.removeLabelIds = removeLabelIds;
+  filter.action.forward ||= entry.action.forward;
+  filter.labels = union(filter.labels, entry.labels);
+  return true;
+}
+
+/**
+ * Read the filters out of a mailFilters.xml file. Properties this tool
+ * doesn't know are ignored, as Gmail does. Entries sharing an ID are
+ * read as one filter, so a filter applying several labels comes back
+ * whole.
+ */
+export function parseFiltersXml(xml: string): FilterDefinition[] {
+  if (!/<feed[\s>]/.test(xml)) {
+    throw new Error("Not a Gmail filters file: no <feed> element");
+  }
+
+  const filters: FilterDefinition[] = [];
+  const byId = new Map<string, FilterDefinition>();
+  for (const [, entry] of xml.matchAll(/<entry>([\s\S]*?)<\/entry>/g)) {
+    const properties = new Map<string, string>();
+    for (const [, , name, , value] of entry.matchAll(
+      /<apps:property\s+name=(['"])(.*?)\1\s+value=(['"])(.*?)\3\s*\/>/g
+    )) {
+      properties.set(unescapeXml(name), unescapeXml(value));
+    }
+    const get = (name: string) => properties.get(name);
+
+    const criteria: gmail_v1.Schema$FilterCriteria = {};
+    for (const [field, name] of Object.entries(CRITERIA_PROPERTIES)) {
+      const value = get(name);
+      if (value) {
+        (criteria as Record<string, string>)[field] = value;
+      }
+    }
+    if (get("hasAttachment") === "true") {
+      criteria.hasAttachment = true;
+    }
+    if (get("excludeChats") === "true") {
+      criteria.excludeChats = true;
+    }
+    if (get("size")) {
+      const unit = SIZE_UNITS.find(([u]) => u === get("sizeUnit"));
+      criteria.size = Number(get("size")) * (unit ? unit[1] : 1);
+      criteria.sizeComparison = get("sizeOperator") === "s_ss" ? "smaller" : "larger";
+    }
+
+    const addLabelIds: string[] = [];
+    const removeLabelIds: string[] = [];
+    for (const [id, name] of Object.entries(ADD_PROPERTIES)) {
+      if (get(name) === "true") addLabelIds.push(id);
+    }
+    for (const [id, name] of Object.entries(REMOVE_PROPERTIES)) {
+      if (get(name) === "true") removeLabelIds.push(id);
+    }
+    const smartLabel = Object.keys(SMART_LABELS).find(
+      (id) => SMART_LABELS[id] === get("smartLabelToApply")
+    );
+    if (smartLabel) {
+      addLabelIds.push(smartLabel);
+    }
+
+    const action: gmail_v1.Schema$FilterAction = {};
+    if (addLabelIds.length) action.addLabelIds = addLabelIds;
+    if (removeLabelIds.length) action.removeLabelIds = removeLabelIds;
+    if (get("forwardTo")) action.forward = get("forwardTo");
+
+    const filter = { criteria, action, labels: get("label") ? [get("label")!] : [] };
+    const id = /<id>([\s\S]*?)<\/id>/.exec(entry)?.[1].trim();
+    const same = id ? byId.get(id) : undefined;
+    if (!same || !mergeInto(same, filter)) {
+      filters.push(filter);
+      if (id) byId.set(id, filter);
+    }
+  }
+
+  return filters;
+}
+
+/**
+ * Export every filter in the account to a mailFilters.xml file, or to a
+ * Sieve script for servers that aren't Gmail.
+ */
+export async function exportFilters(
+  service: GmailService,
+  options: { path?: string; format?: "xml" | "sieve" } = {}
+): Promise<ExportFiltersResult> {
+  const sieve = options.format === "sieve";
+  const filePath = path.resolve(
+    options.path || (sieve ? DEFAULT_SIEVE_FILE : DEFAULT_FILTERS_FILE)
+  );
+  const [filters, labels] = await Promise.all([
+    service.listFilters(),
+    service.listLabels(),
+  ]);
+
+  let content: string;
+  let exported: number;
+  let skipped: ExportFiltersResult["skipped"];
+  if (sieve) {
+    ({ script: content, exported, skipped } = filtersToSieve(filters, labels as Label[]));
+  } else {
+    ({ xml: content, exported, skipped } = filtersToXml(filters, labels as Label[]));
+  }
+  await fs.writeFile(filePath, content, "utf-8");
+
+  return { path: filePath, exported, skipped };
+}
+
+/**
+ * Create the filters in a mailFilters.xml file. Labels are matched by
+ * name and created when missing; filters the account already has are
+ * skipped. With `dryRun`, only reports what would happen.
+ */
+export async function importFilters(
+  service: GmailService,
+  options: { path?: string; dryRun?: boolean } = {}
+): Promise<ImportFiltersResult> {
+  const filePath = path.resolve(options.path || DEFAULT_FILTERS_FILE);
+  const definitions = parseFiltersXml(await fs.readFile(filePath, "utf-8"));
+  const [filters, labels] = await Promise.all([
+    service.listFilters(),
+    service.listLabels(),
+  ]);
+
+  const labelIds = new Map<string, string>(
+    (labels as Label[]).map((l) => [l.name.toLowerCase(), l.id])
+  );
+  const existing = new Set(filters.map((f) => filterKey(f.criteria, f.action)));
+  const result: ImportFiltersResult = {
+    path: filePath,
+    dryRun: options.dryRun === true,
+    created: [],
+    duplicates: [],
+    failed: [],
+    createdLabels: [],
+  };
+
+  for (const definition of definitions) {
+    try {
+      const missing = definition.labels.flatMap((name) => {
+        // Gmail only nests "A/B" under "A" when "A" exists
+        const segments = name.split("/");
+        return segments.map((_, i) => segments.slice(0, i + 1).join("/"));
+      }).filter((name) => !labelIds.has(name.toLowerCase()));
+
+      for (const name of new Set(missing)) {
+        if (!options.dryRun) {
+          const created = await service.createLabel(name);
+          labelIds.set(name.toLowerCase(), created.id!);
+        } else {
+          labelIds.set(name.toLowerCase(), `(new) ${name}`);
+        }
+        result.createdLabels.push(name);
+      }
+
+      const addLabelIds = [
+        ...(definition.action.addLabelIds || []),
+        ...definition.labels.map((name) => labelIds.get(name.toLowerCase())!),
+      ];
+      const action = addLabelIds.length
+        ? { ...definition.action, addLabelIds }
+        : definition.action;
+      const key = filterKey(definition.criteria, action);
+      if (existing.has(key)) {
+        result.duplicates.push(definition);
+        continue;
+      }
+
+      if (!options.dryRun) {
+        await service.createFilter(definition.criteria, action);
+      }
+      existing.add(key);
+      result.created.push(definition);
+    } catch (error: any) {
+      result.failed.push({
+        filter: definition,
+        error: error?.message || String(error),
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,614 @@
+import { tokenize } from "./local-search.js";
+import type { gmail_v1 } from "googleapis";
+import type { EmailContent, EmailMessage, Label } from "./types.js";
+
+// Gmail search syntax: a parser producing an AST, a formatter turning the
+// AST back into a query, and an evaluator that runs it against messages we
+// hold locally.
+//
+// Precedence follows Gmail, where OR binds tighter than the implicit AND:
+// `a b OR c` means `a (b OR c)`. `{a b}` is shorthand for `(a OR b)`, and
+// an operator in front of a group applies to every term inside it:
+// `from:(ann OR bob)` is `from:ann OR from:bob`.
+
+export type QueryNode =
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }
+  | {
+      type: "term";
+      // undefined for free text
+      operator?: string;
+      value: string;
+      // written in double quotes
+      quoted: boolean;
+    };
+
+export interface QueryContext {
+  // reference time for newer_than: and older_than:
+  now?: number;
+  // to resolve label: by name
+  labels?: Label[];
+  // addresses that from:me and to:me stand for
+  selfAddresses?: string[];
+}
+
+export const GMAIL_OPERATORS = [
+  "from",
+  "to",
+  "cc",
+  "bcc",
+  "subject",
+  "label",
+  "is",
+  "in",
+  "has",
+  "filename",
+  "category",
+  "after",
+  "before",
+  "newer",
+  "older",
+  "newer_than",
+  "older_than",
+  "larger",
+  "smaller",
+  "size",
+  "list",
+  "deliveredto",
+  "rfc822msgid",
+];
+
+// operators the evaluator can answer from EmailMessage/EmailContent
+export const LOCAL_OPERATORS = GMAIL_OPERATORS.filter(
+  (operator) =>
+    !["larger", "smaller", "size", "list", "deliveredto"].includes(operator)
+);
+
+const IS_LABELS: Record<string, string> = {
+  unread: "UNREAD",
+  starred: "STARRED",
+  important: "IMPORTANT",
+  snoozed: "SNOOZED",
+  chat: "CHAT",
+};
+
+const IN_LABELS: Record<string, string> = {
+  inbox: "INBOX",
+  sent: "SENT",
+  draft: "DRAFT",
+  drafts: "DRAFT",
+  spam: "SPAM",
+  trash: "TRASH",
+  starred: "STARRED",
+  important: "IMPORTANT",
+  snoozed: "SNOOZED",
+  chats: "CHAT",
+};
+
+const CATEGORY_LABELS: Record<string, string> = {
+  primary: "CATEGORY_PERSONAL",
+  personal: "CATEGORY_PERSONAL",
+  social: "CATEGORY_SOCIAL",
+  promotions: "CATEGORY_PROMOTIONS",
+  updates: "CATEGORY_UPDATES",
+  forums: "CATEGORY_FORUMS",
+  reservations: "CATEGORY_RESERVATIONS",
+  purchases: "CATEGORY_PURCHASES",
+};
+
+type Token =
+  | { kind: "(" | ")" | "{" | "}" | "-" | "OR" | "AND"; position: number }
+  | { kind: "word"; value: string; quoted: boolean; position: number }
+  // `from:` directly followed by a group
+  | { kind: "group-operator"; operator: string; position: number }
+  | {
+      kind: "operator";
+      operator: string;
+      value: string;
+      quoted: boolean;
+      position: number;
+    };
+
+function isOperator(name: string): boolean {
+  return GMAIL_OPERATORS.includes(name.toLowerCase());
+}
+
+function lex(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (): string => {
+    const close = query.indexOf('"', i + 1);
+    if (close === -1) {
+      throw new Error(`Unterminated quote at position ${i}`);
+    }
+    const value = query.slice(i + 1, close);
+    i = close + 1;
+    return value;
+  };
+
+  while (i < query.length) {
+    const char = query[i];
+    const position = i;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if ("(){}".includes(char)) {
+      tokens.push({ kind: char as "(" | ")" | "{" | "}", position });
+      i++;
+    } else if (char === "-" && /\S/.test(query[i + 1] || "")) {
+      tokens.push({ kind: "-", position });
+      i++;
+    } else if (char === '"') {
+      const value = readQuoted();
+      tokens.push({ kind: "word", value, quoted: true, position });
+    } else {
+      let end = i;
+      while (end < query.length && !/[\s(){}"]/.test(query[end])) end++;
+      const word = query.slice(i, end);
+      i = end;
+
+      const operator = word.match(/^([a-z_]+):(.*)$/i);
+      if (word === "OR" || word === "|") {
+        tokens.push({ kind: "OR", position });
+      } else if (word === "AND") {
+        tokens.push({ kind: "AND", position });
+      } else if (operator && isOperator(operator[1])) {
+        const name = operator[1].toLowerCase();
+        if (operator[2]) {
+          tokens.push({
+            kind: "operator",
+            operator: name,
+            value: operator[2],
+            quoted: false,
+            position,
+          });
+        } else if (query[i] === '"') {
+          const value = readQuoted();
+          tokens.push({
+            kind: "operator",
+            operator: name,
+            value,
+            quoted: true,
+            position,
+          });
+        } else if (query[i] === "(" || query[i] === "{") {
+          tokens.push({ kind: "group-operator", operator: name, position });
+        } else {
+          throw new Error(
+            `Missing value for "${name}:" at position ${position}`
+          );
+        }
+      } else {
+        tokens.push({ kind: "word", value: word, quoted: false, position });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+const RELATIVE_DATE = /^(\d+)([hdmy])$/i;
+
+// Gmail accepts YYYY/MM/DD, YYYY-MM-DD, MM/DD/YYYY and epoch seconds
+export function parseQueryDate(value: string): number | undefined {
+  if (/^\d{9,}$/.test(value)) {
+    return parseInt(value, 10) * 1000;
+  }
+  let match = value.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/);
+  if (match) {
+    return checkedDate(+match[1], +match[2], +match[3]);
+  }
+  match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (match) {
+    return checkedDate(+match[3], +match[1], +match[2]);
+  }
+  return undefined;
+}
+
+function checkedDate(year: number, month: number, day: number) {
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day
+    ? date.getTime()
+    : undefined;
+}
+
+// the instant `value` (e.g. "2d") before `now`
+export function parseRelativeDate(
+  value: string,
+  now: number = Date.now()
+): number | undefined {
+  const match = value.match(RELATIVE_DATE);
+  if (!match) return undefined;
+
+  const amount = parseInt(match[1], 10);
+  const date = new Date(now);
+  switch (match[2].toLowerCase()) {
+    case "h":
+      return now - amount * 3_600_000;
+    case "d":
+      return now - amount * 86_400_000;
+    case "m":
+      date.setMonth(date.getMonth() - amount);
+      return date.getTime();
+    default:
+      date.setFullYear(date.getFullYear() - amount);
+      return date.getTime();
+  }
+}
+
+function validateTerm(operator: string, value: string, position: number) {
+  if (["newer_than", "older_than"].includes(operator)) {
+    if (!RELATIVE_DATE.test(value)) {
+      throw new Error(
+        `Invalid value "${value}" for ${operator}: at position ${position} ` +
+          "(use a whole number with h, d, m or y, e.g. 2d)"
+      );
+    }
+  } else if (["after", "before", "newer", "older"].includes(operator)) {
+    if (parseQueryDate(value) === undefined) {
+      throw new Error(
+        `Invalid date "${value}" for ${operator}: at position ${position} ` +
+          "(use YYYY/MM/DD)"
+      );
+    }
+  } else if (["larger", "smaller", "size"].includes(operator)) {
+    if (!/^\d+[kmg]?$/i.test(value)) {
+      throw new Error(
+        `Invalid size "${value}" for ${operator}: at position ${position} ` +
+          "(e.g. 10M)"
+      );
+    }
+  }
+}
+
+/**
+ * Parse a Gmail search query. Throws on input Gmail would misread:
+ * unbalanced parentheses, unterminated quotes, a dangling OR or an
+ * operator value that is not a valid date or size.
+ */
+export function parseGmailQuery(query: string): QueryNode {
+  const tokens = lex(query);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const describe = (token: Token | undefined) =>
+    token ? `at position ${token.position}` : "at the end of the query";
+
+  const startsTerm = (token: Token | undefined) =>
+    token !== undefined &&
+    !["OR", "AND", ")", "}"].includes(token.kind);
+
+  // implicit AND of OR-groups, until a closing bracket or the end
+  const parseSequence = (operator?: string): QueryNode => {
+    const children: QueryNode[] = [];
+    while (index < tokens.length) {
+      const token = peek();
+      if (token.kind === ")" || token.kind === "}") break;
+      if (token.kind === "AND") {
+        index++;
+        if (!startsTerm(peek()) || children.length === 0) {
+          throw new Error(`Dangling AND ${describe(token)}`);
+        }
+        continue;
+      }
+      if (token.kind === "OR") {
+        throw new Error(`Dangling OR ${describe(token)}`);
+      }
+      children.push(parseOr(operator));
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  };
+
+  const parseOr = (operator?: string): QueryNode => {
+    const children = [parseUnary(operator)];
+    while (peek()?.kind === "OR") {
+      const or = tokens[index++];
+      if (!startsTerm(peek())) {
+        throw new Error(`Dangling OR ${describe(or)}`);
+      }
+      children.push(parseUnary(operator));
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  };
+
+  const parseUnary = (operator?: string): QueryNode => {
+    const token = peek();
+    if (token?.kind === "-") {
+      index++;
+      if (!startsTerm(peek())) {
+        throw new Error(`Nothing to negate ${describe(token)}`);
+      }
+      return { type: "not", child: parseUnary(operator) };
+    }
+    return parsePrimary(operator);
+  };
+
+  const parseGroup = (operator?: string): QueryNode => {
+    const open = tokens[index++];
+    const close = open.kind === "{" ? "}" : ")";
+
+    let node: QueryNode;
+    if (open.kind === "{") {
+      // {a b c} is a || b || c
+      const children: QueryNode[] = [];
+      while (startsTerm(peek())) children.push(parseUnary(operator));
+      node = children.length === 1 ? children[0] : { type: "or", children };
+    } else {
+      node = parseSequence(operator);
+    }
+
+    if (peek()?.kind !== close) {
+      throw new Error(
+        `Missing "${close}" for "${open.kind}" at position ${open.position}`
+      );
+    }
+    index++;
+    return node;
+  };
+
+  const parsePrimary = (operator?: string): QueryNode => {
+    const token = peek();
+    if (!token) {
+      throw new Error("Unexpected end of query");
+    }
+
+    switch (token.kind) {
+      case "(":
+      case "{":
+        return parseGroup(operator);
+      case "group-operator":
+        index++;
+        return parseGroup(token.operator);
+      case "operator":
+        index++;
+        validateTerm(token.operator, token.value, token.position);
+        return {
+          type: "term",
+          operator: token.operator,
+          value: token.value,
+          quoted: token.quoted,
+        };
+      case "word":
+        index++;
+        if (operator) validateTerm(operator, token.value, token.position);
+        return {
+          type: "term",
+          operator,
+          value: token.value,
+          quoted: token.quoted,
+        };
+      default:
+        throw new Error(`Unexpected "${token.kind}" ${describe(token)}`);
+    }
+  };
+
+  const root = parseSequence();
+  if (index < tokens.length) {
+    throw new Error(`Unmatched "${peek().kind}" ${describe(peek())}`);
+  }
+  return root;
+}
+
+// turn an AST back into a query Gmail understands
+export function formatQuery(node: QueryNode): string {
+  switch (node.type) {
+    case "term": {
+      const value =
+        node.quoted || /[\s(){}]/.test(node.value)
+          ? `"${node.value}"`
+          : node.value;
+      return node.operator ? `${node.operator}:${value}` : value;
+    }
+    case "not": {
+      const child = formatQuery(node.child);
+      return node.child.type === "term" || node.child.type === "not"
+        ? `-${child}`
+        : `-(${child})`;
+    }
+    case "or":
+      return node.children
+        .map((child) =>
+          child.type === "and" ? `(${formatQuery(child)})` : formatQuery(child)
+        )
+        .join(" OR ");
+    case "and":
+      return node.children
+        .map((child) =>
+          // an OR inside an AND needs no brackets, Gmail binds OR tighter
+          child.type === "and" ? `(${formatQuery(child)})` : formatQuery(child)
+        )
+        .join(" ");
+  }
+}
+
+// the search a filter runs on incoming mail, written the way Gmail's own
+// "Search" button in the filter dialog writes it: from:(...) subject:(...)
+export function filterCriteriaQuery(
+  criteria: gmail_v1.Schema$FilterCriteria
+): string {
+  const parts: string[] = [];
+  if (criteria.from) parts.push(`from:(${criteria.from})`);
+  if (criteria.to) parts.push(`to:(${criteria.to})`);
+  if (criteria.subject) parts.push(`subject:(${criteria.subject})`);
+  if (criteria.query) parts.push(`(${criteria.query})`);
+  if (criteria.negatedQuery) parts.push(`-(${criteria.negatedQuery})`);
+  if (criteria.hasAttachment) parts.push("has:attachment");
+  if (criteria.size) {
+    const operator = criteria.sizeComparison === "smaller" ? "smaller" : "larger";
+    parts.push(`${operator}:${criteria.size}`);
+  }
+  // a lone query needs no brackets
+  if (parts.length === 1 && criteria.query) return criteria.query;
+  return parts.join(" ");
+}
+
+// operators in the query the evaluator can't answer
+export function unsupportedOperators(node: QueryNode): string[] {
+  switch (node.type) {
+    case "term":
+      return node.operator && !LOCAL_OPERATORS.includes(node.operator)
+        ? [node.operator]
+        : [];
+    case "not":
+      return unsupportedOperators(node.child);
+    default:
+      return [...new Set(node.children.flatMap(unsupportedOperators))];
+  }
+}
+
+function containsPhrase(tokens: string[], phrase: string[]): boolean {
+  if (phrase.length === 0) return false;
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((word, offset) => tokens[i + offset] === word)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Gmail treats spaces, slashes and dashes in label names alike
+function normalizeLabel(name: string): string {
+  return name.toLowerCase().replace(/[\s/_-]+/g, "-");
+}
+
+function matchesAddress(
+  header: string | undefined,
+  value: string,
+  context: QueryContext
+): boolean {
+  if (!header) return false;
+  const text = header.toLowerCase();
+  const wanted = value.toLowerCase();
+
+  if (wanted === "me") {
+    return (context.selfAddresses || []).some((address) =>
+      text.includes(address.toLowerCase())
+    );
+  }
+  if (wanted.includes("@")) {
+    return text.includes(wanted);
+  }
+  // from:amazon matches auto-confirm@amazon.com
+  return containsPhrase(tokenize(text), tokenize(wanted));
+}
+
+function evaluateTerm(
+  term: Extract<QueryNode, { type: "term" }>,
+  message: EmailMessage & Partial<EmailContent>,
+  context: QueryContext
+): boolean {
+  const value = term.value.toLowerCase();
+  const labelIds = message.labelIds || [];
+  const time = Date.parse(message.date || "");
+  const attachments = message.attachments || [];
+
+  switch (term.operator) {
+    case undefined: {
+      const phrase = tokenize(value.replace(/^\+/, ""));
+      const fields = [
+        message.subject,
+        message.from,
+        message.to,
+        message.cc,
+        message.bcc,
+        message.body || message.bodyText || message.snippet,
+        ...attachments.map((attachment) => attachment.filename),
+      ];
+      return fields.some(
+        (field) => field && containsPhrase(tokenize(field), phrase)
+      );
+    }
+    case "from":
+    case "to":
+    case "cc":
+    case "bcc":
+      return matchesAddress(message[term.operator], value, context);
+    case "subject":
+      return containsPhrase(tokenize(message.subject || ""), tokenize(value));
+    case "label": {
+      const wanted = normalizeLabel(value);
+      return labelIds.some((id) => {
+        const label = context.labels?.find((l) => l.id === id);
+        return (
+          normalizeLabel(id) === wanted ||
+          (label !== undefined && normalizeLabel(label.name) === wanted)
+        );
+      });
+    }
+    case "is":
+      if (value === "read") return !labelIds.includes("UNREAD");
+      if (IS_LABELS[value]) return labelIds.includes(IS_LABELS[value]);
+      throw new Error(`"is:${term.value}" can't be evaluated locally`);
+    case "in":
+      if (value === "anywhere") return true;
+      if (IN_LABELS[value]) return labelIds.includes(IN_LABELS[value]);
+      throw new Error(`"in:${term.value}" can't be evaluated locally`);
+    case "category":
+      if (CATEGORY_LABELS[value]) {
+        return labelIds.includes(CATEGORY_LABELS[value]);
+      }
+      throw new Error(`Unknown category "${term.value}"`);
+    case "has":
+      if (value === "attachment") return attachments.length > 0;
+      if (value === "userlabels") {
+        return labelIds.some((id) => id.startsWith("Label_"));
+      }
+      if (value === "nouserlabels") {
+        return !labelIds.some((id) => id.startsWith("Label_"));
+      }
+      throw new Error(`"has:${term.value}" can't be evaluated locally`);
+    case "filename":
+      return attachments.some((attachment) => {
+        const name = attachment.filename.toLowerCase();
+        return (
+          name === value ||
+          name.endsWith(`.${value}`) ||
+          containsPhrase(tokenize(name), tokenize(value))
+        );
+      });
+    case "after":
+    case "newer":
+      return time >= parseQueryDate(term.value)!;
+    case "before":
+    case "older":
+      return time < parseQueryDate(term.value)!;
+    case "newer_than":
+      return time > parseRelativeDate(term.value, context.now)!;
+    case "older_than":
+      return time < parseRelativeDate(term.value, context.now)!;
+    case "rfc822msgid":
+      return (message.messageId || "").replace(/^<|>$/g, "") ===
+        term.value.replace(/^<|>$/g, "");
+    default:
+      throw new Error(`"${term.operator}:" can't be evaluated locally`);
+  }
+}
+
+/**
+ * Run a query against one message. Operators that need data we don't
+ * have locally (sizes, mailing-list headers) throw; check
+ * unsupportedOperators() first to avoid that. Metadata-only messages
+ * have no attachment list, so has:attachment never matches them.
+ */
+export function evaluateQuery(
+  query: string | QueryNode,
+  message: EmailMessage | EmailContent,
+  context: QueryContext = {}
+): boolean {
+  const node = typeof query === "string" ? parseGmailQuery(query) : query;
+  const evaluate = (node: QueryNode): boolean => {
+    switch (node.type) {
+      case "and":
+        return node.children.every(evaluate);
+      case "or":
+        return node.children.some(evaluate);
+      case "not":
+        return !evaluate(node.child);
+      case "term":
+        return evaluateTerm(node, message, context);
+    }
+  };
+  return evaluate(node);
+}
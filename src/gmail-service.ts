@@ -1,11 +1,449 @@
 import { gmail_v1 } from "googleapis";
 import { getGmailService } from "./auth.js";
+import {
+  DEFAULT_ACCOUNT,
+  accountCachePath,
+  defaultAccount,
+  validateAccountName,
+} from "./accounts.js";
+import { htmlToText } from "./html-to-text.js";
+import {
+  buildMimeMessage,
+  encodeRawMessage,
+  extractEmail,
+  guessMimeType,
+  loadAttachments,
+  MimeMessage,
+  parseAddressList,
+} from "./mime-builder.js";
+import { buildForward, buildReply } from "./compose.js";
+import { filterKey } from "./filter-xml.js";
+import { filterCriteriaQuery, parseQueryDate } from "./gmail-query.js";
+import {
+  BatchAuthClient,
+  BatchRequest,
+  MAX_BATCH_SIZE,
+  sendBatch,
+} from "./batch-request.js";
+import {
+  DEFAULT_CACHE_PATH,
+  MessageCache,
+  MessageCacheOptions,
+} from "./message-cache.js";
+import { searchDocuments } from "./local-search.js";
+import { RequestScheduler } from "./request-scheduler.js";
+import {
+  getErrorStatus,
+  isNetworkError,
+  resolveRetryPolicy,
+  RetryOptions,
+  RetryPolicy,
+  withRetry,
+} from "./retry.js";
+import type {
+  BatchChunkResult,
+  BatchOperationResult,
+  BatchProgress,
+  DraftList,
+  DraftSummary,
+  EmailAttachment,
+  EmailDraft,
+  EmailContent,
+  EmailMessage,
+  FilterPreview,
+  EmailThread,
+  Label,
+  LabelImpact,
+  LabelMergeResult,
+  LabelRename,
+  LabelSettings,
+  SendAsAlias,
+  SendAsChanges,
+  ThreadSummary,
+  VacationOptions,
+  VacationSettings,
+} from "./types.js";
+
+// users.messages.batchModify accepts at most 1000 ids per call
+const BATCH_CHUNK_SIZE = 1000;
+const BATCH_CONCURRENCY = 3;
+
+// Every batch operation is a label change. "delete" moves to trash like the
+// Gmail UI does; batchDelete is permanent and needs the full mail scope.
+const BATCH_LABEL_CHANGES: Record<
+  string,
+  { addLabelIds: string[]; removeLabelIds: string[] }
+> = {
+  archive: { addLabelIds: [], removeLabelIds: ["INBOX"] },
+  delete: { addLabelIds: ["TRASH"], removeLabelIds: [] },
+  markRead: { addLabelIds: [], removeLabelIds: ["UNREAD"] },
+  markUnread: { addLabelIds: ["UNREAD"], removeLabelIds: [] },
+  star: { addLabelIds: ["STARRED"], removeLabelIds: [] },
+  unstar: { addLabelIds: [], removeLabelIds: ["STARRED"] },
+};
+
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 10;
+
+// a filter preview counts this far; a broad filter would page through
+// the whole mailbox before the user sees anything
+const FILTER_PREVIEW_LIMIT = 1000;
+
+// partial responses: only the parts of a metadata fetch we actually read
+const MESSAGE_METADATA_FIELDS = "id,threadId,snippet,labelIds,payload/headers";
+const THREAD_METADATA_FIELDS = "id,messages(id,labelIds,payload/headers)";
+const DRAFT_METADATA_FIELDS = "id,message(id,threadId,snippet,payload/headers)";
+
+export interface GmailServiceOptions {
+  retry?: Partial<RetryPolicy>;
+  // cap on Gmail API calls in flight at once
+  maxConcurrentRequests?: number;
+  // group metadata fetches into /batch requests (default true)
+  batchRequests?: boolean;
+  // keep a local message cache, synced through the History API
+  cache?: boolean | MessageCacheOptions;
+  // which signed-in account to use (see accounts.ts)
+  account?: string;
+}
+
+interface ComposeOptions {
+  cc?: string[];
+  bcc?: string[];
+  threadId?: string;
+  replyTo?: string;
+  inReplyTo?: string;
+  references?: string;
+  html?: string;
+  attachments?: string[];
+  // a send-as address; the default one when left out
+  from?: string;
+  // append the sending address's signature
+  includeSignature?: boolean;
+}
+
+export interface DraftChanges {
+  to?: string[];
+  subject?: string;
+  body?: string;
+  cc?: string[];
+  bcc?: string[];
+  replyTo?: string;
+  html?: string;
+  attachments?: string[];
+  // a send-as address; the draft keeps its current sender when left out
+  from?: string;
+  // append the sender's signature to the body
+  includeSignature?: boolean;
+}
+
+// fields of a filter to change; the rest are kept
+export interface FilterChanges {
+  criteria?: gmail_v1.Schema$FilterCriteria;
+  action?: gmail_v1.Schema$FilterAction;
+}
+
+/**
+ * A filter with `changes` applied field by field: a given field replaces
+ * the current one, "" or [] clears it, and anything left out is kept.
+ */
+function mergeFilterChanges(
+  filter: gmail_v1.Schema$Filter,
+  changes: FilterChanges
+): { criteria: gmail_v1.Schema$FilterCriteria; action: gmail_v1.Schema$FilterAction } {
+  const merge = <T extends object>(current?: T | null, given?: T): T => {
+    const merged: Record<string, unknown> = { ...current, ...given };
+    for (const [key, value] of Object.entries(merged)) {
+      if (
+        value === "" ||
+        value === null ||
+        value === undefined ||
+        (Array.isArray(value) && value.length === 0)
+      ) {
+        delete merged[key];
+      }
+    }
+    return merged as T;
+  };
+  return {
+    criteria: merge(filter.criteria, changes.criteria),
+    action: merge(filter.action, changes.action),
+  };
+}
+
+// the OAuth2 client behind a googleapis Gmail client, if it can send
+// arbitrary requests (it can't when the client is a test double)
+function batchAuthOf(gmail: gmail_v1.Gmail): BatchAuthClient | null {
+  const auth: any = gmail.context?._options?.auth;
+  return auth && typeof auth.request === "function" ? auth : null;
+}
+
+function toLabel(label: gmail_v1.Schema$Label): Label {
+  return { id: label.id!, name: label.name!, type: label.type || undefined };
+}
+
+function isSublabel(name: string, parent: string): boolean {
+  return name.toLowerCase().startsWith(`${parent.toLowerCase()}/`);
+}
+
+/**
+ * The renames needed to rename `label` to `name`: the label itself, then
+ * every sub-label, so that "Work/Shopify" follows "Work". Throws when a
+ * target name is taken by a label outside the move.
+ */
+function planLabelRename(
+  label: gmail_v1.Schema$Label,
+  name: string,
+  labels: gmail_v1.Schema$Label[]
+): LabelRename[] {
+  if (label.type === "system") {
+    throw new Error(`System label ${label.name} can't be renamed`);
+  }
+  if (isSublabel(name, label.name!)) {
+    throw new Error(`Can't move ${label.name} inside itself`);
+  }
+
+  const moving = labels.filter(
+    (l) => l.id === label.id || isSublabel(l.name!, label.name!)
+  );
+  const renames = moving.map((l) => ({
+    id: l.id!,
+    from: l.name!,
+    to: name + l.name!.slice(label.name!.length),
+  }));
+
+  for (const rename of renames) {
+    const taken = labels.find(
+      (l) =>
+        l.name!.toLowerCase() === rename.to.toLowerCase() &&
+        !moving.includes(l)
+    );
+    if (taken) {
+      throw new Error(`A label named ${taken.name} already exists`);
+    }
+  }
+  return renames;
+}
+
+function labelRequestBody(settings: LabelSettings): gmail_v1.Schema$Label {
+  const body: gmail_v1.Schema$Label = {};
+  if (settings.name !== undefined) body.name = settings.name;
+  if (settings.color !== undefined) body.color = settings.color;
+  if (settings.labelListVisibility !== undefined) {
+    body.labelListVisibility = settings.labelListVisibility;
+  }
+  if (settings.messageListVisibility !== undefined) {
+    body.messageListVisibility = settings.messageListVisibility;
+  }
+  return body;
+}
+
+// point a filter's label actions at `targetId` instead of any source
+function retargetFilterAction(
+  action: gmail_v1.Schema$FilterAction,
+  sourceIds: string[],
+  targetId: string
+): gmail_v1.Schema$FilterAction {
+  const retarget = (ids?: string[] | null) =>
+    ids
+      ? [...new Set(ids.map((id) => (sourceIds.includes(id) ? targetId : id)))]
+      : ids;
+
+  return {
+    ...action,
+    addLabelIds: retarget(action.addLabelIds),
+    removeLabelIds: retarget(action.removeLabelIds),
+  };
+}
+
+function referencesLabels(
+  filter: gmail_v1.Schema$Filter,
+  labelIds: string[]
+): boolean {
+  const { addLabelIds, removeLabelIds } = filter.action || {};
+  return [...(addLabelIds || []), ...(removeLabelIds || [])].some((id) =>
+    labelIds.includes(id)
+  );
+}
+
+function toSendAsAlias(sendAs: gmail_v1.Schema$SendAs): SendAsAlias {
+  return {
+    email: sendAs.sendAsEmail!,
+    displayName: sendAs.displayName || undefined,
+    replyTo: sendAs.replyToAddress || undefined,
+    signature: sendAs.signature || undefined,
+    isPrimary: sendAs.isPrimary === true,
+    isDefault: sendAs.isDefault === true,
+    verified:
+      sendAs.isPrimary === true || sendAs.verificationStatus === "accepted",
+  };
+}
+
+// Gmail stores signatures as HTML; plain text keeps its line breaks
+function signatureHtml(signature: string): string {
+  if (/<\/?(a|b|i|u|br|p|div|span|img|strong|em|font|table)\b[^>]*>/i.test(signature)) {
+    return signature;
+  }
+  return signature
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\r?\n/g, "<br>");
+}
+
+function toVacationSettings(
+  settings: gmail_v1.Schema$VacationSettings
+): VacationSettings {
+  const iso = (time?: string | null) =>
+    time ? new Date(Number(time)).toISOString() : undefined;
+  return {
+    enabled: settings.enableAutoReply === true,
+    subject: settings.responseSubject || undefined,
+    bodyText: settings.responseBodyPlainText || undefined,
+    bodyHtml: settings.responseBodyHtml || undefined,
+    start: iso(settings.startTime),
+    end: iso(settings.endTime),
+    restrictToContacts: settings.restrictToContacts === true,
+    restrictToDomain: settings.restrictToDomain === true,
+  };
+}
+
+// epoch milliseconds as the API wants them. A bare date is a whole day:
+// it starts at local midnight, and as an end date runs through to the
+// next midnight, since Gmail stops replying at endTime.
+function vacationTime(value: string, endOfDay: boolean): string {
+  if (/^\d{4}[-/]\d{2}[-/]\d{2}$/.test(value)) {
+    const day = parseQueryDate(value);
+    if (day !== undefined) {
+      const time = new Date(day);
+      if (endOfDay) time.setDate(time.getDate() + 1);
+      return String(time.getTime());
+    }
+  }
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`Invalid date "${value}"`);
+  }
+  return String(time);
+}
+
+// run an async worker over items with at most `limit` in flight
+async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(lanes);
+  return results;
+}
+
+// decode a full-format message into headers, body text and attachment metadata
+function parseMessage(message: gmail_v1.Schema$Message): EmailContent {
+  const headers = message.payload?.headers || [];
+  // header names are case-insensitive ("Message-ID" vs "Message-Id")
+  const getHeader = (name: string) =>
+    headers.find((h) => h.name?.toLowerCase() === name.toLowerCase())
+      ?.value || "";
+
+  // extract body and attachments
+  let bodyText = "";
+  let bodyHtml = "";
+  const attachments: EmailAttachment[] = [];
+
+  const decodeBody = (data: string) =>
+    Buffer.from(data, "base64").toString("utf-8");
+
+  const extractContent = (parts: gmail_v1.Schema$MessagePart[]): void => {
+    for (const part of parts) {
+      if (part.filename && part.body?.attachmentId) {
+        attachments.push({
+          filename: part.filename,
+          mimeType: part.mimeType || undefined,
+          size: part.body?.size || undefined,
+          attachmentId: part.body.attachmentId,
+        });
+      } else if (part.mimeType === "text/plain" && part.body?.data) {
+        bodyText += decodeBody(part.body.data);
+      } else if (part.mimeType === "text/html" && part.body?.data) {
+        bodyHtml += decodeBody(part.body.data);
+      } else if (part.parts) {
+        extractContent(part.parts);
+      }
+    }
+  };
+
+  if (message.payload?.parts) {
+    extractContent(message.payload.parts);
+  } else if (message.payload?.body?.data) {
+    if (message.payload.mimeType === "text/html") {
+      bodyHtml = decodeBody(message.payload.body.data);
+    } else {
+      bodyText = decodeBody(message.payload.body.data);
+    }
+  }
+
+  return {
+    id: message.id!,
+    threadId: message.threadId || undefined,
+    subject: getHeader("Subject"),
+    from: getHeader("From"),
+    to: getHeader("To"),
+    cc: getHeader("Cc"),
+    // only present on drafts and sent mail
+    bcc: getHeader("Bcc") || undefined,
+    replyTo: getHeader("Reply-To") || undefined,
+    date: getHeader("Date"),
+    messageId: getHeader("Message-ID") || undefined,
+    inReplyTo: getHeader("In-Reply-To") || undefined,
+    references: getHeader("References") || undefined,
+    // prefer the sender's plain text; fall back to rendered HTML for HTML-only mail
+    body: bodyText || htmlToText(bodyHtml) || message.snippet || "",
+    bodyText: bodyText || undefined,
+    bodyHtml: bodyHtml || undefined,
+    snippet: message.snippet || undefined,
+    labelIds: message.labelIds || undefined,
+    attachments,
+  };
+}
 
 export class GmailService {
+  readonly account: string;
   private gmail: gmail_v1.Gmail | null = null;
+  private selfAddresses: string[] | null = null;
+  private retryPolicy: RetryPolicy;
+  private scheduler: RequestScheduler;
+  private batchRequests: boolean;
+  private cache: MessageCache | null;
+
+  constructor(options: GmailServiceOptions = {}) {
+    this.account = validateAccountName(options.account || defaultAccount());
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.scheduler = new RequestScheduler(
+      options.maxConcurrentRequests || DEFAULT_MAX_CONCURRENT_REQUESTS
+    );
+    this.batchRequests = options.batchRequests !== false;
+    // each account's mail is cached in its own file
+    this.cache = options.cache
+      ? new MessageCache({
+          path: accountCachePath(this.account),
+          // the cache file from before accounts, in the working directory
+          legacyPath:
+            this.account === DEFAULT_ACCOUNT ? DEFAULT_CACHE_PATH : undefined,
+          ...(options.cache === true ? {} : options.cache),
+        })
+      : null;
+  }
 
   async initialize(): Promise<void> {
-    this.gmail = await getGmailService();
+    this.gmail = await getGmailService(this.account);
   }
 
   private ensureInitialized(): gmail_v1.Gmail {
@@ -15,123 +453,546 @@ export class GmailService {
     return this.gmail;
   }
 
-  private async withAuthRetry<T>(operation: () => Promise<T>): Promise<T> {
+  /**
+   * Run one Gmail API call under the retry policy. An expired token
+   * re-authenticates once; rate limits and transient server errors back
+   * off and retry (see retry.ts for which calls are safe to repeat).
+   * Every attempt waits for a slot in the request scheduler.
+   */
+  private async request<T>(
+    call: (gmail: gmail_v1.Gmail) => Promise<T>,
+    options: RetryOptions = {}
+  ): Promise<T> {
+    let reauthenticated = false;
+
+    return withRetry(
+      async () => {
+        try {
+          return await this.scheduler.run(() =>
+            call(this.ensureInitialized())
+          );
+        } catch (error: any) {
+          if (
+            !reauthenticated &&
+            (error.code === 401 || error.message?.includes("invalid_grant"))
+          ) {
+            console.log("Authentication error detected, re-initializing...");
+            reauthenticated = true;
+            // Re-initialize the Gmail service with fresh auth
+            await this.initialize();
+            return await this.scheduler.run(() =>
+              call(this.ensureInitialized())
+            );
+          }
+          throw error;
+        }
+      },
+      this.retryPolicy,
+      options
+    );
+  }
+
+  /**
+   * Fetch many resources with GET, grouped into /batch requests of up to
+   * MAX_BATCH_SIZE calls. Calls that fail inside a batch (often a per-call
+   * rate limit) are fetched again on their own through `fetchOne`, which
+   * is also used when batching isn't available.
+   */
+  private async batchGet<T>(
+    requests: BatchRequest[],
+    fetchOne: (gmail: gmail_v1.Gmail, index: number) => Promise<{ data: T }>
+  ): Promise<T[]> {
+    const single = async (index: number) =>
+      (await this.request((gmail) => fetchOne(gmail, index))).data;
+
+    const useBatch =
+      this.batchRequests &&
+      requests.length > 1 &&
+      this.gmail !== null &&
+      batchAuthOf(this.gmail) !== null;
+    if (!useBatch) {
+      return Promise.all(requests.map((_, index) => single(index)));
+    }
+
+    const results: T[] = new Array(requests.length);
+    const chunks: number[] = [];
+    for (let offset = 0; offset < requests.length; offset += MAX_BATCH_SIZE) {
+      chunks.push(offset);
+    }
+
+    await Promise.all(
+      chunks.map(async (offset) => {
+        const parts = await this.request((gmail) =>
+          sendBatch(
+            batchAuthOf(gmail)!,
+            requests.slice(offset, offset + MAX_BATCH_SIZE)
+          )
+        );
+
+        await Promise.all(
+          parts.map(async (part, i) => {
+            results[offset + i] =
+              part && part.status >= 200 && part.status < 300
+                ? part.body
+                : await single(offset + i);
+          })
+        );
+      })
+    );
+
+    return results;
+  }
+
+  /**
+   * Bring the cache up to date before reading from it. Returns "fresh"
+   * when it reflects the mailbox, "offline" when Gmail can't be reached
+   * but earlier data is available, or null when the cache can't be used.
+   */
+  private async refreshCache(): Promise<"fresh" | "offline" | null> {
+    const cache = this.cache;
+    if (!cache) return null;
+    await cache.load();
+    if (cache.isFresh()) return "fresh";
+
     try {
-      return await operation();
-    } catch (error: any) {
-      if (error.code === 401 || error.message?.includes('invalid_grant')) {
-        console.log('Authentication error detected, re-initializing...');
-        // Re-initialize the Gmail service with fresh auth
-        await this.initialize();
-        // Retry the operation once
-        return await operation();
+      try {
+        if (!cache.historyId) {
+          await this.resyncCache();
+        } else {
+          await this.syncCacheHistory();
+        }
+      } catch (error) {
+        // 404: Gmail no longer keeps history back to our historyId
+        if (getErrorStatus(error) !== 404) throw error;
+        await this.resyncCache();
       }
-      throw error;
+      await cache.save();
+      return "fresh";
+    } catch (error) {
+      if (isNetworkError(error) && cache.historyId) {
+        return "offline";
+      }
+      // any other failure: serve this call from the API instead
+      return null;
     }
   }
 
-  async searchEmails(query: string, maxResults: number = 10) {
-    return this.withAuthRetry(async () => {
-      const gmail = this.ensureInitialized();
+  // replay every change since the cached historyId
+  private async syncCacheHistory(): Promise<void> {
+    const cache = this.cache!;
+    let pageToken: string | undefined;
+    let historyId = cache.historyId!;
 
-      const response = await gmail.users.messages.list({
-        userId: "me",
-        q: query,
-        maxResults,
-      });
+    do {
+      const response = await this.request((gmail) =>
+        gmail.users.history.list({
+          userId: "me",
+          startHistoryId: cache.historyId!,
+          maxResults: 500,
+          pageToken,
+        })
+      );
+      cache.applyHistory(response.data.history || []);
+      historyId = response.data.historyId || historyId;
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    cache.markSynced(historyId);
+  }
+
+  // start the cache over from the current mailbox state
+  private async resyncCache(): Promise<void> {
+    const profile = await this.request((gmail) =>
+      gmail.users.getProfile({ userId: "me" })
+    );
+    const labels = await this.request((gmail) =>
+      gmail.users.labels.list({ userId: "me" })
+    );
+
+    this.cache!.reset(
+      profile.data.historyId!,
+      (labels.data.labels || []).map(toLabel)
+    );
+  }
+
+  // our own changes show up in history; check it on the next read
+  private markCacheStale(): void {
+    this.cache?.markStale();
+  }
+
+  async searchEmails(
+    query: string,
+    maxResults: number = 10,
+    pageToken?: string
+  ) {
+    try {
+      const cacheState = await this.refreshCache();
+      const cacheKey = JSON.stringify([query, maxResults, pageToken || null]);
+      if (cacheState) {
+        const cached = this.cache!.getSearch(cacheKey, {
+          allowOutdated: cacheState === "offline",
+        });
+        if (cached) {
+          return { ...cached, messages: cached.messages!, query };
+        }
+      }
+
+      const response = await this.request((gmail) =>
+        gmail.users.messages.list({
+          userId: "me",
+          q: query,
+          maxResults,
+          pageToken,
+        })
+      );
+
+      const nextPageToken = response.data.nextPageToken || undefined;
 
       if (!response.data.messages) {
-        return { messages: [], query };
+        return { messages: [], query, nextPageToken };
+      }
+
+      const listed = response.data.messages.slice(0, maxResults);
+      const cachedMessages = new Map<string, EmailMessage>();
+      if (cacheState) {
+        for (const msg of listed) {
+          const cached = this.cache!.getMessage(msg.id!);
+          if (cached) cachedMessages.set(msg.id!, cached);
+        }
       }
 
-      // get basic info for each message
-      const messages = await Promise.all(
-        response.data.messages.slice(0, maxResults).map(async (msg) => {
-          const details = await gmail.users.messages.get({
+      // get basic info for each message not already cached
+      const missing = listed.filter((msg) => !cachedMessages.has(msg.id!));
+      const params = {
+        format: "metadata",
+        metadataHeaders: ["From", "To", "Subject", "Date"],
+        fields: MESSAGE_METADATA_FIELDS,
+      };
+      const details = await this.batchGet<gmail_v1.Schema$Message>(
+        missing.map((msg) => ({ path: `messages/${msg.id}`, params })),
+        (gmail, index) =>
+          gmail.users.messages.get({
             userId: "me",
-            id: msg.id!,
-            format: "metadata",
-            metadataHeaders: ["From", "To", "Subject", "Date"],
-          });
+            id: missing[index].id!,
+            ...params,
+          })
+      );
 
-          const headers = details.data.payload?.headers || [];
-          const getHeader = (name: string) =>
-            headers.find((h) => h.name === name)?.value || "";
-
-          return {
-            id: msg.id,
-            threadId: msg.threadId,
-            subject: getHeader("Subject"),
-            from: getHeader("From"),
-            to: getHeader("To"),
-            date: getHeader("Date"),
-            snippet: details.data.snippet,
-            labelIds: details.data.labelIds,
-          };
+      const fetched = missing.map((msg, index): EmailMessage => {
+        const headers = details[index].payload?.headers || [];
+        const getHeader = (name: string) =>
+          headers.find((h) => h.name === name)?.value || "";
+
+        return {
+          id: msg.id!,
+          threadId: msg.threadId || undefined,
+          subject: getHeader("Subject"),
+          from: getHeader("From"),
+          to: getHeader("To"),
+          date: getHeader("Date"),
+          snippet: details[index].snippet || undefined,
+          labelIds: details[index].labelIds || undefined,
+        };
+      });
+      fetched.forEach((message) => cachedMessages.set(message.id, message));
+      const messages = listed.map((msg) => cachedMessages.get(msg.id!)!);
+
+      if (cacheState === "fresh") {
+        this.cache!.putMessages(fetched);
+        this.cache!.putSearch(
+          cacheKey,
+          messages.map((message) => message.id),
+          response.data.resultSizeEstimate || undefined,
+          nextPageToken
+        );
+        await this.cache!.save();
+      }
+
+      return {
+        messages,
+        query,
+        total: response.data.resultSizeEstimate,
+        nextPageToken,
+      };
+    } catch (error) {
+      throw new Error(`Failed to search emails: ${error}`);
+    }
+  }
+
+  /**
+   * Ranked full-text search over the message cache instead of Gmail's
+   * index. Only cached messages are searched: bodies of messages that have
+   * been read, snippets for the rest. See local-search.ts for the syntax.
+   */
+  async localSearch(query: string, maxResults: number = 10) {
+    try {
+      if (!this.cache) {
+        throw new Error("the message cache is disabled");
+      }
+      // apply pending changes so deleted and relabelled messages are current
+      await this.refreshCache();
+
+      const cache = this.cache;
+      const documents = cache.getMessages().map((message) => ({
+        message,
+        content: cache.getContent(message.id),
+      }));
+      const { hits, total } = searchDocuments(documents, query, maxResults);
+
+      return {
+        messages: hits.map((hit) => hit.message),
+        query,
+        total,
+        searched: documents.length,
+      };
+    } catch (error) {
+      throw new Error(`Failed to search cached emails: ${error}`);
+    }
+  }
+
+  /**
+   * Walk every message matching a query, one page at a time.
+   * Pages are fetched lazily, so callers can stop early without
+   * pulling the rest of the mailbox.
+   */
+  async *iterateEmails(query: string, pageSize: number = 100) {
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.searchEmails(query, pageSize, pageToken);
+      for (const message of page.messages) {
+        yield message;
+      }
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  }
+
+  /**
+   * Read a full message. Pass `cache: false` when the result must come
+   * from Gmail, e.g. to get current attachment IDs.
+   */
+  async readEmail(messageId: string, options: { cache?: boolean } = {}) {
+    try {
+      const cacheState =
+        options.cache === false ? null : await this.refreshCache();
+      const cached = cacheState ? this.cache!.getContent(messageId) : undefined;
+      if (cached) {
+        return cached;
+      }
+
+      const response = await this.request((gmail) =>
+        gmail.users.messages.get({
+          userId: "me",
+          id: messageId,
+          format: "full",
+        })
+      );
+
+      const content = parseMessage(response.data);
+      if (this.cache && cacheState !== "offline") {
+        await this.cache.load();
+        this.cache.putContent(content);
+        await this.cache.save();
+      }
+      return content;
+    } catch (error) {
+      throw new Error(`Failed to read email: ${error}`);
+    }
+  }
+
+  // Raw headers readEmail doesn't keep, such as List-Id. Returns the first
+  // value of each header present, keyed by the name asked for.
+  async getMessageHeaders(
+    messageId: string,
+    names: string[]
+  ): Promise<Record<string, string>> {
+    try {
+      const response = await this.request((gmail) =>
+        gmail.users.messages.get({
+          userId: "me",
+          id: messageId,
+          format: "metadata",
+          metadataHeaders: names,
+          fields: "payload/headers",
         })
       );
 
-      return { messages, query, total: response.data.resultSizeEstimate };
-    });
+      const headers: Record<string, string> = {};
+      for (const name of names) {
+        const header = response.data.payload?.headers?.find(
+          (h) => h.name?.toLowerCase() === name.toLowerCase()
+        );
+        if (header?.value) headers[name] = header.value;
+      }
+      return headers;
+    } catch (error) {
+      throw new Error(`Failed to read email headers: ${error}`);
+    }
   }
 
-  async readEmail(messageId: string) {
-    return this.withAuthRetry(async () => {
-      const gmail = this.ensureInitialized();
-      const response = await gmail.users.messages.get({
-        userId: "me",
-        id: messageId,
-        format: "full",
+  async listThreads(
+    query: string,
+    maxResults: number = 10,
+    pageToken?: string
+  ) {
+    try {
+      const response = await this.request((gmail) =>
+        gmail.users.threads.list({
+          userId: "me",
+          q: query,
+          maxResults,
+          pageToken,
+        })
+      );
+
+      const nextPageToken = response.data.nextPageToken || undefined;
+
+      if (!response.data.threads) {
+        return { threads: [], query, nextPageToken };
+      }
+
+      // summarize each thread from its first message's headers
+      const listed = response.data.threads;
+      const params = {
+        format: "metadata",
+        metadataHeaders: ["From", "Subject", "Date"],
+        fields: THREAD_METADATA_FIELDS,
+      };
+      const details = await this.batchGet<gmail_v1.Schema$Thread>(
+        listed.map((thread) => ({ path: `threads/${thread.id}`, params })),
+        (gmail, index) =>
+          gmail.users.threads.get({
+            userId: "me",
+            id: listed[index].id!,
+            ...params,
+          })
+      );
+
+      const threads: ThreadSummary[] = listed.map((thread, index) => {
+        const messages = details[index].messages || [];
+        const first = messages[0];
+        const last = messages[messages.length - 1];
+        const headers = first?.payload?.headers || [];
+        const getHeader = (name: string) =>
+          headers.find((h) => h.name === name)?.value || "";
+
+        return {
+          id: thread.id!,
+          subject: getHeader("Subject"),
+          from: getHeader("From"),
+          date:
+            last?.payload?.headers?.find((h) => h.name === "Date")?.value ||
+            getHeader("Date"),
+          snippet: thread.snippet || undefined,
+          messageCount: messages.length,
+          labelIds: [...new Set(messages.flatMap((m) => m.labelIds || []))],
+        };
       });
 
-      const message = response.data;
-      const headers = message.payload?.headers || [];
-      const getHeader = (name: string) =>
-        headers.find((h) => h.name === name)?.value || "";
-
-      // extract body and attachments
-      let body = "";
-      const attachments: any[] = [];
-
-      const extractContent = (parts: any[]): void => {
-        for (const part of parts) {
-          if (part.mimeType === "text/plain" && part.body?.data) {
-            body += Buffer.from(part.body.data, "base64").toString("utf-8");
-          } else if (part.filename && part.body?.attachmentId) {
-            attachments.push({
-              filename: part.filename,
-              mimeType: part.mimeType,
-              size: part.body?.size,
-              attachmentId: part.body?.attachmentId,
-            });
-          } else if (part.parts) {
-            extractContent(part.parts);
-          }
-        }
+      return {
+        threads,
+        query,
+        total: response.data.resultSizeEstimate,
+        nextPageToken,
       };
+    } catch (error) {
+      throw new Error(`Failed to list threads: ${error}`);
+    }
+  }
 
-      if (message.payload?.parts) {
-        extractContent(message.payload.parts);
-      } else if (message.payload?.body?.data) {
-        body = Buffer.from(message.payload.body.data, "base64").toString(
-          "utf-8"
-        );
-      }
+  async getThread(threadId: string): Promise<EmailThread> {
+    try {
+      const response = await this.request((gmail) =>
+        gmail.users.threads.get({
+          userId: "me",
+          id: threadId,
+          format: "full",
+        })
+      );
+
+      const messages = (response.data.messages || []).map(parseMessage);
+
+      return {
+        id: response.data.id || threadId,
+        historyId: response.data.historyId || undefined,
+        subject: messages[0]?.subject,
+        messages,
+      };
+    } catch (error) {
+      throw new Error(`Failed to get thread: ${error}`);
+    }
+  }
+
+  async modifyThreadLabels(
+    threadId: string,
+    addLabels: string[] = [],
+    removeLabels: string[] = []
+  ) {
+    try {
+      const response = await this.request((gmail) =>
+        gmail.users.threads.modify({
+          userId: "me",
+          id: threadId,
+          requestBody: {
+            addLabelIds: addLabels,
+            removeLabelIds: removeLabels,
+          },
+        })
+      );
+      this.markCacheStale();
+
+      return {
+        threadId,
+        success: true,
+        messageCount: response.data.messages?.length || 0,
+      };
+    } catch (error) {
+      throw new Error(`Failed to modify thread: ${error}`);
+    }
+  }
+
+  async trashThread(threadId: string) {
+    try {
+      const response = await this.request((gmail) =>
+        gmail.users.threads.trash({
+          userId: "me",
+          id: threadId,
+        })
+      );
+      this.markCacheStale();
+
+      return {
+        threadId,
+        success: true,
+        trashed: true,
+        messageCount: response.data.messages?.length || 0,
+      };
+    } catch (error) {
+      throw new Error(`Failed to trash thread: ${error}`);
+    }
+  }
+
+  async getAttachment(messageId: string, attachmentId: string) {
+    try {
+      const response = await this.request((gmail) =>
+        gmail.users.messages.attachments.get({
+          userId: "me",
+          messageId,
+          id: attachmentId,
+        })
+      );
+
+      const data = Buffer.from(response.data.data || "", "base64url");
 
       return {
-        id: message.id,
-        threadId: message.threadId,
-        subject: getHeader("Subject"),
-        from: getHeader("From"),
-        to: getHeader("To"),
-        cc: getHeader("Cc"),
-        date: getHeader("Date"),
-        body: body || message.snippet || "",
-        snippet: message.snippet,
-        labelIds: message.labelIds,
-        attachments,
+        messageId,
+        attachmentId,
+        size: response.data.size ?? data.length,
+        data,
       };
-    });
+    } catch (error) {
+      throw new Error(`Failed to get attachment: ${error}`);
+    }
   }
 
   async modifyLabels(
@@ -139,177 +1000,959 @@ export class GmailService {
     addLabels: string[] = [],
     removeLabels: string[] = []
   ) {
-    const gmail = this.ensureInitialized();
-
     try {
       const results = await Promise.all(
         messageIds.map(async (messageId) => {
-          const response = await gmail.users.messages.modify({
+          const response = await this.request((gmail) =>
+            gmail.users.messages.modify({
+              userId: "me",
+              id: messageId,
+              requestBody: {
+                addLabelIds: addLabels,
+                removeLabelIds: removeLabels,
+              },
+            })
+          );
+          this.markCacheStale();
+          return { messageId, success: true, labels: response.data.labelIds };
+        })
+      );
+
+      return { results, modified: results.length };
+    } catch (error) {
+      throw new Error(`Failed to modify labels: ${error}`);
+    }
+  }
+
+  async sendEmail(
+    to: string[],
+    subject: string,
+    body: string,
+    options: ComposeOptions = {}
+  ) {
+    try {
+      const message = await this.composeMessage(to, subject, body, options);
+      const result = await this.sendMimeMessage(message, options.threadId);
+      return message.from ? { ...result, from: message.from } : result;
+    } catch (error) {
+      throw new Error(`Failed to send email: ${error}`);
+    }
+  }
+
+  /**
+   * Reply to a message in its thread, with In-Reply-To/References set from
+   * the original and its body quoted below ours.
+   */
+  async replyToEmail(
+    messageId: string,
+    body: string,
+    options: {
+      replyAll?: boolean;
+      cc?: string[];
+      html?: string;
+      attachments?: string[];
+    } = {}
+  ) {
+    try {
+      const original = await this.readEmail(messageId);
+      const { threadId, ...reply } = buildReply(
+        original,
+        { body, html: options.html, cc: options.cc, replyAll: options.replyAll },
+        await this.getSelfAddresses()
+      );
+
+      if (options.attachments?.length) {
+        reply.attachments = await loadAttachments(options.attachments);
+      }
+
+      const result = await this.sendMimeMessage(reply, threadId);
+      return { ...result, to: reply.to, cc: reply.cc, subject: reply.subject };
+    } catch (error) {
+      throw new Error(`Failed to reply to email: ${error}`);
+    }
+  }
+
+  /**
+   * Forward a message with its attachments (unless excluded).
+   */
+  async forwardEmail(
+    messageId: string,
+    to: string[],
+    options: {
+      body?: string;
+      cc?: string[];
+      html?: string;
+      includeAttachments?: boolean;
+    } = {}
+  ) {
+    try {
+      // attachment IDs go stale, so read fresh when forwarding them
+      const original = await this.readEmail(messageId, {
+        cache: options.includeAttachments === false,
+      });
+      const forward = buildForward(original, {
+        to,
+        body: options.body,
+        cc: options.cc,
+        html: options.html,
+      });
+
+      if (options.includeAttachments !== false && original.attachments?.length) {
+        forward.attachments = await Promise.all(
+          original.attachments.map(async (attachment) => ({
+            filename: attachment.filename,
+            mimeType: attachment.mimeType || guessMimeType(attachment.filename),
+            content: (await this.getAttachment(messageId, attachment.attachmentId))
+              .data,
+          }))
+        );
+      }
+
+      const result = await this.sendMimeMessage(forward);
+      return {
+        ...result,
+        to: forward.to,
+        subject: forward.subject,
+        attachments: forward.attachments?.length || 0,
+      };
+    } catch (error) {
+      throw new Error(`Failed to forward email: ${error}`);
+    }
+  }
+
+  private async sendMimeMessage(message: MimeMessage, threadId?: string) {
+    const response = await this.request(
+      (gmail) =>
+        gmail.users.messages.send({
+          userId: "me",
+          requestBody: {
+            raw: encodeRawMessage(buildMimeMessage(message)),
+            threadId,
+          },
+        }),
+      { idempotent: false }
+    );
+    this.markCacheStale();
+
+    return {
+      id: response.data.id,
+      threadId: response.data.threadId,
+      labelIds: response.data.labelIds,
+      success: true,
+    };
+  }
+
+  // addresses that count as "me" when building reply recipients
+  private async getSelfAddresses(): Promise<string[]> {
+    if (!this.selfAddresses) {
+      const profile = await this.request((gmail) =>
+        gmail.users.getProfile({ userId: "me" })
+      );
+      this.selfAddresses = profile.data.emailAddress
+        ? [profile.data.emailAddress]
+        : [];
+    }
+    return this.selfAddresses;
+  }
+
+  // shared by sendEmail and createDraft so both produce the same MIME
+  private async composeMessage(
+    to: string[],
+    subject: string,
+    body: string,
+    options: ComposeOptions
+  ): Promise<MimeMessage> {
+    const attachments = options.attachments?.length
+      ? await loadAttachments(options.attachments)
+      : [];
+
+    const { from, text, html } = await this.signAs(
+      options.from,
+      options.includeSignature,
+      body,
+      options.html
+    );
+
+    return {
+      from,
+      to,
+      cc: options.cc,
+      bcc: options.bcc,
+      replyTo: options.replyTo,
+      subject,
+      text,
+      html,
+      attachments,
+      inReplyTo: options.inReplyTo,
+      references: options.references,
+    };
+  }
+
+  // The From header for a send-as address, and the bodies with its
+  // signature appended when asked. Without an address, only the default
+  // address's signature is looked up.
+  private async signAs(
+    email: string | undefined,
+    includeSignature: boolean | undefined,
+    text: string,
+    html?: string
+  ): Promise<{ from?: string; text: string; html?: string }> {
+    if (!email && !includeSignature) {
+      return { text, html };
+    }
+
+    const alias = await this.resolveSendAs(email);
+    const from =
+      email && alias
+        ? alias.displayName
+          ? `${alias.displayName} <${alias.email}>`
+          : alias.email
+        : undefined;
+    if (!includeSignature || !alias?.signature) {
+      return { from, text, html };
+    }
+
+    return {
+      from,
+      // "-- " on its own line is the usual signature separator
+      text: `${text}\n\n-- \n${htmlToText(alias.signature)}`,
+      html: html
+        ? `${html}<br><br><div class="gmail_signature">${alias.signature}</div>`
+        : undefined,
+    };
+  }
+
+  // the send-as address to use: the one asked for, which has to be set up
+  // and verified in Gmail, or the default
+  private async resolveSendAs(
+    email?: string
+  ): Promise<SendAsAlias | undefined> {
+    const aliases = await this.listSendAs();
+    if (!email) {
+      return aliases.find((alias) => alias.isDefault) || aliases[0];
+    }
+
+    const alias = aliases.find(
+      (a) => a.email.toLowerCase() === email.toLowerCase()
+    );
+    if (!alias) {
+      throw new Error(
+        `${email} is not one of your send-as addresses: ${aliases
+          .map((a) => a.email)
+          .join(", ")}`
+      );
+    }
+    if (!alias.verified) {
+      throw new Error(`${email} has not been verified in Gmail yet`);
+    }
+    return alias;
+  }
+
+  async createDraft(
+    to: string[],
+    subject: string,
+    body: string,
+    options: ComposeOptions = {}
+  ) {
+    try {
+      const message = await this.composeMessage(to, subject, body, options);
+
+      const response = await this.request(
+        (gmail) =>
+          gmail.users.drafts.create({
             userId: "me",
-            id: messageId,
             requestBody: {
-              addLabelIds: addLabels,
-              removeLabelIds: removeLabels,
+              message: {
+                raw: encodeRawMessage(buildMimeMessage(message)),
+                threadId: options.threadId,
+              },
             },
+          }),
+        { idempotent: false }
+      );
+      this.markCacheStale();
+
+      return {
+        id: response.data.id,
+        messageId: response.data.message?.id,
+        threadId: response.data.message?.threadId,
+        to,
+        subject,
+        ...(message.from ? { from: message.from } : {}),
+        success: true,
+      };
+    } catch (error) {
+      throw new Error(`Failed to create draft: ${error}`);
+    }
+  }
+
+  async listDrafts(
+    maxResults: number = 10,
+    pageToken?: string,
+    query?: string
+  ): Promise<DraftList> {
+    try {
+      const response = await this.request((gmail) =>
+        gmail.users.drafts.list({
+          userId: "me",
+          maxResults,
+          pageToken,
+          q: query || undefined,
+        })
+      );
+
+      const listed = response.data.drafts || [];
+      const params = { format: "metadata", fields: DRAFT_METADATA_FIELDS };
+      const details = await this.batchGet<gmail_v1.Schema$Draft>(
+        listed.map((draft) => ({ path: `drafts/${draft.id}`, params })),
+        (gmail, index) =>
+          gmail.users.drafts.get({
+            userId: "me",
+            id: listed[index].id!,
+            ...params,
+          })
+      );
+
+      const drafts: DraftSummary[] = listed.map((draft, index) => {
+        const message = details[index].message || {};
+        const headers = message.payload?.headers || [];
+        const getHeader = (name: string) =>
+          headers.find((h) => h.name === name)?.value || undefined;
+
+        return {
+          id: draft.id!,
+          messageId: message.id || draft.message?.id || "",
+          threadId: message.threadId || undefined,
+          subject: getHeader("Subject"),
+          to: getHeader("To"),
+          date: getHeader("Date"),
+          snippet: message.snippet || undefined,
+        };
+      });
+
+      return {
+        drafts,
+        total: response.data.resultSizeEstimate || drafts.length,
+        nextPageToken: response.data.nextPageToken || undefined,
+      };
+    } catch (error) {
+      throw new Error(`Failed to list drafts: ${error}`);
+    }
+  }
+
+  async getDraft(draftId: string): Promise<EmailDraft> {
+    try {
+      const response = await this.request((gmail) =>
+        gmail.users.drafts.get({
+          userId: "me",
+          id: draftId,
+          format: "full",
+        })
+      );
+
+      return {
+        id: response.data.id || draftId,
+        message: parseMessage(response.data.message || {}),
+      };
+    } catch (error) {
+      throw new Error(`Failed to get draft: ${error}`);
+    }
+  }
+
+  /**
+   * Change some fields of a draft. Gmail replaces the whole message on
+   * update, so unchanged fields, threading headers and existing attachments
+   * are carried over from the current draft; new attachments are added.
+   */
+  async updateDraft(draftId: string, changes: DraftChanges) {
+    try {
+      const { message: current } = await this.getDraft(draftId);
+
+      // a new plain body makes the old HTML version stale
+      const html =
+        changes.html ?? (changes.body === undefined ? current.bodyHtml : undefined);
+
+      const existingAttachments = await Promise.all(
+        (current.attachments || []).map(async (attachment) => ({
+          filename: attachment.filename,
+          mimeType: attachment.mimeType || guessMimeType(attachment.filename),
+          content: (await this.getAttachment(current.id, attachment.attachmentId))
+            .data,
+        }))
+      );
+      const newAttachments = changes.attachments?.length
+        ? await loadAttachments(changes.attachments)
+        : [];
+
+      // keep the sender the draft was written as (often an alias picked
+      // in Gmail) unless a new one is given; its signature when asked
+      const signed = await this.signAs(
+        changes.from ??
+          (changes.includeSignature && current.from
+            ? extractEmail(current.from)
+            : undefined),
+        changes.includeSignature,
+        changes.body ?? current.bodyText ?? "",
+        html
+      );
+
+      const message: MimeMessage = {
+        from: changes.from ? signed.from : current.from || undefined,
+        to: changes.to ?? parseAddressList(current.to),
+        cc: changes.cc ?? parseAddressList(current.cc),
+        bcc: changes.bcc ?? parseAddressList(current.bcc),
+        replyTo: changes.replyTo ?? current.replyTo,
+        subject: changes.subject ?? current.subject ?? "",
+        text: signed.text,
+        html: signed.html,
+        attachments: [...existingAttachments, ...newAttachments],
+        inReplyTo: current.inReplyTo,
+        references: current.references,
+      };
+
+      const response = await this.request((gmail) =>
+        gmail.users.drafts.update({
+          userId: "me",
+          id: draftId,
+          requestBody: {
+            id: draftId,
+            message: {
+              raw: encodeRawMessage(buildMimeMessage(message)),
+              threadId: current.threadId,
+            },
+          },
+        })
+      );
+      this.markCacheStale();
+
+      return {
+        id: response.data.id || draftId,
+        messageId: response.data.message?.id,
+        threadId: response.data.message?.threadId,
+        to: message.to,
+        subject: message.subject,
+        ...(changes.from ? { from: message.from } : {}),
+        success: true,
+      };
+    } catch (error) {
+      throw new Error(`Failed to update draft: ${error}`);
+    }
+  }
+
+  async sendDraft(draftId: string) {
+    try {
+      const response = await this.request(
+        (gmail) =>
+          gmail.users.drafts.send({
+            userId: "me",
+            requestBody: { id: draftId },
+          }),
+        { idempotent: false }
+      );
+      this.markCacheStale();
+
+      return {
+        id: response.data.id,
+        threadId: response.data.threadId,
+        labelIds: response.data.labelIds,
+        draftId,
+        success: true,
+      };
+    } catch (error) {
+      throw new Error(`Failed to send draft: ${error}`);
+    }
+  }
+
+  async deleteDraft(draftId: string) {
+    let attempts = 0;
+    try {
+      await this.request(async (gmail) => {
+        attempts++;
+        try {
+          return await gmail.users.drafts.delete({
+            userId: "me",
+            id: draftId,
           });
-          return { messageId, success: true, labels: response.data.labelIds };
+        } catch (error) {
+          // 404 on a retry: the attempt that timed out deleted it
+          if (attempts > 1 && getErrorStatus(error) === 404) return undefined;
+          throw error;
+        }
+      });
+      this.markCacheStale();
+
+      return { id: draftId, deleted: true, success: true };
+    } catch (error) {
+      throw new Error(`Failed to delete draft: ${error}`);
+    }
+  }
+
+  async batchOperation(
+    query: string,
+    operation: string,
+    options: { onProgress?: (progress: BatchProgress) => void } = {}
+  ): Promise<BatchOperationResult> {
+    const labelChanges = BATCH_LABEL_CHANGES[operation];
+
+    if (!labelChanges) {
+      throw new Error(`Failed to perform batch operation: Unknown operation: ${operation}`);
+    }
+
+    let messageIds: string[];
+    try {
+      // First, page through every message matching the query
+      messageIds = await this.listMessageIds(query);
+    } catch (error) {
+      throw new Error(`Failed to perform batch operation: ${error}`);
+    }
+
+    const chunkResults = await this.modifyInChunks(
+      messageIds,
+      labelChanges,
+      options.onProgress
+    );
+
+    const failed = chunkResults
+      .filter((chunk) => !chunk.success)
+      .reduce((sum, chunk) => sum + chunk.size, 0);
+
+    return {
+      operation,
+      query,
+      matched: messageIds.length,
+      affected: messageIds.length - failed,
+      failed,
+      chunks: chunkResults,
+    };
+  }
+
+  // batchModify `messageIds` in chunks, a few at a time; a failed chunk
+  // is reported rather than thrown so the others still go through
+  private async modifyInChunks(
+    messageIds: string[],
+    labelChanges: { addLabelIds: string[]; removeLabelIds: string[] },
+    onProgress?: (progress: BatchProgress) => void
+  ): Promise<BatchChunkResult[]> {
+    const chunks: string[][] = [];
+    for (let i = 0; i < messageIds.length; i += BATCH_CHUNK_SIZE) {
+      chunks.push(messageIds.slice(i, i + BATCH_CHUNK_SIZE));
+    }
+
+    let processed = 0;
+    let chunksDone = 0;
+    const chunkResults = await runWithConcurrency(
+      chunks,
+      BATCH_CONCURRENCY,
+      async (ids, index): Promise<BatchChunkResult> => {
+        let result: BatchChunkResult;
+        try {
+          await this.request((gmail) =>
+            gmail.users.messages.batchModify({
+              userId: "me",
+              requestBody: { ids, ...labelChanges },
+            })
+          );
+          this.markCacheStale();
+          result = { index, size: ids.length, success: true };
+        } catch (error: any) {
+          result = {
+            index,
+            size: ids.length,
+            success: false,
+            error: error?.message || String(error),
+          };
+        }
+
+        processed += ids.length;
+        chunksDone++;
+        onProgress?.({
+          processed,
+          total: messageIds.length,
+          chunksDone,
+          chunks: chunks.length,
+        });
+        return result;
+      }
+    );
+    return chunkResults;
+  }
+
+  private async listMessageIds(
+    query: string,
+    labelIds?: string[],
+    max: number = Infinity,
+    includeSpamTrash: boolean = false
+  ): Promise<string[]> {
+    const ids: string[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const response = await this.request((gmail) =>
+        gmail.users.messages.list({
+          userId: "me",
+          q: query || undefined,
+          labelIds,
+          maxResults: 500,
+          pageToken,
+          includeSpamTrash: includeSpamTrash || undefined,
+        })
+      );
+      for (const msg of response.data.messages || []) {
+        ids.push(msg.id!);
+      }
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken && ids.length < max);
+
+    return ids;
+  }
+
+  // How many messages match a query, counting no further than `max`
+  async countMessages(query: string, max: number = 1000): Promise<number> {
+    try {
+      const ids = await this.listMessageIds(query, undefined, max);
+      return Math.min(ids.length, max);
+    } catch (error) {
+      throw new Error(`Failed to count messages: ${error}`);
+    }
+  }
+
+  async listLabels() {
+    try {
+      const response = await this.request((gmail) =>
+        gmail.users.labels.list({
+          userId: "me",
         })
       );
 
-      return { results, modified: results.length };
+      const labels = response.data.labels || [];
+      if (this.cache) {
+        await this.cache.load();
+        this.cache.labels = labels.map(toLabel);
+        await this.cache.save();
+      }
+      return labels;
+    } catch (error) {
+      // offline: fall back to the labels from the last sync
+      if (this.cache && isNetworkError(error)) {
+        await this.cache.load();
+        if (this.cache.labels.length > 0) {
+          return this.cache.labels;
+        }
+      }
+      throw new Error(`Failed to list labels: ${error}`);
+    }
+  }
+
+  async createLabel(name: string, settings: LabelSettings = {}) {
+    try {
+      const response = await this.request(
+        (gmail) =>
+          gmail.users.labels.create({
+            userId: "me",
+            requestBody: {
+              labelListVisibility: "labelShow",
+              messageListVisibility: "show",
+              ...labelRequestBody(settings),
+              name,
+            },
+          }),
+        { idempotent: false }
+      );
+      this.markCacheStale();
+
+      return response.data;
     } catch (error) {
-      throw new Error(`Failed to modify labels: ${error}`);
+      throw new Error(`Failed to create label: ${error}`);
     }
   }
 
-  async sendEmail(
-    to: string[],
-    subject: string,
-    body: string,
-    options: {
-      cc?: string[];
-      bcc?: string[];
-      threadId?: string;
-      replyTo?: string;
-    } = {}
-  ) {
-    const gmail = this.ensureInitialized();
-
+  /**
+   * Message counts for a label and its sub-labels, to show before a
+   * rename or delete.
+   */
+  async getLabelImpact(labelId: string): Promise<LabelImpact> {
     try {
-      // Create email message
-      const messageParts = [`To: ${to.join(", ")}`, `Subject: ${subject}`];
-
-      if (options.cc?.length) {
-        messageParts.push(`Cc: ${options.cc.join(", ")}`);
-      }
-      if (options.bcc?.length) {
-        messageParts.push(`Bcc: ${options.bcc.join(", ")}`);
-      }
-      if (options.replyTo) {
-        messageParts.push(`In-Reply-To: ${options.replyTo}`);
-        messageParts.push(`References: ${options.replyTo}`);
+      const response = await this.request((gmail) =>
+        gmail.users.labels.list({ userId: "me" })
+      );
+      const labels = response.data.labels || [];
+      const label = labels.find((l) => l.id === labelId);
+      if (!label) {
+        throw new Error(`Label ${labelId} not found`);
       }
 
-      messageParts.push("Content-Type: text/plain; charset=utf-8", "", body);
-
-      const message = messageParts.join("\n");
-      const encodedMessage = Buffer.from(message)
-        .toString("base64")
-        .replace(/\+/g, "-")
-        .replace(/\//g, "_")
-        .replace(/=+$/, "");
-
-      const response = await gmail.users.messages.send({
-        userId: "me",
-        requestBody: {
-          raw: encodedMessage,
-          threadId: options.threadId,
-        },
-      });
+      const sublabels = labels.filter((l) =>
+        isSublabel(l.name!, label.name!)
+      );
+      // list doesn't include counts; get does
+      const details = await Promise.all(
+        [label, ...sublabels].map(async (l) => {
+          const detail = await this.request((gmail) =>
+            gmail.users.labels.get({ userId: "me", id: l.id! })
+          );
+          return { ...toLabel(l), messages: detail.data.messagesTotal || 0 };
+        })
+      );
 
+      const [own, ...nested] = details;
       return {
-        id: response.data.id,
-        threadId: response.data.threadId,
-        labelIds: response.data.labelIds,
-        success: true,
+        label: toLabel(label),
+        messages: own.messages,
+        sublabels: nested,
       };
     } catch (error) {
-      throw new Error(`Failed to send email: ${error}`);
+      throw new Error(`Failed to get label details: ${error}`);
     }
   }
 
-  async batchOperation(query: string, operation: string) {
-    const gmail = this.ensureInitialized();
+  /**
+   * Change some of a label's settings, leaving the rest as they are.
+   * Renaming also moves every sub-label and creates missing parents, so
+   * renaming "Shopify" to "Work/Shopify" nests it under Work.
+   */
+  async patchLabel(labelId: string, changes: LabelSettings) {
+    try {
+      return await this.changeLabel(labelId, changes, "patch");
+    } catch (error) {
+      throw new Error(`Failed to update label: ${error}`);
+    }
+  }
 
+  /**
+   * Replace a label's settings: anything not given goes back to Gmail's
+   * default (shown, no color). Renames move sub-labels as patchLabel does.
+   */
+  async updateLabel(
+    labelId: string,
+    settings: LabelSettings & { name: string }
+  ) {
     try {
-      // First, get all messages matching the query
-      const searchResult = await gmail.users.messages.list({
-        userId: "me",
-        q: query,
-        maxResults: 100,
-      });
+      return await this.changeLabel(
+        labelId,
+        {
+          labelListVisibility: "labelShow",
+          messageListVisibility: "show",
+          ...settings,
+        },
+        "update"
+      );
+    } catch (error) {
+      throw new Error(`Failed to update label: ${error}`);
+    }
+  }
 
-      if (!searchResult.data.messages) {
-        return { affected: 0, operation, query };
-      }
+  private async changeLabel(
+    labelId: string,
+    changes: LabelSettings,
+    method: "patch" | "update"
+  ) {
+    const response = await this.request((gmail) =>
+      gmail.users.labels.list({ userId: "me" })
+    );
+    const labels = response.data.labels || [];
+    const label = labels.find((l) => l.id === labelId);
+    if (!label) {
+      throw new Error(`Label ${labelId} not found`);
+    }
 
-      const messageIds = searchResult.data.messages.map((m) => m.id!);
+    const renames =
+      changes.name !== undefined && changes.name !== label.name
+        ? planLabelRename(label, changes.name, labels)
+        : [];
+    if (renames.length > 0) {
+      await this.createParentLabels(changes.name!, labels);
+    }
 
-      // Perform operation based on type
-      switch (operation) {
-        case "archive":
-          await this.modifyLabels(messageIds, [], ["INBOX"]);
-          break;
-        case "delete":
-          await Promise.all(
-            messageIds.map((id) =>
-              gmail.users.messages.trash({ userId: "me", id })
-            )
-          );
-          break;
-        case "markRead":
-          await this.modifyLabels(messageIds, [], ["UNREAD"]);
-          break;
-        case "markUnread":
-          await this.modifyLabels(messageIds, ["UNREAD"], []);
-          break;
-        case "star":
-          await this.modifyLabels(messageIds, ["STARRED"], []);
-          break;
-        case "unstar":
-          await this.modifyLabels(messageIds, [], ["STARRED"]);
-          break;
-        default:
-          throw new Error(`Unknown operation: ${operation}`);
-      }
+    const updated = await this.request((gmail) =>
+      gmail.users.labels[method]({
+        userId: "me",
+        id: labelId,
+        requestBody: { ...labelRequestBody(changes), id: labelId },
+      })
+    );
 
-      return {
-        affected: messageIds.length,
-        operation,
-        query,
-        messageIds,
-      };
-    } catch (error) {
-      throw new Error(`Failed to perform batch operation: ${error}`);
+    // the label itself is renamed above; now move its sub-labels
+    for (const rename of renames.slice(1)) {
+      await this.request((gmail) =>
+        gmail.users.labels.patch({
+          userId: "me",
+          id: rename.id,
+          requestBody: { name: rename.to },
+        })
+      );
     }
+    this.markCacheStale();
+
+    return { ...updated.data, renamed: renames, success: true };
   }
 
-  async listLabels() {
-    const gmail = this.ensureInitialized();
+  // Gmail shows "A/B/C" flat unless "A" and "A/B" exist
+  private async createParentLabels(
+    name: string,
+    labels: gmail_v1.Schema$Label[]
+  ): Promise<void> {
+    const segments = name.split("/");
+    for (let depth = 1; depth < segments.length; depth++) {
+      const parent = segments.slice(0, depth).join("/");
+      const exists = labels.some(
+        (l) => l.name!.toLowerCase() === parent.toLowerCase()
+      );
+      if (!exists) {
+        await this.createLabel(parent);
+      }
+    }
+  }
 
+  /**
+   * Delete a label. Its messages keep their other labels, and sub-labels
+   * are not deleted with it.
+   */
+  async deleteLabel(labelId: string) {
     try {
-      const response = await gmail.users.labels.list({
-        userId: "me",
-      });
+      await this.request(
+        (gmail) => gmail.users.labels.delete({ userId: "me", id: labelId }),
+        { idempotent: false }
+      );
+      this.markCacheStale();
 
-      return response.data.labels || [];
+      return { id: labelId, deleted: true, success: true };
     } catch (error) {
-      throw new Error(`Failed to list labels: ${error}`);
+      throw new Error(`Failed to delete label: ${error}`);
     }
   }
 
-  async createLabel(name: string) {
-    const gmail = this.ensureInitialized();
-
+  /**
+   * Fold the source labels into `targetId`: every message carrying a
+   * source label (spam and trash included) gets the target instead, then
+   * filters that apply a source label are recreated against the target,
+   * and the sources can then be deleted. A failure names the steps that
+   * finished. With `dryRun`, only counts what would change.
+   */
+  async mergeLabels(
+    sourceIds: string[],
+    targetId: string,
+    options: {
+      deleteSources?: boolean;
+      dryRun?: boolean;
+      onProgress?: (progress: BatchProgress) => void;
+    } = {}
+  ): Promise<LabelMergeResult> {
+    // what went through before a failure, so it can be finished by hand
+    const completed: string[] = [];
     try {
-      const response = await gmail.users.labels.create({
-        userId: "me",
-        requestBody: {
-          name,
-          labelListVisibility: "labelShow",
-          messageListVisibility: "show",
-        },
-      });
+      const response = await this.request((gmail) =>
+        gmail.users.labels.list({ userId: "me" })
+      );
+      const labels = response.data.labels || [];
+      const findLabel = (id: string) => {
+        const label = labels.find((l) => l.id === id);
+        if (!label) {
+          throw new Error(`Label ${id} not found`);
+        }
+        return label;
+      };
 
-      return response.data;
+      const target = findLabel(targetId);
+      const sources = [...new Set(sourceIds)].map(findLabel);
+      if (sources.length === 0) {
+        throw new Error("No source labels given");
+      }
+      for (const source of sources) {
+        if (source.id === targetId) {
+          throw new Error(`Can't merge ${source.name} into itself`);
+        }
+        if (source.type === "system") {
+          throw new Error(`System label ${source.name} can't be merged`);
+        }
+      }
+      const ids = sources.map((l) => l.id!);
+
+      // a message may carry several sources, so collect the union; spam
+      // and trash too, or they'd lose the label when the sources go
+      const messageIds = new Set<string>();
+      for (const id of ids) {
+        const labelled = await this.listMessageIds("", [id], Infinity, true);
+        for (const messageId of labelled) {
+          messageIds.add(messageId);
+        }
+      }
+      const filters = await this.listFilters();
+      const affectedFilters = filters.filter((f) => referencesLabels(f, ids));
+
+      const result: LabelMergeResult = {
+        sources: sources.map(toLabel),
+        target: toLabel(target),
+        dryRun: options.dryRun === true,
+        messages: messageIds.size,
+        moved: 0,
+        failed: 0,
+        filters: affectedFilters.length,
+        filtersRewritten: 0,
+        deletedSources: [],
+      };
+      if (options.dryRun) {
+        return result;
+      }
+
+      // messages first: they are the part that matters if a later step fails
+      const chunkResults = await this.modifyInChunks(
+        [...messageIds],
+        { addLabelIds: [targetId], removeLabelIds: ids },
+        options.onProgress
+      );
+      this.markCacheStale();
+      result.failed = chunkResults
+        .filter((chunk) => !chunk.success)
+        .reduce((sum, chunk) => sum + chunk.size, 0);
+      result.moved = messageIds.size - result.failed;
+      completed.push(`moved ${result.moved} messages to ${target.name}`);
+
+      // Gmail filters can't be edited, so create the new one before
+      // dropping the old; skip the create when an identical one exists
+      const existing = new Set(
+        filters
+          .filter((f) => !affectedFilters.includes(f))
+          .map((f) => filterKey(f.criteria, f.action))
+      );
+      for (const filter of affectedFilters) {
+        const action = retargetFilterAction(filter.action!, ids, targetId);
+        const key = filterKey(filter.criteria, action);
+        if (!existing.has(key)) {
+          await this.request(
+            (gmail) =>
+              gmail.users.settings.filters.create({
+                userId: "me",
+                requestBody: { criteria: filter.criteria, action },
+              }),
+            { idempotent: false }
+          );
+          existing.add(key);
+        }
+        await this.deleteFilter(filter.id!);
+        result.filtersRewritten++;
+        completed.push(`rewrote filter ${filter.id}`);
+      }
+
+      // keep the sources around if any of their messages weren't moved
+      if (options.deleteSources && result.failed === 0) {
+        for (const source of sources) {
+          await this.deleteLabel(source.id!);
+          result.deletedSources.push(source.id!);
+          completed.push(`deleted ${source.name}`);
+        }
+      }
+      this.markCacheStale();
+
+      return result;
     } catch (error) {
-      throw new Error(`Failed to create label: ${error}`);
+      const done = completed.length
+        ? `. Completed before the failure: ${completed.join(", ")}`
+        : "";
+      throw new Error(`Failed to merge labels: ${error}${done}`);
     }
   }
 
   async createFilter(criteria: any, action: any) {
-    const gmail = this.ensureInitialized();
-
     try {
       // build the filter object
       const filter = {
@@ -333,6 +1976,17 @@ export class GmailService {
       if (criteria.hasAttachment !== undefined) {
         filter.criteria.hasAttachment = criteria.hasAttachment;
       }
+      // kept so that replacing a filter made in Gmail doesn't drop them
+      if (criteria.negatedQuery) {
+        filter.criteria.negatedQuery = criteria.negatedQuery;
+      }
+      if (criteria.size) {
+        filter.criteria.size = criteria.size;
+        filter.criteria.sizeComparison = criteria.sizeComparison;
+      }
+      if (criteria.excludeChats !== undefined) {
+        filter.criteria.excludeChats = criteria.excludeChats;
+      }
 
       // map actions
       if (action.addLabelIds) {
@@ -345,10 +1999,14 @@ export class GmailService {
         filter.action.forward = action.forward;
       }
 
-      const response = await gmail.users.settings.filters.create({
-        userId: "me",
-        requestBody: filter,
-      });
+      const response = await this.request(
+        (gmail) =>
+          gmail.users.settings.filters.create({
+            userId: "me",
+            requestBody: filter,
+          }),
+        { idempotent: false }
+      );
 
       return {
         id: response.data.id,
@@ -360,13 +2018,84 @@ export class GmailService {
     }
   }
 
-  async listFilters() {
-    const gmail = this.ensureInitialized();
+  // Search for the mail a filter would catch: the total and the newest few
+  async previewFilter(
+    criteria: gmail_v1.Schema$FilterCriteria,
+    sampleSize: number = 5
+  ): Promise<FilterPreview> {
+    const query = filterCriteriaQuery(criteria);
+    if (!query) {
+      throw new Error("Failed to preview filter: The filter has no criteria");
+    }
 
     try {
-      const response = await gmail.users.settings.filters.list({
-        userId: "me",
-      });
+      const [total, sample] = await Promise.all([
+        this.countMessages(query, FILTER_PREVIEW_LIMIT),
+        this.searchEmails(query, sampleSize),
+      ]);
+      return {
+        query,
+        total,
+        capped: total >= FILTER_PREVIEW_LIMIT,
+        sample: sample.messages,
+      };
+    } catch (error) {
+      throw new Error(`Failed to preview filter: ${error}`);
+    }
+  }
+
+  // Gmail's "also apply filter to matching conversations": run a filter's
+  // label changes over existing mail. Forwarding only happens to new mail.
+  async applyFilterToExisting(
+    criteria: gmail_v1.Schema$FilterCriteria,
+    action: gmail_v1.Schema$FilterAction,
+    options: { onProgress?: (progress: BatchProgress) => void } = {}
+  ): Promise<BatchOperationResult> {
+    const query = filterCriteriaQuery(criteria);
+    const labelChanges = {
+      addLabelIds: action.addLabelIds || [],
+      removeLabelIds: action.removeLabelIds || [],
+    };
+    if (!query) {
+      throw new Error("Failed to apply filter: The filter has no criteria");
+    }
+
+    let messageIds: string[] = [];
+    if (labelChanges.addLabelIds.length || labelChanges.removeLabelIds.length) {
+      try {
+        messageIds = await this.listMessageIds(query);
+      } catch (error) {
+        throw new Error(`Failed to apply filter: ${error}`);
+      }
+    }
+
+    const chunkResults = await this.modifyInChunks(
+      messageIds,
+      labelChanges,
+      options.onProgress
+    );
+
+    const failed = chunkResults
+      .filter((chunk) => !chunk.success)
+      .reduce((sum, chunk) => sum + chunk.size, 0);
+
+    return {
+      operation: "apply_filter",
+      query,
+      matched: messageIds.length,
+      affected: messageIds.length - failed,
+      failed,
+      chunks: chunkResults,
+    };
+  }
+
+  async listFilters() {
+    try {
+      const response = await this.request((gmail) =>
+        gmail.users.settings.filters.list({
+          userId: "me",
+        })
+      );
 
       return response.data.filter || [];
     } catch (error) {
@@ -374,18 +2103,304 @@ export class GmailService {
     }
   }
 
-  async deleteFilter(filterId: string) {
-    const gmail = this.ensureInitialized();
+  async getFilter(filterId: string) {
+    try {
+      const response = await this.request((gmail) =>
+        gmail.users.settings.filters.get({
+          userId: "me",
+          id: filterId,
+        })
+      );
+
+      return response.data;
+    } catch (error) {
+      throw new Error(`Failed to get filter: ${error}`);
+    }
+  }
+
+  /**
+   * Replace a filter's criteria and actions. Gmail can't edit a filter,
+   * so the old one is deleted and a new one created; if the create fails
+   * the original is put back (under a new ID).
+   */
+  async updateFilter(filterId: string, criteria: any, action: any) {
+    const original = await this.getFilter(filterId);
+    await this.deleteFilter(filterId);
 
+    let createError: unknown;
     try {
-      await gmail.users.settings.filters.delete({
-        userId: "me",
-        id: filterId,
-      });
+      const created = await this.createFilter(criteria, action);
+      return { ...created, replaced: filterId };
+    } catch (error) {
+      createError = error;
+    }
+
+    let restored: gmail_v1.Schema$Filter;
+    try {
+      const response = await this.request(
+        (gmail) =>
+          gmail.users.settings.filters.create({
+            userId: "me",
+            requestBody: {
+              criteria: original.criteria,
+              action: original.action,
+            },
+          }),
+        { idempotent: false }
+      );
+      restored = response.data;
+    } catch (error) {
+      throw new Error(
+        `Failed to update filter: ${createError}. Restoring the original filter also failed: ${error}`
+      );
+    }
+    throw new Error(
+      `Failed to update filter: ${createError}. The original filter was restored as ${restored.id}`
+    );
+  }
+
+  /**
+   * Change some of a filter's criteria and actions, keeping the rest (see
+   * mergeFilterChanges). Replaces the filter as updateFilter does.
+   */
+  async patchFilter(filterId: string, changes: FilterChanges) {
+    const current = await this.getFilter(filterId);
+    const { criteria, action } = mergeFilterChanges(current, changes);
+    return await this.updateFilter(filterId, criteria, action);
+  }
+
+  async deleteFilter(filterId: string) {
+    try {
+      await this.request(
+        (gmail) =>
+          gmail.users.settings.filters.delete({
+            userId: "me",
+            id: filterId,
+          }),
+        { idempotent: false }
+      );
 
       return { success: true, filterId };
     } catch (error) {
       throw new Error(`Failed to delete filter: ${error}`);
     }
   }
+
+  async listForwardingAddresses() {
+    try {
+      const response = await this.request((gmail) =>
+        gmail.users.settings.forwardingAddresses.list({
+          userId: "me",
+        })
+      );
+
+      return response.data.forwardingAddresses || [];
+    } catch (error) {
+      throw new Error(`Failed to list forwarding addresses: ${error}`);
+    }
+  }
+
+  async listSendAs(): Promise<SendAsAlias[]> {
+    try {
+      const response = await this.request((gmail) =>
+        gmail.users.settings.sendAs.list({ userId: "me" })
+      );
+
+      return (response.data.sendAs || []).map(toSendAsAlias);
+    } catch (error) {
+      throw new Error(`Failed to list send-as addresses: ${error}`);
+    }
+  }
+
+  async getSendAs(email: string): Promise<SendAsAlias> {
+    try {
+      const response = await this.request((gmail) =>
+        gmail.users.settings.sendAs.get({ userId: "me", sendAsEmail: email })
+      );
+
+      return toSendAsAlias(response.data);
+    } catch (error) {
+      throw new Error(`Failed to get send-as address: ${error}`);
+    }
+  }
+
+  // Change an address's name, reply-to, signature or whether it is the
+  // default; fields left out are kept
+  async updateSendAs(
+    email: string,
+    changes: SendAsChanges
+  ): Promise<SendAsAlias> {
+    const body: gmail_v1.Schema$SendAs = {};
+    if (changes.displayName !== undefined) {
+      body.displayName = changes.displayName;
+    }
+    if (changes.replyTo !== undefined) body.replyToAddress = changes.replyTo;
+    if (changes.signature !== undefined) {
+      body.signature = signatureHtml(changes.signature);
+    }
+    if (changes.isDefault !== undefined) body.isDefault = changes.isDefault;
+
+    try {
+      const response = await this.request((gmail) =>
+        gmail.users.settings.sendAs.patch({
+          userId: "me",
+          sendAsEmail: email,
+          requestBody: body,
+        })
+      );
+
+      return toSendAsAlias(response.data);
+    } catch (error) {
+      throw new Error(`Failed to update send-as address: ${error}`);
+    }
+  }
+
+  async getVacation(): Promise<VacationSettings> {
+    try {
+      const response = await this.request((gmail) =>
+        gmail.users.settings.getVacation({ userId: "me" })
+      );
+
+      return toVacationSettings(response.data);
+    } catch (error) {
+      throw new Error(`Failed to get vacation responder: ${error}`);
+    }
+  }
+
+  // Turn the auto-reply on with these changes. With dryRun nothing is
+  // saved and the settings it would save are returned, for a preview.
+  async setVacation(
+    options: VacationOptions,
+    { dryRun = false }: { dryRun?: boolean } = {}
+  ): Promise<VacationSettings> {
+    let current: gmail_v1.Schema$VacationSettings;
+    try {
+      const response = await this.request((gmail) =>
+        gmail.users.settings.getVacation({ userId: "me" })
+      );
+      current = response.data;
+    } catch (error) {
+      throw new Error(`Failed to set vacation responder: ${error}`);
+    }
+
+    const settings: gmail_v1.Schema$VacationSettings = {
+      ...current,
+      enableAutoReply: true,
+    };
+    if (options.subject !== undefined) {
+      settings.responseSubject = options.subject;
+    }
+    if (options.bodyText !== undefined) {
+      settings.responseBodyPlainText = options.bodyText;
+    }
+    if (options.bodyHtml !== undefined) {
+      settings.responseBodyHtml = options.bodyHtml;
+    }
+    // the dates are never kept: an earlier absence's window would be stale
+    try {
+      settings.startTime = options.startDate
+        ? vacationTime(options.startDate, false)
+        : null;
+      settings.endTime = options.endDate
+        ? vacationTime(options.endDate, true)
+        : null;
+    } catch (error: any) {
+      throw new Error(`Failed to set vacation responder: ${error.message}`);
+    }
+    if (options.restrictToContacts !== undefined) {
+      settings.restrictToContacts = options.restrictToContacts;
+    }
+    if (options.restrictToDomain !== undefined) {
+      settings.restrictToDomain = options.restrictToDomain;
+    }
+
+    if (!settings.responseBodyPlainText && !settings.responseBodyHtml) {
+      throw new Error(
+        "Failed to set vacation responder: The auto-reply needs a message"
+      );
+    }
+    if (settings.endTime && Number(settings.endTime) <= Date.now()) {
+      throw new Error(
+        "Failed to set vacation responder: The end date has already passed"
+      );
+    }
+    if (
+      settings.startTime &&
+      settings.endTime &&
+      Number(settings.endTime) <= Number(settings.startTime)
+    ) {
+      throw new Error(
+        "Failed to set vacation responder: The end date is before the start date"
+      );
+    }
+
+    if (dryRun) {
+      return toVacationSettings(settings);
+    }
+    try {
+      const response = await this.request((gmail) =>
+        gmail.users.settings.updateVacation({
+          userId: "me",
+          requestBody: settings,
+        })
+      );
+
+      return toVacationSettings(response.data);
+    } catch (error) {
+      throw new Error(`Failed to set vacation responder: ${error}`);
+    }
+  }
+
+  // Turn the auto-reply off, keeping its message for next time
+  async disableVacation(): Promise<VacationSettings> {
+    try {
+      const current = await this.request((gmail) =>
+        gmail.users.settings.getVacation({ userId: "me" })
+      );
+      const response = await this.request((gmail) =>
+        gmail.users.settings.updateVacation({
+          userId: "me",
+          requestBody: { ...current.data, enableAutoReply: false },
+        })
+      );
+
+      return toVacationSettings(response.data);
+    } catch (error) {
+      throw new Error(`Failed to disable vacation responder: ${error}`);
+    }
+  }
+}
+
+/**
+ * One GmailService per account, signed in on first use and kept, so
+ * switching between accounts keeps each one's cache and request queue.
+ */
+export class GmailAccounts {
+  readonly defaultAccount: string;
+  private services = new Map<string, Promise<GmailService>>();
+
+  constructor(
+    private options: Omit<GmailServiceOptions, "account"> = {},
+    account?: string
+  ) {
+    this.defaultAccount = validateAccountName(account || defaultAccount());
+  }
+
+  async get(account: string = this.defaultAccount): Promise<GmailService> {
+    validateAccountName(account);
+    let service = this.services.get(account);
+    if (!service) {
+      const created = new GmailService({ ...this.options, account });
+      service = created.initialize().then(() => created);
+      // a failed sign-in is tried again next time
+      service.catch(() => this.services.delete(account));
+      this.services.set(account, service);
+    }
+    return service;
+  }
+
+  // accounts signed in during this session
+  get active(): string[] {
+    return [...this.services.keys()];
+  }
 }
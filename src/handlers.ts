@@ -1,11 +1,39 @@
 import { GmailService } from "./gmail-service.js";
+import { downloadAttachments } from "./attachments.js";
+import { exportFilters, importFilters } from "./filter-xml.js";
+import { applyFilterFixes, auditFilters } from "./filter-audit.js";
+import { suggestFilters } from "./filter-suggest.js";
 import type {
   SearchEmailsArgs,
+  LocalSearchArgs,
   ReadEmailArgs,
   SendEmailArgs,
+  ReplyEmailArgs,
+  ForwardEmailArgs,
   ModifyLabelsArgs,
   BatchOperationArgs,
   CreateLabelArgs,
+  UpdateLabelArgs,
+  DeleteLabelArgs,
+  MergeLabelsArgs,
+  ListThreadsArgs,
+  GetThreadArgs,
+  ModifyThreadArgs,
+  DownloadAttachmentsArgs,
+  UpdateFilterArgs,
+  DeleteFilterArgs,
+  ExportFiltersArgs,
+  ImportFiltersArgs,
+  AuditFiltersArgs,
+  FilterFromEmailArgs,
+  SetVacationArgs,
+  UpdateSendAsArgs,
+  CreateDraftArgs,
+  ListDraftsArgs,
+  GetDraftArgs,
+  UpdateDraftArgs,
+  SendDraftArgs,
+  DeleteDraftArgs,
 } from "./schemas.js";
 
 /**
@@ -17,6 +45,14 @@ export class GmailHandlers {
 
   async searchEmails(args: SearchEmailsArgs): Promise<any> {
     return await this.gmailService.searchEmails(
+      args.query,
+      args.maxResults || 10,
+      args.pageToken
+    );
+  }
+
+  async localSearch(args: LocalSearchArgs): Promise<any> {
+    return await this.gmailService.localSearch(
       args.query,
       args.maxResults || 10
     );
@@ -31,6 +67,36 @@ export class GmailHandlers {
       cc: args.cc,
       bcc: args.bcc,
       threadId: args.threadId,
+      replyTo: args.replyTo,
+      html: args.html,
+      attachments: args.attachments,
+      from: args.from,
+      includeSignature: args.includeSignature,
+    });
+  }
+
+  async replyEmail(args: ReplyEmailArgs): Promise<any> {
+    return await this.gmailService.replyToEmail(args.messageId, args.body, {
+      cc: args.cc,
+      html: args.html,
+      attachments: args.attachments,
+    });
+  }
+
+  async replyAllEmail(args: ReplyEmailArgs): Promise<any> {
+    return await this.gmailService.replyToEmail(args.messageId, args.body, {
+      replyAll: true,
+      cc: args.cc,
+      html: args.html,
+      attachments: args.attachments,
+    });
+  }
+
+  async forwardEmail(args: ForwardEmailArgs): Promise<any> {
+    return await this.gmailService.forwardEmail(args.messageId, args.to, {
+      body: args.body,
+      cc: args.cc,
+      includeAttachments: args.includeAttachments,
     });
   }
 
@@ -47,10 +113,201 @@ export class GmailHandlers {
   }
 
   async createLabel(args: CreateLabelArgs): Promise<any> {
-    return await this.gmailService.createLabel(args.name);
+    const { name, ...settings } = args;
+    return await this.gmailService.createLabel(name, settings);
+  }
+
+  // Renames touch every message with the label or a sub-label, so
+  // without `confirm` only report what would change
+  async updateLabel(args: UpdateLabelArgs): Promise<any> {
+    const { labelId, confirm, ...changes } = args;
+    if (changes.name === undefined) {
+      return await this.gmailService.patchLabel(labelId, changes);
+    }
+
+    const impact = await this.gmailService.getLabelImpact(labelId);
+    if (!confirm) {
+      const from = impact.label.name;
+      return {
+        confirmed: false,
+        impact,
+        renamed: [impact.label, ...impact.sublabels].map((label) => ({
+          id: label.id,
+          from: label.name,
+          to: changes.name + label.name.slice(from.length),
+        })),
+        message: `Renaming ${from} affects ${impact.messages} messages. Nothing was changed; call again with confirm: true to rename it.`,
+      };
+    }
+    const result = await this.gmailService.patchLabel(labelId, changes);
+    return { ...result, impact };
+  }
+
+  async deleteLabel(args: DeleteLabelArgs): Promise<any> {
+    const impact = await this.gmailService.getLabelImpact(args.labelId);
+    if (!args.confirm) {
+      return {
+        confirmed: false,
+        impact,
+        message: `Deleting ${impact.label.name} removes it from ${impact.messages} messages; its sub-labels stay. Nothing was changed; call again with confirm: true to delete it.`,
+      };
+    }
+    const result = await this.gmailService.deleteLabel(args.labelId);
+    return { ...result, impact };
+  }
+
+  async mergeLabels(args: MergeLabelsArgs): Promise<any> {
+    return await this.gmailService.mergeLabels(args.sourceIds, args.targetId, {
+      deleteSources: args.deleteSources,
+      dryRun: args.dryRun,
+    });
   }
 
   async listLabels(): Promise<any> {
     return await this.gmailService.listLabels();
   }
+
+  async listThreads(args: ListThreadsArgs): Promise<any> {
+    return await this.gmailService.listThreads(
+      args.query,
+      args.maxResults || 10,
+      args.pageToken
+    );
+  }
+
+  async getThread(args: GetThreadArgs): Promise<any> {
+    return await this.gmailService.getThread(args.threadId);
+  }
+
+  async modifyThread(args: ModifyThreadArgs): Promise<any> {
+    let result: any = { threadId: args.threadId, success: true };
+
+    if (args.addLabels?.length || args.removeLabels?.length) {
+      result = await this.gmailService.modifyThreadLabels(
+        args.threadId,
+        args.addLabels,
+        args.removeLabels
+      );
+    }
+
+    if (args.trash) {
+      result = await this.gmailService.trashThread(args.threadId);
+    }
+
+    return result;
+  }
+
+  async downloadAttachments(args: DownloadAttachmentsArgs): Promise<any> {
+    return await downloadAttachments(this.gmailService, args);
+  }
+
+  async listFilters(): Promise<any> {
+    return await this.gmailService.listFilters();
+  }
+
+  async updateFilter(args: UpdateFilterArgs): Promise<any> {
+    const { filterId, ...changes } = args;
+    return await this.gmailService.patchFilter(filterId, changes);
+  }
+
+  async deleteFilter(args: DeleteFilterArgs): Promise<any> {
+    return await this.gmailService.deleteFilter(args.filterId);
+  }
+
+  async exportFilters(args: ExportFiltersArgs): Promise<any> {
+    return await exportFilters(this.gmailService, args);
+  }
+
+  async importFilters(args: ImportFiltersArgs): Promise<any> {
+    return await importFilters(this.gmailService, args);
+  }
+
+  async auditFilters(args: AuditFiltersArgs): Promise<any> {
+    const report = await auditFilters(this.gmailService);
+    if (!args.applyFixes || report.fixes.length === 0) {
+      return report;
+    }
+    return {
+      ...report,
+      fixResult: await applyFilterFixes(this.gmailService, report.fixes),
+    };
+  }
+
+  async filterFromEmail(args: FilterFromEmailArgs): Promise<any> {
+    const suggestions = await suggestFilters(this.gmailService, args.messageId);
+    if (args.candidate === undefined) {
+      return suggestions;
+    }
+
+    const chosen = suggestions.candidates[args.candidate - 1];
+    if (!chosen) {
+      throw new Error(
+        `There is no candidate ${args.candidate}; choose 1 to ${suggestions.candidates.length}`
+      );
+    }
+    if (!args.action) {
+      throw new Error("An action is required to create the filter");
+    }
+    return await this.gmailService.createFilter(chosen.criteria, args.action);
+  }
+
+  async listSendAs(): Promise<any> {
+    return await this.gmailService.listSendAs();
+  }
+
+  async updateSendAs(args: UpdateSendAsArgs): Promise<any> {
+    const { email, ...changes } = args;
+    return await this.gmailService.updateSendAs(email, changes);
+  }
+
+  async getVacation(): Promise<any> {
+    return await this.gmailService.getVacation();
+  }
+
+  async setVacation(args: SetVacationArgs): Promise<any> {
+    const { dryRun, ...options } = args;
+    return await this.gmailService.setVacation(options, { dryRun });
+  }
+
+  async disableVacation(): Promise<any> {
+    return await this.gmailService.disableVacation();
+  }
+
+  async createDraft(args: CreateDraftArgs): Promise<any> {
+    return await this.gmailService.createDraft(args.to, args.subject, args.body, {
+      cc: args.cc,
+      bcc: args.bcc,
+      threadId: args.threadId,
+      replyTo: args.replyTo,
+      html: args.html,
+      attachments: args.attachments,
+      from: args.from,
+      includeSignature: args.includeSignature,
+    });
+  }
+
+  async listDrafts(args: ListDraftsArgs): Promise<any> {
+    return await this.gmailService.listDrafts(
+      args.maxResults || 10,
+      args.pageToken,
+      args.query
+    );
+  }
+
+  async getDraft(args: GetDraftArgs): Promise<any> {
+    return await this.gmailService.getDraft(args.draftId);
+  }
+
+  async updateDraft(args: UpdateDraftArgs): Promise<any> {
+    const { draftId, ...changes } = args;
+    return await this.gmailService.updateDraft(draftId, changes);
+  }
+
+  async sendDraft(args: SendDraftArgs): Promise<any> {
+    return await this.gmailService.sendDraft(args.draftId);
+  }
+
+  async deleteDraft(args: DeleteDraftArgs): Promise<any> {
+    return await this.gmailService.deleteDraft(args.draftId);
+  }
 }
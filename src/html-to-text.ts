@@ -0,0 +1,367 @@
+// Render HTML email bodies as readable terminal text.
+// Headings, lists and data tables keep their shape; links become numbered
+// footnotes listed after the body.
+
+interface HtmlNode {
+  tag: string;
+  attrs: string;
+  children: (HtmlNode | string)[];
+}
+
+interface RenderContext {
+  links: string[];
+  listDepth: number;
+  pre: boolean;
+}
+
+// Placeholder for layout whitespace that must survive whitespace collapsing
+const HARD_SPACE = "\uE000";
+
+const VOID_TAGS = new Set([
+  "br",
+  "img",
+  "hr",
+  "meta",
+  "link",
+  "input",
+  "col",
+  "wbr",
+  "source",
+  "area",
+  "base",
+]);
+
+const BLOCK_TAGS = new Set([
+  "p",
+  "div",
+  "section",
+  "article",
+  "header",
+  "footer",
+  "main",
+  "nav",
+  "aside",
+  "center",
+  "address",
+  "figure",
+  "figcaption",
+  "dl",
+  "dt",
+  "dd",
+  "form",
+  "fieldset",
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  bull: "•",
+  middot: "·",
+  euro: "€",
+  pound: "£",
+  yen: "¥",
+  cent: "¢",
+  deg: "°",
+  times: "×",
+  zwnj: "",
+  zwj: "",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point =
+        code[1] === "x" || code[1] === "X"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      try {
+        return String.fromCodePoint(point);
+      } catch {
+        return entity;
+      }
+    }
+    const named = NAMED_ENTITIES[code.toLowerCase()];
+    return named !== undefined ? named : entity;
+  });
+}
+
+function getAttr(attrs: string, name: string): string | undefined {
+  const match = attrs.match(
+    new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i")
+  );
+  if (!match) return undefined;
+  return decodeEntities(match[1] ?? match[2] ?? match[3] ?? "");
+}
+
+function parse(html: string): HtmlNode {
+  const cleaned = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<!doctype[^>]*>/gi, "")
+    .replace(/<(script|style|head|title)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, "");
+
+  const root: HtmlNode = { tag: "root", attrs: "", children: [] };
+  const stack: HtmlNode[] = [root];
+  const tokenPattern = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>|([^<]+|<)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(cleaned))) {
+    const [, closing, rawTag, attrs, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (text !== undefined) {
+      current.children.push(text);
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (closing) {
+      // close up to the matching open tag; stray closers are ignored
+      const index = stack.map((n) => n.tag).lastIndexOf(tag);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    // implicitly close an open <li>, <p>, <td> or <tr> like browsers do
+    if (tag === "li" || tag === "p" || tag === "tr" || tag === "td" || tag === "th") {
+      const implied =
+        tag === "li" ? ["li"] : tag === "p" ? ["p"] : tag === "tr" ? ["tr", "td", "th"] : ["td", "th"];
+      while (
+        stack.length > 1 &&
+        implied.includes(stack[stack.length - 1].tag)
+      ) {
+        stack.pop();
+      }
+    }
+
+    const node: HtmlNode = { tag, attrs, children: [] };
+    stack[stack.length - 1].children.push(node);
+    if (!VOID_TAGS.has(tag) && !attrs.trim().endsWith("/")) {
+      stack.push(node);
+    }
+  }
+
+  return root;
+}
+
+function hasDescendant(node: HtmlNode, tag: string): boolean {
+  return node.children.some(
+    (child) =>
+      typeof child !== "string" &&
+      (child.tag === tag || hasDescendant(child, tag))
+  );
+}
+
+function collectRows(node: HtmlNode): HtmlNode[] {
+  const rows: HtmlNode[] = [];
+  for (const child of node.children) {
+    if (typeof child === "string") continue;
+    if (child.tag === "tr") {
+      rows.push(child);
+    } else if (child.tag !== "table") {
+      rows.push(...collectRows(child));
+    }
+  }
+  return rows;
+}
+
+function singleLine(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function renderChildren(node: HtmlNode, ctx: RenderContext): string {
+  return node.children.map((child) => render(child, ctx)).join("");
+}
+
+function renderTable(node: HtmlNode, ctx: RenderContext): string {
+  const rows = collectRows(node).map((row) =>
+    row.children
+      .filter(
+        (cell): cell is HtmlNode =>
+          typeof cell !== "string" && (cell.tag === "td" || cell.tag === "th")
+      )
+      .map((cell) => ({ text: renderChildren(cell, ctx), header: cell.tag === "th" }))
+  );
+
+  // Layout tables (nested tables, long cells) are rendered as plain blocks;
+  // only small data tables are drawn as columns.
+  const isDataTable =
+    !hasDescendant(node, "table") &&
+    rows.length > 0 &&
+    rows.some((cells) => cells.length > 1) &&
+    rows.every((cells) =>
+      cells.every((cell) => singleLine(cell.text).length <= 60 && !/\n\s*\n/.test(cell.text.trim()))
+    );
+
+  if (!isDataTable) {
+    return (
+      "\n" +
+      rows.map((cells) => cells.map((cell) => `\n${cell.text}\n`).join("")).join("\n") +
+      "\n"
+    );
+  }
+
+  const grid = rows.map((cells) => cells.map((cell) => singleLine(cell.text)));
+  const columns = Math.max(...grid.map((cells) => cells.length));
+  const widths = Array.from({ length: columns }, (_, col) =>
+    Math.max(...grid.map((cells) => (cells[col] || "").length))
+  );
+
+  const formatRow = (cells: string[]) =>
+    widths
+      .map((width, col) => (cells[col] || "").padEnd(width, HARD_SPACE))
+      .join(`${HARD_SPACE}|${HARD_SPACE}`)
+      .replace(/ /g, HARD_SPACE);
+
+  const lines = grid.map((cells) =>
+    formatRow(cells).replace(new RegExp(`${HARD_SPACE}+$`), "")
+  );
+  if (rows[0].every((cell) => cell.header)) {
+    lines.splice(1, 0, widths.map((width) => "-".repeat(width)).join("-+-"));
+  }
+
+  return `\n\n${lines.join("\n")}\n\n`;
+}
+
+function renderList(node: HtmlNode, ctx: RenderContext): string {
+  const ordered = node.tag === "ol";
+  const start = parseInt(getAttr(node.attrs, "start") || "1", 10) || 1;
+  const indent = HARD_SPACE.repeat(ctx.listDepth * 2);
+  const nested = { ...ctx, listDepth: ctx.listDepth + 1 };
+
+  let position = start;
+  const items = node.children
+    .filter((child): child is HtmlNode => typeof child !== "string" && child.tag === "li")
+    .map((item) => {
+      const marker = ordered ? `${position++}.` : "•";
+      const [first = "", ...rest] = renderChildren(item, nested)
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0);
+      const continuation = HARD_SPACE.repeat(marker.length + 1);
+      return [
+        `${indent}${marker}${HARD_SPACE}${first}`,
+        // nested lists carry their own indentation
+        ...rest.map((line) =>
+          line.startsWith(HARD_SPACE) ? line : `${indent}${continuation}${line}`
+        ),
+      ].join("\n");
+    });
+
+  return `\n${items.join("\n")}\n${ctx.listDepth === 0 ? "\n" : ""}`;
+}
+
+function render(node: HtmlNode | string, ctx: RenderContext): string {
+  if (typeof node === "string") {
+    const text = decodeEntities(node);
+    if (ctx.pre) {
+      return text.replace(/ /g, HARD_SPACE);
+    }
+    return text.replace(/\s+/g, " ");
+  }
+
+  switch (node.tag) {
+    case "br":
+      return "\n";
+    case "hr":
+      return `\n${"-".repeat(40)}\n`;
+    case "img": {
+      const alt = singleLine(getAttr(node.attrs, "alt") || "");
+      return alt ? `[${alt}]` : "";
+    }
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6": {
+      const level = parseInt(node.tag[1], 10);
+      const text = singleLine(renderChildren(node, ctx));
+      return text ? `\n\n${"#".repeat(level)} ${text}\n\n` : "";
+    }
+    case "ul":
+    case "ol":
+      return renderList(node, ctx);
+    case "li":
+      // <li> outside of a list
+      return `\n• ${renderChildren(node, ctx).trim()}\n`;
+    case "table":
+      return renderTable(node, ctx);
+    case "tr":
+    case "td":
+    case "th":
+      return `\n${renderChildren(node, ctx)}\n`;
+    case "pre":
+      return `\n\n${renderChildren(node, { ...ctx, pre: true })}\n\n`;
+    case "blockquote": {
+      const lines = renderChildren(node, ctx)
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0);
+      return `\n\n${lines.map((line) => `>${HARD_SPACE}${line}`).join("\n")}\n\n`;
+    }
+    case "a": {
+      const text = renderChildren(node, ctx);
+      const href = (getAttr(node.attrs, "href") || "").trim();
+      if (!href || href.startsWith("#") || href.toLowerCase().startsWith("javascript:")) {
+        return text;
+      }
+      const label = singleLine(text);
+      const target = href.replace(/^mailto:/i, "");
+      if (!label || label === href || label === target) {
+        return target;
+      }
+      let index = ctx.links.indexOf(href);
+      if (index === -1) {
+        ctx.links.push(href);
+        index = ctx.links.length - 1;
+      }
+      return `${text} [${index + 1}]`;
+    }
+    default:
+      if (BLOCK_TAGS.has(node.tag)) {
+        const separator = node.tag === "p" ? "\n\n" : "\n";
+        return `${separator}${renderChildren(node, ctx)}${separator}`;
+      }
+      return renderChildren(node, ctx);
+  }
+}
+
+/**
+ * Convert an HTML email body into plain terminal text.
+ */
+export function htmlToText(html: string): string {
+  if (!html) return "";
+
+  const ctx: RenderContext = { links: [], listDepth: 0, pre: false };
+  const body = render(parse(html), ctx);
+
+  let text = body
+    .split("\n")
+    .map((line) => line.replace(/ {2,}/g, " ").replace(/^ +| +$/g, ""))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  if (ctx.links.length > 0) {
+    text += "\n\nLinks:\n";
+    text += ctx.links.map((href, i) => `[${i + 1}] ${href}`).join("\n");
+  }
+
+  return text.replace(new RegExp(HARD_SPACE, "g"), " ");
+}
@@ -0,0 +1,324 @@
+import type { EmailContent, EmailMessage } from "./types.js";
+
+// Ranked full-text search over messages we already have locally. The query
+// language is deliberately small and independent of Gmail's:
+//
+//   budget report        every word must appear (in any field)
+//   "quarterly budget"   exact phrase
+//   "budget review"~5    both words within 5 words of each other, any order
+//   /inv(oice)?-\d+/i    regular expression over the raw text
+//   subject:budget       restrict a word, phrase or regex to one field
+//   -newsletter          exclude messages that match
+//   budg*                word prefix
+
+export type SearchField = "subject" | "from" | "to" | "body";
+
+const FIELDS: SearchField[] = ["subject", "from", "to", "body"];
+
+// a hit in the subject says more about the message than one in the body
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  subject: 3,
+  from: 2,
+  to: 1,
+  body: 1,
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+export type LocalQueryClause =
+  | {
+      kind: "term";
+      field?: SearchField;
+      value: string;
+      prefix: boolean;
+      negated: boolean;
+    }
+  | {
+      kind: "phrase";
+      field?: SearchField;
+      tokens: string[];
+      slop: number;
+      negated: boolean;
+    }
+  | {
+      kind: "regex";
+      field?: SearchField;
+      pattern: RegExp;
+      negated: boolean;
+    };
+
+export interface LocalDocument {
+  message: EmailMessage;
+  // full message, when its body has been cached
+  content?: EmailContent;
+}
+
+export interface LocalSearchHit {
+  message: EmailMessage;
+  score: number;
+}
+
+interface IndexedDocument {
+  message: EmailMessage;
+  text: Record<SearchField, string>;
+  tokens: Record<SearchField, string[]>;
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+// a regex must stand alone, so paths like /usr/bin stay plain words
+const CLAUSE_PATTERN =
+  /(-)?(?:([a-z]+):)?(?:"([^"]*)"(?:~(\d+))?|\/((?:\\.|[^/\\])+)\/([gimsuy]*)(?=\s|$)|(\S+))/gi;
+
+export function parseLocalQuery(query: string): LocalQueryClause[] {
+  const clauses: LocalQueryClause[] = [];
+
+  for (const match of query.matchAll(CLAUSE_PATTERN)) {
+    const [raw, minus, fieldName, phrase, slop, regex, flags, word] = match;
+    const negated = minus === "-";
+    let field: SearchField | undefined;
+
+    if (fieldName) {
+      if (FIELDS.includes(fieldName.toLowerCase() as SearchField)) {
+        field = fieldName.toLowerCase() as SearchField;
+      } else if (phrase === undefined && regex === undefined) {
+        // not one of ours (e.g. "re:" or a URL): search the text as written
+        clauses.push(
+          ...wordClauses(raw.slice(negated ? 1 : 0), undefined, negated)
+        );
+        continue;
+      } else {
+        throw new Error(
+          `Unknown field "${fieldName}:" (use subject:, from:, to: or body:)`
+        );
+      }
+    }
+
+    if (regex !== undefined) {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(regex, flags.replace(/g/g, ""));
+      } catch (error: any) {
+        throw new Error(
+          `Invalid regular expression /${regex}/: ${error.message}`
+        );
+      }
+      clauses.push({ kind: "regex", field, pattern, negated });
+    } else if (phrase !== undefined) {
+      const tokens = tokenize(phrase);
+      if (tokens.length > 0) {
+        clauses.push({
+          kind: "phrase",
+          field,
+          tokens,
+          slop: slop ? parseInt(slop, 10) : 0,
+          negated,
+        });
+      }
+    } else {
+      clauses.push(...wordClauses(word, field, negated));
+    }
+  }
+
+  return clauses;
+}
+
+// "e-mail" or "ann@example.com" become phrases of their parts
+function wordClauses(
+  word: string,
+  field: SearchField | undefined,
+  negated: boolean
+): LocalQueryClause[] {
+  const prefix = word.endsWith("*");
+  const tokens = tokenize(prefix ? word.slice(0, -1) : word);
+
+  if (tokens.length === 0) return [];
+  if (tokens.length === 1) {
+    return [{ kind: "term", field, value: tokens[0], prefix, negated }];
+  }
+  return [{ kind: "phrase", field, tokens, slop: 0, negated }];
+}
+
+function indexDocument({ message, content }: LocalDocument): IndexedDocument {
+  const text: Record<SearchField, string> = {
+    subject: message.subject || "",
+    from: message.from || "",
+    to: message.to || "",
+    // only read messages have a cached body; the snippet stands in otherwise
+    body: content?.body || content?.bodyText || message.snippet || "",
+  };
+  const tokens = {} as Record<SearchField, string[]>;
+  for (const field of FIELDS) {
+    tokens[field] = tokenize(text[field]);
+  }
+  return { message, text, tokens };
+}
+
+function tokenMatches(token: string, term: string, prefix: boolean): boolean {
+  return prefix ? token.startsWith(term) : token === term;
+}
+
+function positionsOf(tokens: string[], term: string, prefix = false): number[] {
+  const positions: number[] = [];
+  tokens.forEach((token, index) => {
+    if (tokenMatches(token, term, prefix)) positions.push(index);
+  });
+  return positions;
+}
+
+/**
+ * Number of times the phrase occurs in `tokens`. With slop 0 the words
+ * must be adjacent and in order; otherwise they may appear in any order
+ * as long as at most `slop` other words sit between them.
+ */
+function countPhrase(tokens: string[], phrase: string[], slop: number): number {
+  if (slop === 0) {
+    let count = 0;
+    for (let i = 0; i + phrase.length <= tokens.length; i++) {
+      if (phrase.every((word, offset) => tokens[i + offset] === word)) count++;
+    }
+    return count;
+  }
+
+  const words = [...new Set(phrase)];
+  const hits = tokens
+    .map((token, position) => ({ position, word: words.indexOf(token) }))
+    .filter((hit) => hit.word >= 0);
+
+  // smallest windows covering every word, via two pointers
+  let count = 0;
+  const seen = new Map<number, number>();
+  let start = 0;
+  for (let end = 0; end < hits.length; end++) {
+    seen.set(hits[end].word, (seen.get(hits[end].word) || 0) + 1);
+    while (seen.size === words.length) {
+      const span = hits[end].position - hits[start].position + 1;
+      if (span - words.length <= slop) {
+        count++;
+        seen.clear();
+        start = end + 1;
+        break;
+      }
+      const first = hits[start++].word;
+      const remaining = seen.get(first)! - 1;
+      if (remaining === 0) seen.delete(first);
+      else seen.set(first, remaining);
+    }
+  }
+  return count;
+}
+
+function clauseFields(clause: LocalQueryClause): SearchField[] {
+  return clause.field ? [clause.field] : FIELDS;
+}
+
+/**
+ * Score documents against a query and return the best `limit` of them,
+ * highest score first (newest first among equal scores). Every clause
+ * must match; negated clauses must not.
+ */
+export function searchDocuments(
+  documents: LocalDocument[],
+  query: string,
+  limit: number = 10
+): { hits: LocalSearchHit[]; total: number } {
+  const clauses = parseLocalQuery(query);
+  if (!clauses.some((clause) => !clause.negated)) {
+    throw new Error(
+      "Local search needs at least one word, phrase or pattern to look for"
+    );
+  }
+
+  const indexed = documents.map(indexDocument);
+  const count = indexed.length;
+
+  const averageLength = {} as Record<SearchField, number>;
+  for (const field of FIELDS) {
+    const total = indexed.reduce(
+      (sum, doc) => sum + doc.tokens[field].length,
+      0
+    );
+    averageLength[field] = count > 0 ? total / count || 1 : 1;
+  }
+
+  // inverse document frequency of a word, over all fields
+  const idfCache = new Map<string, number>();
+  const idf = (term: string, prefix = false) => {
+    const key = `${term}${prefix ? "*" : ""}`;
+    if (!idfCache.has(key)) {
+      const frequency = indexed.filter((doc) =>
+        FIELDS.some((field) =>
+          doc.tokens[field].some((token) => tokenMatches(token, term, prefix))
+        )
+      ).length;
+      idfCache.set(
+        key,
+        Math.log(1 + (count - frequency + 0.5) / (frequency + 0.5))
+      );
+    }
+    return idfCache.get(key)!;
+  };
+
+  const bm25 = (frequency: number, field: SearchField, doc: IndexedDocument) =>
+    (frequency * (K1 + 1)) /
+    (frequency +
+      K1 * (1 - B + (B * doc.tokens[field].length) / averageLength[field]));
+
+  // score of one clause against one document; 0 means no match
+  const scoreClause = (clause: LocalQueryClause, doc: IndexedDocument) => {
+    let score = 0;
+    for (const field of clauseFields(clause)) {
+      let frequency = 0;
+      let weight = 1;
+
+      if (clause.kind === "term") {
+        frequency = positionsOf(
+          doc.tokens[field],
+          clause.value,
+          clause.prefix
+        ).length;
+        weight = idf(clause.value, clause.prefix);
+      } else if (clause.kind === "phrase") {
+        frequency = countPhrase(doc.tokens[field], clause.tokens, clause.slop);
+        weight = clause.tokens.reduce((sum, token) => sum + idf(token), 0);
+      } else {
+        const flags = clause.pattern.flags.includes("g")
+          ? clause.pattern.flags
+          : `${clause.pattern.flags}g`;
+        const pattern = new RegExp(clause.pattern.source, flags);
+        frequency = [...doc.text[field].matchAll(pattern)].length;
+      }
+
+      if (frequency > 0) {
+        score += FIELD_WEIGHTS[field] * weight * bm25(frequency, field, doc);
+      }
+    }
+    return score;
+  };
+
+  const hits: LocalSearchHit[] = [];
+  for (const doc of indexed) {
+    let score = 0;
+    let matched = true;
+    for (const clause of clauses) {
+      const clauseScore = scoreClause(clause, doc);
+      if (clause.negated ? clauseScore > 0 : clauseScore === 0) {
+        matched = false;
+        break;
+      }
+      score += clauseScore;
+    }
+    if (matched) hits.push({ message: doc.message, score });
+  }
+
+  const timeOf = (message: EmailMessage) => Date.parse(message.date || "") || 0;
+  hits.sort(
+    (a, b) => b.score - a.score || timeOf(b.message) - timeOf(a.message)
+  );
+
+  return { hits: hits.slice(0, limit), total: hits.length };
+}
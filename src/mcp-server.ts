@@ -5,21 +5,70 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { GmailService } from "./gmail-service.js";
+import { GmailAccounts } from "./gmail-service.js";
 import { GmailHandlers } from "./handlers.js";
+import { accountFromArgs, listAccounts } from "./accounts.js";
 import {
+  AccountSchema,
   SearchEmailsSchema,
+  LocalSearchSchema,
   ReadEmailSchema,
   SendEmailSchema,
+  ReplyEmailSchema,
+  ForwardEmailSchema,
   ModifyLabelsSchema,
   BatchOperationSchema,
   CreateLabelSchema,
+  UpdateLabelSchema,
+  DeleteLabelSchema,
+  MergeLabelsSchema,
+  ListThreadsSchema,
+  GetThreadSchema,
+  ModifyThreadSchema,
+  DownloadAttachmentsSchema,
+  UpdateFilterSchema,
+  DeleteFilterSchema,
+  ExportFiltersSchema,
+  ImportFiltersSchema,
+  AuditFiltersSchema,
+  FilterFromEmailSchema,
+  SetVacationSchema,
+  UpdateSendAsSchema,
+  CreateDraftSchema,
+  ListDraftsSchema,
+  GetDraftSchema,
+  UpdateDraftSchema,
+  SendDraftSchema,
+  DeleteDraftSchema,
   validateArgs,
 } from "./schemas.js";
 
-// init services
-const gmailService = new GmailService();
-const handlers = new GmailHandlers(gmailService);
+// init services: one per account, signed in on first use. The default
+// account can be chosen with --account <name>
+const accounts = new GmailAccounts(
+  { cache: true },
+  accountFromArgs(process.argv.slice(2))
+);
+
+// every Gmail tool takes an optional account
+function withAccount<
+  T extends { name: string; inputSchema: { properties: object } }
+>(tool: T): T {
+  if (tool.name === "list_accounts") return tool; // spans every account
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        account: {
+          type: "string",
+          description: `Account to use, e.g. "work" (default: "${accounts.defaultAccount}"). See list_accounts`,
+        },
+      },
+    },
+  };
+}
 
 // create MCP server
 const server = new Server(
@@ -37,6 +86,15 @@ const server = new Server(
 // define available tools
 server.setRequestHandler(ListToolsRequestSchema, async () => ({
   tools: [
+    {
+      name: "list_accounts",
+      description:
+        "List the Gmail accounts that have signed in and which one tools use by default",
+      inputSchema: {
+        type: "object",
+        properties: {},
+      },
+    },
     {
       name: "search_emails",
       description: "Search for emails using Gmail query syntax",
@@ -53,13 +111,40 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             description: "Maximum number of results to return",
             default: 10,
           },
+          pageToken: {
+            type: "string",
+            description:
+              "nextPageToken from a previous search_emails call, to fetch the following page",
+          },
+        },
+        required: ["query"],
+      },
+    },
+    {
+      name: "local_search",
+      description:
+        "Ranked full-text search over locally cached emails. Supports exact phrases, proximity (\"a b\"~5), /regex/ over bodies, field prefixes (subject:, from:, to:, body:), -exclusion and prefix* matching. Only messages that were searched or read before are covered",
+      inputSchema: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description:
+              'Local search query (e.g., "\"budget review\"~3 from:ann -newsletter")',
+          },
+          maxResults: {
+            type: "number",
+            description: "Maximum number of results to return",
+            default: 10,
+          },
         },
         required: ["query"],
       },
     },
     {
       name: "read_email",
-      description: "Read the full content of an email",
+      description:
+        "Read the full content of an email. Returns a readable body plus the raw bodyText and bodyHtml parts",
       inputSchema: {
         type: "object",
         properties: {
@@ -95,14 +180,141 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             items: { type: "string" },
             description: "CC recipients",
           },
+          bcc: {
+            type: "array",
+            items: { type: "string" },
+            description: "BCC recipients",
+          },
           threadId: {
             type: "string",
             description: "Thread ID for replies",
           },
+          replyTo: {
+            type: "string",
+            description: "Address that replies should go to (Reply-To header)",
+          },
+          html: {
+            type: "string",
+            description:
+              "Optional HTML version of the body, sent alongside the plain text",
+          },
+          attachments: {
+            type: "array",
+            items: { type: "string" },
+            description: "Local file paths to attach",
+          },
+          from: {
+            type: "string",
+            description:
+              "Send-as address to send from (see list_send_as); the default address if left out",
+          },
+          includeSignature: {
+            type: "boolean",
+            description: "Append the sending address's signature",
+          },
         },
         required: ["to", "subject", "body"],
       },
     },
+    {
+      name: "reply_email",
+      description:
+        "Reply to the sender of a message, in the same thread",
+      inputSchema: {
+        type: "object",
+        properties: {
+          messageId: {
+            type: "string",
+            description: "The ID of the message to reply to",
+          },
+          body: {
+            type: "string",
+            description: "Reply text; the original message is quoted below it",
+          },
+          cc: {
+            type: "array",
+            items: { type: "string" },
+            description: "Additional CC recipients",
+          },
+          html: {
+            type: "string",
+            description: "Optional HTML version of the reply",
+          },
+          attachments: {
+            type: "array",
+            items: { type: "string" },
+            description: "Local file paths to attach",
+          },
+        },
+        required: ["messageId", "body"],
+      },
+    },
+    {
+      name: "reply_all_email",
+      description:
+        "Reply to the sender and every other recipient of a message, in the same thread",
+      inputSchema: {
+        type: "object",
+        properties: {
+          messageId: {
+            type: "string",
+            description: "The ID of the message to reply to",
+          },
+          body: {
+            type: "string",
+            description: "Reply text; the original message is quoted below it",
+          },
+          cc: {
+            type: "array",
+            items: { type: "string" },
+            description: "Additional CC recipients",
+          },
+          html: {
+            type: "string",
+            description: "Optional HTML version of the reply",
+          },
+          attachments: {
+            type: "array",
+            items: { type: "string" },
+            description: "Local file paths to attach",
+          },
+        },
+        required: ["messageId", "body"],
+      },
+    },
+    {
+      name: "forward_email",
+      description: "Forward a message, including its attachments, to new recipients",
+      inputSchema: {
+        type: "object",
+        properties: {
+          messageId: {
+            type: "string",
+            description: "The ID of the message to forward",
+          },
+          to: {
+            type: "array",
+            items: { type: "string" },
+            description: "Recipient email addresses",
+          },
+          body: {
+            type: "string",
+            description: "Optional note shown above the forwarded message",
+          },
+          cc: {
+            type: "array",
+            items: { type: "string" },
+            description: "CC recipients",
+          },
+          includeAttachments: {
+            type: "boolean",
+            description: "Forward the original attachments (default true)",
+            default: true,
+          },
+        },
+        required: ["messageId", "to"],
+      },
+    },
     {
       name: "modify_labels",
       description: "Add or remove labels from emails",
@@ -170,138 +382,1272 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
         properties: {
           name: {
             type: "string",
-            description: "Name for the new label",
+            description:
+              'Name for the new label. Use "/" for nested labels (e.g., "Work/Shopify")',
+          },
+          color: {
+            type: "object",
+            description:
+              "Label color from Gmail's palette, as hex codes (e.g., #ffffff on #16a765)",
+            properties: {
+              textColor: { type: "string" },
+              backgroundColor: { type: "string" },
+            },
+            required: ["textColor", "backgroundColor"],
+          },
+          labelListVisibility: {
+            type: "string",
+            enum: ["labelShow", "labelShowIfUnread", "labelHide"],
+            description: "Whether the label shows in the label list",
+          },
+          messageListVisibility: {
+            type: "string",
+            enum: ["show", "hide"],
+            description: "Whether the label shows on messages",
           },
         },
         required: ["name"],
       },
     },
-  ],
-}));
-
-// handle tool execution
-server.setRequestHandler(
-  CallToolRequestSchema,
-  async (request: CallToolRequest) => {
-    const { name, arguments: args } = request.params;
-
-    if (!args || typeof args !== "object") {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "Error: Missing or invalid arguments",
+    {
+      name: "update_label",
+      description:
+        "Rename, recolor or change the visibility of a label. Only the given fields change. Renaming moves every sub-label along (renaming Work moves Work/Shopify). A rename first returns the affected message counts without changing anything; show them to the user and call again with confirm: true",
+      inputSchema: {
+        type: "object",
+        properties: {
+          labelId: {
+            type: "string",
+            description: "ID of the label (from list_labels)",
           },
-        ],
-        isError: true,
-      };
-    }
-
-    try {
-      // ensure Gmail service is initialized
-      if (!gmailService["gmail"]) {
-        await gmailService.initialize();
-      }
-
-      switch (name) {
-        case "search_emails": {
-          const validArgs = validateArgs(SearchEmailsSchema, args);
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  await handlers.searchEmails(validArgs),
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
-        }
-
-        case "read_email": {
-          const validArgs = validateArgs(ReadEmailSchema, args);
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  await handlers.readEmail(validArgs),
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
-        }
-
-        case "send_email": {
-          const validArgs = validateArgs(SendEmailSchema, args);
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  await handlers.sendEmail(validArgs),
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
-        }
-
-        case "modify_labels": {
-          const validArgs = validateArgs(ModifyLabelsSchema, args);
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  await handlers.modifyLabels(validArgs),
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
-        }
-
-        case "batch_operation": {
-          const validArgs = validateArgs(BatchOperationSchema, args);
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  await handlers.batchOperation(validArgs),
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
-        }
-
-        case "list_labels":
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(await handlers.listLabels(), null, 2),
-              },
-            ],
-          };
-
-        case "create_label": {
-          const validArgs = validateArgs(CreateLabelSchema, args);
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  await handlers.createLabel(validArgs),
+          name: {
+            type: "string",
+            description:
+              'New name. Use "/" to nest it under another label (e.g., "Work/Shopify")',
+          },
+          color: {
+            type: "object",
+            description:
+              "Label color from Gmail's palette, as hex codes (e.g., #ffffff on #16a765)",
+            properties: {
+              textColor: { type: "string" },
+              backgroundColor: { type: "string" },
+            },
+            required: ["textColor", "backgroundColor"],
+          },
+          labelListVisibility: {
+            type: "string",
+            enum: ["labelShow", "labelShowIfUnread", "labelHide"],
+            description: "Whether the label shows in the label list",
+          },
+          messageListVisibility: {
+            type: "string",
+            enum: ["show", "hide"],
+            description: "Whether the label shows on messages",
+          },
+          confirm: {
+            type: "boolean",
+            description:
+              "Perform the rename. Without it, only the affected message counts are returned",
+          },
+        },
+        required: ["labelId"],
+      },
+    },
+    {
+      name: "delete_label",
+      description:
+        "Delete a label. Messages keep their other labels; sub-labels are not deleted. First returns how many messages have the label without changing anything; show that to the user and call again with confirm: true",
+      inputSchema: {
+        type: "object",
+        properties: {
+          labelId: {
+            type: "string",
+            description: "ID of the label (from list_labels)",
+          },
+          confirm: {
+            type: "boolean",
+            description:
+              "Delete the label. Without it, only the affected message counts are returned",
+          },
+        },
+        required: ["labelId"],
+      },
+    },
+    {
+      name: "merge_labels",
+      description:
+        "Merge labels into a target label: moves their messages, points filters that apply them at the target, and optionally deletes them. Run with dryRun first to get message and filter counts",
+      inputSchema: {
+        type: "object",
+        properties: {
+          sourceIds: {
+            type: "array",
+            items: { type: "string" },
+            description: "IDs of the labels to merge (from list_labels)",
+          },
+          targetId: {
+            type: "string",
+            description: "ID of the label to merge them into",
+          },
+          deleteSources: {
+            type: "boolean",
+            description:
+              "Delete the source labels once every message has moved",
+          },
+          dryRun: {
+            type: "boolean",
+            description: "Only count the messages and filters that would change",
+          },
+        },
+        required: ["sourceIds", "targetId"],
+      },
+    },
+    {
+      name: "list_threads",
+      description: "List conversations (threads) matching a Gmail query",
+      inputSchema: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "Gmail search query",
+          },
+          maxResults: {
+            type: "number",
+            description: "Maximum number of threads to return",
+            default: 10,
+          },
+          pageToken: {
+            type: "string",
+            description:
+              "nextPageToken from a previous list_threads call, to fetch the following page",
+          },
+        },
+        required: ["query"],
+      },
+    },
+    {
+      name: "get_thread",
+      description:
+        "Read a whole conversation, with every message in the thread decoded",
+      inputSchema: {
+        type: "object",
+        properties: {
+          threadId: {
+            type: "string",
+            description: "The ID of the thread",
+          },
+        },
+        required: ["threadId"],
+      },
+    },
+    {
+      name: "modify_thread",
+      description:
+        "Add or remove labels on every message in a thread, or move the whole thread to trash",
+      inputSchema: {
+        type: "object",
+        properties: {
+          threadId: {
+            type: "string",
+            description: "The ID of the thread",
+          },
+          addLabels: {
+            type: "array",
+            items: { type: "string" },
+            description: "Label IDs to add",
+          },
+          removeLabels: {
+            type: "array",
+            items: { type: "string" },
+            description: "Label IDs to remove",
+          },
+          trash: {
+            type: "boolean",
+            description: "Move the whole thread to trash",
+          },
+        },
+        required: ["threadId"],
+      },
+    },
+    {
+      name: "download_attachments",
+      description:
+        "Save attachments to disk, from one message or from every message matching a query",
+      inputSchema: {
+        type: "object",
+        properties: {
+          messageId: {
+            type: "string",
+            description: "Message whose attachments to save",
+          },
+          query: {
+            type: "string",
+            description:
+              "Gmail search query; attachments of every matching message are saved",
+          },
+          filename: {
+            type: "string",
+            description: "Only save attachments whose name contains this text",
+          },
+          mimeType: {
+            type: "string",
+            description:
+              'Only save attachments of this type, e.g. "application/pdf" or "pdf"',
+          },
+          targetDir: {
+            type: "string",
+            description: "Directory to save into (default: ./attachments)",
+          },
+          onCollision: {
+            type: "string",
+            enum: ["skip", "suffix"],
+            description:
+              'When a file already exists: "skip" it or save as "name (1).ext" (default)',
+          },
+          maxMessages: {
+            type: "number",
+            description: "Maximum number of messages to process for a query",
+            default: 50,
+          },
+        },
+      },
+    },
+    {
+      name: "list_filters",
+      description:
+        "List every filter with its ID, criteria and actions (label IDs as in list_labels)",
+      inputSchema: {
+        type: "object",
+        properties: {},
+      },
+    },
+    {
+      name: "update_filter",
+      description:
+        "Change a filter. Only the given criteria and action fields change; the rest are kept, and an empty string or list clears a field. Gmail can't edit filters, so it is replaced and gets a new ID; if that fails the original is restored",
+      inputSchema: {
+        type: "object",
+        properties: {
+          filterId: {
+            type: "string",
+            description: "ID of the filter (from list_filters)",
+          },
+          criteria: {
+            type: "object",
+            description: "Criteria fields to change",
+            properties: {
+              from: { type: "string" },
+              to: { type: "string" },
+              subject: { type: "string" },
+              query: {
+                type: "string",
+                description: "Gmail search the emails must match",
+              },
+              negatedQuery: {
+                type: "string",
+                description: "Gmail search the emails must not match",
+              },
+              hasAttachment: { type: "boolean" },
+            },
+          },
+          action: {
+            type: "object",
+            description: "Action fields to change",
+            properties: {
+              addLabelIds: {
+                type: "array",
+                items: { type: "string" },
+                description: "Label IDs to apply; replaces the current list",
+              },
+              removeLabelIds: {
+                type: "array",
+                items: { type: "string" },
+                description:
+                  'Label IDs to remove, e.g. "INBOX" to skip the inbox; replaces the current list',
+              },
+              forward: {
+                type: "string",
+                description: 'Verified address to forward to; "" to stop forwarding',
+              },
+            },
+          },
+        },
+        required: ["filterId"],
+      },
+    },
+    {
+      name: "delete_filter",
+      description: "Delete a filter. Mail it already changed stays as it is",
+      inputSchema: {
+        type: "object",
+        properties: {
+          filterId: {
+            type: "string",
+            description: "ID of the filter (from list_filters)",
+          },
+        },
+        required: ["filterId"],
+      },
+    },
+    {
+      name: "export_filters",
+      description:
+        "Export every filter to a mailFilters.xml file, the format Gmail's Settings → Filters imports, or to a Sieve script. Labels are written by name",
+      inputSchema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description:
+              "File to write (default: ./mailFilters.xml, or ./gmail-filters.sieve)",
+          },
+          format: {
+            type: "string",
+            enum: ["xml", "sieve"],
+            description:
+              '"xml" for Gmail (default) or "sieve"; filters Sieve cannot express are left in the script as commented warnings',
+          },
+        },
+      },
+    },
+    {
+      name: "import_filters",
+      description:
+        "Create the filters in a mailFilters.xml file. Missing labels are created and filters that already exist are skipped. Run with dryRun first to see what would change",
+      inputSchema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "File to read (default: ./mailFilters.xml)",
+          },
+          dryRun: {
+            type: "boolean",
+            description: "Only report which filters and labels would be created",
+          },
+        },
+      },
+    },
+    {
+      name: "audit_filters",
+      description:
+        "Check every filter for deleted labels, exact or redundant duplicates, filters that add a label another removes, and forwards to unverified addresses. Returns plain-English findings and suggested fixes",
+      inputSchema: {
+        type: "object",
+        properties: {
+          applyFixes: {
+            type: "boolean",
+            description:
+              "Apply the suggested fixes (delete redundant filters, strip dead labels and forwards). Run without it first and show the user the fixes",
+          },
+        },
+      },
+    },
+    {
+      name: "filter_from_email",
+      description:
+        "Propose filters for emails like an example one, from its sender, mailing list, recipient alias and subject, ranked and with how many existing emails each matches. Call again with candidate and action to create the chosen filter",
+      inputSchema: {
+        type: "object",
+        properties: {
+          messageId: {
+            type: "string",
+            description: "ID of the example email",
+          },
+          candidate: {
+            type: "number",
+            description:
+              "Number (1-based) of the proposed criteria to create a filter with",
+          },
+          action: {
+            type: "object",
+            description: "What the filter does, required with candidate",
+            properties: {
+              addLabelIds: {
+                type: "array",
+                items: { type: "string" },
+                description: "Label IDs to apply",
+              },
+              removeLabelIds: {
+                type: "array",
+                items: { type: "string" },
+                description: 'Label IDs to remove, e.g. "INBOX" to skip the inbox',
+              },
+              forward: {
+                type: "string",
+                description: "Verified address to forward to",
+              },
+            },
+          },
+        },
+        required: ["messageId"],
+      },
+    },
+    {
+      name: "list_send_as",
+      description:
+        "List the addresses the account can send from (its own and configured aliases), with display names, signatures and which is the default",
+      inputSchema: {
+        type: "object",
+        properties: {},
+      },
+    },
+    {
+      name: "update_send_as",
+      description:
+        "Change a send-as address's display name, reply-to address, signature or make it the default",
+      inputSchema: {
+        type: "object",
+        properties: {
+          email: {
+            type: "string",
+            description: "The send-as address to change",
+          },
+          displayName: {
+            type: "string",
+            description: "Name shown to recipients",
+          },
+          replyTo: {
+            type: "string",
+            description: 'Address replies should go to; "" to remove',
+          },
+          signature: {
+            type: "string",
+            description:
+              'Signature as HTML or plain text (line breaks are kept); "" to remove',
+          },
+          isDefault: {
+            type: "boolean",
+            description: "Make this the default address to send from",
+          },
+        },
+        required: ["email"],
+      },
+    },
+    {
+      name: "get_vacation",
+      description:
+        "Get the vacation (out-of-office) auto-reply: whether it is on, its subject and message, start and end, and who it replies to",
+      inputSchema: {
+        type: "object",
+        properties: {},
+      },
+    },
+    {
+      name: "set_vacation",
+      description:
+        "Turn on the vacation (out-of-office) auto-reply. Fields left out keep their current values, except the dates. Run with dryRun first and show the user the result",
+      inputSchema: {
+        type: "object",
+        properties: {
+          subject: {
+            type: "string",
+            description: "Subject of the auto-reply",
+          },
+          bodyText: {
+            type: "string",
+            description: "Plain text message",
+          },
+          bodyHtml: {
+            type: "string",
+            description: "HTML message",
+          },
+          startDate: {
+            type: "string",
+            description:
+              'First day as YYYY-MM-DD, or an ISO date-time; omit or "" to start now',
+          },
+          endDate: {
+            type: "string",
+            description:
+              'Last day away as YYYY-MM-DD (replies stop at the end of that day), or an ISO date-time; omit or "" to reply until turned off',
+          },
+          restrictToContacts: {
+            type: "boolean",
+            description: "Only reply to the user's contacts",
+          },
+          restrictToDomain: {
+            type: "boolean",
+            description: "Only reply to people in the user's domain",
+          },
+          dryRun: {
+            type: "boolean",
+            description: "Return the settings that would be saved without saving them",
+          },
+        },
+      },
+    },
+    {
+      name: "disable_vacation",
+      description:
+        "Turn off the vacation auto-reply; its message is kept for next time",
+      inputSchema: {
+        type: "object",
+        properties: {},
+      },
+    },
+    {
+      name: "create_draft",
+      description:
+        "Save an email as a draft without sending it, so it can be reviewed in Gmail first",
+      inputSchema: {
+        type: "object",
+        properties: {
+          to: {
+            type: "array",
+            items: { type: "string" },
+            description: "Recipient email addresses",
+          },
+          subject: {
+            type: "string",
+            description: "Email subject",
+          },
+          body: {
+            type: "string",
+            description: "Email body content",
+          },
+          cc: {
+            type: "array",
+            items: { type: "string" },
+            description: "CC recipients",
+          },
+          bcc: {
+            type: "array",
+            items: { type: "string" },
+            description: "BCC recipients",
+          },
+          threadId: {
+            type: "string",
+            description: "Thread ID to draft a reply in",
+          },
+          replyTo: {
+            type: "string",
+            description: "Address that replies should go to (Reply-To header)",
+          },
+          html: {
+            type: "string",
+            description:
+              "Optional HTML version of the body, sent alongside the plain text",
+          },
+          attachments: {
+            type: "array",
+            items: { type: "string" },
+            description: "Local file paths to attach",
+          },
+          from: {
+            type: "string",
+            description:
+              "Send-as address to write from (see list_send_as); the default address if left out",
+          },
+          includeSignature: {
+            type: "boolean",
+            description: "Append the sending address's signature",
+          },
+        },
+        required: ["to", "subject", "body"],
+      },
+    },
+    {
+      name: "list_drafts",
+      description: "List drafts with their subject and recipients",
+      inputSchema: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "Optional Gmail search query to filter drafts",
+          },
+          maxResults: {
+            type: "number",
+            description: "Maximum number of drafts to return",
+            default: 10,
+          },
+          pageToken: {
+            type: "string",
+            description: "nextPageToken from a previous list_drafts call",
+          },
+        },
+      },
+    },
+    {
+      name: "get_draft",
+      description: "Get the full content of a draft",
+      inputSchema: {
+        type: "object",
+        properties: {
+          draftId: {
+            type: "string",
+            description: "Draft ID (not the message ID)",
+          },
+        },
+        required: ["draftId"],
+      },
+    },
+    {
+      name: "update_draft",
+      description:
+        "Change fields of a draft. Fields that are not given keep their current value; attachments are added to the existing ones",
+      inputSchema: {
+        type: "object",
+        properties: {
+          draftId: {
+            type: "string",
+            description: "Draft ID (not the message ID)",
+          },
+          to: {
+            type: "array",
+            items: { type: "string" },
+            description: "New recipient list",
+          },
+          subject: {
+            type: "string",
+            description: "New subject",
+          },
+          body: {
+            type: "string",
+            description: "New body content",
+          },
+          cc: {
+            type: "array",
+            items: { type: "string" },
+            description: "New CC list",
+          },
+          bcc: {
+            type: "array",
+            items: { type: "string" },
+            description: "New BCC list",
+          },
+          replyTo: {
+            type: "string",
+            description: "Address that replies should go to (Reply-To header)",
+          },
+          html: {
+            type: "string",
+            description: "New HTML version of the body",
+          },
+          attachments: {
+            type: "array",
+            items: { type: "string" },
+            description: "Local file paths to attach in addition to existing ones",
+          },
+          from: {
+            type: "string",
+            description:
+              "Send-as address to send the draft from (see list_send_as); keeps the current sender if left out",
+          },
+          includeSignature: {
+            type: "boolean",
+            description: "Append the sender's signature to the body",
+          },
+        },
+        required: ["draftId"],
+      },
+    },
+    {
+      name: "send_draft",
+      description: "Send an existing draft",
+      inputSchema: {
+        type: "object",
+        properties: {
+          draftId: {
+            type: "string",
+            description: "Draft ID (not the message ID)",
+          },
+        },
+        required: ["draftId"],
+      },
+    },
+    {
+      name: "delete_draft",
+      description: "Permanently delete a draft",
+      inputSchema: {
+        type: "object",
+        properties: {
+          draftId: {
+            type: "string",
+            description: "Draft ID (not the message ID)",
+          },
+        },
+        required: ["draftId"],
+      },
+    },
+  ].map(withAccount),
+}));
+
+// handle tool execution
+server.setRequestHandler(
+  CallToolRequestSchema,
+  async (request: CallToolRequest) => {
+    const { name, arguments: args } = request.params;
+
+    if (!args || typeof args !== "object") {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Error: Missing or invalid arguments",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    try {
+      if (name === "list_accounts") {
+        const result = {
+          defaultAccount: accounts.defaultAccount,
+          accounts: await listAccounts(),
+        };
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      }
+
+      // the account's Gmail service, signed in on first use
+      const { account } = validateArgs(AccountSchema, args);
+      const handlers = new GmailHandlers(await accounts.get(account));
+
+      switch (name) {
+        case "search_emails": {
+          const validArgs = validateArgs(SearchEmailsSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.searchEmails(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "local_search": {
+          const validArgs = validateArgs(LocalSearchSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.localSearch(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "read_email": {
+          const validArgs = validateArgs(ReadEmailSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.readEmail(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "send_email": {
+          const validArgs = validateArgs(SendEmailSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.sendEmail(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "reply_email": {
+          const validArgs = validateArgs(ReplyEmailSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.replyEmail(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "reply_all_email": {
+          const validArgs = validateArgs(ReplyEmailSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.replyAllEmail(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "forward_email": {
+          const validArgs = validateArgs(ForwardEmailSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.forwardEmail(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "modify_labels": {
+          const validArgs = validateArgs(ModifyLabelsSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.modifyLabels(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "batch_operation": {
+          const validArgs = validateArgs(BatchOperationSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.batchOperation(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "list_labels":
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(await handlers.listLabels(), null, 2),
+              },
+            ],
+          };
+
+        case "create_label": {
+          const validArgs = validateArgs(CreateLabelSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.createLabel(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "update_label": {
+          const validArgs = validateArgs(UpdateLabelSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.updateLabel(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "delete_label": {
+          const validArgs = validateArgs(DeleteLabelSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.deleteLabel(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "merge_labels": {
+          const validArgs = validateArgs(MergeLabelsSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.mergeLabels(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "list_threads": {
+          const validArgs = validateArgs(ListThreadsSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.listThreads(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "get_thread": {
+          const validArgs = validateArgs(GetThreadSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.getThread(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "modify_thread": {
+          const validArgs = validateArgs(ModifyThreadSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.modifyThread(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "download_attachments": {
+          const validArgs = validateArgs(DownloadAttachmentsSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.downloadAttachments(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "list_filters":
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(await handlers.listFilters(), null, 2),
+              },
+            ],
+          };
+
+        case "update_filter": {
+          const validArgs = validateArgs(UpdateFilterSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.updateFilter(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "delete_filter": {
+          const validArgs = validateArgs(DeleteFilterSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.deleteFilter(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "export_filters": {
+          const validArgs = validateArgs(ExportFiltersSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.exportFilters(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "import_filters": {
+          const validArgs = validateArgs(ImportFiltersSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.importFilters(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "audit_filters": {
+          const validArgs = validateArgs(AuditFiltersSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.auditFilters(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "list_send_as":
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(await handlers.listSendAs(), null, 2),
+              },
+            ],
+          };
+
+        case "update_send_as": {
+          const validArgs = validateArgs(UpdateSendAsSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.updateSendAs(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "get_vacation":
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(await handlers.getVacation(), null, 2),
+              },
+            ],
+          };
+
+        case "set_vacation": {
+          const validArgs = validateArgs(SetVacationSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.setVacation(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "disable_vacation":
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(await handlers.disableVacation(), null, 2),
+              },
+            ],
+          };
+
+        case "filter_from_email": {
+          const validArgs = validateArgs(FilterFromEmailSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.filterFromEmail(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "create_draft": {
+          const validArgs = validateArgs(CreateDraftSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.createDraft(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "list_drafts": {
+          const validArgs = validateArgs(ListDraftsSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.listDrafts(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "get_draft": {
+          const validArgs = validateArgs(GetDraftSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.getDraft(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "update_draft": {
+          const validArgs = validateArgs(UpdateDraftSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.updateDraft(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "send_draft": {
+          const validArgs = validateArgs(SendDraftSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.sendDraft(validArgs),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case "delete_draft": {
+          const validArgs = validateArgs(DeleteDraftSchema, args);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await handlers.deleteDraft(validArgs),
                   null,
                   2
                 ),
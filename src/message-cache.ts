@@ -0,0 +1,319 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { gmail_v1 } from "googleapis";
+import type { EmailContent, EmailMessage, Label, SearchResult } from "./types.js";
+
+// Persistent store of message metadata, bodies, labels and thread membership.
+// It is kept current from the History API: `historyId` is the mailbox
+// state the cache reflects, and every change since then is replayed on sync.
+
+export interface MessageCacheOptions {
+  path?: string;
+  // a cache file from an older version, read once when `path` has none
+  // and removed after the first save
+  legacyPath?: string;
+  // how long after a sync the cache is trusted without asking Gmail
+  maxAgeMs?: number;
+  maxMessages?: number;
+  maxBodies?: number;
+  maxSearches?: number;
+}
+
+interface CachedSearch {
+  ids: string[];
+  total?: number;
+  nextPageToken?: string;
+  // mailbox state the result was fetched at
+  historyId: string;
+}
+
+interface CacheData {
+  version: number;
+  historyId: string | null;
+  syncedAt: number;
+  labels: Label[];
+  messages: Record<string, EmailMessage & { cachedAt: number }>;
+  bodies: Record<string, EmailContent & { cachedAt: number }>;
+  threads: Record<string, string[]>;
+  searches: Record<string, CachedSearch>;
+}
+
+const CACHE_VERSION = 1;
+
+export const DEFAULT_CACHE_PATH = path.join(process.cwd(), "gmail-cache.json");
+
+function emptyCache(): CacheData {
+  return {
+    version: CACHE_VERSION,
+    historyId: null,
+    syncedAt: 0,
+    labels: [],
+    messages: {},
+    bodies: {},
+    threads: {},
+    searches: {},
+  };
+}
+
+async function readCacheFile(file: string): Promise<any> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+// keep the `limit` most recently cached entries
+function prune<T extends { cachedAt: number }>(
+  entries: Record<string, T>,
+  limit: number
+): Record<string, T> {
+  const ids = Object.keys(entries);
+  if (ids.length <= limit) return entries;
+
+  const kept = ids
+    .sort((a, b) => entries[b].cachedAt - entries[a].cachedAt)
+    .slice(0, limit);
+  return Object.fromEntries(kept.map((id) => [id, entries[id]]));
+}
+
+export class MessageCache {
+  readonly path: string;
+  readonly maxAgeMs: number;
+  private legacyPath: string | undefined;
+  private maxMessages: number;
+  private maxBodies: number;
+  private maxSearches: number;
+  private data: CacheData = emptyCache();
+  private loaded = false;
+
+  constructor(options: MessageCacheOptions = {}) {
+    this.path = options.path || DEFAULT_CACHE_PATH;
+    this.legacyPath = options.legacyPath;
+    this.maxAgeMs = options.maxAgeMs ?? 60_000;
+    this.maxMessages = options.maxMessages ?? 5000;
+    this.maxBodies = options.maxBodies ?? 200;
+    this.maxSearches = options.maxSearches ?? 100;
+  }
+
+  get historyId(): string | null {
+    return this.data.historyId;
+  }
+
+  get syncedAt(): number {
+    return this.data.syncedAt;
+  }
+
+  get labels(): Label[] {
+    return this.data.labels;
+  }
+
+  set labels(labels: Label[]) {
+    this.data.labels = labels;
+  }
+
+  /**
+   * Read the cache file once. A missing, unreadable or outdated file
+   * starts an empty cache, which the next sync fills from scratch.
+   */
+  async load(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    const parsed =
+      (await readCacheFile(this.path)) ??
+      (this.legacyPath ? await readCacheFile(this.legacyPath) : null);
+    if (parsed?.version === CACHE_VERSION) {
+      this.data = { ...emptyCache(), ...parsed };
+    }
+  }
+
+  async save(): Promise<void> {
+    this.data.messages = prune(this.data.messages, this.maxMessages);
+    this.data.bodies = prune(this.data.bodies, this.maxBodies);
+
+    const searchKeys = Object.keys(this.data.searches);
+    if (searchKeys.length > this.maxSearches) {
+      // insertion order: drop the oldest searches
+      for (const key of searchKeys.slice(0, searchKeys.length - this.maxSearches)) {
+        delete this.data.searches[key];
+      }
+    }
+
+    await fs.mkdir(path.dirname(this.path), { recursive: true });
+    await fs.writeFile(this.path, JSON.stringify(this.data));
+    if (this.legacyPath) {
+      try {
+        await fs.unlink(this.legacyPath);
+      } catch {
+        // never written, or already gone
+      }
+      this.legacyPath = undefined;
+    }
+  }
+
+  isFresh(now: number = Date.now()): boolean {
+    return (
+      this.data.historyId !== null && now - this.data.syncedAt < this.maxAgeMs
+    );
+  }
+
+  // force a history check on the next read, e.g. after we changed the mailbox
+  markStale(): void {
+    this.data.syncedAt = 0;
+  }
+
+  markSynced(historyId: string, now: number = Date.now()): void {
+    this.data.historyId = historyId;
+    this.data.syncedAt = now;
+  }
+
+  /**
+   * Start over from a new baseline: used on first sync and when Gmail no
+   * longer has history back to our historyId. Nothing cached so far can be
+   * trusted, so everything is dropped and refilled on demand.
+   */
+  reset(historyId: string, labels: Label[], now: number = Date.now()): void {
+    this.data = { ...emptyCache(), labels };
+    this.markSynced(historyId, now);
+  }
+
+  /**
+   * Replay History API records. Returns the number of records applied;
+   * any change drops cached searches, since their results may differ now.
+   */
+  applyHistory(records: gmail_v1.Schema$History[]): number {
+    const setLabels = (id: string, labelIds: string[]) => {
+      if (this.data.messages[id]) this.data.messages[id].labelIds = labelIds;
+      if (this.data.bodies[id]) this.data.bodies[id].labelIds = labelIds;
+    };
+
+    for (const record of records) {
+      for (const { message } of record.messagesAdded || []) {
+        if (message?.id && message.threadId) {
+          this.addToThread(message.threadId, message.id);
+        }
+      }
+
+      for (const { message } of record.messagesDeleted || []) {
+        if (!message?.id) continue;
+        const threadId = message.threadId || this.data.messages[message.id]?.threadId;
+        delete this.data.messages[message.id];
+        delete this.data.bodies[message.id];
+        if (threadId && this.data.threads[threadId]) {
+          this.data.threads[threadId] = this.data.threads[threadId].filter(
+            (id) => id !== message.id
+          );
+        }
+      }
+
+      for (const change of [...(record.labelsAdded || []), ...(record.labelsRemoved || [])]) {
+        const id = change.message?.id;
+        if (!id) continue;
+
+        // history carries the message's full label set after the change
+        if (change.message?.labelIds) {
+          setLabels(id, change.message.labelIds);
+          continue;
+        }
+        const current = this.data.messages[id]?.labelIds;
+        if (!current) continue;
+        const added = (record.labelsAdded || []).includes(change);
+        setLabels(
+          id,
+          added
+            ? [...new Set([...current, ...(change.labelIds || [])])]
+            : current.filter((label) => !change.labelIds?.includes(label))
+        );
+      }
+    }
+
+    if (records.length > 0) {
+      this.data.searches = {};
+    }
+    return records.length;
+  }
+
+  getMessage(id: string): EmailMessage | undefined {
+    const entry = this.data.messages[id];
+    if (!entry) return undefined;
+    const { cachedAt, ...message } = entry;
+    return message;
+  }
+
+  putMessages(messages: EmailMessage[], now: number = Date.now()): void {
+    for (const message of messages) {
+      this.data.messages[message.id] = { ...message, cachedAt: now };
+      if (message.threadId) {
+        this.addToThread(message.threadId, message.id);
+      }
+    }
+  }
+
+  // every cached message, most recently cached first
+  getMessages(): EmailMessage[] {
+    return Object.values(this.data.messages)
+      .sort((a, b) => b.cachedAt - a.cachedAt)
+      .map(({ cachedAt, ...message }) => message);
+  }
+
+  getContent(id: string): EmailContent | undefined {
+    const entry = this.data.bodies[id];
+    if (!entry) return undefined;
+    const { cachedAt, ...content } = entry;
+    return content;
+  }
+
+  putContent(content: EmailContent, now: number = Date.now()): void {
+    this.data.bodies[content.id] = { ...content, cachedAt: now };
+    const { subject, from, to, date, snippet, labelIds, threadId } = content;
+    this.putMessages([{ id: content.id, threadId, subject, from, to, date, snippet, labelIds }], now);
+  }
+
+  getThreadMessageIds(threadId: string): string[] {
+    return this.data.threads[threadId] || [];
+  }
+
+  /**
+   * A cached search, if it was fetched at the current mailbox state (or at
+   * any state, when offline) and every message in it is still cached.
+   */
+  getSearch(
+    key: string,
+    options: { allowOutdated?: boolean } = {}
+  ): SearchResult | undefined {
+    const search = this.data.searches[key];
+    if (!search) return undefined;
+    if (!options.allowOutdated && search.historyId !== this.data.historyId) {
+      return undefined;
+    }
+
+    const messages = search.ids.map((id) => this.getMessage(id));
+    if (messages.some((message) => !message)) return undefined;
+
+    return {
+      messages: messages as EmailMessage[],
+      total: search.total,
+      nextPageToken: search.nextPageToken,
+    };
+  }
+
+  putSearch(key: string, ids: string[], total?: number, nextPageToken?: string): void {
+    if (!this.data.historyId) return;
+    // re-insert so the most recent search is pruned last
+    delete this.data.searches[key];
+    this.data.searches[key] = {
+      ids,
+      total,
+      nextPageToken,
+      historyId: this.data.historyId,
+    };
+  }
+
+  private addToThread(threadId: string, messageId: string): void {
+    const ids = this.data.threads[threadId] || [];
+    if (!ids.includes(messageId)) {
+      this.data.threads[threadId] = [...ids, messageId];
+    }
+  }
+}
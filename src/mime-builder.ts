@@ -0,0 +1,314 @@
+import { randomBytes } from "crypto";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { htmlToText } from "./html-to-text.js";
+
+export interface MimeAttachment {
+  filename: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+export interface MimeMessage {
+  from?: string;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  replyTo?: string;
+  subject: string;
+  text?: string;
+  html?: string;
+  attachments?: MimeAttachment[];
+  inReplyTo?: string;
+  references?: string;
+}
+
+const CRLF = "\r\n";
+
+// Gmail rejects messages whose attachments add up to more than 25 MB
+export const MAX_ATTACHMENTS_BYTES = 25 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".csv": "text/csv",
+  ".htm": "text/html",
+  ".html": "text/html",
+  ".json": "application/json",
+  ".xml": "application/xml",
+  ".ics": "text/calendar",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".zip": "application/zip",
+  ".gz": "application/gzip",
+  ".doc": "application/msword",
+  ".docx":
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".ppt": "application/vnd.ms-powerpoint",
+  ".pptx":
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ".mp3": "audio/mpeg",
+  ".mp4": "video/mp4",
+};
+
+export function guessMimeType(filename: string): string {
+  return (
+    MIME_TYPES[path.extname(filename).toLowerCase()] ||
+    "application/octet-stream"
+  );
+}
+
+const isAscii = (value: string) => /^[\x00-\x7f]*$/.test(value);
+
+/**
+ * Encode a header value as RFC 2047 encoded-words when it contains
+ * non-ASCII characters. Each word stays within the 75-character limit and
+ * never splits a multi-byte character.
+ */
+export function encodeHeaderValue(value: string): string {
+  if (isAscii(value)) {
+    return value;
+  }
+
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of value) {
+    // 45 bytes of UTF-8 encode to 60 base64 characters, plus 12 for the wrapper
+    if (Buffer.byteLength(chunk + char) > 45) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  if (chunk) {
+    words.push(chunk);
+  }
+
+  return words
+    .map((word) => `=?UTF-8?B?${Buffer.from(word).toString("base64")}?=`)
+    .join(`${CRLF} `);
+}
+
+/**
+ * Encode one address ("Name <user@host>" or "user@host"). Only the display
+ * name is encoded; the address itself is left as-is.
+ */
+export function encodeAddress(address: string): string {
+  const match = address.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) {
+    return match ? match[2].trim() : address.trim();
+  }
+
+  const name = match[1].replace(/^"(.*)"$/, "$1");
+  const email = match[2].trim();
+
+  if (!isAscii(name)) {
+    return `${encodeHeaderValue(name)} <${email}>`;
+  }
+  if (/[()<>@,;:\\".[\]]/.test(name)) {
+    return `"${name.replace(/(["\\])/g, "\\$1")}" <${email}>`;
+  }
+  return `${name} <${email}>`;
+}
+
+/**
+ * Split an address header ("A <a@x>, \"Smith, J\" <j@x>") into addresses,
+ * ignoring commas inside quoted names and angle brackets.
+ */
+export function parseAddressList(value: string | undefined): string[] {
+  const addresses: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  let inBrackets = false;
+
+  for (const char of value || "") {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === "<") {
+      inBrackets = true;
+    } else if (!inQuotes && char === ">") {
+      inBrackets = false;
+    } else if (!inQuotes && !inBrackets && char === ",") {
+      addresses.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  addresses.push(current.trim());
+
+  return addresses.filter((address) => address.length > 0);
+}
+
+// bare, lower-cased address for comparisons
+export function extractEmail(address: string): string {
+  const match = address.match(/<([^>]+)>/);
+  return (match ? match[1] : address).trim().toLowerCase();
+}
+
+function encodeAddressList(addresses: string[]): string {
+  return addresses.map(encodeAddress).join(", ");
+}
+
+// RFC 2231 parameter, e.g. filename*=UTF-8''r%C3%A9sum%C3%A9.pdf
+function encodeParameter(name: string, value: string): string {
+  if (isAscii(value)) {
+    return `${name}="${value.replace(/(["\\])/g, "\\$1")}"`;
+  }
+  const encoded = encodeURIComponent(value).replace(
+    /['()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `${name}*=UTF-8''${encoded}`;
+}
+
+function wrapBase64(content: Buffer): string {
+  return (content.toString("base64").match(/.{1,76}/g) || []).join(CRLF);
+}
+
+function normalizeNewlines(text: string): string {
+  return text.replace(/\r?\n/g, CRLF);
+}
+
+// 7bit for short ASCII lines, 8bit for UTF-8 text, base64 for long lines
+function textPart(contentType: string, text: string): string[] {
+  const body = normalizeNewlines(text);
+  const longLines = body
+    .split(CRLF)
+    .some((line) => Buffer.byteLength(line) > 998);
+
+  if (longLines) {
+    return [
+      `Content-Type: ${contentType}; charset=UTF-8`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      wrapBase64(Buffer.from(body)),
+    ];
+  }
+
+  return [
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    `Content-Transfer-Encoding: ${isAscii(body) ? "7bit" : "8bit"}`,
+    "",
+    body,
+  ];
+}
+
+function boundary(): string {
+  return `=_Part_${randomBytes(12).toString("hex")}`;
+}
+
+function multipart(subtype: string, parts: string[][]): string[] {
+  const marker = boundary();
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${marker}"`,
+    "",
+    ...parts.flatMap((part) => [`--${marker}`, ...part]),
+    `--${marker}--`,
+  ];
+}
+
+function attachmentPart(attachment: MimeAttachment): string[] {
+  return [
+    `Content-Type: ${attachment.mimeType}; ${encodeParameter("name", attachment.filename)}`,
+    `Content-Disposition: attachment; ${encodeParameter("filename", attachment.filename)}`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(attachment.content),
+  ];
+}
+
+/**
+ * Build an RFC 5322 message with CRLF line endings.
+ * text + html becomes multipart/alternative; attachments wrap the body in
+ * multipart/mixed. A plain-text alternative is derived from html if needed.
+ */
+export function buildMimeMessage(message: MimeMessage): string {
+  const headers: string[] = [];
+
+  if (message.from) {
+    headers.push(`From: ${encodeAddress(message.from)}`);
+  }
+  headers.push(`To: ${encodeAddressList(message.to)}`);
+  if (message.cc?.length) {
+    headers.push(`Cc: ${encodeAddressList(message.cc)}`);
+  }
+  if (message.bcc?.length) {
+    headers.push(`Bcc: ${encodeAddressList(message.bcc)}`);
+  }
+  if (message.replyTo) {
+    headers.push(`Reply-To: ${encodeAddress(message.replyTo)}`);
+  }
+  headers.push(`Subject: ${encodeHeaderValue(message.subject)}`);
+  if (message.inReplyTo) {
+    headers.push(`In-Reply-To: ${message.inReplyTo}`);
+  }
+  if (message.references) {
+    headers.push(`References: ${message.references}`);
+  }
+  headers.push("MIME-Version: 1.0");
+
+  const text =
+    message.text || (message.html ? htmlToText(message.html) : "");
+  let body = textPart("text/plain", text);
+
+  if (message.html) {
+    body = multipart("alternative", [body, textPart("text/html", message.html)]);
+  }
+
+  if (message.attachments?.length) {
+    body = multipart("mixed", [body, ...message.attachments.map(attachmentPart)]);
+  }
+
+  return [...headers, ...body].join(CRLF);
+}
+
+export function encodeRawMessage(message: string): string {
+  return Buffer.from(message).toString("base64url");
+}
+
+/**
+ * Read local files to attach. "~" expands to the home directory; the total
+ * size is checked against Gmail's attachment limit.
+ */
+export async function loadAttachments(
+  filePaths: string[]
+): Promise<MimeAttachment[]> {
+  const attachments: MimeAttachment[] = [];
+  let total = 0;
+
+  for (const filePath of filePaths) {
+    const resolved = path.resolve(
+      filePath.replace(/^~(?=$|[\\/])/, os.homedir())
+    );
+
+    let content: Buffer;
+    try {
+      content = await fs.readFile(resolved);
+    } catch (error: any) {
+      throw new Error(`Cannot read attachment ${filePath}: ${error?.message || error}`);
+    }
+
+    total += content.length;
+    if (total > MAX_ATTACHMENTS_BYTES) {
+      throw new Error("Attachments exceed Gmail's 25 MB limit");
+    }
+
+    const filename = path.basename(resolved);
+    attachments.push({
+      filename,
+      mimeType: guessMimeType(filename),
+      content,
+    });
+  }
+
+  return attachments;
+}
@@ -0,0 +1,500 @@
+import { formatQuery, parseGmailQuery, QueryNode } from "./gmail-query.js";
+import type { Label } from "./types.js";
+
+// Checks model-written Gmail queries before they reach the API. Mistakes
+// with one obvious reading (fractional dates, unquoted label names,
+// operator synonyms) are corrected; anything that could mean more than one
+// thing is rejected with a message that says what to write instead.
+
+export interface QueryLintOptions {
+  // known labels; label: checks are skipped when empty
+  labels?: Label[];
+  // an empty query matches every message, which bulk actions must not do
+  allowEmpty?: boolean;
+}
+
+export interface QueryLintResult {
+  // the query to run: the original, or the corrected one
+  query: string;
+  // each correction, in words, for the user
+  fixes: string[];
+}
+
+type Term = Extract<QueryNode, { type: "term" }>;
+
+// operators the model invents, and what Gmail calls them
+const OPERATOR_ALIASES: Record<string, string> = {
+  sender: "from",
+  recipient: "to",
+  title: "subject",
+  subj: "subject",
+  tag: "label",
+  labels: "label",
+  folder: "label",
+  attachment: "filename",
+  since: "after",
+  until: "before",
+};
+
+// URL schemes and the like, which are text rather than unknown operators
+const TEXT_PREFIXES = ["http", "https", "mailto", "re", "fwd", "fw"];
+
+const RELATIVE_UNITS: Record<string, string> = {
+  h: "h",
+  hr: "h",
+  hrs: "h",
+  hour: "h",
+  hours: "h",
+  d: "d",
+  day: "d",
+  days: "d",
+  w: "w",
+  wk: "w",
+  week: "w",
+  weeks: "w",
+  m: "m",
+  mo: "m",
+  month: "m",
+  months: "m",
+  y: "y",
+  yr: "y",
+  year: "y",
+  years: "y",
+};
+
+// a fraction of one unit, expressed in the next smaller one
+const SMALLER_UNIT: Record<string, [string, number]> = {
+  y: ["m", 12],
+  m: ["d", 30],
+  w: ["d", 7],
+  d: ["h", 24],
+};
+
+// values Gmail accepts for is:, in:, has: and category:
+const ALLOWED_VALUES: Record<string, string[]> = {
+  is: ["unread", "read", "starred", "important", "snoozed", "muted", "chat"],
+  in: [
+    "inbox",
+    "sent",
+    "draft",
+    "spam",
+    "trash",
+    "anywhere",
+    "starred",
+    "important",
+    "snoozed",
+    "chats",
+  ],
+  has: [
+    "attachment",
+    "drive",
+    "document",
+    "spreadsheet",
+    "presentation",
+    "youtube",
+    "userlabels",
+    "nouserlabels",
+  ],
+  category: [
+    "primary",
+    "social",
+    "promotions",
+    "updates",
+    "forums",
+    "reservations",
+    "purchases",
+  ],
+};
+
+// common misspellings of those values
+const VALUE_ALIASES: Record<string, Record<string, string>> = {
+  is: {
+    new: "unread",
+    unseen: "unread",
+    seen: "read",
+    flagged: "starred",
+    star: "starred",
+  },
+  in: {
+    drafts: "draft",
+    junk: "spam",
+    bin: "trash",
+    deleted: "trash",
+    all: "anywhere",
+  },
+  has: {
+    attachments: "attachment",
+    attachement: "attachment",
+    file: "attachment",
+    files: "attachment",
+    label: "userlabels",
+    labels: "userlabels",
+  },
+  category: {
+    promotion: "promotions",
+    promo: "promotions",
+    promos: "promotions",
+    update: "updates",
+    forum: "forums",
+    personal: "primary",
+  },
+};
+
+// is:X that is really in:X, and the reverse
+const MOVED_VALUES: Record<string, Record<string, string>> = {
+  is: {
+    inbox: "in",
+    sent: "in",
+    draft: "in",
+    spam: "in",
+    trash: "in",
+    anywhere: "in",
+  },
+  in: { unread: "is", read: "is" },
+};
+
+// Gmail treats spaces, slashes and dashes in label names alike
+function normalizeLabel(name: string): string {
+  return name.toLowerCase().replace(/[\s/_-]+/g, "-");
+}
+
+// apply `fix` to the parts of the query outside double quotes
+function outsideQuotes(query: string, fix: (text: string) => string): string {
+  return query
+    .split(/("[^"]*")/)
+    .map((part, index) => (index % 2 === 1 ? part : fix(part)))
+    .join("");
+}
+
+/**
+ * Fixes made on the raw text, before the parser would reject it or read
+ * it differently: operator synonyms, fractional or spelled-out relative
+ * dates, sizes with a "B" suffix and dashed dates.
+ */
+function fixText(query: string, fixes: string[]): string {
+  return outsideQuotes(query, (text) =>
+    text
+      .replace(
+        /(^|[\s(){}-])([a-z]+):/gi,
+        (match, before: string, name: string) => {
+          const operator = OPERATOR_ALIASES[name.toLowerCase()];
+          if (!operator) return match;
+          fixes.push(`"${name}:" → "${operator}:"`);
+          return `${before}${operator}:`;
+        }
+      )
+      .replace(
+        /\b(newer_than|older_than):(\d*\.?\d+)\s*([a-z]+)\b/gi,
+        (match, operator: string, amount: string, unit: string) => {
+          let short = RELATIVE_UNITS[unit.toLowerCase()];
+          if (!short) return match;
+
+          let value = parseFloat(amount);
+          if (short === "w" || !Number.isInteger(value)) {
+            while (
+              SMALLER_UNIT[short] &&
+              (short === "w" || !Number.isInteger(value))
+            ) {
+              const [smaller, factor] = SMALLER_UNIT[short];
+              value *= factor;
+              short = smaller;
+            }
+            value = Math.max(1, Math.round(value));
+          }
+
+          const fixed = `${operator.toLowerCase()}:${value}${short}`;
+          if (fixed !== match) {
+            fixes.push(`"${match}" → "${fixed}"`);
+          }
+          return fixed;
+        }
+      )
+      .replace(
+        /\b(larger|smaller|size):(\d+)\s*([kmg])b\b/gi,
+        (match, operator: string, amount: string, unit: string) => {
+          const fixed = `${operator}:${amount}${unit.toUpperCase()}`;
+          fixes.push(`"${match}" → "${fixed}"`);
+          return fixed;
+        }
+      )
+      .replace(
+        /\b(after|before|newer|older):(\d{4})-(\d{1,2})-(\d{1,2})\b/gi,
+        (match, operator: string, year: string, month: string, day: string) => {
+          const fixed = `${operator}:${year}/${month}/${day}`;
+          fixes.push(`"${match}" → "${fixed}"`);
+          return fixed;
+        }
+      )
+  );
+}
+
+type LabelMatch =
+  | { kind: "exact"; label: Label }
+  | { kind: "similar"; labels: Label[] }
+  | { kind: "none" };
+
+function findLabel(value: string, labels: Label[]): LabelMatch {
+  // label: is case-insensitive
+  const exact = labels.find(
+    (l) =>
+      l.name.toLowerCase() === value.toLowerCase() ||
+      l.id.toLowerCase() === value.toLowerCase()
+  );
+  if (exact) return { kind: "exact", label: exact };
+
+  const wanted = normalizeLabel(value);
+  const normalized = labels.filter(
+    (l) =>
+      normalizeLabel(l.name) === wanted || normalizeLabel(l.id) === wanted
+  );
+  if (normalized.length > 0) {
+    return { kind: "similar", labels: normalized };
+  }
+
+  // "Job Boards" for "Work/Job Boards": the end of a nested path
+  const nested = labels.filter((l) => {
+    const segments = l.name.split("/");
+    return segments
+      .slice(1)
+      .some(
+        (_, index) =>
+          normalizeLabel(segments.slice(index + 1).join("/")) === wanted
+      );
+  });
+  return nested.length > 0
+    ? { kind: "similar", labels: nested }
+    : { kind: "none" };
+}
+
+function isText(node: QueryNode | undefined): node is Term {
+  return (
+    node !== undefined &&
+    node.type === "term" &&
+    node.operator === undefined &&
+    !node.quoted
+  );
+}
+
+class QueryChecker {
+  readonly fixes: string[] = [];
+  readonly errors: string[] = [];
+
+  constructor(private labels: Label[]) {}
+
+  check(node: QueryNode): QueryNode {
+    switch (node.type) {
+      case "and":
+        return this.checkSequence(node.children);
+      case "or":
+        return {
+          type: "or",
+          children: node.children.map((c) => this.check(c)),
+        };
+      case "not":
+        return { type: "not", child: this.check(node.child) };
+      case "term":
+        return this.checkTerm(node);
+    }
+  }
+
+  private checkSequence(input: QueryNode[]): QueryNode {
+    const children = [...input];
+
+    // lowercase "or" is searched as a word; the model means OR
+    for (let i = 1; i < children.length - 1; i++) {
+      const child = children[i];
+      if (isText(child) && child.value === "or") {
+        this.fixes.push(`"or" → "OR"`);
+        const or: QueryNode = {
+          type: "or",
+          children: [children[i - 1], children[i + 1]].flatMap((c) =>
+            c.type === "or" ? c.children : [c]
+          ),
+        };
+        children.splice(i - 1, 3, or);
+        i--;
+      }
+    }
+
+    // label:Work/Job Boards arrives as label:Work/Job plus the word Boards
+    if (this.labels.length > 0) {
+      for (let i = 0; i < children.length; i++) {
+        const child = children[i];
+        if (child.type !== "term" || child.operator !== "label") continue;
+        if (
+          child.quoted ||
+          findLabel(child.value, this.labels).kind === "exact"
+        ) {
+          continue;
+        }
+
+        let words = 0;
+        while (isText(children[i + words + 1])) words++;
+        for (let count = words; count > 0; count--) {
+          const parts = children
+            .slice(i + 1, i + 1 + count)
+            .map((c) => (c as Term).value);
+          const value = [child.value, ...parts].join(" ");
+          if (findLabel(value, this.labels).kind !== "none") {
+            this.fixes.push(`label:${value} → label:"${value}"`);
+            children.splice(i, count + 1, {
+              type: "term",
+              operator: "label",
+              value,
+              quoted: true,
+            });
+            break;
+          }
+        }
+      }
+    }
+
+    const checked = children.map((c) => this.check(c));
+    return checked.length === 1
+      ? checked[0]
+      : { type: "and", children: checked };
+  }
+
+  private checkTerm(term: Term): QueryNode {
+    const { operator, value } = term;
+
+    if (operator === undefined) {
+      const prefix = !term.quoted && value.match(/^([a-z_]+):/i)?.[1];
+      if (prefix && !TEXT_PREFIXES.includes(prefix.toLowerCase())) {
+        this.errors.push(
+          `"${prefix}:" is not a Gmail operator, so Gmail would search ` +
+            `for the text "${value}". Use one of from:, to:, cc:, subject:, ` +
+            "label:, is:, in:, has:, filename:, category:, after:, before:, " +
+            "newer_than:, older_than:, larger:, smaller:, or put the text in " +
+            "quotes."
+        );
+      }
+      return term;
+    }
+
+    if (operator === "label") {
+      return this.checkLabel(term);
+    }
+
+    const allowed = ALLOWED_VALUES[operator];
+    if (!allowed) return term;
+
+    const lower = value.toLowerCase();
+    if (allowed.includes(lower)) {
+      return lower === value ? term : { ...term, value: lower };
+    }
+
+    const moved = MOVED_VALUES[operator]?.[lower];
+    if (moved) {
+      this.fixes.push(`${operator}:${value} → ${moved}:${lower}`);
+      return { ...term, operator: moved, value: lower };
+    }
+    if (
+      ["is", "in"].includes(operator) &&
+      ["archive", "archived"].includes(lower)
+    ) {
+      this.fixes.push(`${operator}:${value} → -in:inbox`);
+      return {
+        type: "not",
+        child: { type: "term", operator: "in", value: "inbox", quoted: false },
+      };
+    }
+    const alias = VALUE_ALIASES[operator]?.[lower];
+    if (alias) {
+      this.fixes.push(`${operator}:${value} → ${operator}:${alias}`);
+      return { ...term, value: alias };
+    }
+    if (operator === "has" && /^[a-z0-9]{2,4}$/.test(lower)) {
+      // has:pdf means an attachment of that type
+      this.fixes.push(`has:${value} → filename:${lower}`);
+      return { ...term, operator: "filename", value: lower };
+    }
+
+    this.errors.push(
+      `"${operator}:${value}" is not valid. ` +
+        `${operator}: accepts ${allowed.join(", ")}.`
+    );
+    return term;
+  }
+
+  private checkLabel(term: Term): QueryNode {
+    if (this.labels.length === 0) return term;
+
+    const match = findLabel(term.value, this.labels);
+    if (match.kind === "exact") {
+      return term;
+    }
+    if (match.kind === "similar" && match.labels.length === 1) {
+      const name = match.labels[0].name;
+      this.fixes.push(`label:${term.value} → label:"${name}"`);
+      return { ...term, value: name, quoted: /\s/.test(name) || term.quoted };
+    }
+
+    const userLabels = this.labels
+      .filter((l) => l.type !== "system")
+      .map((l) => `"${l.name}"`);
+    if (match.kind === "similar") {
+      this.errors.push(
+        `label:"${term.value}" could mean ${match.labels
+          .map((l) => `"${l.name}"`)
+          .join(" or ")}. Use the full label name in quotes.`
+      );
+    } else {
+      this.errors.push(
+        `There is no label "${term.value}". ` +
+          (userLabels.length > 0
+            ? `Existing labels: ${userLabels.slice(0, 20).join(", ")}.`
+            : "There are no user labels.")
+      );
+    }
+    return term;
+  }
+}
+
+/**
+ * Check a Gmail query before running it. Returns the query to use (with
+ * the corrections made), or throws an Error listing what has to change.
+ */
+export function lintQuery(
+  query: string,
+  options: QueryLintOptions = {}
+): QueryLintResult {
+  const fixes: string[] = [];
+  const fail = (problems: string[]): never => {
+    throw new Error(
+      `The query ${JSON.stringify(query)} was not run:\n- ` +
+        problems.join("\n- ")
+    );
+  };
+
+  if (!query.trim()) {
+    if (options.allowEmpty) return { query, fixes };
+    fail([
+      "An empty query matches every email. Say which emails to include, " +
+        'e.g. is:unread or label:"Work".',
+    ]);
+  }
+
+  const text = fixText(query, fixes);
+  let ast: QueryNode;
+  try {
+    ast = parseGmailQuery(text);
+  } catch (error: any) {
+    return fail([`${error.message}.`]);
+  }
+
+  const checker = new QueryChecker(options.labels || []);
+  const checked = checker.check(ast);
+  if (checker.errors.length > 0) {
+    fail(checker.errors);
+  }
+
+  fixes.push(...checker.fixes);
+  if (fixes.length === 0) {
+    return { query, fixes };
+  }
+  return {
+    query: checker.fixes.length > 0 ? formatQuery(checked) : text,
+    fixes,
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Caps the number of Gmail API calls in flight. Tasks beyond the limit
+ * wait in FIFO order until a running one settles.
+ */
+export class RequestScheduler {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private maxConcurrent: number) {
+    if (maxConcurrent < 1) {
+      throw new Error("maxConcurrent must be at least 1");
+    }
+  }
+
+  get inFlight(): number {
+    return this.active;
+  }
+
+  get queued(): number {
+    return this.waiting.length;
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.maxConcurrent) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        // hand the slot straight to the next task
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
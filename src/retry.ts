@@ -0,0 +1,161 @@
+// Retry policy for Gmail API calls: jittered exponential backoff on rate
+// limits and transient server errors, honoring Retry-After.
+
+export interface RetryPolicy {
+  // retries after the first attempt; 0 disables retrying
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryStatuses: number[];
+  // Gmail reports some quota errors as 403 with one of these reasons
+  retryReasons: string[];
+  sleep: (ms: number) => Promise<void>;
+  random: () => number;
+}
+
+export interface RetryOptions {
+  /**
+   * Calls that must not run twice (sending mail, creating labels or
+   * filters) are only retried when the error proves the request was
+   * rejected before it was processed: a rate limit.
+   */
+  idempotent?: boolean;
+  onRetry?: (info: { attempt: number; delayMs: number; error: any }) => void;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 32_000,
+  retryStatuses: [429, 500, 503],
+  retryReasons: ["rateLimitExceeded", "userRateLimitExceeded"],
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  random: Math.random,
+};
+
+export function resolveRetryPolicy(
+  overrides: Partial<RetryPolicy> = {}
+): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...overrides };
+}
+
+export function getErrorStatus(error: any): number | undefined {
+  const status = error?.response?.status ?? error?.status ?? error?.code;
+  return typeof status === "number" ? status : undefined;
+}
+
+const NETWORK_ERROR_CODES = [
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "ENETUNREACH",
+];
+
+// the request never got an HTTP answer, e.g. because we are offline
+export function isNetworkError(error: any): boolean {
+  const code = error?.code ?? error?.cause?.code;
+  return (
+    getErrorStatus(error) === undefined &&
+    typeof code === "string" &&
+    NETWORK_ERROR_CODES.includes(code)
+  );
+}
+
+export function getErrorReason(error: any): string | undefined {
+  return (
+    error?.errors?.[0]?.reason ??
+    error?.response?.data?.error?.errors?.[0]?.reason ??
+    undefined
+  );
+}
+
+function getHeader(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof headers.get === "function") {
+    return headers.get(name) ?? undefined;
+  }
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key ? String(headers[key]) : undefined;
+}
+
+/**
+ * Delay requested by the server, in milliseconds. Retry-After is either
+ * a number of seconds or an HTTP date.
+ */
+export function getRetryAfterMs(
+  error: any,
+  now: number = Date.now()
+): number | undefined {
+  const value = getHeader(error?.response?.headers, "retry-after")?.trim();
+  if (!value) return undefined;
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Math.round(parseFloat(value) * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export function isRateLimitError(error: any, policy: RetryPolicy): boolean {
+  const reason = getErrorReason(error);
+  return (
+    getErrorStatus(error) === 429 ||
+    (reason !== undefined && policy.retryReasons.includes(reason))
+  );
+}
+
+export function isRetryableError(
+  error: any,
+  policy: RetryPolicy,
+  idempotent: boolean = true
+): boolean {
+  if (isRateLimitError(error, policy)) {
+    return true;
+  }
+  // a 5xx may arrive after the server already acted on the request
+  if (!idempotent) {
+    return false;
+  }
+  const status = getErrorStatus(error);
+  return status !== undefined && policy.retryStatuses.includes(status);
+}
+
+/**
+ * Exponential backoff with equal jitter: half of the delay is fixed, the
+ * other half random, so concurrent callers spread out but still back off.
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + policy.random() * (ceiling / 2));
+}
+
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy,
+  options: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error: any) {
+      if (
+        attempt >= policy.maxRetries ||
+        !isRetryableError(error, policy, options.idempotent !== false)
+      ) {
+        throw error;
+      }
+
+      const retryAfter = getRetryAfterMs(error);
+      // waiting longer than the policy allows is worse than failing now
+      if (retryAfter !== undefined && retryAfter > policy.maxDelayMs) {
+        throw error;
+      }
+
+      const delayMs = Math.max(retryAfter ?? 0, backoffDelay(attempt, policy));
+      options.onRetry?.({ attempt: attempt + 1, delayMs, error });
+      await policy.sleep(delayMs);
+    }
+  }
+}
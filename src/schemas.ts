@@ -4,6 +4,17 @@ import { z } from "zod";
 export const SearchEmailsSchema = z.object({
   query: z.string(),
   maxResults: z.number().optional(),
+  pageToken: z.string().optional(),
+});
+
+export const LocalSearchSchema = z.object({
+  query: z.string(),
+  maxResults: z.number().optional(),
+});
+
+// any tool can name the account it acts on
+export const AccountSchema = z.object({
+  account: z.string().optional(),
 });
 
 export const ReadEmailSchema = z.object({
@@ -17,6 +28,27 @@ export const SendEmailSchema = z.object({
   cc: z.array(z.string().email()).optional(),
   bcc: z.array(z.string().email()).optional(),
   threadId: z.string().optional(),
+  replyTo: z.string().email().optional(),
+  html: z.string().optional(),
+  attachments: z.array(z.string()).optional(),
+  from: z.string().email().optional(),
+  includeSignature: z.boolean().optional(),
+});
+
+export const ReplyEmailSchema = z.object({
+  messageId: z.string(),
+  body: z.string(),
+  cc: z.array(z.string().email()).optional(),
+  html: z.string().optional(),
+  attachments: z.array(z.string()).optional(),
+});
+
+export const ForwardEmailSchema = z.object({
+  messageId: z.string(),
+  to: z.array(z.string().email()),
+  body: z.string().optional(),
+  cc: z.array(z.string().email()).optional(),
+  includeAttachments: z.boolean().optional(),
 });
 
 export const ModifyLabelsSchema = z.object({
@@ -37,17 +69,238 @@ export const BatchOperationSchema = z.object({
   ]),
 });
 
+const LabelColorSchema = z.object({
+  textColor: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+  backgroundColor: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+});
+
+const LabelVisibilitySchema = {
+  color: LabelColorSchema.optional(),
+  labelListVisibility: z
+    .enum(["labelShow", "labelShowIfUnread", "labelHide"])
+    .optional(),
+  messageListVisibility: z.enum(["show", "hide"]).optional(),
+};
+
 export const CreateLabelSchema = z.object({
   name: z.string(),
+  ...LabelVisibilitySchema,
+});
+
+export const UpdateLabelSchema = z.object({
+  labelId: z.string(),
+  name: z.string().optional(),
+  ...LabelVisibilitySchema,
+  // a rename only happens once confirmed
+  confirm: z.boolean().optional(),
+});
+
+export const DeleteLabelSchema = z.object({
+  labelId: z.string(),
+  confirm: z.boolean().optional(),
+});
+
+export const MergeLabelsSchema = z.object({
+  sourceIds: z.array(z.string()).min(1),
+  targetId: z.string(),
+  deleteSources: z.boolean().optional(),
+  dryRun: z.boolean().optional(),
+});
+
+export const ListThreadsSchema = z.object({
+  query: z.string(),
+  maxResults: z.number().optional(),
+  pageToken: z.string().optional(),
+});
+
+export const GetThreadSchema = z.object({
+  threadId: z.string(),
+});
+
+export const ModifyThreadSchema = z.object({
+  threadId: z.string(),
+  addLabels: z.array(z.string()).optional(),
+  removeLabels: z.array(z.string()).optional(),
+  trash: z.boolean().optional(),
+});
+
+export const DownloadAttachmentsSchema = z
+  .object({
+    messageId: z.string().optional(),
+    query: z.string().optional(),
+    filename: z.string().optional(),
+    mimeType: z.string().optional(),
+    targetDir: z.string().optional(),
+    onCollision: z.enum(["skip", "suffix"]).optional(),
+    maxMessages: z.number().int().positive().optional(),
+  })
+  .refine((args) => args.messageId || args.query !== undefined, {
+    message: "Either messageId or query is required",
+  });
+
+// fields given replace the filter's current ones; "" or [] clears one
+export const UpdateFilterSchema = z.object({
+  filterId: z.string(),
+  criteria: z
+    .object({
+      from: z.string().optional(),
+      to: z.string().optional(),
+      subject: z.string().optional(),
+      query: z.string().optional(),
+      negatedQuery: z.string().optional(),
+      hasAttachment: z.boolean().optional(),
+    })
+    .optional(),
+  action: z
+    .object({
+      addLabelIds: z.array(z.string()).optional(),
+      removeLabelIds: z.array(z.string()).optional(),
+      forward: z.string().email().or(z.literal("")).optional(),
+    })
+    .optional(),
+});
+
+export const DeleteFilterSchema = z.object({
+  filterId: z.string(),
+});
+
+export const ExportFiltersSchema = z.object({
+  path: z.string().optional(),
+  format: z.enum(["xml", "sieve"]).optional(),
+});
+
+export const ImportFiltersSchema = z.object({
+  path: z.string().optional(),
+  dryRun: z.boolean().optional(),
+});
+
+export const AuditFiltersSchema = z.object({
+  applyFixes: z.boolean().optional(),
+});
+
+export const FilterFromEmailSchema = z
+  .object({
+    messageId: z.string(),
+    candidate: z.number().int().positive().optional(),
+    action: z
+      .object({
+        addLabelIds: z.array(z.string()).optional(),
+        removeLabelIds: z.array(z.string()).optional(),
+        forward: z.string().email().optional(),
+      })
+      .optional(),
+  })
+  .refine(
+    ({ candidate, action }) =>
+      candidate === undefined ||
+      !!(
+        action?.addLabelIds?.length ||
+        action?.removeLabelIds?.length ||
+        action?.forward
+      ),
+    {
+      message:
+        "An action that labels, archives or forwards is required to create the filter",
+    }
+  );
+
+export const UpdateSendAsSchema = z.object({
+  email: z.string().email(),
+  displayName: z.string().optional(),
+  replyTo: z.string().email().or(z.literal("")).optional(),
+  signature: z.string().optional(),
+  isDefault: z.boolean().optional(),
+});
+
+export const SetVacationSchema = z.object({
+  subject: z.string().optional(),
+  bodyText: z.string().optional(),
+  bodyHtml: z.string().optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  restrictToContacts: z.boolean().optional(),
+  restrictToDomain: z.boolean().optional(),
+  dryRun: z.boolean().optional(),
+});
+
+export const CreateDraftSchema = z.object({
+  to: z.array(z.string().email()),
+  subject: z.string(),
+  body: z.string(),
+  cc: z.array(z.string().email()).optional(),
+  bcc: z.array(z.string().email()).optional(),
+  threadId: z.string().optional(),
+  replyTo: z.string().email().optional(),
+  html: z.string().optional(),
+  attachments: z.array(z.string()).optional(),
+  from: z.string().email().optional(),
+  includeSignature: z.boolean().optional(),
+});
+
+export const ListDraftsSchema = z.object({
+  query: z.string().optional(),
+  maxResults: z.number().optional(),
+  pageToken: z.string().optional(),
+});
+
+export const GetDraftSchema = z.object({
+  draftId: z.string(),
+});
+
+export const UpdateDraftSchema = z.object({
+  draftId: z.string(),
+  to: z.array(z.string().email()).optional(),
+  subject: z.string().optional(),
+  body: z.string().optional(),
+  cc: z.array(z.string().email()).optional(),
+  bcc: z.array(z.string().email()).optional(),
+  replyTo: z.string().email().optional(),
+  html: z.string().optional(),
+  attachments: z.array(z.string()).optional(),
+  from: z.string().email().optional(),
+  includeSignature: z.boolean().optional(),
+});
+
+export const SendDraftSchema = z.object({
+  draftId: z.string(),
+});
+
+export const DeleteDraftSchema = z.object({
+  draftId: z.string(),
 });
 
 // type inference from schemas
 export type SearchEmailsArgs = z.infer<typeof SearchEmailsSchema>;
+export type LocalSearchArgs = z.infer<typeof LocalSearchSchema>;
+export type AccountArgs = z.infer<typeof AccountSchema>;
 export type ReadEmailArgs = z.infer<typeof ReadEmailSchema>;
 export type SendEmailArgs = z.infer<typeof SendEmailSchema>;
+export type ReplyEmailArgs = z.infer<typeof ReplyEmailSchema>;
+export type ForwardEmailArgs = z.infer<typeof ForwardEmailSchema>;
 export type ModifyLabelsArgs = z.infer<typeof ModifyLabelsSchema>;
 export type BatchOperationArgs = z.infer<typeof BatchOperationSchema>;
 export type CreateLabelArgs = z.infer<typeof CreateLabelSchema>;
+export type UpdateLabelArgs = z.infer<typeof UpdateLabelSchema>;
+export type DeleteLabelArgs = z.infer<typeof DeleteLabelSchema>;
+export type MergeLabelsArgs = z.infer<typeof MergeLabelsSchema>;
+export type ListThreadsArgs = z.infer<typeof ListThreadsSchema>;
+export type GetThreadArgs = z.infer<typeof GetThreadSchema>;
+export type ModifyThreadArgs = z.infer<typeof ModifyThreadSchema>;
+export type DownloadAttachmentsArgs = z.infer<typeof DownloadAttachmentsSchema>;
+export type UpdateFilterArgs = z.infer<typeof UpdateFilterSchema>;
+export type DeleteFilterArgs = z.infer<typeof DeleteFilterSchema>;
+export type ExportFiltersArgs = z.infer<typeof ExportFiltersSchema>;
+export type ImportFiltersArgs = z.infer<typeof ImportFiltersSchema>;
+export type AuditFiltersArgs = z.infer<typeof AuditFiltersSchema>;
+export type FilterFromEmailArgs = z.infer<typeof FilterFromEmailSchema>;
+export type SetVacationArgs = z.infer<typeof SetVacationSchema>;
+export type UpdateSendAsArgs = z.infer<typeof UpdateSendAsSchema>;
+export type CreateDraftArgs = z.infer<typeof CreateDraftSchema>;
+export type ListDraftsArgs = z.infer<typeof ListDraftsSchema>;
+export type GetDraftArgs = z.infer<typeof GetDraftSchema>;
+export type UpdateDraftArgs = z.infer<typeof UpdateDraftSchema>;
+export type SendDraftArgs = z.infer<typeof SendDraftSchema>;
+export type DeleteDraftArgs = z.infer<typeof DeleteDraftSchema>;
 
 // helper for validation with proper typing
 export function validateArgs<T>(schema: z.ZodSchema<T>, args: unknown): T {
@@ -0,0 +1,566 @@
+import type { gmail_v1 } from "googleapis";
+import { formatQuery, parseGmailQuery, QueryNode } from "./gmail-query.js";
+import type { FilterDefinition } from "./filter-xml.js";
+import type { Label } from "./types.js";
+
+/**
+ * Sieve (RFC 5228) export of Gmail filters, plus a reader for the subset
+ * the exporter writes so scripts can be checked and loaded back.
+ *
+ * Each filter becomes one `if` rule. Criteria fields come first; the
+ * `query` field, when it can be expressed, follows as one nested test so
+ * it reads back as a query. Labels become `fileinto`, forwards
+ * `redirect`, and stars and mark-as-read use imap4flags (RFC 5232).
+ */
+
+type SieveTest =
+  | { kind: "allof" | "anyof"; tests: SieveTest[] }
+  | { kind: "not"; test: SieveTest }
+  | {
+      kind: "address" | "header";
+      headers: string[];
+      match: "contains" | "matches";
+      value: string;
+    }
+  | { kind: "size"; over: boolean; limit: string };
+
+type SieveCommand = { name: string; args: string[] };
+
+export interface SieveExportResult {
+  script: string;
+  exported: number;
+  skipped: { id: string; reason: string }[];
+}
+
+// Gmail's to: also matches Cc
+const TO_HEADERS = ["to", "cc"];
+// Gmail has no "has attachment" header; multipart/mixed is the usual proxy
+const ATTACHMENT_TEST: SieveTest = {
+  kind: "header",
+  headers: ["content-type"],
+  match: "matches",
+  value: "multipart/mixed*",
+};
+const FLAGS: Record<string, string> = {
+  STARRED: "\\Flagged",
+  UNREAD: "\\Seen",
+};
+const SIZE_SUFFIXES: Record<string, number> = {
+  K: 1024,
+  M: 1024 * 1024,
+  G: 1024 * 1024 * 1024,
+};
+
+function quote(value: string): string {
+  return `"${value.replace(/["\\]/g, (c) => `\\${c}`)}"`;
+}
+
+function stringList(values: string[]): string {
+  return values.length === 1
+    ? quote(values[0])
+    : `[${values.map(quote).join(", ")}]`;
+}
+
+// a field value Sieve can match as is: no Gmail query syntax inside
+function simpleValue(field: string, value: string): string {
+  if (/\bOR\b|[(){}"]|(^|\s)-/.test(value)) {
+    throw new Error(
+      `the ${field} "${value}" uses search operators Sieve can't express`
+    );
+  }
+  if (field !== "subject" && /\s/.test(value)) {
+    throw new Error(
+      `the ${field} "${value}" lists several addresses`
+    );
+  }
+  return value;
+}
+
+function addressTest(headers: string[], value: string): SieveTest {
+  return {
+    kind: "address",
+    headers,
+    match: value.includes("*") ? "matches" : "contains",
+    value,
+  };
+}
+
+function queryTermTest(node: Extract<QueryNode, { type: "term" }>): SieveTest {
+  const { operator, value } = node;
+  switch (operator) {
+    case "from":
+      return addressTest(["from"], value);
+    case "to":
+      return addressTest(TO_HEADERS, value);
+    case "cc":
+      return addressTest(["cc"], value);
+    case "subject":
+      return { kind: "header", headers: ["subject"], match: "contains", value };
+    case "list":
+      return { kind: "header", headers: ["list-id"], match: "contains", value };
+    case "has":
+      if (value.toLowerCase() === "attachment") {
+        return ATTACHMENT_TEST;
+      }
+      break;
+    case "larger":
+    case "smaller":
+      if (/^\d+[KMG]?$/i.test(value)) {
+        return {
+          kind: "size",
+          over: operator === "larger",
+          limit: value.toUpperCase(),
+        };
+      }
+      break;
+    case undefined:
+      throw new Error(
+        `the free-text search "${value}" needs the Sieve body extension`
+      );
+  }
+  throw new Error(
+    `"${operator}:${value}" has no Sieve equivalent`
+  );
+}
+
+function queryTest(node: QueryNode): SieveTest {
+  switch (node.type) {
+    case "and":
+      return { kind: "allof", tests: node.children.map(queryTest) };
+    case "or":
+      return { kind: "anyof", tests: node.children.map(queryTest) };
+    case "not":
+      return { kind: "not", test: queryTest(node.child) };
+    case "term":
+      return queryTermTest(node);
+  }
+}
+
+function criteriaTest(criteria: gmail_v1.Schema$FilterCriteria): SieveTest {
+  const tests: SieveTest[] = [];
+  if (criteria.from) {
+    tests.push(addressTest(["from"], simpleValue("from", criteria.from)));
+  }
+  if (criteria.to) {
+    tests.push(addressTest(TO_HEADERS, simpleValue("to", criteria.to)));
+  }
+  if (criteria.subject) {
+    tests.push({
+      kind: "header",
+      headers: ["subject"],
+      match: "contains",
+      value: simpleValue("subject", criteria.subject),
+    });
+  }
+  if (criteria.hasAttachment) {
+    tests.push(ATTACHMENT_TEST);
+  }
+  if (criteria.size) {
+    tests.push({
+      kind: "size",
+      over: criteria.sizeComparison !== "smaller",
+      limit: String(criteria.size),
+    });
+  }
+
+  // "doesn't have" is the query negated
+  const query = [
+    criteria.query,
+    criteria.negatedQuery && `-(${criteria.negatedQuery})`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+  if (query) {
+    let node: QueryNode;
+    try {
+      node = parseGmailQuery(query);
+    } catch (error: any) {
+      throw new Error(`the query "${query}" is invalid: ${error.message}`);
+    }
+    const test = queryTest(node);
+    // nested, so it reads back as the query rather than as fields
+    tests.push(
+      test.kind === "allof" || test.kind === "anyof" || test.kind === "not"
+        ? test
+        : { kind: "allof", tests: [test] }
+    );
+  }
+
+  if (tests.length === 0) {
+    throw new Error("it has no criteria");
+  }
+  return tests.length === 1 && !query
+    ? tests[0]
+    : { kind: "allof", tests };
+}
+
+function formatTest(test: SieveTest, indent: string): string {
+  switch (test.kind) {
+    case "allof":
+    case "anyof": {
+      const inner = indent + "    ";
+      return `${test.kind} (\n${test.tests
+        .map((t) => inner + formatTest(t, inner))
+        .join(",\n")}\n${indent})`;
+    }
+    case "not":
+      return `not ${formatTest(test.test, indent)}`;
+    case "size":
+      return `size ${test.over ? ":over" : ":under"} ${test.limit}`;
+    default:
+      return `${test.kind} :${test.match} ${stringList(test.headers)} ${quote(test.value)}`;
+  }
+}
+
+function filterCommands(
+  action: gmail_v1.Schema$FilterAction,
+  labels: Label[],
+  warnings: string[]
+): SieveCommand[] {
+  const commands: SieveCommand[] = [];
+  const flags: string[] = [];
+  let skipInbox = false;
+
+  for (const id of action.addLabelIds || []) {
+    const label = labels.find((l) => l.id === id);
+    if (id === "STARRED") {
+      flags.push(FLAGS.STARRED);
+    } else if (label && label.type !== "system") {
+      commands.push({ name: "fileinto", args: [label.name] });
+    } else if (!label && id.startsWith("Label_")) {
+      throw new Error(`it applies label ${id}, which no longer exists`);
+    } else {
+      warnings.push(`applying ${label?.name || id} has no Sieve equivalent; skipped`);
+    }
+  }
+  for (const id of action.removeLabelIds || []) {
+    if (id === "INBOX") {
+      skipInbox = true;
+    } else if (id === "UNREAD") {
+      flags.push(FLAGS.UNREAD);
+    } else {
+      warnings.push(`removing ${id} has no Sieve equivalent; skipped`);
+    }
+  }
+  if (action.forward) {
+    commands.push({ name: "redirect", args: [action.forward] });
+  }
+  if (flags.length > 0) {
+    commands.unshift({ name: "addflag", args: flags });
+  }
+
+  const delivers = commands.some((c) => c.name !== "addflag");
+  if (skipInbox && !delivers) {
+    warnings.push(
+      "Sieve can't archive without a folder to file into; the message stays in the inbox"
+    );
+  }
+  // fileinto and redirect cancel the implicit keep Gmail never skips
+  if (delivers && !skipInbox) {
+    commands.push({ name: "keep", args: [] });
+  }
+  if (commands.length === 0) {
+    throw new Error("none of its actions have a Sieve equivalent");
+  }
+  return commands;
+}
+
+/**
+ * Write filters as a Sieve script. Filters whose criteria can't be
+ * expressed are left out as commented warnings, since dropping a
+ * criterion would widen what the rule matches.
+ */
+export function filtersToSieve(
+  filters: gmail_v1.Schema$Filter[],
+  labels: Label[],
+  options: { now?: Date } = {}
+): SieveExportResult {
+  const rules: string[] = [];
+  const skipped: SieveExportResult["skipped"] = [];
+  const extensions = new Set<string>();
+
+  for (const filter of filters) {
+    const id = filter.id || "";
+    const warnings: string[] = [];
+    try {
+      const test = criteriaTest(filter.criteria || {});
+      const commands = filterCommands(filter.action || {}, labels, warnings);
+
+      for (const command of commands) {
+        if (command.name === "fileinto") extensions.add("fileinto");
+        if (command.name === "addflag") extensions.add("imap4flags");
+      }
+      rules.push(
+        [
+          `# Gmail filter ${id}`,
+          ...warnings.map((warning) => `# WARNING: ${warning}`),
+          `if ${formatTest(test, "")} {`,
+          ...commands.map((command) =>
+            command.args.length
+              ? `    ${command.name} ${stringList(command.args)};`
+              : `    ${command.name};`
+          ),
+          "}",
+        ].join("\n")
+      );
+    } catch (error: any) {
+      // everything thrown above is something Sieve can't express
+      const reason = `Not exported: ${error.message}`;
+      skipped.push({ id, reason });
+      rules.push(
+        [
+          `# WARNING: Gmail filter ${id}. ${reason}`,
+          ...Object.entries(filter.criteria || {}).map(
+            ([key, value]) => `#   ${key}: ${value}`
+          ),
+        ].join("\n")
+      );
+    }
+  }
+
+  const updated = (options.now || new Date()).toISOString().replace(/\.\d+Z$/, "Z");
+  const header = [`# Sieve script exported from Gmail filters on ${updated}`];
+  if (extensions.size > 0) {
+    header.push(`require ${stringList([...extensions].sort())};`);
+  }
+
+  return {
+    script: [header.join("\n"), ...rules].join("\n\n") + "\n",
+    exported: filters.length - skipped.length,
+    skipped,
+  };
+}
+
+type Token = { kind: string; value: string; position: number };
+
+function lexSieve(script: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern =
+    /\s+|#[^\n]*|\/\*[\s\S]*?\*\/|"((?:[^"\\]|\\.)*)"|:([a-z_][a-z0-9_]*)|(\d+[KMG]?)\b|([a-z_][a-z0-9_]*)|([()[\]{},;])/giy;
+  let match: RegExpExecArray | null;
+  while (pattern.lastIndex < script.length) {
+    const position = pattern.lastIndex;
+    match = pattern.exec(script);
+    if (!match) {
+      throw new Error(`Unexpected "${script[position]}" at position ${position}`);
+    }
+    const [, string, tag, number, identifier, punctuation] = match;
+    if (string !== undefined) {
+      tokens.push({ kind: "string", value: string.replace(/\\(.)/g, "$1"), position });
+    } else if (tag) {
+      tokens.push({ kind: "tag", value: tag.toLowerCase(), position });
+    } else if (number) {
+      tokens.push({ kind: "number", value: number.toUpperCase(), position });
+    } else if (identifier) {
+      tokens.push({ kind: "identifier", value: identifier.toLowerCase(), position });
+    } else if (punctuation) {
+      tokens.push({ kind: punctuation, value: punctuation, position });
+    }
+  }
+  return tokens;
+}
+
+function parseSieveRules(script: string): { test: SieveTest; commands: SieveCommand[] }[] {
+  const tokens = lexSieve(script);
+  let index = 0;
+
+  const fail = (message: string): never => {
+    const token = tokens[index];
+    throw new Error(
+      `${message} ${token ? `at position ${token.position}` : "at the end of the script"}`
+    );
+  };
+  const next = (kind?: string): Token => {
+    const token = tokens[index];
+    if (!token || (kind && token.kind !== kind)) {
+      fail(`Expected ${kind}`);
+    }
+    index++;
+    return token;
+  };
+  const accept = (kind: string) => {
+    if (tokens[index]?.kind !== kind) return false;
+    index++;
+    return true;
+  };
+
+  const parseStrings = (): string[] => {
+    if (accept("[")) {
+      const values = [next("string").value];
+      while (accept(",")) values.push(next("string").value);
+      next("]");
+      return values;
+    }
+    return [next("string").value];
+  };
+
+  const parseTest = (): SieveTest => {
+    const name = next("identifier").value;
+    switch (name) {
+      case "allof":
+      case "anyof": {
+        next("(");
+        const tests = [parseTest()];
+        while (accept(",")) tests.push(parseTest());
+        next(")");
+        return { kind: name, tests };
+      }
+      case "not":
+        return { kind: "not", test: parseTest() };
+      case "size": {
+        const tag = next("tag").value;
+        if (tag !== "over" && tag !== "under") fail(`Unknown size comparison :${tag}`);
+        return { kind: "size", over: tag === "over", limit: next("number").value };
+      }
+      case "address":
+      case "header": {
+        const match = next("tag").value;
+        if (match !== "contains" && match !== "matches") {
+          fail(`Unsupported match type :${match}`);
+        }
+        const headers = parseStrings().map((h) => h.toLowerCase());
+        const values = parseStrings();
+        if (values.length !== 1) fail("Expected one key");
+        return {
+          kind: name,
+          headers,
+          match: match as "contains" | "matches",
+          value: values[0],
+        };
+      }
+    }
+    return fail(`Unsupported test "${name}"`);
+  };
+
+  const rules: { test: SieveTest; commands: SieveCommand[] }[] = [];
+  while (index < tokens.length) {
+    const name = next("identifier").value;
+    if (name === "require") {
+      parseStrings();
+      next(";");
+    } else if (name === "if") {
+      const test = parseTest();
+      next("{");
+      const commands: SieveCommand[] = [];
+      while (!accept("}")) {
+        const command = next("identifier").value;
+        if (!["fileinto", "redirect", "addflag", "keep"].includes(command)) {
+          fail(`Unsupported command "${command}"`);
+        }
+        const args = command === "keep" ? [] : parseStrings();
+        next(";");
+        commands.push({ name: command, args });
+      }
+      if (tokens[index]?.value === "elsif" || tokens[index]?.value === "else") {
+        fail("elsif and else are not supported");
+      }
+      rules.push({ test, commands });
+    } else {
+      fail(`Unsupported command "${name}"`);
+    }
+  }
+  return rules;
+}
+
+function sameHeaders(headers: string[], expected: string[]): boolean {
+  return headers.length === expected.length && headers.every((h, i) => h === expected[i]);
+}
+
+function testQuery(test: SieveTest): QueryNode {
+  const term = (operator: string, value: string): QueryNode => ({
+    type: "term",
+    operator,
+    value,
+    quoted: /\s/.test(value),
+  });
+  switch (test.kind) {
+    case "allof":
+    case "anyof": {
+      const children = test.tests.map(testQuery);
+      if (children.length === 1) return children[0];
+      return { type: test.kind === "allof" ? "and" : "or", children };
+    }
+    case "not":
+      return { type: "not", child: testQuery(test.test) };
+    case "size":
+      return term(test.over ? "larger" : "smaller", test.limit);
+    case "header":
+      if (sameHeaders(test.headers, ["content-type"])) return term("has", "attachment");
+      if (sameHeaders(test.headers, ["subject"])) return term("subject", test.value);
+      if (sameHeaders(test.headers, ["list-id"])) return term("list", test.value);
+      break;
+    case "address":
+      if (sameHeaders(test.headers, ["from"])) return term("from", test.value);
+      if (sameHeaders(test.headers, TO_HEADERS)) return term("to", test.value);
+      if (sameHeaders(test.headers, ["cc"])) return term("cc", test.value);
+      break;
+  }
+  throw new Error(`Can't read back ${formatTest(test, "")}`);
+}
+
+function sizeBytes(limit: string): number {
+  const suffix = limit.slice(-1);
+  return SIZE_SUFFIXES[suffix]
+    ? parseInt(limit) * SIZE_SUFFIXES[suffix]
+    : parseInt(limit);
+}
+
+/**
+ * Read a script written by `filtersToSieve` back into filter definitions
+ * (labels by name). Only that subset of Sieve is understood.
+ */
+export function parseSieve(script: string): FilterDefinition[] {
+  return parseSieveRules(script).map(({ test, commands }) => {
+    const criteria: gmail_v1.Schema$FilterCriteria = {};
+    const query: QueryNode[] = [];
+
+    // top-level tests fill the criteria fields; nested ones are the query
+    for (const part of test.kind === "allof" ? test.tests : [test]) {
+      const field =
+        part.kind === "address" || part.kind === "header"
+          ? `${part.kind} ${part.headers.join(",")}`
+          : part.kind;
+      const value = "value" in part ? part.value : "";
+      if (field === "address from" && !criteria.from) {
+        criteria.from = value;
+      } else if (field === "address to,cc" && !criteria.to) {
+        criteria.to = value;
+      } else if (field === "header subject" && !criteria.subject) {
+        criteria.subject = value;
+      } else if (field === "header content-type" && !criteria.hasAttachment) {
+        criteria.hasAttachment = true;
+      } else if (part.kind === "size" && !criteria.size) {
+        criteria.size = sizeBytes(part.limit);
+        criteria.sizeComparison = part.over ? "larger" : "smaller";
+      } else {
+        query.push(testQuery(part));
+      }
+    }
+    if (query.length > 0) {
+      criteria.query = formatQuery(
+        query.length === 1 ? query[0] : { type: "and", children: query }
+      );
+    }
+
+    const action: gmail_v1.Schema$FilterAction = {};
+    const addLabelIds: string[] = [];
+    const removeLabelIds: string[] = [];
+    const labels: string[] = [];
+    for (const command of commands) {
+      if (command.name === "fileinto") labels.push(command.args[0]);
+      if (command.name === "redirect") action.forward = command.args[0];
+      if (command.name === "addflag") {
+        if (command.args.includes(FLAGS.STARRED)) addLabelIds.push("STARRED");
+        if (command.args.includes(FLAGS.UNREAD)) removeLabelIds.push("UNREAD");
+      }
+    }
+    const delivers = commands.some((c) => c.name === "fileinto" || c.name === "redirect");
+    if (delivers && !commands.some((c) => c.name === "keep")) {
+      removeLabelIds.unshift("INBOX");
+    }
+    if (addLabelIds.length) action.addLabelIds = addLabelIds;
+    if (removeLabelIds.length) action.removeLabelIds = removeLabelIds;
+
+    return { criteria, action, labels };
+  });
+}
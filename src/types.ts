@@ -38,16 +38,200 @@ export interface Label {
   type?: string;
 }
 
+// Gmail only accepts colors from its own palette
+export interface LabelColor {
+  textColor: string;
+  backgroundColor: string;
+}
+
+export interface LabelSettings {
+  name?: string;
+  color?: LabelColor;
+  // visibility in the label list on the left
+  labelListVisibility?: "labelShow" | "labelShowIfUnread" | "labelHide";
+  // visibility of the label chip on messages
+  messageListVisibility?: "show" | "hide";
+}
+
+export interface LabelRename {
+  id: string;
+  from: string;
+  to: string;
+}
+
+// what renaming or deleting a label touches
+export interface LabelImpact {
+  label: Label;
+  messages: number;
+  sublabels: (Label & { messages: number })[];
+}
+
+export interface LabelMergeResult {
+  sources: Label[];
+  target: Label;
+  dryRun: boolean;
+  // messages carrying at least one of the source labels
+  messages: number;
+  moved: number;
+  failed: number;
+  // filters that add or remove one of the source labels
+  filters: number;
+  filtersRewritten: number;
+  deletedSources: string[];
+}
+
 export interface SearchResult {
   messages?: EmailMessage[];
+  query?: string;
+  total?: number;
+  nextPageToken?: string;
+  // local search: how many cached messages were searched
+  searched?: number;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  mimeType?: string;
+  size?: number;
+  attachmentId: string;
 }
 
 export interface EmailContent {
   id: string;
+  threadId?: string;
   subject?: string;
   from?: string;
   to?: string;
+  cc?: string;
+  bcc?: string;
+  replyTo?: string;
   date?: string;
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string;
   body?: string;
+  bodyText?: string;
+  bodyHtml?: string;
+  snippet?: string;
+  labelIds?: string[];
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailThread {
+  id: string;
+  historyId?: string;
+  subject?: string;
+  messages: EmailContent[];
+}
+
+export interface ThreadSummary {
+  id: string;
+  subject?: string;
+  from?: string;
+  date?: string;
   snippet?: string;
-}
\ No newline at end of file
+  messageCount: number;
+  labelIds?: string[];
+}
+
+export interface DraftSummary {
+  id: string;
+  messageId: string;
+  threadId?: string;
+  subject?: string;
+  to?: string;
+  date?: string;
+  snippet?: string;
+}
+
+export interface DraftList {
+  drafts: DraftSummary[];
+  total?: number;
+  nextPageToken?: string;
+}
+
+export interface EmailDraft {
+  id: string;
+  message: EmailContent;
+}
+
+export interface BatchProgress {
+  processed: number;
+  total: number;
+  chunksDone: number;
+  chunks: number;
+}
+
+export interface BatchChunkResult {
+  index: number;
+  size: number;
+  success: boolean;
+  error?: string;
+}
+
+export interface BatchOperationResult {
+  operation: string;
+  query: string;
+  matched: number;
+  affected: number;
+  failed: number;
+  chunks: BatchChunkResult[];
+}
+
+// what a filter would catch if it ran over the mail already in the mailbox
+export interface FilterPreview {
+  query: string;
+  total: number;
+  // counting stopped at `total`; there are more
+  capped: boolean;
+  sample: EmailMessage[];
+}
+
+export interface VacationSettings {
+  enabled: boolean;
+  subject?: string;
+  bodyText?: string;
+  bodyHtml?: string;
+  // ISO timestamps; without them the auto-reply runs until turned off
+  start?: string;
+  end?: string;
+  // only reply to people in the user's contacts / own domain
+  restrictToContacts: boolean;
+  restrictToDomain: boolean;
+}
+
+// changes to the auto-reply; fields left out keep their current values,
+// except the dates
+export interface VacationOptions {
+  subject?: string;
+  bodyText?: string;
+  bodyHtml?: string;
+  // YYYY-MM-DD for whole days (the end date is the last day away) or an
+  // ISO date-time; left out or "", replies start now and run until
+  // turned off
+  startDate?: string;
+  endDate?: string;
+  restrictToContacts?: boolean;
+  restrictToDomain?: boolean;
+}
+
+// an address the account can send as; the primary address is one too
+export interface SendAsAlias {
+  email: string;
+  displayName?: string;
+  replyTo?: string;
+  // HTML, as Gmail stores it
+  signature?: string;
+  isPrimary: boolean;
+  isDefault: boolean;
+  // only verified aliases can be sent from
+  verified: boolean;
+}
+
+export interface SendAsChanges {
+  displayName?: string;
+  replyTo?: string;
+  // HTML, or plain text whose line breaks are kept
+  signature?: string;
+  isDefault?: boolean;
+}
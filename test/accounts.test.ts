@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  CONFIG_DIR,
+  DEFAULT_ACCOUNT,
+  accountCachePath,
+  accountFromArgs,
+  accountTokenPath,
+  defaultAccount,
+  listAccounts,
+  validateAccountName
+} from '../src/accounts.js';
+
+describe('Accounts', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should keep one token per account in the config directory', () => {
+    expect(accountTokenPath('work')).toBe(path.join(CONFIG_DIR, 'tokens', 'work.json'));
+  });
+
+  it('should give each account its own cache in the config directory', () => {
+    expect(accountCachePath(DEFAULT_ACCOUNT)).toBe(path.join(CONFIG_DIR, 'cache', 'default.json'));
+    expect(accountCachePath('work')).toBe(path.join(CONFIG_DIR, 'cache', 'work.json'));
+  });
+
+  it('should refuse names that are not safe file names', () => {
+    expect(validateAccountName('ann.lee_work-2')).toBe('ann.lee_work-2');
+    for (const name of ['', '../token', 'a/b', '.hidden', 'my work']) {
+      expect(() => validateAccountName(name)).toThrow(`Invalid account name "${name}"`);
+    }
+    expect(() => accountTokenPath('../../etc')).toThrow('Invalid account name');
+  });
+
+  it('should use GMAIL_ACCOUNT when no account is named', () => {
+    expect(defaultAccount()).toBe(DEFAULT_ACCOUNT);
+    vi.stubEnv('GMAIL_ACCOUNT', 'personal');
+    expect(defaultAccount()).toBe('personal');
+  });
+
+  it('should read --account from the command line', () => {
+    expect(accountFromArgs(['--account', 'work'])).toBe('work');
+    expect(accountFromArgs(['--verbose', '--account=personal'])).toBe('personal');
+    expect(accountFromArgs([])).toBeUndefined();
+    expect(() => accountFromArgs(['--account'])).toThrow('--account needs an account name');
+    expect(() => accountFromArgs(['--account', '--verbose'])).toThrow('--account needs an account name');
+  });
+
+  it('should list the accounts that have tokens', async () => {
+    vi.mocked(fs.readdir).mockResolvedValue(['work.json', 'personal.json', 'notes.txt', '.tmp.json'] as any);
+
+    expect(await listAccounts()).toEqual(['personal', 'work']);
+    expect(fs.readdir).toHaveBeenCalledWith(path.join(CONFIG_DIR, 'tokens'));
+  });
+
+  it('should list no accounts before the first sign-in', async () => {
+    vi.mocked(fs.readdir).mockRejectedValue(Object.assign(new Error('ENOENT'), { code: 'ENOENT' }));
+
+    expect(await listAccounts()).toEqual([]);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { downloadAttachments, sanitizeFilename } from '../src/attachments.js';
+
+vi.mock('fs/promises', () => ({
+  mkdir: vi.fn(),
+  writeFile: vi.fn()
+}));
+
+const existsError = () => Object.assign(new Error('EEXIST: file already exists'), { code: 'EEXIST' });
+
+describe('Attachments', () => {
+  describe('sanitizeFilename', () => {
+    it('should strip path separators and traversal', () => {
+      expect(sanitizeFilename('../../etc/passwd')).toBe('_.._etc_passwd');
+      expect(sanitizeFilename('C:\\Users\\me\\report.pdf')).toBe('C_Users_me_report.pdf');
+    });
+
+    it('should replace control and reserved characters', () => {
+      expect(sanitizeFilename('in\u0000voice<2024>?.pdf')).toBe('in_voice_2024_.pdf');
+    });
+
+    it('should remove leading dots and trailing dots or spaces', () => {
+      expect(sanitizeFilename('.bashrc')).toBe('bashrc');
+      expect(sanitizeFilename('notes.txt. . ')).toBe('notes.txt');
+    });
+
+    it('should guard reserved device names and empty names', () => {
+      expect(sanitizeFilename('CON.txt')).toBe('_CON.txt');
+      expect(sanitizeFilename('...')).toBe('attachment');
+      expect(sanitizeFilename('')).toBe('attachment');
+    });
+
+    it('should truncate long names but keep the extension', () => {
+      const name = sanitizeFilename('a'.repeat(300) + '.pdf');
+      expect(Buffer.byteLength(name)).toBeLessThanOrEqual(255);
+      expect(name.endsWith('.pdf')).toBe(true);
+    });
+  });
+
+  describe('downloadAttachments', () => {
+    let service: any;
+    const pdf = Buffer.from('%PDF-1.4 test');
+    const png = Buffer.from('PNG data');
+
+    beforeEach(() => {
+      vi.mocked(fs.writeFile).mockReset().mockResolvedValue(undefined);
+      vi.mocked(fs.mkdir).mockReset().mockResolvedValue(undefined);
+
+      service = {
+        readEmail: vi.fn().mockResolvedValue({
+          id: 'msg-1',
+          attachments: [
+            { filename: 'invoice.pdf', mimeType: 'application/pdf', size: pdf.length, attachmentId: 'att-pdf' },
+            { filename: 'logo.png', mimeType: 'image/png', size: png.length, attachmentId: 'att-png' }
+          ]
+        }),
+        getAttachment: vi.fn(async (_messageId: string, attachmentId: string) => ({
+          data: attachmentId === 'att-pdf' ? pdf : png
+        })),
+        iterateEmails: vi.fn()
+      };
+    });
+
+    it('should save every attachment of a message', async () => {
+      const result = await downloadAttachments(service, { messageId: 'msg-1', targetDir: '/tmp/out' });
+
+      expect(fs.mkdir).toHaveBeenCalledWith('/tmp/out', { recursive: true });
+      expect(fs.writeFile).toHaveBeenCalledWith(path.join('/tmp/out', 'invoice.pdf'), pdf, { flag: 'wx' });
+      expect(result.saved.map(f => f.filename)).toEqual(['invoice.pdf', 'logo.png']);
+    });
+
+    it('should filter by MIME type shorthand', async () => {
+      const result = await downloadAttachments(service, { messageId: 'msg-1', mimeType: 'pdf', targetDir: '/tmp/out' });
+
+      expect(service.getAttachment).toHaveBeenCalledTimes(1);
+      expect(result.saved).toHaveLength(1);
+      expect(result.saved[0].filename).toBe('invoice.pdf');
+    });
+
+    it('should suffix colliding filenames by default', async () => {
+      vi.mocked(fs.writeFile).mockRejectedValueOnce(existsError());
+
+      const result = await downloadAttachments(service, { messageId: 'msg-1', filename: 'invoice', targetDir: '/tmp/out' });
+
+      expect(fs.writeFile).toHaveBeenLastCalledWith(path.join('/tmp/out', 'invoice (1).pdf'), pdf, { flag: 'wx' });
+      expect(result.saved[0].filename).toBe('invoice (1).pdf');
+    });
+
+    it('should skip colliding filenames when asked', async () => {
+      vi.mocked(fs.writeFile).mockRejectedValueOnce(existsError());
+
+      const result = await downloadAttachments(service, {
+        messageId: 'msg-1',
+        filename: 'invoice',
+        targetDir: '/tmp/out',
+        onCollision: 'skip'
+      });
+
+      expect(result.saved).toHaveLength(0);
+      expect(result.skipped).toEqual([{ messageId: 'msg-1', filename: 'invoice.pdf', reason: 'File already exists' }]);
+    });
+
+    it('should refuse to write attachments whose size does not match the metadata', async () => {
+      service.getAttachment.mockResolvedValueOnce({ data: Buffer.from('truncated') });
+
+      const result = await downloadAttachments(service, { messageId: 'msg-1', mimeType: 'pdf', targetDir: '/tmp/out' });
+
+      expect(fs.writeFile).not.toHaveBeenCalled();
+      expect(result.failed[0].error).toContain('Size mismatch');
+    });
+
+    it('should save attachments of every message matching a query', async () => {
+      service.iterateEmails.mockImplementation(async function* () {
+        yield { id: 'msg-1' };
+        yield { id: 'msg-2' };
+        yield { id: 'msg-3' };
+      });
+
+      const result = await downloadAttachments(service, {
+        query: 'from:billing@example.com',
+        mimeType: 'pdf',
+        maxMessages: 2,
+        targetDir: '/tmp/out'
+      });
+
+      expect(service.iterateEmails).toHaveBeenCalledWith('(from:billing@example.com) has:attachment', 2);
+      expect(service.readEmail).toHaveBeenCalledTimes(2);
+      expect(result.saved).toHaveLength(2);
+    });
+
+    it('should require a message or a query', async () => {
+      await expect(downloadAttachments(service, {}))
+        .rejects
+        .toThrow('Either messageId or query is required');
+    });
+  });
+});
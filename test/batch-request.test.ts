@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { google } from 'googleapis';
+import { http, HttpResponse } from 'msw';
+import {
+  BATCH_URL,
+  buildBatchBody,
+  buildRequestPath,
+  parseBatchResponse
+} from '../src/batch-request.js';
+import { GmailService } from '../src/gmail-service.js';
+import { server } from './setup.js';
+
+vi.mock('../src/auth.js', () => ({
+  getGmailService: vi.fn()
+}));
+
+const API = 'https://gmail.googleapis.com/gmail/v1/users/me';
+
+const metadata = (id: string) => ({
+  id,
+  threadId: `thread-${id}`,
+  snippet: `snippet ${id}`,
+  labelIds: ['INBOX'],
+  payload: { headers: [{ name: 'Subject', value: `Subject ${id}` }, { name: 'From', value: 'a@example.com' }] }
+});
+
+// answer a batch request like Gmail does; `statusFor` can fail single calls
+function batchResponse(body: string, statusFor: (id: string) => number = () => 200) {
+  const calls = [...body.matchAll(/Content-ID: <item-(\d+)>\r\n\r\nGET \/gmail\/v1\/users\/me\/messages\/([^?\s]+)\?(\S+)/g)];
+  const parts = calls.map(([, index, id]) => {
+    const status = statusFor(id);
+    const json = status === 200 ? metadata(id) : { error: { code: status } };
+    return [
+      '--batch_resp',
+      'Content-Type: application/http',
+      `Content-ID: <response-item-${index}>`,
+      '',
+      `HTTP/1.1 ${status} ${status === 200 ? 'OK' : 'Error'}`,
+      'Content-Type: application/json; charset=UTF-8',
+      '',
+      JSON.stringify(json)
+    ].join('\r\n');
+  });
+
+  return new HttpResponse(`${parts.join('\r\n')}\r\n--batch_resp--\r\n`, {
+    headers: { 'Content-Type': 'multipart/mixed; boundary=batch_resp' }
+  });
+}
+
+describe('Batch Requests', () => {
+  it('should build request paths with repeated parameters', () => {
+    expect(
+      buildRequestPath({
+        path: 'messages/abc',
+        params: { format: 'metadata', metadataHeaders: ['From', 'Subject'], fields: 'id,payload/headers', pageToken: undefined }
+      })
+    ).toBe('/gmail/v1/users/me/messages/abc?format=metadata&metadataHeaders=From&metadataHeaders=Subject&fields=id%2Cpayload%2Fheaders');
+  });
+
+  it('should build a multipart/mixed body with one part per call', () => {
+    const body = buildBatchBody([{ path: 'messages/a' }, { path: 'messages/b' }], 'b1');
+
+    expect(body).toBe(
+      '--b1\r\nContent-Type: application/http\r\nContent-ID: <item-0>\r\n\r\nGET /gmail/v1/users/me/messages/a\r\n' +
+      '\r\n--b1\r\nContent-Type: application/http\r\nContent-ID: <item-1>\r\n\r\nGET /gmail/v1/users/me/messages/b\r\n' +
+      '\r\n--b1--\r\n'
+    );
+  });
+
+  it('should parse responses by Content-ID regardless of order', () => {
+    const body = [
+      '--xyz',
+      'Content-Type: application/http',
+      'Content-ID: <response-item-1>',
+      '',
+      'HTTP/1.1 404 Not Found',
+      'Content-Type: application/json',
+      '',
+      '{"error":{"code":404}}',
+      '--xyz',
+      'Content-Type: application/http',
+      'Content-ID: <response-item-0>',
+      '',
+      'HTTP/1.1 200 OK',
+      'Content-Type: application/json',
+      '',
+      '{"id":"a"}',
+      '--xyz--',
+      ''
+    ].join('\r\n');
+
+    const parts = parseBatchResponse(body, 'multipart/mixed; boundary=xyz');
+
+    expect(parts.get(0)).toEqual({ status: 200, body: { id: 'a' } });
+    expect(parts.get(1)).toEqual({ status: 404, body: { error: { code: 404 } } });
+  });
+
+  it('should reject responses without a boundary', () => {
+    expect(() => parseBatchResponse('', 'application/json')).toThrow('Batch response has no boundary');
+  });
+
+  describe('GmailService metadata fetches', () => {
+    let batchBodies: string[];
+    let singleGets: string[];
+    let gmailService: GmailService;
+
+    const listIds = (count: number) =>
+      server.use(
+        http.get(`${API}/messages`, () =>
+          HttpResponse.json({
+            messages: Array.from({ length: count }, (_, i) => ({ id: `m${i}`, threadId: `thread-m${i}` })),
+            resultSizeEstimate: count
+          })
+        )
+      );
+
+    beforeEach(async () => {
+      batchBodies = [];
+      singleGets = [];
+
+      const auth = new google.auth.OAuth2();
+      auth.setCredentials({ access_token: 'test-token', expiry_date: Date.now() + 3600_000 });
+      const { getGmailService } = await import('../src/auth.js');
+      vi.mocked(getGmailService).mockResolvedValue(google.gmail({ version: 'v1', auth, retry: false }));
+
+      server.use(
+        http.post(BATCH_URL, async ({ request }) => {
+          const body = await request.text();
+          batchBodies.push(body);
+          return batchResponse(body, (id) => (id === 'm1' ? 429 : 200));
+        }),
+        http.get(`${API}/messages/:messageId`, ({ params }) => {
+          singleGets.push(params.messageId as string);
+          return HttpResponse.json(metadata(params.messageId as string));
+        })
+      );
+
+      gmailService = new GmailService({ retry: { sleep: async () => {} } });
+      await gmailService.initialize();
+    });
+
+    it('should fetch search metadata in one batch with partial responses', async () => {
+      listIds(3);
+
+      const result = await gmailService.searchEmails('in:inbox', 3);
+
+      expect(batchBodies).toHaveLength(1);
+      expect(batchBodies[0]).toContain(
+        'GET /gmail/v1/users/me/messages/m0?format=metadata&metadataHeaders=From&metadataHeaders=To&metadataHeaders=Subject&metadataHeaders=Date&fields=id%2CthreadId%2Csnippet%2ClabelIds%2Cpayload%2Fheaders'
+      );
+      expect(result.messages.map((m) => m.subject)).toEqual(['Subject m0', 'Subject m1', 'Subject m2']);
+      expect(result.messages[0]).toMatchObject({ id: 'm0', from: 'a@example.com', snippet: 'snippet m0' });
+    });
+
+    it('should fetch calls that failed inside the batch on their own', async () => {
+      listIds(3);
+
+      await gmailService.searchEmails('in:inbox', 3);
+
+      expect(singleGets).toEqual(['m1']);
+    });
+
+    it('should split large searches into batches of 50', async () => {
+      listIds(120);
+
+      const result = await gmailService.searchEmails('in:inbox', 120);
+
+      expect(batchBodies).toHaveLength(3);
+      expect(batchBodies.map((body) => body.match(/Content-ID/g)!.length)).toEqual([50, 50, 20]);
+      expect(result.messages).toHaveLength(120);
+      expect(result.messages[119].subject).toBe('Subject m119');
+    });
+
+    it('should fall back to single requests when batching is off', async () => {
+      listIds(3);
+      gmailService = new GmailService({ batchRequests: false });
+      await gmailService.initialize();
+
+      const result = await gmailService.searchEmails('in:inbox', 3);
+
+      expect(batchBodies).toHaveLength(0);
+      expect(singleGets.sort()).toEqual(['m0', 'm1', 'm2']);
+      expect(result.messages[2].subject).toBe('Subject m2');
+    });
+  });
+});
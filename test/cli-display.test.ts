@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { CLIDisplay } from '../src/cli-display.js';
 import { EmailMessage, Label } from '../src/cli-messages.js';
+import { mockLabels } from './setup.js';
 
 describe('CLIDisplay', () => {
   let consoleSpy: any;
@@ -182,6 +183,22 @@ describe('CLIDisplay', () => {
       expect(output).toContain('(truncated for display)');
     });
 
+    it('should render the HTML body when one is available', () => {
+      const emailContent = {
+        id: 'msg1',
+        subject: 'Newsletter',
+        body: 'plain fallback',
+        bodyHtml: '<h2>Top stories</h2><ul><li>First</li><li>Second</li></ul>'
+      };
+
+      CLIDisplay.showEmailContent(emailContent);
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('## Top stories');
+      expect(output).toContain('• First\n• Second');
+      expect(output).not.toContain('<h2>');
+    });
+
     it('should fallback to snippet when body is not available', () => {
       const emailContent = {
         id: 'msg1',
@@ -237,6 +254,56 @@ describe('CLIDisplay', () => {
       expect(output).toContain('Label name: New Work Label');
     });
 
+    it('should show renamed sub-labels after a label update', () => {
+      CLIDisplay.showLabelUpdated({
+        name: 'Office',
+        renamed: [
+          { id: 'Label_2', from: 'Work', to: 'Office' },
+          { id: 'Label_3', from: 'Work/Shopify', to: 'Office/Shopify' }
+        ]
+      });
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+
+      expect(output).toContain('Label Office updated');
+      expect(output).toContain('Work/Shopify → Office/Shopify');
+    });
+
+    it('should show cancelled label changes', () => {
+      CLIDisplay.showLabelUpdated({ cancelled: true, id: 'Label_2' });
+      CLIDisplay.showLabelDeleted({ cancelled: true, id: 'Label_2' });
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+
+      expect(output).toContain('Label change cancelled');
+      expect(output).toContain('Label deletion cancelled');
+    });
+
+    it('should report merged labels and keep them when messages failed', () => {
+      const result = {
+        sources: [{ id: 'Label_1', name: 'Receipts' }, { id: 'Label_3', name: 'Invoices' }],
+        target: { id: 'Label_2', name: 'Finance' },
+        messages: 40,
+        moved: 40,
+        failed: 0,
+        filtersRewritten: 2,
+        deletedSources: ['Label_1', 'Label_3']
+      };
+
+      CLIDisplay.showLabelsMerged(result);
+      let output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('Merged Receipts, Invoices into Finance');
+      expect(output).toContain('Moved 40 emails');
+      expect(output).toContain('Rewrote 2 filters');
+      expect(output).toContain('Deleted Receipts, Invoices');
+
+      consoleSpy.log.mockClear();
+      CLIDisplay.showLabelsMerged({ ...result, moved: 30, failed: 10, deletedSources: [] });
+      output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('10 of 40 emails could not be moved');
+      expect(output).not.toContain('Deleted');
+    });
+
     it('should list all labels with proper formatting', () => {
       const labels: Label[] = [
         { id: 'INBOX', name: 'INBOX', type: 'system' },
@@ -292,6 +359,19 @@ describe('CLIDisplay', () => {
       expect(output).toContain('Remove labels: INBOX');
     });
 
+    it('should show how many existing emails a new filter was applied to', () => {
+      CLIDisplay.showFilterResult({
+        id: 'filter-1',
+        criteria: { from: 'shop@example.com' },
+        action: { addLabelIds: ['Label_1'] },
+        appliedToExisting: { operation: 'apply_filter', matched: 120, affected: 20, failed: 100, chunks: [] }
+      });
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('Applied to 20 existing emails');
+      expect(output).toContain('100 of 120 existing emails could not be changed');
+    });
+
     it('should show cancelled filter creation', () => {
       const result = {
         cancelled: true
@@ -328,6 +408,82 @@ describe('CLIDisplay', () => {
       expect(output).toContain('subject: Important');
     });
 
+    it('should show label names instead of label IDs', () => {
+      const filters = [
+        {
+          id: 'filter-1',
+          criteria: { from: 'shop@example.com' },
+          action: { addLabelIds: ['Label_1', 'Label_9'], removeLabelIds: ['INBOX'], forward: 'me@example.com' }
+        }
+      ];
+
+      CLIDisplay.showFiltersList(filters, mockLabels);
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('Apply labels: Test Label, Label_9');
+      expect(output).toContain('Remove labels: INBOX');
+      expect(output).toContain('Forward to: me@example.com');
+      expect(output).not.toContain('Label_1');
+    });
+
+    it('should show updated and deleted filters', () => {
+      CLIDisplay.showFilterUpdated(
+        { id: 'filter-2', criteria: { from: 'shop@example.com' }, action: { addLabelIds: ['Label_2'] } },
+        mockLabels
+      );
+      CLIDisplay.showFilterDeleted({ success: true, filterId: 'filter-3' });
+      CLIDisplay.showFilterDeleted({ cancelled: true, filterId: 'filter-4' });
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('Filter updated (new ID: filter-2)');
+      expect(output).toContain('Apply labels: Work');
+      expect(output).toContain('Filter filter-3 deleted');
+      expect(output).toContain('Filter deletion cancelled');
+    });
+
+    it('should report filter imports and exports', () => {
+      CLIDisplay.showFiltersExported({ path: '/tmp/mailFilters.xml', exported: 3, skipped: [{ id: 'f4', reason: 'The filter applies label Label_9, which no longer exists' }] });
+      CLIDisplay.showFiltersImported({
+        path: '/tmp/mailFilters.xml',
+        dryRun: false,
+        created: [{ criteria: { from: 'dev@example.com' }, action: {}, labels: ['Lists/Dev'] }],
+        duplicates: [{ criteria: { from: 'shop@example.com' }, action: {}, labels: [] }],
+        failed: [],
+        createdLabels: ['Lists', 'Lists/Dev']
+      });
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('Exported 3 filters to /tmp/mailFilters.xml');
+      expect(output).toContain('f4 - The filter applies label Label_9');
+      expect(output).toContain('Imported 1 filters');
+      expect(output).toContain('from: dev@example.com → Lists/Dev');
+      expect(output).toContain('Created labels: Lists, Lists/Dev');
+      expect(output).toContain('Skipped 1 filters that already exist');
+    });
+
+    it('should explain audit findings grouped by kind', () => {
+      const deleteFix = { type: 'delete', filterId: 'b', description: 'Delete b' };
+      CLIDisplay.showFilterAudit({
+        filters: 12,
+        findings: [
+          { kind: 'duplicate', filterIds: ['b', 'a'], message: 'b is an exact copy of filter a.' },
+          { kind: 'conflict', filterIds: ['c', 'd'], message: 'c applies "Work" but d removes it.' }
+        ],
+        fixes: [deleteFix],
+        fixResult: { applied: [], failed: [{ fix: deleteFix, error: 'Failed to delete filter: gone' }] }
+      });
+      CLIDisplay.showFilterAudit({ filters: 3, findings: [], fixes: [] });
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('Checked 12 filters and found 2 problems');
+      expect(output).toContain('Exact copies (1):');
+      expect(output).toContain('Conflicting actions (1):');
+      expect(output).toContain('- c applies "Work" but d removes it.');
+      expect(output).toContain('Fixed 0 filters');
+      expect(output).toContain('Delete b - Failed to delete filter: gone');
+      expect(output).toContain('All 3 filters look fine');
+    });
+
     it('should handle empty filters list', () => {
       CLIDisplay.showFiltersList([]);
 
@@ -336,6 +492,64 @@ describe('CLIDisplay', () => {
     });
   });
 
+  describe('Vacation Responder Display', () => {
+    it('should show an active auto-reply with its dates and audience', () => {
+      CLIDisplay.showVacation({
+        enabled: true,
+        subject: 'Out of office',
+        bodyHtml: '<p>Back <b>Monday</b></p>',
+        end: '2030-03-25T00:00:00.000Z',
+        restrictToContacts: true,
+        restrictToDomain: false
+      });
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('Vacation responder is on');
+      expect(output).toContain('Ends: ');
+      expect(output).toContain('Only replies to your contacts');
+      expect(output).toContain('Subject: Out of office');
+      expect(output).toContain('Back Monday');
+    });
+
+    it('should show when it is off or unchanged', () => {
+      CLIDisplay.showVacation({ enabled: false, restrictToContacts: false, restrictToDomain: false });
+      CLIDisplay.showVacation({ cancelled: true });
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('Vacation responder is off');
+      expect(output).toContain('Vacation responder unchanged');
+    });
+  });
+
+  describe('Send-as Display', () => {
+    it('should list addresses with their signatures', () => {
+      CLIDisplay.showSendAsList([
+        { email: 'me@example.com', displayName: 'Ann Lee', signature: 'Ann<br>Example Corp', isPrimary: true, isDefault: true, verified: true },
+        { email: 'new@example.com', isPrimary: false, isDefault: false, verified: false }
+      ]);
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('You can send from 2 addresses');
+      expect(output).toContain('Ann Lee <me@example.com> (default)');
+      expect(output).toContain('Signature:\n   Ann\n   Example Corp');
+      expect(output).toContain('new@example.com (not verified)');
+    });
+
+    it('should show the updated signature', () => {
+      CLIDisplay.showSendAsUpdated({
+        email: 'support@example.com',
+        signature: 'The Support Team',
+        isPrimary: false,
+        isDefault: false,
+        verified: true
+      });
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('Updated support@example.com');
+      expect(output).toContain('Signature:\nThe Support Team');
+    });
+  });
+
   describe('Batch Operations Display', () => {
     it('should show successful batch operation result', () => {
       const result = {
@@ -396,6 +610,13 @@ describe('CLIDisplay', () => {
       expect(output).toContain('Message ID: sent-message-123');
     });
 
+    it('should show the address an email was sent from', () => {
+      CLIDisplay.showSendEmailResult({ id: 'sent-1', from: 'Support <support@example.com>' });
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('From: Support <support@example.com>');
+    });
+
     it('should handle send result without ID', () => {
       const result = {};
 
@@ -407,6 +628,109 @@ describe('CLIDisplay', () => {
     });
   });
 
+  describe('Thread Display', () => {
+    const thread = {
+      id: 'thread-1',
+      subject: 'Project kickoff',
+      messages: [
+        { id: 'msg1', from: 'alice@example.com', date: 'Mon', body: 'Kickoff is Monday', snippet: 'Kickoff is Monday', labelIds: ['INBOX'] },
+        { id: 'msg2', from: 'bob@example.com', date: 'Tue', body: 'Who is presenting?', snippet: 'Who is presenting?', labelIds: ['INBOX'] },
+        { id: 'msg3', from: 'alice@example.com', date: 'Wed', body: 'I am.\nSee you there', snippet: 'I am.', labelIds: ['INBOX'] }
+      ]
+    };
+
+    it('should collapse older messages and expand the latest', () => {
+      CLIDisplay.showThread(thread);
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+
+      expect(output).toContain('Conversation: Project kickoff');
+      expect(output).toContain('3 messages');
+      expect(output).toContain('▸ 1. alice@example.com');
+      expect(output).toContain('▾ 3. alice@example.com');
+      expect(output).toContain('   │ I am.');
+      expect(output).toContain('   │ See you there');
+      expect(output).toContain('2 earlier messages collapsed');
+    });
+
+    it('should expand unread messages', () => {
+      const unreadThread = {
+        ...thread,
+        messages: thread.messages.map((m, i) =>
+          i === 1 ? { ...m, labelIds: ['INBOX', 'UNREAD'] } : m
+        )
+      };
+
+      CLIDisplay.showThread(unreadThread);
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('▾ 2. bob@example.com');
+      expect(output).toContain('   │ Who is presenting?');
+    });
+
+    it('should expand every message when requested', () => {
+      CLIDisplay.showThread(thread, { expandAll: true });
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('   │ Kickoff is Monday');
+      expect(output).not.toContain('collapsed');
+    });
+
+    it('should show thread modification results', () => {
+      CLIDisplay.showThreadModified({ threadId: 'thread-1', trashed: true, messageCount: 3 });
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('Conversation moved to trash');
+      expect(output).toContain('Affected 3 messages in the thread');
+    });
+  });
+
+  describe('Draft Display', () => {
+    it('should list drafts with their IDs', () => {
+      CLIDisplay.showDraftsList({
+        drafts: [
+          { id: 'draft-1', messageId: 'm1', subject: 'Budget', to: 'ann@example.com', snippet: 'Numbers inside' },
+          { id: 'draft-2', messageId: 'm2' }
+        ]
+      });
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('Found 2 drafts');
+      expect(output).toContain('1. Budget');
+      expect(output).toContain('To: ann@example.com');
+      expect(output).toContain('2. (No subject)');
+      expect(output).toContain('To: (no recipients)');
+      expect(output).toContain('Draft ID: draft-2');
+    });
+
+    it('should show a draft with bcc and attachments', () => {
+      CLIDisplay.showDraft({
+        id: 'draft-1',
+        message: {
+          id: 'm1',
+          subject: 'Budget',
+          to: 'ann@example.com',
+          bcc: 'boss@example.com',
+          bodyText: 'Numbers inside',
+          attachments: [{ filename: 'q3.csv', size: 2048, attachmentId: 'a1' }]
+        }
+      });
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('Bcc: boss@example.com');
+      expect(output).toContain('Numbers inside');
+      expect(output).toContain('q3.csv (2.0 KB)');
+    });
+
+    it('should report cancelled sends', () => {
+      CLIDisplay.showDraftSent({ cancelled: true, id: 'draft-1' });
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('Draft not sent');
+      expect(output).not.toContain('sent successfully');
+    });
+  });
+
   describe('Formatting and Visual Elements', () => {
     it('should use appropriate emojis for different operations', () => {
       // Search results
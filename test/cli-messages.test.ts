@@ -77,6 +77,27 @@ describe('CLIMessages', () => {
       );
     });
 
+    it('should name the account when it is not the default', () => {
+      CLIMessages.showGmailConnected('work');
+      CLIMessages.showGmailAuthNeeded('work');
+
+      expect(consoleSpy.log).toHaveBeenCalledWith(
+        expect.stringContaining('Connected to Gmail (work)')
+      );
+      expect(consoleSpy.error).toHaveBeenCalledWith(
+        expect.stringContaining('npm run auth -- --account work')
+      );
+    });
+
+    it('should list accounts and mark the current one', () => {
+      CLIMessages.showAccounts(['personal', 'work'], 'work');
+
+      const output = consoleSpy.log.mock.calls.flat().join('\n');
+      expect(output).toContain('personal');
+      expect(output).toContain('work (current)');
+      expect(output).toContain('switch account <name>');
+    });
+
     it('should show Gmail authentication needed message', () => {
       CLIMessages.showGmailAuthNeeded();
 
@@ -138,6 +159,17 @@ describe('CLIMessages', () => {
       );
     });
 
+    it('should show query corrections', () => {
+      CLIMessages.showQueryCorrected('newer_than:36h', ['"newer_than:1.5d" → "newer_than:36h"']);
+
+      expect(consoleSpy.log).toHaveBeenCalledWith(
+        expect.stringContaining('Corrected query: newer_than:36h')
+      );
+      expect(consoleSpy.log).toHaveBeenCalledWith(
+        expect.stringContaining('"newer_than:1.5d" → "newer_than:36h"')
+      );
+    });
+
     it('should show rate limit information', () => {
       CLIMessages.showRateLimit();
 
@@ -299,6 +331,65 @@ describe('CLIMessages', () => {
     });
   });
 
+  describe('Filter Manager Prompts', () => {
+    it('should offer the filters plus a way out', async () => {
+      const inquirer = await import('inquirer');
+      vi.mocked(inquirer.prompt).mockResolvedValue({ filterId: '' });
+
+      const result = await CLIMessages.chooseFilter([{ name: 'from: ann → apply "Work"', value: 'f1' }]);
+
+      const promptArgs = vi.mocked(inquirer.prompt).mock.calls[0][0] as any;
+      expect(promptArgs[0].choices).toEqual([
+        { name: 'from: ann → apply "Work"', value: 'f1' },
+        { name: 'Done', value: '' }
+      ]);
+      expect(result).toBe('');
+    });
+
+    it('should offer filter candidates with their match counts', async () => {
+      const inquirer = await import('inquirer');
+      const candidate = {
+        criteria: { from: '*@shop.example.com' },
+        description: 'Everything from anyone at shop.example.com',
+        query: 'from:(*@shop.example.com)',
+        matches: 1000,
+        capped: true
+      };
+      vi.mocked(inquirer.prompt).mockResolvedValueOnce({ candidate });
+
+      const result = await CLIMessages.chooseFilterCandidate([candidate]);
+
+      const promptArgs = vi.mocked(inquirer.prompt).mock.calls[0][0] as any;
+      expect(promptArgs[0].choices).toEqual([
+        { name: 'Everything from anyone at shop.example.com (1000+ existing emails)', value: candidate },
+        { name: 'Cancel', value: null }
+      ]);
+      expect(result).toBe(candidate);
+    });
+
+    it('should prefill the edit form with the current filter', async () => {
+      const inquirer = await import('inquirer');
+      const current = {
+        from: 'ann@example.com',
+        to: '',
+        subject: '',
+        query: '',
+        hasAttachment: false,
+        labels: 'Work',
+        skipInbox: true,
+        forward: ''
+      };
+      vi.mocked(inquirer.prompt).mockResolvedValue({ ...current, labels: 'Work, Finance' });
+
+      const result = await CLIMessages.editFilter(current);
+
+      const promptArgs = vi.mocked(inquirer.prompt).mock.calls[0][0] as any;
+      expect(promptArgs.find((q: any) => q.name === 'from').default).toBe('ann@example.com');
+      expect(promptArgs.find((q: any) => q.name === 'skipInbox').default).toBe(true);
+      expect(result.labels).toBe('Work, Finance');
+    });
+  });
+
   describe('Color and Formatting', () => {
     it('should use appropriate colors for different message types', () => {
       // Test error message uses red
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { buildForward, buildReply, forwardSubject, replySubject } from '../src/compose.js';
+import { parseAddressList } from '../src/mime-builder.js';
+
+const original = {
+  id: 'msg-1',
+  threadId: 'thread-1',
+  subject: 'Launch plan',
+  from: 'Ann Lee <ann@example.com>',
+  to: 'me@example.com, "Smith, Bob" <bob@example.com>',
+  cc: 'carol@example.com, ME@example.com',
+  date: 'Mon, 2 Oct 2023 09:00:00 -0700',
+  messageId: '<msg-1@mail.example.com>',
+  references: '<root@mail.example.com>',
+  body: 'Can we ship Friday?\n\nAnn'
+};
+
+describe('Compose', () => {
+  it('should split address lists without breaking quoted names', () => {
+    expect(parseAddressList(original.to)).toEqual(['me@example.com', '"Smith, Bob" <bob@example.com>']);
+    expect(parseAddressList('')).toEqual([]);
+  });
+
+  it('should prefix subjects only once', () => {
+    expect(replySubject('Launch plan')).toBe('Re: Launch plan');
+    expect(replySubject('RE: Launch plan')).toBe('RE: Launch plan');
+    expect(forwardSubject('Launch plan')).toBe('Fwd: Launch plan');
+    expect(forwardSubject('Fw: Launch plan')).toBe('Fw: Launch plan');
+  });
+
+  describe('buildReply', () => {
+    it('should reply to the sender with threading headers and a quoted body', () => {
+      const reply = buildReply(original, { body: 'Yes, Friday works.' }, ['me@example.com']);
+
+      expect(reply.to).toEqual(['Ann Lee <ann@example.com>']);
+      expect(reply.cc).toEqual([]);
+      expect(reply.subject).toBe('Re: Launch plan');
+      expect(reply.inReplyTo).toBe('<msg-1@mail.example.com>');
+      expect(reply.references).toBe('<root@mail.example.com> <msg-1@mail.example.com>');
+      expect(reply.threadId).toBe('thread-1');
+      expect(reply.text).toBe(
+        'Yes, Friday works.\n\nOn Mon, 2 Oct 2023 09:00:00 -0700, Ann Lee <ann@example.com> wrote:\n> Can we ship Friday?\n>\n> Ann'
+      );
+    });
+
+    it('should honor Reply-To', () => {
+      const reply = buildReply(
+        { ...original, replyTo: 'launch-team@example.com' },
+        { body: 'ok' },
+        ['me@example.com']
+      );
+
+      expect(reply.to).toEqual(['launch-team@example.com']);
+    });
+
+    it('should reply to everyone except ourselves on reply-all', () => {
+      const reply = buildReply(original, { body: 'ok', replyAll: true }, ['me@example.com']);
+
+      expect(reply.to).toEqual(['Ann Lee <ann@example.com>']);
+      expect(reply.cc).toEqual(['"Smith, Bob" <bob@example.com>', 'carol@example.com']);
+    });
+
+    it('should reply to the original recipients of a message we sent', () => {
+      const sent = { ...original, from: 'Me <me@example.com>', to: 'ann@example.com', cc: '' };
+      const reply = buildReply(sent, { body: 'Following up' }, ['me@example.com']);
+
+      expect(reply.to).toEqual(['ann@example.com']);
+    });
+
+    it('should fall back to In-Reply-To when there are no References', () => {
+      const reply = buildReply(
+        { ...original, references: undefined, inReplyTo: '<parent@mail.example.com>' },
+        { body: 'ok' }
+      );
+
+      expect(reply.references).toBe('<parent@mail.example.com> <msg-1@mail.example.com>');
+    });
+
+    it('should quote the original HTML when replying with HTML', () => {
+      const reply = buildReply(
+        { ...original, bodyHtml: '<p>Can we ship Friday?</p>' },
+        { body: 'Yes', html: '<p>Yes</p>' }
+      );
+
+      expect(reply.html).toContain('<p>Yes</p><br><div class="gmail_quote">');
+      expect(reply.html).toContain('<blockquote class="gmail_quote"');
+      expect(reply.html).toContain('<p>Can we ship Friday?</p></blockquote>');
+    });
+  });
+
+  describe('buildForward', () => {
+    it('should include a forwarded message block', () => {
+      const forward = buildForward(original, { to: ['dan@example.com'], body: 'FYI' });
+
+      expect(forward.to).toEqual(['dan@example.com']);
+      expect(forward.subject).toBe('Fwd: Launch plan');
+      expect(forward.text).toBe([
+        'FYI',
+        '',
+        '---------- Forwarded message ---------',
+        'From: Ann Lee <ann@example.com>',
+        'Date: Mon, 2 Oct 2023 09:00:00 -0700',
+        'Subject: Launch plan',
+        'To: me@example.com, "Smith, Bob" <bob@example.com>',
+        'Cc: carol@example.com, ME@example.com',
+        '',
+        'Can we ship Friday?\n\nAnn'
+      ].join('\n'));
+      expect(forward.inReplyTo).toBeUndefined();
+    });
+  });
+});
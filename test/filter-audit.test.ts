@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from 'vitest';
+import { applyFilterFixes, auditFilterList } from '../src/filter-audit.js';
+import { mockLabels } from './setup.js';
+
+const verified = [
+  { forwardingEmail: 'me@example.org', verificationStatus: 'accepted' },
+  { forwardingEmail: 'new@example.org', verificationStatus: 'pending' }
+];
+
+const filter = (id: string, criteria: any, action: any) => ({ id, criteria, action });
+const audit = (filters: any[]) => auditFilterList(filters, mockLabels, verified);
+
+describe('Filter Audit', () => {
+  it('should pass filters with nothing wrong', () => {
+    expect(
+      audit([
+        filter('a', { from: 'shop@example.com' }, { addLabelIds: ['Label_1'] }),
+        filter('b', { from: 'boss@example.com' }, { addLabelIds: ['STARRED'], forward: 'me@example.org' })
+      ])
+    ).toEqual({ filters: 2, findings: [], fixes: [] });
+  });
+
+  it('should strip deleted labels, or delete a filter left with nothing to do', () => {
+    const report = audit([
+      filter('a', { from: 'shop@example.com' }, { addLabelIds: ['Label_1', 'Label_9'] }),
+      filter('b', { subject: 'invoice' }, { addLabelIds: ['Label_8'] })
+    ]);
+
+    expect(report.findings.map((f) => f.message)).toEqual([
+      'the filter for "from:(shop@example.com)" uses Label_9, which was deleted. Gmail skips that part of the filter.',
+      'the filter for "subject:(invoice)" uses Label_8, which was deleted. Gmail skips that part of the filter.'
+    ]);
+    expect(report.fixes).toEqual([
+      {
+        type: 'update',
+        filterId: 'a',
+        description: 'Remove the deleted Label_9 from the filter for "from:(shop@example.com)"',
+        criteria: { from: 'shop@example.com' },
+        action: { addLabelIds: ['Label_1'] }
+      },
+      {
+        type: 'delete',
+        filterId: 'b',
+        description: 'Delete the filter for "subject:(invoice)": without the deleted Label_8 it has nothing left to do'
+      }
+    ]);
+  });
+
+  it('should keep the first of several exact copies', () => {
+    const report = audit([
+      filter('a', { from: 'shop@example.com' }, { addLabelIds: ['Label_1'] }),
+      filter('b', { from: 'shop@example.com' }, { addLabelIds: ['Label_1'] })
+    ]);
+
+    expect(report.findings).toEqual([
+      expect.objectContaining({ kind: 'duplicate', filterIds: ['b', 'a'] })
+    ]);
+    expect(report.fixes).toEqual([
+      expect.objectContaining({ type: 'delete', filterId: 'b' })
+    ]);
+  });
+
+  it('should find filters a broader filter already covers', () => {
+    const report = audit([
+      filter('narrow', { from: 'ann@example.com', subject: 'weekly report' }, { addLabelIds: ['Label_2'] }),
+      filter('broad', { from: '*@example.com', subject: 'report' }, { addLabelIds: ['Label_2', 'STARRED'] }),
+      filter('bigger', { query: 'list:dev has:attachment', size: 2000000, sizeComparison: 'larger' }, { removeLabelIds: ['INBOX'] }),
+      filter('big', { query: 'list:dev', size: 1000000, sizeComparison: 'larger' }, { removeLabelIds: ['INBOX'] })
+    ]);
+
+    expect(report.findings.map((f) => [f.kind, ...f.filterIds])).toEqual([
+      ['subsumed', 'narrow', 'broad'],
+      ['subsumed', 'bigger', 'big']
+    ]);
+  });
+
+  it('should not call filters redundant when it is not certain', () => {
+    const report = audit([
+      filter('a', { from: 'ann OR bob' }, { addLabelIds: ['Label_2'] }),
+      filter('b', { from: 'ann' }, { addLabelIds: ['Label_2'] }),
+      filter('c', { from: 'carol@example.com' }, { addLabelIds: ['Label_2'], forward: 'me@example.org' }),
+      filter('d', { from: 'example.com' }, { addLabelIds: ['Label_2'] })
+    ]);
+
+    // "ann OR bob" might be covered by "ann" only in part, and d doesn't forward
+    expect(report.findings).toEqual([]);
+  });
+
+  it('should compare whole addresses and whole domains', () => {
+    const report = audit([
+      filter('bob', { from: 'bob@example.com' }, { addLabelIds: ['Label_2'] }),
+      filter('jimbob', { from: 'jimbob@example.com' }, { addLabelIds: ['Label_2'] }),
+      filter('domain', { to: 'ample.com' }, { addLabelIds: ['Label_2'] }),
+      filter('other', { to: 'ann@example.com' }, { addLabelIds: ['Label_2'] }),
+      filter('sub', { subject: 'report' }, { addLabelIds: ['Label_2'] }),
+      filter('reporting', { subject: 'reporting' }, { addLabelIds: ['Label_2'] })
+    ]);
+
+    expect(report.findings).toEqual([]);
+    expect(report.fixes).toEqual([]);
+  });
+
+  it('should flag a label one filter applies and an overlapping one removes', () => {
+    const report = audit([
+      filter('a', { from: '*@shop.example.com' }, { addLabelIds: ['IMPORTANT'] }),
+      filter('b', { from: 'deals@shop.example.com' }, { removeLabelIds: ['IMPORTANT'] }),
+      filter('c', { from: 'boss@example.com' }, { removeLabelIds: ['IMPORTANT'] })
+    ]);
+
+    expect(report.findings).toEqual([
+      expect.objectContaining({ kind: 'conflict', filterIds: ['a', 'b'] })
+    ]);
+    expect(report.findings[0].message).toContain('applies "IMPORTANT" but the filter for "from:(deals@shop.example.com)" removes it');
+    expect(report.fixes).toEqual([]);
+  });
+
+  it('should flag forwards to addresses that are not verified', () => {
+    const report = audit([
+      filter('a', { from: 'x' }, { forward: 'new@example.org', addLabelIds: ['Label_1'] }),
+      filter('b', { from: 'y' }, { forward: 'stranger@example.org' })
+    ]);
+
+    expect(report.findings.map((f) => f.message)).toEqual([
+      'the filter for "from:(x)" forwards to new@example.org, which has not been verified yet. Gmail won\'t forward anything there.',
+      'the filter for "from:(y)" forwards to stranger@example.org, which is not a forwarding address on this account. Gmail won\'t forward anything there.'
+    ]);
+    expect(report.fixes.map((fix) => [fix.type, fix.filterId])).toEqual([
+      ['update', 'a'],
+      ['delete', 'b']
+    ]);
+    expect(report.fixes[0]).toEqual(expect.objectContaining({ action: { addLabelIds: ['Label_1'] } }));
+  });
+
+  it('should apply fixes and report the ones that fail', async () => {
+    const service: any = {
+      deleteFilter: vi.fn().mockRejectedValue(new Error('Failed to delete filter: not found')),
+      updateFilter: vi.fn().mockResolvedValue({ id: 'new' })
+    };
+    const fixes: any[] = [
+      { type: 'delete', filterId: 'a', description: 'Delete a' },
+      { type: 'update', filterId: 'b', description: 'Change b', criteria: { from: 'x' }, action: { addLabelIds: ['Label_1'] } }
+    ];
+
+    const result = await applyFilterFixes(service, fixes);
+
+    expect(service.updateFilter).toHaveBeenCalledWith('b', { from: 'x' }, { addLabelIds: ['Label_1'] });
+    expect(result.applied).toEqual([fixes[1]]);
+    expect(result.failed).toEqual([{ fix: fixes[0], error: 'Failed to delete filter: not found' }]);
+  });
+});
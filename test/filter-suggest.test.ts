@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+import { filterCandidates, suggestFilters } from '../src/filter-suggest.js';
+
+const shipping = {
+  From: 'Shop <orders@shop.example.com>',
+  To: 'me@example.com',
+  'Delivered-To': 'me@example.com',
+  Subject: 'Re: Your order #10234 has shipped!'
+};
+
+describe('Filter Suggestions', () => {
+  describe('filterCandidates', () => {
+    it('should propose sender, sender and subject, domain and subject criteria', () => {
+      expect(filterCandidates(shipping)).toEqual([
+        {
+          criteria: { from: 'orders@shop.example.com' },
+          description: 'Everything from orders@shop.example.com',
+          query: 'from:(orders@shop.example.com)'
+        },
+        {
+          criteria: { from: 'orders@shop.example.com', subject: 'Your order has shipped' },
+          description: 'Mail from orders@shop.example.com with "Your order has shipped" in the subject',
+          query: 'from:(orders@shop.example.com) subject:(Your order has shipped)'
+        },
+        {
+          criteria: { from: '*@shop.example.com' },
+          description: 'Everything from anyone at shop.example.com',
+          query: 'from:(*@shop.example.com)'
+        },
+        {
+          criteria: { subject: 'Your order has shipped' },
+          description: 'Any email with "Your order has shipped" in the subject',
+          query: 'subject:(Your order has shipped)'
+        }
+      ]);
+    });
+
+    it('should put a mailing list first and pick up recipient aliases', () => {
+      const candidates = filterCandidates({
+        From: 'ann@gmail.com',
+        To: 'me+dev@example.com',
+        'Delivered-To': 'me@example.com',
+        'List-Id': '"Dev list" <dev.lists.example.com>',
+        Subject: '42'
+      });
+
+      expect(candidates.map((c) => c.query)).toEqual([
+        'list:dev.lists.example.com',
+        'from:(ann@gmail.com)',
+        'to:(me+dev@example.com)'
+      ]);
+    });
+
+    it('should treat a lone recipient other than the mailbox as an alias', () => {
+      const candidates = filterCandidates({
+        From: 'boss@corp.example.com',
+        To: 'Team <team@corp.example.com>',
+        'Delivered-To': 'me@corp.example.com'
+      });
+
+      expect(candidates.map((c) => c.criteria)).toContainEqual({ to: 'team@corp.example.com' });
+    });
+  });
+
+  describe('suggestFilters', () => {
+    it('should count matches and rank candidates that only match the example last', async () => {
+      const counts: Record<string, number> = {
+        'from:(orders@shop.example.com)': 1,
+        'from:(orders@shop.example.com) subject:(Your order has shipped)': 1,
+        'from:(*@shop.example.com)': 1000,
+        'subject:(Your order has shipped)': 14
+      };
+      const service: any = {
+        getMessageHeaders: vi.fn().mockResolvedValue(shipping),
+        countMessages: vi.fn(async (query: string) => counts[query])
+      };
+
+      const result = await suggestFilters(service, 'msg-1');
+
+      expect(service.getMessageHeaders).toHaveBeenCalledWith('msg-1', expect.arrayContaining(['List-Id']));
+      expect(result.subject).toBe(shipping.Subject);
+      expect(result.candidates.map((c) => [c.query, c.matches, c.capped])).toEqual([
+        ['from:(*@shop.example.com)', 1000, true],
+        ['subject:(Your order has shipped)', 14, false],
+        ['from:(orders@shop.example.com)', 1, false],
+        ['from:(orders@shop.example.com) subject:(Your order has shipped)', 1, false]
+      ]);
+    });
+
+    it('should fail when the headers give nothing to filter on', async () => {
+      const service: any = { getMessageHeaders: vi.fn().mockResolvedValue({}) };
+
+      await expect(suggestFilters(service, 'msg-2')).rejects.toThrow('has no sender, list or subject');
+    });
+  });
+});
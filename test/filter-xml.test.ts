@@ -0,0 +1,263 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fs from 'fs/promises';
+import {
+  exportFilters,
+  filtersToXml,
+  importFilters,
+  parseFiltersXml
+} from '../src/filter-xml.js';
+import { mockLabels } from './setup.js';
+
+const labels = [...mockLabels, { id: 'Label_3', name: 'Work/Receipts', type: 'user' }];
+const NOW = new Date('2024-03-15T12:00:00Z');
+
+const filters = [
+  {
+    id: 'f1',
+    criteria: { from: 'shop@example.com', negatedQuery: 'newsletter' },
+    action: { addLabelIds: ['Label_1', 'STARRED'], removeLabelIds: ['INBOX', 'UNREAD'] }
+  },
+  {
+    id: 'f2',
+    criteria: { subject: 'Q&A <weekly>', hasAttachment: true, size: 5242880, sizeComparison: 'larger' },
+    action: { addLabelIds: ['CATEGORY_UPDATES'], forward: 'archive@example.com' }
+  }
+];
+
+describe('Filter XML', () => {
+  describe('filtersToXml', () => {
+    it('should write an Atom feed Gmail can import', () => {
+      const { xml, exported } = filtersToXml(filters, labels, { now: NOW });
+
+      expect(exported).toBe(2);
+      expect(xml).toMatch(/^<\?xml version='1\.0' encoding='UTF-8'\?><feed xmlns='http:\/\/www\.w3\.org\/2005\/Atom'/);
+      expect(xml).toContain("<updated>2024-03-15T12:00:00Z</updated>");
+      expect(xml).toContain("<apps:property name='from' value='shop@example.com'/>");
+      expect(xml).toContain("<apps:property name='doesNotHaveTheWord' value='newsletter'/>");
+      expect(xml).toContain("<apps:property name='label' value='Test Label'/>");
+      expect(xml).toContain("<apps:property name='shouldStar' value='true'/>");
+      expect(xml).toContain("<apps:property name='shouldArchive' value='true'/>");
+      expect(xml).toContain("<apps:property name='shouldMarkAsRead' value='true'/>");
+      expect(xml).toContain("<apps:property name='smartLabelToApply' value='^smartlabel_notification'/>");
+      expect(xml).toContain("<apps:property name='forwardTo' value='archive@example.com'/>");
+    });
+
+    it('should escape values and pick the largest whole size unit', () => {
+      const { xml } = filtersToXml([filters[1]], labels, { now: NOW });
+
+      expect(xml).toContain("value='Q&amp;A &lt;weekly&gt;'");
+      expect(xml).toContain("<apps:property name='size' value='5'/>");
+      expect(xml).toContain("<apps:property name='sizeUnit' value='s_smb'/>");
+      expect(xml).toContain("<apps:property name='sizeOperator' value='s_sl'/>");
+    });
+
+    it('should write one entry per label when a filter applies several', () => {
+      const { xml } = filtersToXml(
+        [{ id: 'f3', criteria: { from: 'ann' }, action: { addLabelIds: ['Label_1', 'Label_2'], forward: 'me@example.com' } }],
+        labels,
+        { now: NOW }
+      );
+
+      expect(xml.match(/<entry>/g)).toHaveLength(2);
+      expect(xml.match(/filter:f3<\/id>/g)).toHaveLength(2);
+      // the forward happens once
+      expect(xml.match(/name='forwardTo'/g)).toHaveLength(1);
+      expect(parseFiltersXml(xml)).toEqual([
+        { criteria: { from: 'ann' }, action: { forward: 'me@example.com' }, labels: ['Test Label', 'Work'] }
+      ]);
+    });
+
+    it('should skip filters the format cannot express', () => {
+      const { exported, skipped } = filtersToXml(
+        [
+          { id: 'f4', criteria: { from: 'a' }, action: { addLabelIds: ['Label_9'] } },
+          { id: 'f5', criteria: { from: 'b' }, action: { removeLabelIds: ['Label_1'] } }
+        ],
+        labels
+      );
+
+      expect(exported).toBe(0);
+      expect(skipped).toEqual([
+        { id: 'f4', reason: 'The filter applies label Label_9, which no longer exists' },
+        { id: 'f5', reason: "The filter removes label Label_1, which the file format can't express" }
+      ]);
+    });
+  });
+
+  describe('parseFiltersXml', () => {
+    it('should read back what it writes', () => {
+      const { xml } = filtersToXml(filters, labels, { now: NOW });
+
+      expect(parseFiltersXml(xml)).toEqual([
+        {
+          criteria: { from: 'shop@example.com', negatedQuery: 'newsletter' },
+          action: { addLabelIds: ['STARRED'], removeLabelIds: ['INBOX', 'UNREAD'] },
+          labels: ['Test Label']
+        },
+        {
+          criteria: { subject: 'Q&A <weekly>', hasAttachment: true, size: 5242880, sizeComparison: 'larger' },
+          action: { addLabelIds: ['CATEGORY_UPDATES'], forward: 'archive@example.com' },
+          labels: []
+        }
+      ]);
+    });
+
+    it('should read files exported by Gmail', () => {
+      const xml = `<?xml version='1.0' encoding='UTF-8'?><feed xmlns='http://www.w3.org/2005/Atom' xmlns:apps='http://schemas.google.com/apps/2006'>
+	<title>Mail Filters</title>
+	<entry>
+		<category term='filter'></category>
+		<title>Mail Filter</title>
+		<apps:property name='hasTheWord' value='list:dev.example.com'/>
+		<apps:property name='label' value='Lists/Dev'/>
+		<apps:property name='shouldNeverSpam' value='true'/>
+		<apps:property name='sizeOperator' value='s_sl'/>
+		<apps:property name='sizeUnit' value='s_smb'/>
+	</entry>
+</feed>`;
+
+      expect(parseFiltersXml(xml)).toEqual([
+        {
+          criteria: { query: 'list:dev.example.com' },
+          action: { removeLabelIds: ['SPAM'] },
+          labels: ['Lists/Dev']
+        }
+      ]);
+    });
+
+    it('should reject files that are not filter feeds', () => {
+      expect(() => parseFiltersXml('<html></html>')).toThrow('Not a Gmail filters file');
+    });
+  });
+
+  describe('exportFilters and importFilters', () => {
+    let service: any;
+
+    beforeEach(() => {
+      vi.mocked(fs.writeFile).mockReset().mockResolvedValue(undefined);
+      service = {
+        listFilters: vi.fn().mockResolvedValue([filters[0]]),
+        listLabels: vi.fn().mockResolvedValue(labels),
+        createLabel: vi.fn(async (name: string) => ({ id: `new-${name}`, name })),
+        createFilter: vi.fn(async (criteria: any, action: any) => ({ id: 'created', criteria, action }))
+      };
+    });
+
+    it('should write the export to the given path', async () => {
+      const result = await exportFilters(service, { path: '/tmp/filters.xml' });
+
+      expect(result).toEqual({ path: '/tmp/filters.xml', exported: 1, skipped: [] });
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        '/tmp/filters.xml',
+        expect.stringContaining("value='shop@example.com'"),
+        'utf-8'
+      );
+    });
+
+    it('should write a Sieve script when asked', async () => {
+      const result = await exportFilters(service, { format: 'sieve' });
+
+      expect(result.path).toMatch(/gmail-filters\.sieve$/);
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        result.path,
+        expect.stringContaining('# WARNING: Gmail filter f1. Not exported'),
+        'utf-8'
+      );
+    });
+
+    it('should create missing labels and skip filters that already exist', async () => {
+      const { xml } = filtersToXml(
+        [
+          filters[0],
+          { id: 'x', criteria: { from: 'dev@example.com' }, action: { addLabelIds: ['Label_8'] } }
+        ],
+        [...labels, { id: 'Label_8', name: 'Lists/Dev', type: 'user' }]
+      );
+      vi.mocked(fs.readFile).mockResolvedValue(xml);
+
+      const result = await importFilters(service, { path: '/tmp/filters.xml' });
+
+      expect(result.duplicates).toHaveLength(1);
+      expect(result.createdLabels).toEqual(['Lists', 'Lists/Dev']);
+      expect(service.createFilter).toHaveBeenCalledTimes(1);
+      expect(service.createFilter).toHaveBeenCalledWith(
+        { from: 'dev@example.com' },
+        { addLabelIds: ['new-Lists/Dev'] }
+      );
+      expect(result.created).toHaveLength(1);
+    });
+
+    it('should bring back every label of a filter that applies several', async () => {
+      const multiLabel = {
+        id: 'f3',
+        criteria: { from: 'ann@example.com' },
+        action: { addLabelIds: ['Label_1', 'Label_2', 'STARRED'], removeLabelIds: ['INBOX'] }
+      };
+      const { xml } = filtersToXml([multiLabel], labels);
+      vi.mocked(fs.readFile).mockResolvedValue(xml);
+
+      const result = await importFilters(service, { path: '/tmp/filters.xml' });
+
+      expect(result.created).toHaveLength(1);
+      expect(service.createFilter).toHaveBeenCalledWith(
+        { from: 'ann@example.com' },
+        { addLabelIds: ['STARRED', 'Label_1', 'Label_2'], removeLabelIds: ['INBOX'] }
+      );
+
+      // and an account that already has it has nothing to import
+      service.listFilters.mockResolvedValue([multiLabel]);
+      const again = await importFilters(service, { path: '/tmp/filters.xml' });
+      expect(again.duplicates).toHaveLength(1);
+      expect(again.created).toEqual([]);
+    });
+
+    it('should keep separate filters with the same criteria apart', async () => {
+      const twins = [
+        { id: 't1', criteria: { from: 'ann@example.com' }, action: { addLabelIds: ['Label_1'] } },
+        { id: 't2', criteria: { from: 'ann@example.com' }, action: { addLabelIds: ['Label_2'] } }
+      ];
+      const { xml } = filtersToXml(twins, labels);
+      vi.mocked(fs.readFile).mockResolvedValue(xml);
+      service.listFilters.mockResolvedValue(twins);
+
+      expect(parseFiltersXml(xml).map((d) => d.labels)).toEqual([['Test Label'], ['Work']]);
+      const result = await importFilters(service, { path: '/tmp/filters.xml' });
+      expect(result.duplicates).toHaveLength(2);
+      expect(service.createFilter).not.toHaveBeenCalled();
+    });
+
+    it('should change nothing on a dry run', async () => {
+      const { xml } = filtersToXml(
+        [{ id: 'x', criteria: { from: 'dev@example.com' }, action: { addLabelIds: ['Label_8'] } }],
+        [{ id: 'Label_8', name: 'Travel', type: 'user' }]
+      );
+      vi.mocked(fs.readFile).mockResolvedValue(xml);
+
+      const result = await importFilters(service, { path: '/tmp/filters.xml', dryRun: true });
+
+      expect(result).toEqual(expect.objectContaining({ dryRun: true, createdLabels: ['Travel'] }));
+      expect(result.created).toHaveLength(1);
+      expect(service.createLabel).not.toHaveBeenCalled();
+      expect(service.createFilter).not.toHaveBeenCalled();
+    });
+
+    it('should report filters Gmail rejects and carry on', async () => {
+      const { xml } = filtersToXml(
+        [
+          { id: 'a', criteria: { from: 'a@example.com' }, action: { forward: 'nobody@example.com' } },
+          { id: 'b', criteria: { from: 'b@example.com' }, action: { addLabelIds: ['Label_2'] } }
+        ],
+        labels
+      );
+      vi.mocked(fs.readFile).mockResolvedValue(xml);
+      service.createFilter.mockRejectedValueOnce(new Error('Failed to create filter: forwarding address not verified'));
+
+      const result = await importFilters(service, { path: '/tmp/filters.xml' });
+
+      expect(result.failed).toEqual([
+        expect.objectContaining({ error: 'Failed to create filter: forwarding address not verified' })
+      ]);
+      expect(result.created).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateQuery,
+  filterCriteriaQuery,
+  formatQuery,
+  parseGmailQuery,
+  parseQueryDate,
+  parseRelativeDate,
+  unsupportedOperators
+} from '../src/gmail-query.js';
+import type { EmailContent } from '../src/types.js';
+import { mockLabels } from './setup.js';
+
+const NOW = Date.parse('2024-03-15T12:00:00Z');
+
+const message: EmailContent = {
+  id: 'm1',
+  threadId: 't1',
+  subject: 'Quarterly budget review',
+  from: 'Ann Lee <ann@shop.example.com>',
+  to: 'me@example.com',
+  cc: 'bob@example.com',
+  date: 'Thu, 14 Mar 2024 09:00:00 +0000',
+  body: 'Please send the numbers before Friday.',
+  labelIds: ['INBOX', 'UNREAD', 'Label_2', 'CATEGORY_UPDATES'],
+  attachments: [{ filename: 'Q1-report.pdf', attachmentId: 'a1' }]
+};
+
+const matches = (query: string, target: EmailContent = message) =>
+  evaluateQuery(query, target, { now: NOW, labels: mockLabels, selfAddresses: ['me@example.com'] });
+
+describe('Gmail Query', () => {
+  describe('Parsing', () => {
+    it('should parse operators, text and implicit AND', () => {
+      expect(parseGmailQuery('from:ann budget')).toEqual({
+        type: 'and',
+        children: [
+          { type: 'term', operator: 'from', value: 'ann', quoted: false },
+          { type: 'term', operator: undefined, value: 'budget', quoted: false }
+        ]
+      });
+    });
+
+    it('should bind OR tighter than AND', () => {
+      expect(parseGmailQuery('a b OR c')).toEqual({
+        type: 'and',
+        children: [
+          { type: 'term', operator: undefined, value: 'a', quoted: false },
+          {
+            type: 'or',
+            children: [
+              { type: 'term', operator: undefined, value: 'b', quoted: false },
+              { type: 'term', operator: undefined, value: 'c', quoted: false }
+            ]
+          }
+        ]
+      });
+    });
+
+    it('should parse negation, groups and quoted phrases', () => {
+      expect(parseGmailQuery('-(is:unread subject:"budget review")')).toEqual({
+        type: 'not',
+        child: {
+          type: 'and',
+          children: [
+            { type: 'term', operator: 'is', value: 'unread', quoted: false },
+            { type: 'term', operator: 'subject', value: 'budget review', quoted: true }
+          ]
+        }
+      });
+    });
+
+    it('should apply an operator to every term of its group', () => {
+      expect(parseGmailQuery('from:(ann OR bob)')).toEqual({
+        type: 'or',
+        children: [
+          { type: 'term', operator: 'from', value: 'ann', quoted: false },
+          { type: 'term', operator: 'from', value: 'bob', quoted: false }
+        ]
+      });
+      expect(parseGmailQuery('{a b}')).toEqual(parseGmailQuery('a OR b'));
+    });
+
+    it('should keep unknown prefixes and hyphenated words as text', () => {
+      expect(parseGmailQuery('re:lunch e-mail')).toEqual({
+        type: 'and',
+        children: [
+          { type: 'term', operator: undefined, value: 're:lunch', quoted: false },
+          { type: 'term', operator: undefined, value: 'e-mail', quoted: false }
+        ]
+      });
+    });
+
+    it('should reject malformed queries', () => {
+      expect(() => parseGmailQuery('(from:ann')).toThrow('Missing ")"');
+      expect(() => parseGmailQuery('from:ann)')).toThrow('Unmatched ")"');
+      expect(() => parseGmailQuery('subject:"budget')).toThrow('Unterminated quote');
+      expect(() => parseGmailQuery('a OR')).toThrow('Dangling OR');
+      expect(() => parseGmailQuery('from: ann')).toThrow('Missing value for "from:"');
+      expect(() => parseGmailQuery('newer_than:1.5d')).toThrow('Invalid value "1.5d"');
+      expect(() => parseGmailQuery('after:2024/13/01')).toThrow('Invalid date');
+    });
+
+    it('should format an AST back into an equivalent query', () => {
+      for (const query of [
+        'from:ann budget',
+        'a b OR c',
+        '-(is:unread subject:"budget review")',
+        '(a b) OR c',
+        'label:"Work/Job Boards" -in:trash'
+      ]) {
+        expect(parseGmailQuery(formatQuery(parseGmailQuery(query)))).toEqual(parseGmailQuery(query));
+      }
+      expect(formatQuery(parseGmailQuery('from:(ann OR bob)'))).toBe('from:ann OR from:bob');
+    });
+  });
+
+  describe('Filter criteria', () => {
+    it('should write the search a filter runs', () => {
+      expect(
+        filterCriteriaQuery({
+          from: 'ann OR bob',
+          subject: 'weekly report',
+          negatedQuery: 'draft',
+          size: 1048576,
+          sizeComparison: 'smaller'
+        })
+      ).toBe('from:(ann OR bob) subject:(weekly report) -(draft) smaller:1048576');
+      expect(filterCriteriaQuery({ to: 'me', query: 'a OR b' })).toBe('to:(me) (a OR b)');
+      expect(filterCriteriaQuery({ query: 'list:dev.example.com' })).toBe('list:dev.example.com');
+      expect(filterCriteriaQuery({})).toBe('');
+    });
+  });
+
+  describe('Dates', () => {
+    it('should parse the date formats Gmail accepts', () => {
+      expect(parseQueryDate('2024/01/31')).toBe(new Date(2024, 0, 31).getTime());
+      expect(parseQueryDate('2024-01-31')).toBe(new Date(2024, 0, 31).getTime());
+      expect(parseQueryDate('01/31/2024')).toBe(new Date(2024, 0, 31).getTime());
+      expect(parseQueryDate('1706659200')).toBe(1706659200_000);
+      expect(parseQueryDate('2024/02/30')).toBeUndefined();
+    });
+
+    it('should resolve relative dates against now', () => {
+      expect(parseRelativeDate('2h', NOW)).toBe(NOW - 2 * 3600_000);
+      expect(parseRelativeDate('3d', NOW)).toBe(NOW - 3 * 86400_000);
+      expect(parseRelativeDate('1y', NOW)).toBe(Date.parse('2023-03-15T12:00:00Z'));
+      expect(parseRelativeDate('soon', NOW)).toBeUndefined();
+    });
+  });
+
+  describe('Evaluation', () => {
+    it('should match address operators by word or full address', () => {
+      expect(matches('from:ann')).toBe(true);
+      expect(matches('from:shop.example.com')).toBe(true);
+      expect(matches('from:ann@shop.example.com')).toBe(true);
+      expect(matches('from:bob')).toBe(false);
+      expect(matches('cc:bob')).toBe(true);
+      expect(matches('to:me')).toBe(true);
+    });
+
+    it('should match free text and phrases across fields', () => {
+      expect(matches('budget')).toBe(true);
+      expect(matches('numbers friday')).toBe(true);
+      expect(matches('"budget review"')).toBe(true);
+      expect(matches('"review budget"')).toBe(false);
+      expect(matches('report')).toBe(true);
+    });
+
+    it('should match labels by name, path variant or id', () => {
+      expect(matches('label:work')).toBe(true);
+      expect(matches('label:Label_2')).toBe(true);
+      expect(matches('label:"Test Label"')).toBe(false);
+      expect(matches('label:work-job-boards', { ...message, labelIds: ['Label_9'] })).toBe(false);
+      expect(
+        evaluateQuery('label:work-job-boards', { ...message, labelIds: ['Label_9'] }, {
+          labels: [{ id: 'Label_9', name: 'Work/Job Boards' }]
+        })
+      ).toBe(true);
+    });
+
+    it('should match is:, in:, has:, category: and filename:', () => {
+      expect(matches('is:unread in:inbox has:attachment')).toBe(true);
+      expect(matches('is:read')).toBe(false);
+      expect(matches('in:anywhere')).toBe(true);
+      expect(matches('category:updates')).toBe(true);
+      expect(matches('filename:pdf')).toBe(true);
+      expect(matches('filename:report')).toBe(true);
+      expect(matches('filename:docx')).toBe(false);
+      expect(matches('has:userlabels')).toBe(true);
+    });
+
+    it('should match absolute and relative dates', () => {
+      expect(matches('after:2024/03/01 before:2024/03/15')).toBe(true);
+      expect(matches('before:2024/03/01')).toBe(false);
+      expect(matches('newer_than:2d')).toBe(true);
+      expect(matches('newer_than:1d')).toBe(false);
+      expect(matches('older_than:1d')).toBe(true);
+    });
+
+    it('should combine OR, AND, negation and groups', () => {
+      expect(matches('from:bob OR from:ann')).toBe(true);
+      expect(matches('budget -is:unread')).toBe(false);
+      expect(matches('-(from:bob OR is:starred) budget')).toBe(true);
+      expect(matches('{from:bob subject:budget} is:unread')).toBe(true);
+      expect(matches('')).toBe(true);
+    });
+
+    it('should refuse operators it cannot answer locally', () => {
+      expect(unsupportedOperators(parseGmailQuery('larger:10M from:ann OR list:dev'))).toEqual([
+        'larger',
+        'list'
+      ]);
+      expect(() => matches('larger:10M')).toThrow("can't be evaluated locally");
+      expect(() => matches('has:drive')).toThrow("can't be evaluated locally");
+    });
+  });
+});
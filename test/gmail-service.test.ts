@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { GmailService } from '../src/gmail-service.js';
+import { GmailAccounts, GmailService } from '../src/gmail-service.js';
 import { mockLabels } from './setup.js';
 
 // Mock the auth module first
@@ -15,6 +15,7 @@ describe('GmailService', () => {
     // Create a properly typed mock for Gmail API
     mockGmailAPI = {
       users: {
+        getProfile: vi.fn(),
         messages: {
           list: vi.fn(),
           get: vi.fn(),
@@ -22,17 +23,50 @@ describe('GmailService', () => {
           batchModify: vi.fn(),
           batchDelete: vi.fn(),
           send: vi.fn(),
+          trash: vi.fn(),
+          attachments: {
+            get: vi.fn()
+          }
+        },
+        drafts: {
+          create: vi.fn(),
+          list: vi.fn(),
+          get: vi.fn(),
+          update: vi.fn(),
+          send: vi.fn(),
+          delete: vi.fn()
+        },
+        threads: {
+          list: vi.fn(),
+          get: vi.fn(),
+          modify: vi.fn(),
           trash: vi.fn()
         },
         labels: {
           list: vi.fn(),
-          create: vi.fn()
+          get: vi.fn(),
+          create: vi.fn(),
+          patch: vi.fn(),
+          update: vi.fn(),
+          delete: vi.fn()
         },
         settings: {
           filters: {
             list: vi.fn(),
-            create: vi.fn()
-          }
+            get: vi.fn(),
+            create: vi.fn(),
+            delete: vi.fn()
+          },
+          forwardingAddresses: {
+            list: vi.fn()
+          },
+          sendAs: {
+            list: vi.fn(),
+            get: vi.fn(),
+            patch: vi.fn()
+          },
+          getVacation: vi.fn(),
+          updateVacation: vi.fn()
         }
       }
     };
@@ -45,6 +79,7 @@ describe('GmailService', () => {
     mockGmailAPI.users.messages.batchDelete.mockResolvedValue({ data: {} });
     mockGmailAPI.users.messages.send.mockResolvedValue({ data: { id: 'test', labelIds: ['SENT'] } });
     mockGmailAPI.users.messages.trash.mockResolvedValue({ data: {} });
+    mockGmailAPI.users.getProfile.mockResolvedValue({ data: { emailAddress: 'me@example.com' } });
     mockGmailAPI.users.labels.list.mockResolvedValue({ data: { labels: [] } });
     mockGmailAPI.users.labels.create.mockResolvedValue({ data: { id: 'test', name: 'test' } });
     mockGmailAPI.users.settings.filters.list.mockResolvedValue({ data: { filter: [] } });
@@ -173,6 +208,60 @@ describe('GmailService', () => {
         maxResults: 5
       });
     });
+    it('should pass pageToken and return nextPageToken', async () => {
+      mockGmailAPI.users.messages.list.mockResolvedValue({
+        data: {
+          messages: [{ id: 'page-2-msg', threadId: 'page-2-thread' }],
+          nextPageToken: 'token-3',
+          resultSizeEstimate: 25
+        }
+      });
+
+      mockGmailAPI.users.messages.get.mockResolvedValue({
+        data: { id: 'page-2-msg', payload: { headers: [] } }
+      });
+
+      const result = await gmailService.searchEmails('in:inbox', 1, 'token-2');
+
+      expect(mockGmailAPI.users.messages.list).toHaveBeenCalledWith({
+        userId: 'me',
+        q: 'in:inbox',
+        maxResults: 1,
+        pageToken: 'token-2'
+      });
+      expect(result.nextPageToken).toBe('token-3');
+    });
+
+    it('should iterate over every page of results', async () => {
+      mockGmailAPI.users.messages.list
+        .mockResolvedValueOnce({
+          data: {
+            messages: [{ id: 'msg1' }, { id: 'msg2' }],
+            nextPageToken: 'page-2'
+          }
+        })
+        .mockResolvedValueOnce({
+          data: { messages: [{ id: 'msg3' }] }
+        });
+
+      mockGmailAPI.users.messages.get.mockImplementation(async ({ id }: any) => ({
+        data: { id, payload: { headers: [] } }
+      }));
+
+      const ids: string[] = [];
+      for await (const message of gmailService.iterateEmails('label:audit', 2)) {
+        ids.push(message.id!);
+      }
+
+      expect(ids).toEqual(['msg1', 'msg2', 'msg3']);
+      expect(mockGmailAPI.users.messages.list).toHaveBeenCalledTimes(2);
+      expect(mockGmailAPI.users.messages.list).toHaveBeenLastCalledWith({
+        userId: 'me',
+        q: 'label:audit',
+        maxResults: 2,
+        pageToken: 'page-2'
+      });
+    });
   });
 
   describe('Email Reading', () => {
@@ -244,6 +333,51 @@ describe('GmailService', () => {
       const result = await gmailService.readEmail('test-message-1');
 
       expect(result.body).toBe('Plain text part');
+      expect(result.bodyText).toBe('Plain text part');
+      expect(result.bodyHtml).toBe('<p>HTML part</p>');
+    });
+
+    it('should render HTML-only emails and expose both bodies', async () => {
+      const html = '<h1>Receipt</h1><p>Total: <a href="https://shop.example.com/order/1">$5</a></p>';
+      mockGmailAPI.users.messages.get.mockResolvedValue({
+        data: {
+          id: 'html-message',
+          snippet: 'Receipt Total',
+          payload: {
+            mimeType: 'multipart/alternative',
+            headers: [{ name: 'Subject', value: 'Your receipt' }],
+            parts: [
+              {
+                mimeType: 'text/html',
+                body: { data: Buffer.from(html).toString('base64') }
+              }
+            ]
+          }
+        }
+      });
+
+      const result = await gmailService.readEmail('html-message');
+
+      expect(result.bodyHtml).toBe(html);
+      expect(result.bodyText).toBeUndefined();
+      expect(result.body).toBe('# Receipt\n\nTotal: $5 [1]\n\nLinks:\n[1] https://shop.example.com/order/1');
+    });
+
+    it('should fetch and decode attachment bytes', async () => {
+      const bytes = Buffer.from([0xff, 0xfe, 0x00, 0x01]);
+      mockGmailAPI.users.messages.attachments.get.mockResolvedValue({
+        data: { data: bytes.toString('base64url'), size: 4 }
+      });
+
+      const result = await gmailService.getAttachment('msg-1', 'att-1');
+
+      expect(mockGmailAPI.users.messages.attachments.get).toHaveBeenCalledWith({
+        userId: 'me',
+        messageId: 'msg-1',
+        id: 'att-1'
+      });
+      expect(result.size).toBe(4);
+      expect(result.data.equals(bytes)).toBe(true);
     });
 
     it('should handle read email errors', async () => {
@@ -255,6 +389,114 @@ describe('GmailService', () => {
     });
   });
 
+  describe('Thread Operations', () => {
+    const threadMessage = (id: string, body: string, labelIds: string[] = ['INBOX']) => ({
+      id,
+      threadId: 'thread-1',
+      labelIds,
+      snippet: body,
+      payload: {
+        headers: [
+          { name: 'Subject', value: 'Project kickoff' },
+          { name: 'From', value: `${id}@example.com` },
+          { name: 'Date', value: 'Wed, 13 Sep 2023 10:00:00 -0700' }
+        ],
+        body: { data: Buffer.from(body).toString('base64') }
+      }
+    });
+
+    it('should get a thread with every message decoded', async () => {
+      mockGmailAPI.users.threads.get.mockResolvedValue({
+        data: {
+          id: 'thread-1',
+          historyId: '1234',
+          messages: [
+            threadMessage('msg1', 'Kickoff is Monday'),
+            threadMessage('msg2', 'Sounds good', ['INBOX', 'UNREAD'])
+          ]
+        }
+      });
+
+      const thread = await gmailService.getThread('thread-1');
+
+      expect(mockGmailAPI.users.threads.get).toHaveBeenCalledWith({
+        userId: 'me',
+        id: 'thread-1',
+        format: 'full'
+      });
+      expect(thread.subject).toBe('Project kickoff');
+      expect(thread.messages).toHaveLength(2);
+      expect(thread.messages[0]).toMatchObject({ id: 'msg1', body: 'Kickoff is Monday' });
+      expect(thread.messages[1]).toMatchObject({ id: 'msg2', from: 'msg2@example.com' });
+    });
+
+    it('should list threads with a summary of each', async () => {
+      mockGmailAPI.users.threads.list.mockResolvedValue({
+        data: {
+          threads: [{ id: 'thread-1', snippet: 'Sounds good' }],
+          nextPageToken: 'next-threads'
+        }
+      });
+      mockGmailAPI.users.threads.get.mockResolvedValue({
+        data: {
+          id: 'thread-1',
+          messages: [
+            threadMessage('msg1', 'Kickoff is Monday'),
+            threadMessage('msg2', 'Sounds good', ['INBOX', 'UNREAD'])
+          ]
+        }
+      });
+
+      const result = await gmailService.listThreads('subject:kickoff');
+
+      expect(result.threads[0]).toMatchObject({
+        id: 'thread-1',
+        subject: 'Project kickoff',
+        from: 'msg1@example.com',
+        messageCount: 2,
+        labelIds: ['INBOX', 'UNREAD']
+      });
+      expect(result.nextPageToken).toBe('next-threads');
+    });
+
+    it('should modify labels on a whole thread', async () => {
+      mockGmailAPI.users.threads.modify.mockResolvedValue({
+        data: { id: 'thread-1', messages: [{ id: 'msg1' }, { id: 'msg2' }] }
+      });
+
+      const result = await gmailService.modifyThreadLabels('thread-1', [], ['INBOX']);
+
+      expect(mockGmailAPI.users.threads.modify).toHaveBeenCalledWith({
+        userId: 'me',
+        id: 'thread-1',
+        requestBody: { addLabelIds: [], removeLabelIds: ['INBOX'] }
+      });
+      expect(result.messageCount).toBe(2);
+    });
+
+    it('should trash a thread', async () => {
+      mockGmailAPI.users.threads.trash.mockResolvedValue({
+        data: { id: 'thread-1', messages: [{ id: 'msg1' }] }
+      });
+
+      const result = await gmailService.trashThread('thread-1');
+
+      expect(mockGmailAPI.users.threads.trash).toHaveBeenCalledWith({
+        userId: 'me',
+        id: 'thread-1'
+      });
+      expect(result.trashed).toBe(true);
+    });
+
+    it('should handle thread errors', async () => {
+      mockGmailAPI.users.threads.get.mockRejectedValue(new Error('Not found'));
+
+      await expect(gmailService.getThread('missing'))
+        .rejects
+        .toThrow('Failed to get thread');
+    });
+  });
+
   describe('Label Management', () => {
     it('should list labels successfully', async () => {
       mockGmailAPI.users.labels.list.mockResolvedValue({
@@ -326,6 +568,263 @@ describe('GmailService', () => {
         .toThrow('Failed to create label');
     });
 
+    it('should create labels with color and visibility', async () => {
+      mockGmailAPI.users.labels.create.mockResolvedValue({ data: { id: 'Label_9', name: 'Travel' } });
+
+      await gmailService.createLabel('Travel', {
+        color: { textColor: '#ffffff', backgroundColor: '#16a765' },
+        labelListVisibility: 'labelShowIfUnread'
+      });
+
+      expect(mockGmailAPI.users.labels.create).toHaveBeenCalledWith({
+        userId: 'me',
+        requestBody: {
+          name: 'Travel',
+          color: { textColor: '#ffffff', backgroundColor: '#16a765' },
+          labelListVisibility: 'labelShowIfUnread',
+          messageListVisibility: 'show'
+        }
+      });
+    });
+
+    describe('Changing labels', () => {
+      const labels = [
+        ...mockLabels,
+        { id: 'Label_3', name: 'Work/Shopify', type: 'user' },
+        { id: 'Label_4', name: 'Work/Shopify/Orders', type: 'user' },
+        { id: 'Label_5', name: 'Workshop', type: 'user' }
+      ];
+
+      beforeEach(() => {
+        mockGmailAPI.users.labels.list.mockResolvedValue({ data: { labels } });
+        mockGmailAPI.users.labels.patch.mockImplementation(({ id, requestBody }: any) =>
+          Promise.resolve({ data: { ...labels.find((l) => l.id === id), ...requestBody } })
+        );
+        mockGmailAPI.users.labels.update.mockImplementation(({ id, requestBody }: any) =>
+          Promise.resolve({ data: { ...labels.find((l) => l.id === id), ...requestBody } })
+        );
+        mockGmailAPI.users.labels.get.mockImplementation(({ id }: any) =>
+          Promise.resolve({ data: { id, messagesTotal: { Label_2: 12, Label_3: 5, Label_4: 2 }[id as string] } })
+        );
+        mockGmailAPI.users.labels.create.mockImplementation(({ requestBody }: any) =>
+          Promise.resolve({ data: { id: 'Label_new', ...requestBody } })
+        );
+      });
+
+      it('should patch only the given settings', async () => {
+        const result = await gmailService.patchLabel('Label_5', { labelListVisibility: 'labelHide' });
+
+        expect(mockGmailAPI.users.labels.patch).toHaveBeenCalledTimes(1);
+        expect(mockGmailAPI.users.labels.patch).toHaveBeenCalledWith({
+          userId: 'me',
+          id: 'Label_5',
+          requestBody: { id: 'Label_5', labelListVisibility: 'labelHide' }
+        });
+        expect(result.renamed).toEqual([]);
+      });
+
+      it('should move sub-labels when renaming a parent', async () => {
+        const result = await gmailService.patchLabel('Label_2', { name: 'Office' });
+
+        expect(result.renamed).toEqual([
+          { id: 'Label_2', from: 'Work', to: 'Office' },
+          { id: 'Label_3', from: 'Work/Shopify', to: 'Office/Shopify' },
+          { id: 'Label_4', from: 'Work/Shopify/Orders', to: 'Office/Shopify/Orders' }
+        ]);
+        expect(mockGmailAPI.users.labels.patch).toHaveBeenCalledWith({
+          userId: 'me',
+          id: 'Label_4',
+          requestBody: { name: 'Office/Shopify/Orders' }
+        });
+        // "Workshop" only shares a prefix
+        expect(mockGmailAPI.users.labels.patch).not.toHaveBeenCalledWith(
+          expect.objectContaining({ id: 'Label_5' })
+        );
+      });
+
+      it('should create missing parents when nesting a label', async () => {
+        await gmailService.patchLabel('Label_5', { name: 'Hobbies/Workshop' });
+
+        expect(mockGmailAPI.users.labels.create).toHaveBeenCalledWith(
+          expect.objectContaining({ requestBody: expect.objectContaining({ name: 'Hobbies' }) })
+        );
+      });
+
+      it('should refuse renames onto an existing label', async () => {
+        await expect(gmailService.patchLabel('Label_5', { name: 'work/shopify' }))
+          .rejects
+          .toThrow('A label named Work/Shopify already exists');
+        await expect(gmailService.patchLabel('Label_2', { name: 'Work/Inner' }))
+          .rejects
+          .toThrow("Can't move Work inside itself");
+        await expect(gmailService.patchLabel('INBOX', { name: 'Mail' }))
+          .rejects
+          .toThrow("System label INBOX can't be renamed");
+        expect(mockGmailAPI.users.labels.patch).not.toHaveBeenCalled();
+      });
+
+      it('should reset unspecified settings on a full update', async () => {
+        await gmailService.updateLabel('Label_5', { name: 'Workshop' });
+
+        expect(mockGmailAPI.users.labels.update).toHaveBeenCalledWith({
+          userId: 'me',
+          id: 'Label_5',
+          requestBody: {
+            id: 'Label_5',
+            name: 'Workshop',
+            labelListVisibility: 'labelShow',
+            messageListVisibility: 'show'
+          }
+        });
+      });
+
+      it('should count messages under a label and its sub-labels', async () => {
+        const impact = await gmailService.getLabelImpact('Label_2');
+
+        expect(impact.label.name).toBe('Work');
+        expect(impact.messages).toBe(12);
+        expect(impact.sublabels.map((l) => [l.name, l.messages])).toEqual([
+          ['Work/Shopify', 5],
+          ['Work/Shopify/Orders', 2]
+        ]);
+      });
+
+      it('should delete a label', async () => {
+        mockGmailAPI.users.labels.delete.mockResolvedValue({ data: {} });
+
+        const result = await gmailService.deleteLabel('Label_5');
+
+        expect(mockGmailAPI.users.labels.delete).toHaveBeenCalledWith({ userId: 'me', id: 'Label_5' });
+        expect(result).toEqual({ id: 'Label_5', deleted: true, success: true });
+      });
+    });
+
+    describe('Merging labels', () => {
+      const labels = [
+        ...mockLabels,
+        { id: 'Label_3', name: 'Receipts', type: 'user' },
+        { id: 'Label_4', name: 'Finance', type: 'user' }
+      ];
+      const filters = [
+        { id: 'f1', criteria: { from: 'shop@example.com' }, action: { addLabelIds: ['Label_1'] } },
+        { id: 'f2', criteria: { from: 'bank@example.com' }, action: { addLabelIds: ['Label_3', 'Label_4'] } },
+        { id: 'f3', criteria: { from: 'news@example.com' }, action: { removeLabelIds: ['INBOX'] } }
+      ];
+
+      beforeEach(() => {
+        mockGmailAPI.users.labels.list.mockResolvedValue({ data: { labels } });
+        mockGmailAPI.users.messages.list.mockImplementation(({ labelIds }: any) =>
+          Promise.resolve({
+            data: {
+              messages: labelIds[0] === 'Label_1'
+                ? [{ id: 'm1' }, { id: 'm2' }]
+                : [{ id: 'm2' }, { id: 'm3' }]
+            }
+          })
+        );
+        mockGmailAPI.users.messages.batchModify.mockResolvedValue({ data: {} });
+        mockGmailAPI.users.settings.filters.list.mockResolvedValue({ data: { filter: filters } });
+        mockGmailAPI.users.settings.filters.create.mockResolvedValue({ data: { id: 'f-new' } });
+        mockGmailAPI.users.settings.filters.delete.mockResolvedValue({ data: {} });
+        mockGmailAPI.users.labels.delete.mockResolvedValue({ data: {} });
+      });
+
+      it('should count messages and filters without changing anything on a dry run', async () => {
+        const result = await gmailService.mergeLabels(['Label_1', 'Label_3'], 'Label_4', { dryRun: true });
+
+        expect(result).toEqual(expect.objectContaining({
+          dryRun: true,
+          messages: 3,
+          filters: 2,
+          moved: 0
+        }));
+        expect(result.sources.map((l) => l.name)).toEqual(['Test Label', 'Receipts']);
+        expect(result.target.name).toBe('Finance');
+        expect(mockGmailAPI.users.messages.batchModify).not.toHaveBeenCalled();
+        expect(mockGmailAPI.users.settings.filters.create).not.toHaveBeenCalled();
+        expect(mockGmailAPI.users.settings.filters.delete).not.toHaveBeenCalled();
+      });
+
+      it('should move messages, rewrite filters and delete the sources', async () => {
+        const result = await gmailService.mergeLabels(['Label_1', 'Label_3'], 'Label_4', {
+          deleteSources: true
+        });
+
+        expect(mockGmailAPI.users.messages.batchModify).toHaveBeenCalledWith({
+          userId: 'me',
+          requestBody: {
+            ids: ['m1', 'm2', 'm3'],
+            addLabelIds: ['Label_4'],
+            removeLabelIds: ['Label_1', 'Label_3']
+          }
+        });
+        expect(mockGmailAPI.users.settings.filters.create).toHaveBeenCalledWith({
+          userId: 'me',
+          requestBody: {
+            criteria: { from: 'shop@example.com' },
+            action: { addLabelIds: ['Label_4'], removeLabelIds: undefined }
+          }
+        });
+        // the rewritten filter is created before the old one goes away
+        expect(mockGmailAPI.users.settings.filters.create.mock.invocationCallOrder[0])
+          .toBeLessThan(mockGmailAPI.users.settings.filters.delete.mock.invocationCallOrder[0]);
+        expect(mockGmailAPI.users.settings.filters.delete).toHaveBeenCalledWith({ userId: 'me', id: 'f1' });
+        expect(mockGmailAPI.users.settings.filters.delete).toHaveBeenCalledWith({ userId: 'me', id: 'f2' });
+        expect(mockGmailAPI.users.settings.filters.delete).not.toHaveBeenCalledWith({ userId: 'me', id: 'f3' });
+        expect(mockGmailAPI.users.labels.delete).toHaveBeenCalledTimes(2);
+        // spam and trash lose the source label too, so they get the target
+        expect(mockGmailAPI.users.messages.list).toHaveBeenCalledWith(
+          expect.objectContaining({ labelIds: ['Label_1'], includeSpamTrash: true })
+        );
+        // messages move before any filter changes
+        expect(mockGmailAPI.users.messages.batchModify.mock.invocationCallOrder[0])
+          .toBeLessThan(mockGmailAPI.users.settings.filters.create.mock.invocationCallOrder[0]);
+        expect(result).toEqual(expect.objectContaining({
+          moved: 3,
+          failed: 0,
+          filtersRewritten: 2,
+          deletedSources: ['Label_1', 'Label_3']
+        }));
+      });
+
+      it('should keep the sources when some messages could not be moved', async () => {
+        mockGmailAPI.users.messages.batchModify.mockRejectedValue(
+          Object.assign(new Error('Invalid request'), { code: 400 })
+        );
+
+        const result = await gmailService.mergeLabels(['Label_3'], 'Label_4', { deleteSources: true });
+
+        expect(result.failed).toBe(2);
+        expect(result.deletedSources).toEqual([]);
+        expect(mockGmailAPI.users.labels.delete).not.toHaveBeenCalled();
+      });
+
+      it('should say which steps finished when one fails', async () => {
+        mockGmailAPI.users.settings.filters.create
+          .mockResolvedValueOnce({ data: { id: 'f-new' } })
+          .mockRejectedValueOnce(Object.assign(new Error('Too many filters'), { code: 400 }));
+
+        await expect(
+          gmailService.mergeLabels(['Label_1', 'Label_3'], 'Label_4', { deleteSources: true })
+        ).rejects.toThrow(
+          'Too many filters. Completed before the failure: moved 3 messages to Finance, rewrote filter f1'
+        );
+        expect(mockGmailAPI.users.labels.delete).not.toHaveBeenCalled();
+      });
+
+      it('should refuse system labels and merging a label into itself', async () => {
+        await expect(gmailService.mergeLabels(['INBOX'], 'Label_4'))
+          .rejects
+          .toThrow("System label INBOX can't be merged");
+        await expect(gmailService.mergeLabels(['Label_4'], 'Label_4'))
+          .rejects
+          .toThrow("Can't merge Finance into itself");
+        await expect(gmailService.mergeLabels(['Label_9'], 'Label_4'))
+          .rejects
+          .toThrow('Label Label_9 not found');
+      });
+    });
+
     it('should modify email labels successfully', async () => {
       mockGmailAPI.users.messages.modify.mockResolvedValue({
         data: {
@@ -424,6 +923,37 @@ describe('GmailService', () => {
       expect(rawEmail).toContain('cc@example.com');
     });
 
+    it('should attach local files as base64 MIME parts', async () => {
+      const fs = await import('fs/promises');
+      vi.mocked(fs.readFile).mockResolvedValue(Buffer.from('%PDF-1.4') as any);
+
+      await gmailService.sendEmail(
+        ['to@example.com'],
+        'Résumé attached',
+        'Please find it attached',
+        { attachments: ['/tmp/resume.pdf'], html: '<p>Please find it attached</p>' }
+      );
+
+      expect(fs.readFile).toHaveBeenCalledWith('/tmp/resume.pdf');
+
+      const callArgs = mockGmailAPI.users.messages.send.mock.calls[0][0];
+      const rawEmail = Buffer.from(callArgs.requestBody.raw, 'base64url').toString();
+      expect(rawEmail).toContain('Subject: =?UTF-8?B?');
+      expect(rawEmail).toContain('multipart/mixed');
+      expect(rawEmail).toContain('Content-Disposition: attachment; filename="resume.pdf"');
+      expect(rawEmail).toContain(Buffer.from('%PDF-1.4').toString('base64'));
+    });
+
+    it('should fail clearly when an attachment cannot be read', async () => {
+      const fs = await import('fs/promises');
+      vi.mocked(fs.readFile).mockRejectedValue(new Error('ENOENT: no such file'));
+
+      await expect(
+        gmailService.sendEmail(['to@example.com'], 'Subject', 'Body', { attachments: ['missing.pdf'] })
+      ).rejects.toThrow('Cannot read attachment missing.pdf');
+      expect(mockGmailAPI.users.messages.send).not.toHaveBeenCalled();
+    });
+
     it('should handle email sending errors', async () => {
       mockGmailAPI.users.messages.send.mockRejectedValue(new Error('Send failed'));
 
@@ -433,6 +963,326 @@ describe('GmailService', () => {
     });
   });
 
+  describe('Replying and Forwarding', () => {
+    const original = {
+      data: {
+        id: 'orig-1',
+        threadId: 'thread-9',
+        payload: {
+          headers: [
+            { name: 'Subject', value: 'Budget' },
+            { name: 'From', value: 'Ann <ann@example.com>' },
+            { name: 'To', value: 'me@example.com, bob@example.com' },
+            { name: 'Date', value: 'Mon, 2 Oct 2023 09:00:00 -0700' },
+            { name: 'Message-Id', value: '<orig-1@mail.example.com>' }
+          ],
+          parts: [
+            { mimeType: 'text/plain', body: { data: Buffer.from('Numbers attached').toString('base64') } },
+            { mimeType: 'application/pdf', filename: 'budget.pdf', body: { attachmentId: 'att-1', size: 3 } }
+          ]
+        }
+      }
+    };
+
+    const sentRaw = () =>
+      Buffer.from(mockGmailAPI.users.messages.send.mock.calls[0][0].requestBody.raw, 'base64url').toString();
+
+    beforeEach(() => {
+      mockGmailAPI.users.messages.get.mockResolvedValue(original);
+      mockGmailAPI.users.messages.attachments.get.mockResolvedValue({
+        data: { data: Buffer.from('PDF').toString('base64url'), size: 3 }
+      });
+    });
+
+    it('should reply in the same thread with threading headers', async () => {
+      const result = await gmailService.replyToEmail('orig-1', 'Looks good');
+
+      const callArgs = mockGmailAPI.users.messages.send.mock.calls[0][0];
+      expect(callArgs.requestBody.threadId).toBe('thread-9');
+
+      const raw = sentRaw();
+      expect(raw).toContain('To: Ann <ann@example.com>\r\n');
+      expect(raw).toContain('Subject: Re: Budget\r\n');
+      expect(raw).toContain('In-Reply-To: <orig-1@mail.example.com>\r\n');
+      expect(raw).toContain('References: <orig-1@mail.example.com>\r\n');
+      expect(raw).toContain('> Numbers attached');
+      expect(result.to).toEqual(['Ann <ann@example.com>']);
+    });
+
+    it('should copy other recipients but not ourselves on reply-all', async () => {
+      await gmailService.replyToEmail('orig-1', 'Looks good', { replyAll: true });
+
+      const raw = sentRaw();
+      expect(raw).toContain('Cc: bob@example.com\r\n');
+      expect(raw).not.toContain('me@example.com');
+      expect(mockGmailAPI.users.getProfile).toHaveBeenCalledWith({ userId: 'me' });
+    });
+
+    it('should forward with the original attachments', async () => {
+      const result = await gmailService.forwardEmail('orig-1', ['dan@example.com'], { body: 'FYI' });
+
+      const callArgs = mockGmailAPI.users.messages.send.mock.calls[0][0];
+      expect(callArgs.requestBody.threadId).toBeUndefined();
+
+      const raw = sentRaw();
+      expect(raw).toContain('Subject: Fwd: Budget\r\n');
+      expect(raw).toContain('---------- Forwarded message ---------');
+      expect(raw).toContain('filename="budget.pdf"');
+      expect(raw).toContain(Buffer.from('PDF').toString('base64'));
+      expect(result.attachments).toBe(1);
+    });
+
+    it('should forward without attachments when asked', async () => {
+      await gmailService.forwardEmail('orig-1', ['dan@example.com'], { includeAttachments: false });
+
+      expect(mockGmailAPI.users.messages.attachments.get).not.toHaveBeenCalled();
+      expect(sentRaw()).not.toContain('budget.pdf"');
+    });
+
+    it('should set a real Reply-To header on sendEmail', async () => {
+      await gmailService.sendEmail(['to@example.com'], 'Hi', 'Body', { replyTo: 'support@example.com' });
+
+      const raw = sentRaw();
+      expect(raw).toContain('Reply-To: support@example.com\r\n');
+      expect(raw).not.toContain('In-Reply-To');
+    });
+  });
+
+  describe('Draft Management', () => {
+    const decodeRaw = (raw: string) => Buffer.from(raw, 'base64url').toString();
+
+    const existingDraft = {
+      data: {
+        id: 'draft-1',
+        message: {
+          id: 'draft-msg-1',
+          threadId: 'thread-3',
+          payload: {
+            headers: [
+              { name: 'To', value: 'ann@example.com' },
+              { name: 'Bcc', value: 'boss@example.com' },
+              { name: 'Subject', value: 'Re: Budget' },
+              { name: 'In-Reply-To', value: '<orig@mail.example.com>' },
+              { name: 'References', value: '<orig@mail.example.com>' }
+            ],
+            parts: [
+              { mimeType: 'text/plain', body: { data: Buffer.from('First version').toString('base64') } },
+              { mimeType: 'text/csv', filename: 'q3.csv', body: { attachmentId: 'att-9', size: 5 } }
+            ]
+          }
+        }
+      }
+    };
+
+    beforeEach(() => {
+      mockGmailAPI.users.drafts.create.mockResolvedValue({
+        data: { id: 'draft-1', message: { id: 'draft-msg-1', threadId: 'thread-3' } }
+      });
+      mockGmailAPI.users.drafts.get.mockResolvedValue(existingDraft);
+      mockGmailAPI.users.drafts.update.mockResolvedValue({
+        data: { id: 'draft-1', message: { id: 'draft-msg-2', threadId: 'thread-3' } }
+      });
+      mockGmailAPI.users.messages.attachments.get.mockResolvedValue({
+        data: { data: Buffer.from('a,b,c').toString('base64url'), size: 5 }
+      });
+    });
+
+    it('should create a draft with the same MIME as sendEmail', async () => {
+      const result = await gmailService.createDraft(['ann@example.com'], 'Budget', 'Numbers inside', {
+        threadId: 'thread-3'
+      });
+
+      const callArgs = mockGmailAPI.users.drafts.create.mock.calls[0][0];
+      expect(callArgs.userId).toBe('me');
+      expect(callArgs.requestBody.message.threadId).toBe('thread-3');
+
+      const raw = decodeRaw(callArgs.requestBody.message.raw);
+      expect(raw).toContain('To: ann@example.com\r\n');
+      expect(raw).toContain('Subject: Budget\r\n');
+      expect(raw).toContain('Numbers inside');
+      expect(mockGmailAPI.users.messages.send).not.toHaveBeenCalled();
+
+      expect(result).toEqual({
+        id: 'draft-1',
+        messageId: 'draft-msg-1',
+        threadId: 'thread-3',
+        to: ['ann@example.com'],
+        subject: 'Budget',
+        success: true
+      });
+    });
+
+    it('should list drafts with their headers', async () => {
+      mockGmailAPI.users.drafts.list.mockResolvedValue({
+        data: {
+          drafts: [{ id: 'draft-1', message: { id: 'draft-msg-1' } }],
+          resultSizeEstimate: 1,
+          nextPageToken: 'next-1'
+        }
+      });
+      mockGmailAPI.users.drafts.get.mockResolvedValue({
+        data: {
+          id: 'draft-1',
+          message: {
+            id: 'draft-msg-1',
+            snippet: 'First version',
+            payload: {
+              headers: [
+                { name: 'To', value: 'ann@example.com' },
+                { name: 'Subject', value: 'Re: Budget' }
+              ]
+            }
+          }
+        }
+      });
+
+      const result = await gmailService.listDrafts(5, undefined, 'to:ann');
+
+      expect(mockGmailAPI.users.drafts.list).toHaveBeenCalledWith({
+        userId: 'me',
+        maxResults: 5,
+        pageToken: undefined,
+        q: 'to:ann'
+      });
+      expect(mockGmailAPI.users.drafts.get).toHaveBeenCalledWith({
+        userId: 'me',
+        id: 'draft-1',
+        format: 'metadata',
+        fields: 'id,message(id,threadId,snippet,payload/headers)'
+      });
+      expect(result.drafts).toEqual([
+        {
+          id: 'draft-1',
+          messageId: 'draft-msg-1',
+          threadId: undefined,
+          subject: 'Re: Budget',
+          to: 'ann@example.com',
+          date: undefined,
+          snippet: 'First version'
+        }
+      ]);
+      expect(result.nextPageToken).toBe('next-1');
+    });
+
+    it('should read a draft as email content', async () => {
+      const draft = await gmailService.getDraft('draft-1');
+
+      expect(draft.id).toBe('draft-1');
+      expect(draft.message.bcc).toBe('boss@example.com');
+      expect(draft.message.bodyText).toBe('First version');
+      expect(draft.message.attachments).toHaveLength(1);
+    });
+
+    it('should keep unchanged fields, threading and attachments on update', async () => {
+      const result = await gmailService.updateDraft('draft-1', { subject: 'Re: Budget (v2)' });
+
+      const callArgs = mockGmailAPI.users.drafts.update.mock.calls[0][0];
+      expect(callArgs.id).toBe('draft-1');
+      expect(callArgs.requestBody.message.threadId).toBe('thread-3');
+
+      const raw = decodeRaw(callArgs.requestBody.message.raw);
+      expect(raw).toContain('To: ann@example.com\r\n');
+      expect(raw).toContain('Bcc: boss@example.com\r\n');
+      expect(raw).toContain('Subject: Re: Budget (v2)\r\n');
+      expect(raw).toContain('In-Reply-To: <orig@mail.example.com>\r\n');
+      expect(raw).toContain('First version');
+      expect(raw).toContain('filename="q3.csv"');
+      expect(mockGmailAPI.users.messages.attachments.get).toHaveBeenCalledWith({
+        userId: 'me',
+        messageId: 'draft-msg-1',
+        id: 'att-9'
+      });
+      expect(result.subject).toBe('Re: Budget (v2)');
+    });
+
+    it('should keep the sender a draft was written as', async () => {
+      mockGmailAPI.users.drafts.get.mockResolvedValue({
+        data: {
+          ...existingDraft.data,
+          message: {
+            ...existingDraft.data.message,
+            payload: {
+              ...existingDraft.data.message.payload,
+              headers: [{ name: 'From', value: 'Support <support@example.com>' }, ...existingDraft.data.message.payload.headers]
+            }
+          }
+        }
+      });
+
+      await gmailService.updateDraft('draft-1', { body: 'Second version' });
+
+      const raw = decodeRaw(mockGmailAPI.users.drafts.update.mock.calls[0][0].requestBody.message.raw);
+      expect(raw).toContain('From: Support <support@example.com>\r\n');
+      expect(mockGmailAPI.users.settings.sendAs.list).not.toHaveBeenCalled();
+    });
+
+    it('should write drafts from a verified send-as address', async () => {
+      mockGmailAPI.users.settings.sendAs.list.mockResolvedValue({
+        data: {
+          sendAs: [
+            { sendAsEmail: 'me@example.com', isPrimary: true, isDefault: true },
+            { sendAsEmail: 'support@example.com', displayName: 'Support', verificationStatus: 'accepted', signature: 'The Support Team' },
+            { sendAsEmail: 'new@example.com', verificationStatus: 'pending' }
+          ]
+        }
+      });
+
+      const created = await gmailService.createDraft(['ann@example.com'], 'Hi', 'Body', {
+        from: 'support@example.com',
+        includeSignature: true
+      });
+      const raw = decodeRaw(mockGmailAPI.users.drafts.create.mock.calls[0][0].requestBody.message.raw);
+      expect(raw).toContain('From: Support <support@example.com>\r\n');
+      expect(raw).toContain('Body\r\n\r\n-- \r\nThe Support Team');
+      expect(created.from).toBe('Support <support@example.com>');
+
+      await gmailService.updateDraft('draft-1', { from: 'support@example.com' });
+      const updated = decodeRaw(mockGmailAPI.users.drafts.update.mock.calls[0][0].requestBody.message.raw);
+      expect(updated).toContain('From: Support <support@example.com>\r\n');
+
+      await expect(gmailService.updateDraft('draft-1', { from: 'new@example.com' })).rejects.toThrow(
+        'new@example.com has not been verified in Gmail yet'
+      );
+    });
+
+    it('should send a draft', async () => {
+      mockGmailAPI.users.drafts.send.mockResolvedValue({
+        data: { id: 'sent-1', threadId: 'thread-3', labelIds: ['SENT'] }
+      });
+
+      const result = await gmailService.sendDraft('draft-1');
+
+      expect(mockGmailAPI.users.drafts.send).toHaveBeenCalledWith({
+        userId: 'me',
+        requestBody: { id: 'draft-1' }
+      });
+      expect(result).toEqual({
+        id: 'sent-1',
+        threadId: 'thread-3',
+        labelIds: ['SENT'],
+        draftId: 'draft-1',
+        success: true
+      });
+    });
+
+    it('should delete a draft', async () => {
+      mockGmailAPI.users.drafts.delete.mockResolvedValue({ data: {} });
+
+      const result = await gmailService.deleteDraft('draft-1');
+
+      expect(mockGmailAPI.users.drafts.delete).toHaveBeenCalledWith({ userId: 'me', id: 'draft-1' });
+      expect(result).toEqual({ id: 'draft-1', deleted: true, success: true });
+    });
+
+    it('should wrap draft errors', async () => {
+      mockGmailAPI.users.drafts.send.mockRejectedValue(new Error('Draft not found'));
+
+      await expect(gmailService.sendDraft('missing')).rejects.toThrow(
+        'Failed to send draft: Error: Draft not found'
+      );
+    });
+  });
+
   describe('Batch Operations', () => {
     it('should perform batch archive operation', async () => {
       mockGmailAPI.users.messages.list.mockResolvedValue({
@@ -453,18 +1303,18 @@ describe('GmailService', () => {
       expect(mockGmailAPI.users.messages.list).toHaveBeenCalledWith({
         userId: 'me',
         q: 'is:unread',
-        maxResults: 100
+        maxResults: 500
       });
 
-      // Archive operation calls modifyLabels which uses individual modify calls
-      expect(mockGmailAPI.users.messages.modify).toHaveBeenCalledWith({
+      expect(mockGmailAPI.users.messages.batchModify).toHaveBeenCalledWith({
         userId: 'me',
-        id: expect.any(String),
         requestBody: {
+          ids: ['msg1', 'msg2'],
           addLabelIds: [],
           removeLabelIds: ['INBOX']
         }
       });
+      expect(mockGmailAPI.users.messages.modify).not.toHaveBeenCalled();
 
       expect(result.affected).toBe(2);
       expect(result.operation).toBe('archive');
@@ -479,11 +1329,16 @@ describe('GmailService', () => {
 
       const result = await gmailService.batchOperation('old emails', 'delete');
 
-      // Delete operation uses individual trash calls
-      expect(mockGmailAPI.users.messages.trash).toHaveBeenCalledWith({
+      // Delete moves messages to trash rather than deleting permanently
+      expect(mockGmailAPI.users.messages.batchModify).toHaveBeenCalledWith({
         userId: 'me',
-        id: 'msg1'
+        requestBody: {
+          ids: ['msg1'],
+          addLabelIds: ['TRASH'],
+          removeLabelIds: []
+        }
       });
+      expect(mockGmailAPI.users.messages.batchDelete).not.toHaveBeenCalled();
 
       expect(result.affected).toBe(1);
       expect(result.operation).toBe('delete');
@@ -502,11 +1357,10 @@ describe('GmailService', () => {
 
       await gmailService.batchOperation('important emails', 'star');
 
-      // Star operation calls modifyLabels which uses individual modify calls
-      expect(mockGmailAPI.users.messages.modify).toHaveBeenCalledWith({
+      expect(mockGmailAPI.users.messages.batchModify).toHaveBeenCalledWith({
         userId: 'me',
-        id: expect.any(String),
         requestBody: {
+          ids: ['msg1', 'msg2'],
           addLabelIds: ['STARRED'],
           removeLabelIds: []
         }
@@ -521,6 +1375,63 @@ describe('GmailService', () => {
       const result = await gmailService.batchOperation('nonexistent', 'archive');
 
       expect(result.affected).toBe(0);
+      expect(mockGmailAPI.users.messages.batchModify).not.toHaveBeenCalled();
+    });
+
+    it('should page through every match and split into chunks of 1000', async () => {
+      const page = (start: number, count: number) =>
+        Array.from({ length: count }, (_, i) => ({ id: `msg-${start + i}` }));
+
+      mockGmailAPI.users.messages.list
+        .mockResolvedValueOnce({ data: { messages: page(0, 500), nextPageToken: 'p2' } })
+        .mockResolvedValueOnce({ data: { messages: page(500, 500), nextPageToken: 'p3' } })
+        .mockResolvedValueOnce({ data: { messages: page(1000, 500), nextPageToken: 'p4' } })
+        .mockResolvedValueOnce({ data: { messages: page(1500, 200) } });
+
+      const progress: number[] = [];
+      const result = await gmailService.batchOperation('in:inbox', 'markRead', {
+        onProgress: (p) => progress.push(p.processed)
+      });
+
+      expect(mockGmailAPI.users.messages.list).toHaveBeenCalledTimes(4);
+      expect(mockGmailAPI.users.messages.batchModify).toHaveBeenCalledTimes(2);
+      const chunkSizes = mockGmailAPI.users.messages.batchModify.mock.calls
+        .map((call: any) => call[0].requestBody.ids.length);
+      expect(chunkSizes).toEqual([1000, 700]);
+
+      expect(result.matched).toBe(1700);
+      expect(result.affected).toBe(1700);
+      expect(progress[progress.length - 1]).toBe(1700);
+    });
+
+    it('should report failed chunks instead of throwing', async () => {
+      mockGmailAPI.users.messages.list.mockResolvedValue({
+        data: {
+          messages: Array.from({ length: 1500 }, (_, i) => ({ id: `msg-${i}` }))
+        }
+      });
+
+      mockGmailAPI.users.messages.batchModify
+        .mockResolvedValueOnce({ data: {} })
+        .mockRejectedValueOnce(new Error('Rate limit exceeded'));
+
+      const result = await gmailService.batchOperation('older_than:1y', 'archive');
+
+      expect(result.matched).toBe(1500);
+      expect(result.affected).toBe(1000);
+      expect(result.failed).toBe(500);
+      expect(result.chunks).toEqual([
+        { index: 0, size: 1000, success: true },
+        { index: 1, size: 500, success: false, error: 'Rate limit exceeded' }
+      ]);
+    });
+
+    it('should reject unknown operations before listing', async () => {
+      await expect(gmailService.batchOperation('in:inbox', 'explode'))
+        .rejects
+        .toThrow('Unknown operation: explode');
+
+      expect(mockGmailAPI.users.messages.list).not.toHaveBeenCalled();
     });
   });
 
@@ -574,6 +1485,201 @@ describe('GmailService', () => {
       expect(result).toEqual(filters);
     });
 
+    describe('Changing filters', () => {
+      const original = {
+        id: 'filter-1',
+        criteria: { from: 'shop@example.com', negatedQuery: 'receipt' },
+        action: { addLabelIds: ['Label_1'] }
+      };
+
+      beforeEach(() => {
+        mockGmailAPI.users.settings.filters.get.mockResolvedValue({ data: original });
+        mockGmailAPI.users.settings.filters.delete.mockResolvedValue({ data: {} });
+      });
+
+      it('should replace a filter by deleting it and creating the new one', async () => {
+        mockGmailAPI.users.settings.filters.create.mockImplementation(({ requestBody }: any) =>
+          Promise.resolve({ data: { id: 'filter-2', ...requestBody } })
+        );
+
+        const result = await gmailService.updateFilter(
+          'filter-1',
+          original.criteria,
+          { addLabelIds: ['Label_2'], removeLabelIds: ['INBOX'] }
+        );
+
+        expect(mockGmailAPI.users.settings.filters.delete).toHaveBeenCalledWith({ userId: 'me', id: 'filter-1' });
+        expect(mockGmailAPI.users.settings.filters.create).toHaveBeenCalledWith({
+          userId: 'me',
+          requestBody: {
+            criteria: { from: 'shop@example.com', negatedQuery: 'receipt' },
+            action: { addLabelIds: ['Label_2'], removeLabelIds: ['INBOX'] }
+          }
+        });
+        expect(result).toEqual(expect.objectContaining({ id: 'filter-2', replaced: 'filter-1' }));
+      });
+
+      it('should keep the fields a partial update leaves out', async () => {
+        mockGmailAPI.users.settings.filters.get.mockResolvedValue({
+          data: {
+            id: 'filter-1',
+            criteria: { from: 'shop@example.com' },
+            action: { addLabelIds: ['Label_1'], removeLabelIds: ['INBOX'], forward: 'me@example.org' }
+          }
+        });
+        mockGmailAPI.users.settings.filters.create.mockImplementation(({ requestBody }: any) =>
+          Promise.resolve({ data: { id: 'filter-2', ...requestBody } })
+        );
+
+        await gmailService.patchFilter('filter-1', {
+          criteria: { subject: 'Order' },
+          action: { addLabelIds: ['Label_2'], forward: '' }
+        });
+
+        expect(mockGmailAPI.users.settings.filters.create).toHaveBeenCalledWith({
+          userId: 'me',
+          requestBody: {
+            criteria: { from: 'shop@example.com', subject: 'Order' },
+            // still skips the inbox; the emptied forward is gone
+            action: { addLabelIds: ['Label_2'], removeLabelIds: ['INBOX'] }
+          }
+        });
+      });
+
+      it('should restore the original filter when the new one is rejected', async () => {
+        mockGmailAPI.users.settings.filters.create
+          .mockRejectedValueOnce(Object.assign(new Error('Invalid forwarding address'), { code: 400 }))
+          .mockResolvedValueOnce({ data: { ...original, id: 'filter-restored' } });
+
+        await expect(
+          gmailService.updateFilter('filter-1', original.criteria, { forward: 'nobody@example.com' })
+        ).rejects.toThrow(/Invalid forwarding address.*restored as filter-restored/);
+        expect(mockGmailAPI.users.settings.filters.create).toHaveBeenLastCalledWith({
+          userId: 'me',
+          requestBody: { criteria: original.criteria, action: original.action }
+        });
+      });
+
+      it('should say so when the original could not be restored either', async () => {
+        mockGmailAPI.users.settings.filters.create.mockRejectedValue(
+          Object.assign(new Error('Invalid request'), { code: 400 })
+        );
+
+        await expect(
+          gmailService.updateFilter('filter-1', original.criteria, { forward: 'nobody@example.com' })
+        ).rejects.toThrow('Restoring the original filter also failed');
+      });
+
+      it('should delete a filter', async () => {
+        const result = await gmailService.deleteFilter('filter-1');
+
+        expect(result).toEqual({ success: true, filterId: 'filter-1' });
+      });
+
+      it('should list forwarding addresses', async () => {
+        const addresses = [{ forwardingEmail: 'me@example.org', verificationStatus: 'accepted' }];
+        mockGmailAPI.users.settings.forwardingAddresses.list.mockResolvedValue({
+          data: { forwardingAddresses: addresses }
+        });
+
+        expect(await gmailService.listForwardingAddresses()).toEqual(addresses);
+      });
+    });
+
+    describe('Previewing filters', () => {
+      const criteria = { from: '*@shop.example.com', hasAttachment: true };
+
+      beforeEach(() => {
+        mockGmailAPI.users.messages.list.mockImplementation(({ maxResults }: any) =>
+          Promise.resolve({
+            data: {
+              messages: [{ id: 'm1' }, { id: 'm2' }, { id: 'm3' }].slice(0, maxResults)
+            }
+          })
+        );
+        mockGmailAPI.users.messages.get.mockImplementation(({ id }: any) =>
+          Promise.resolve({
+            data: { id, payload: { headers: [{ name: 'Subject', value: `Order ${id}` }] } }
+          })
+        );
+      });
+
+      it('should count and sample the mail a filter would catch', async () => {
+        const preview = await gmailService.previewFilter(criteria, 2);
+
+        expect(preview.query).toBe('from:(*@shop.example.com) has:attachment');
+        expect(preview.total).toBe(3);
+        expect(preview.capped).toBe(false);
+        expect(preview.sample.map((msg) => msg.subject)).toEqual(['Order m1', 'Order m2']);
+      });
+
+      it('should stop counting a broad filter at 1000', async () => {
+        mockGmailAPI.users.messages.list.mockImplementation(({ maxResults }: any) =>
+          Promise.resolve({
+            data: {
+              messages: Array.from({ length: Math.min(maxResults, 500) }, (_, i) => ({ id: `m${i}` })),
+              nextPageToken: 'more'
+            }
+          })
+        );
+
+        const preview = await gmailService.previewFilter({ from: '@gmail.com' }, 2);
+
+        expect(preview).toEqual(expect.objectContaining({ total: 1000, capped: true }));
+        expect(preview.sample).toHaveLength(2);
+        // two pages of 500 to count, one page for the sample
+        expect(mockGmailAPI.users.messages.list).toHaveBeenCalledTimes(3);
+      });
+
+      it('should refuse a filter without criteria', async () => {
+        await expect(gmailService.previewFilter({})).rejects.toThrow('The filter has no criteria');
+      });
+
+      it('should apply the label changes to existing mail', async () => {
+        mockGmailAPI.users.messages.batchModify.mockResolvedValue({ data: {} });
+
+        const result = await gmailService.applyFilterToExisting(criteria, {
+          addLabelIds: ['Label_1'],
+          removeLabelIds: ['INBOX'],
+          forward: 'me@example.org'
+        });
+
+        expect(mockGmailAPI.users.messages.batchModify).toHaveBeenCalledWith({
+          userId: 'me',
+          requestBody: { ids: ['m1', 'm2', 'm3'], addLabelIds: ['Label_1'], removeLabelIds: ['INBOX'] }
+        });
+        expect(result).toEqual(
+          expect.objectContaining({ operation: 'apply_filter', matched: 3, affected: 3, failed: 0 })
+        );
+      });
+
+      it('should stop counting at the limit', async () => {
+        mockGmailAPI.users.messages.list.mockResolvedValue({
+          data: { messages: [{ id: 'm1' }, { id: 'm2' }], nextPageToken: 'more' }
+        });
+
+        expect(await gmailService.countMessages('from:shop', 3)).toBe(3);
+        expect(mockGmailAPI.users.messages.list).toHaveBeenCalledTimes(2);
+      });
+
+      it('should read raw headers by name', async () => {
+        mockGmailAPI.users.messages.get.mockResolvedValue({
+          data: { payload: { headers: [{ name: 'List-ID', value: '<dev.example.com>' }] } }
+        });
+
+        expect(await gmailService.getMessageHeaders('m1', ['List-Id', 'From'])).toEqual({
+          'List-Id': '<dev.example.com>'
+        });
+      });
+
+      it('should not search when the filter only forwards', async () => {
+        const result = await gmailService.applyFilterToExisting(criteria, { forward: 'me@example.org' });
+
+        expect(mockGmailAPI.users.messages.list).not.toHaveBeenCalled();
+        expect(result.matched).toBe(0);
+      });
+    });
+
     it('should handle filter creation errors', async () => {
       mockGmailAPI.users.settings.filters.create.mockRejectedValue(
         new Error('Invalid criteria')
@@ -585,6 +1691,241 @@ describe('GmailService', () => {
     });
   });
 
+  describe('Send-as Addresses', () => {
+    const sendAs = [
+      { sendAsEmail: 'me@example.com', displayName: 'Ann Lee', isPrimary: true, isDefault: true, signature: 'Ann<br>Example Corp' },
+      { sendAsEmail: 'support@example.com', displayName: 'Support', verificationStatus: 'accepted', replyToAddress: 'help@example.com' },
+      { sendAsEmail: 'new@example.com', verificationStatus: 'pending' }
+    ];
+
+    const rawSent = () =>
+      Buffer.from(mockGmailAPI.users.messages.send.mock.calls[0][0].requestBody.raw, 'base64url').toString();
+
+    beforeEach(() => {
+      mockGmailAPI.users.settings.sendAs.list.mockResolvedValue({ data: { sendAs } });
+      mockGmailAPI.users.settings.sendAs.patch.mockImplementation(({ sendAsEmail, requestBody }: any) =>
+        Promise.resolve({ data: { ...sendAs.find((s) => s.sendAsEmail === sendAsEmail), ...requestBody } })
+      );
+    });
+
+    it('should list addresses with their verification state', async () => {
+      const aliases = await gmailService.listSendAs();
+
+      expect(aliases[0]).toEqual({
+        email: 'me@example.com',
+        displayName: 'Ann Lee',
+        replyTo: undefined,
+        signature: 'Ann<br>Example Corp',
+        isPrimary: true,
+        isDefault: true,
+        verified: true
+      });
+      expect(aliases.map((a) => a.verified)).toEqual([true, true, false]);
+      expect(aliases[1].replyTo).toBe('help@example.com');
+    });
+
+    it('should send from an alias with its display name', async () => {
+      const result = await gmailService.sendEmail(['to@example.com'], 'Hi', 'Body', {
+        from: 'Support@example.com'
+      });
+
+      expect(rawSent()).toContain('From: Support <support@example.com>');
+      expect(result.from).toBe('Support <support@example.com>');
+    });
+
+    it('should refuse addresses that are not set up or not verified', async () => {
+      await expect(
+        gmailService.sendEmail(['to@example.com'], 'Hi', 'Body', { from: 'ceo@example.com' })
+      ).rejects.toThrow('ceo@example.com is not one of your send-as addresses: me@example.com, support@example.com, new@example.com');
+      await expect(
+        gmailService.sendEmail(['to@example.com'], 'Hi', 'Body', { from: 'new@example.com' })
+      ).rejects.toThrow('new@example.com has not been verified in Gmail yet');
+      expect(mockGmailAPI.users.messages.send).not.toHaveBeenCalled();
+    });
+
+    it("should append the default address's signature when asked", async () => {
+      await gmailService.sendEmail(['to@example.com'], 'Hi', 'Body', {
+        includeSignature: true,
+        html: '<p>Body</p>'
+      });
+
+      const raw = rawSent();
+      expect(raw).not.toContain('From:');
+      expect(raw).toContain('Body\r\n\r\n-- \r\nAnn\r\nExample Corp');
+      expect(raw).toContain('<p>Body</p><br><br><div class="gmail_signature">Ann<br>Example Corp</div>');
+    });
+
+    it('should store a plain-text signature as HTML', async () => {
+      const result = await gmailService.updateSendAs('support@example.com', {
+        signature: 'The Support Team\nExample <Corp> & Co'
+      });
+
+      expect(mockGmailAPI.users.settings.sendAs.patch).toHaveBeenCalledWith({
+        userId: 'me',
+        sendAsEmail: 'support@example.com',
+        requestBody: { signature: 'The Support Team<br>Example &lt;Corp&gt; &amp; Co' }
+      });
+      expect(result.displayName).toBe('Support');
+    });
+  });
+
+  describe('Vacation Responder', () => {
+    const current = {
+      enableAutoReply: false,
+      responseSubject: 'Away',
+      responseBodyPlainText: 'Back soon.',
+      restrictToContacts: true,
+      startTime: '1700000000000',
+      endTime: '1700086400000'
+    };
+
+    beforeEach(() => {
+      mockGmailAPI.users.settings.getVacation.mockResolvedValue({ data: current });
+      mockGmailAPI.users.settings.updateVacation.mockImplementation(({ requestBody }: any) =>
+        Promise.resolve({ data: requestBody })
+      );
+    });
+
+    it('should read the auto-reply with ISO dates', async () => {
+      expect(await gmailService.getVacation()).toEqual({
+        enabled: false,
+        subject: 'Away',
+        bodyText: 'Back soon.',
+        bodyHtml: undefined,
+        start: new Date(1700000000000).toISOString(),
+        end: new Date(1700086400000).toISOString(),
+        restrictToContacts: true,
+        restrictToDomain: false
+      });
+    });
+
+    it('should turn it on, keeping fields that were not given', async () => {
+      const result = await gmailService.setVacation({
+        subject: 'Out of office',
+        startDate: '2030-03-18',
+        endDate: '2030-03-24'
+      });
+
+      expect(mockGmailAPI.users.settings.updateVacation).toHaveBeenCalledWith({
+        userId: 'me',
+        requestBody: {
+          ...current,
+          enableAutoReply: true,
+          responseSubject: 'Out of office',
+          startTime: String(new Date(2030, 2, 18).getTime()),
+          // replies stop once the last day is over
+          endTime: String(new Date(2030, 2, 25).getTime())
+        }
+      });
+      expect(result).toEqual(expect.objectContaining({ enabled: true, bodyText: 'Back soon.' }));
+    });
+
+    it('should start now and run until turned off when no dates are given', async () => {
+      // the previous absence ended long ago
+      await gmailService.setVacation({ bodyText: 'Out today' });
+
+      expect(mockGmailAPI.users.settings.updateVacation).toHaveBeenCalledWith({
+        userId: 'me',
+        requestBody: expect.objectContaining({ startTime: null, endTime: null })
+      });
+    });
+
+    it('should not keep the previous end date when only a start is given', async () => {
+      mockGmailAPI.users.settings.getVacation.mockResolvedValue({
+        data: { ...current, endTime: String(new Date(2030, 0, 1).getTime()) }
+      });
+
+      const result = await gmailService.setVacation({ startDate: '2030-03-18' });
+
+      expect(result.start).toBe(new Date(2030, 2, 18).toISOString());
+      expect(result.end).toBeUndefined();
+    });
+
+    it('should only preview on a dry run', async () => {
+      const result = await gmailService.setVacation(
+        { bodyText: 'On leave', startDate: '', endDate: '2030-01-02T09:00:00Z' },
+        { dryRun: true }
+      );
+
+      expect(mockGmailAPI.users.settings.updateVacation).not.toHaveBeenCalled();
+      expect(result.start).toBeUndefined();
+      expect(result.end).toBe('2030-01-02T09:00:00.000Z');
+    });
+
+    it('should refuse dates that make no sense', async () => {
+      await expect(gmailService.setVacation({ endDate: '2020-01-01' })).rejects.toThrow(
+        'The end date has already passed'
+      );
+      await expect(
+        gmailService.setVacation({ startDate: '2030-03-18', endDate: '2030-03-10' })
+      ).rejects.toThrow('The end date is before the start date');
+      await expect(gmailService.setVacation({ startDate: 'next week' })).rejects.toThrow(
+        'Invalid date "next week"'
+      );
+      mockGmailAPI.users.settings.getVacation.mockResolvedValue({ data: {} });
+      await expect(gmailService.setVacation({ subject: 'Away' })).rejects.toThrow(
+        'The auto-reply needs a message'
+      );
+      expect(mockGmailAPI.users.settings.updateVacation).not.toHaveBeenCalled();
+    });
+
+    it('should turn it off and keep the message', async () => {
+      mockGmailAPI.users.settings.getVacation.mockResolvedValue({
+        data: { ...current, enableAutoReply: true }
+      });
+
+      const result = await gmailService.disableVacation();
+
+      expect(mockGmailAPI.users.settings.updateVacation).toHaveBeenCalledWith({
+        userId: 'me',
+        requestBody: { ...current, enableAutoReply: false }
+      });
+      expect(result.subject).toBe('Away');
+    });
+  });
+
+  describe('Accounts', () => {
+    it('should sign in with the account it was created for', async () => {
+      const { getGmailService } = await import('../src/auth.js');
+
+      const service = new GmailService({ account: 'work' });
+      await service.initialize();
+
+      expect(service.account).toBe('work');
+      expect(getGmailService).toHaveBeenLastCalledWith('work');
+      expect(gmailService.account).toBe('default');
+      expect(() => new GmailService({ account: '../work' })).toThrow('Invalid account name');
+    });
+
+    it('should keep one signed-in service per account', async () => {
+      const { getGmailService } = await import('../src/auth.js');
+      vi.mocked(getGmailService).mockClear();
+      const accounts = new GmailAccounts({}, 'personal');
+
+      const [personal, again, work] = await Promise.all([
+        accounts.get(),
+        accounts.get('personal'),
+        accounts.get('work')
+      ]);
+
+      expect(personal).toBe(again);
+      expect(personal.account).toBe('personal');
+      expect(work.account).toBe('work');
+      expect(getGmailService).toHaveBeenCalledTimes(2);
+      expect(accounts.active).toEqual(['personal', 'work']);
+    });
+
+    it('should try a failed sign-in again', async () => {
+      const { getGmailService } = await import('../src/auth.js');
+      vi.mocked(getGmailService).mockRejectedValueOnce(new Error('invalid_grant'));
+      const accounts = new GmailAccounts();
+
+      await expect(accounts.get('work')).rejects.toThrow('invalid_grant');
+      expect(accounts.active).toEqual([]);
+      expect((await accounts.get('work')).account).toBe('work');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should throw error when not initialized', async () => {
       const uninitializedService = new GmailService();
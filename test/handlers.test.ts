@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GmailHandlers } from '../src/handlers.js';
+import { FilterFromEmailSchema } from '../src/schemas.js';
+
+describe('GmailHandlers', () => {
+  let service: any;
+  let handlers: GmailHandlers;
+
+  beforeEach(() => {
+    service = {
+      getLabelImpact: vi.fn().mockResolvedValue({
+        label: { id: 'Label_2', name: 'Work', type: 'user' },
+        messages: 40,
+        sublabels: [{ id: 'Label_5', name: 'Work/Shopify', type: 'user', messages: 12 }]
+      }),
+      patchLabel: vi.fn(async (id: string, changes: any) => ({ id, ...changes, success: true })),
+      deleteLabel: vi.fn(async (id: string) => ({ id, deleted: true, success: true })),
+      patchFilter: vi.fn(async (id: string) => ({ id: 'filter-2', replaced: id })),
+      deleteFilter: vi.fn(async (id: string) => ({ id, deleted: true, success: true }))
+    };
+    handlers = new GmailHandlers(service);
+  });
+
+  describe('Labels', () => {
+    it('should only report what a rename would touch until confirmed', async () => {
+      const result = await handlers.updateLabel({ labelId: 'Label_2', name: 'Office' });
+
+      expect(service.patchLabel).not.toHaveBeenCalled();
+      expect(result).toEqual(
+        expect.objectContaining({
+          confirmed: false,
+          renamed: [
+            { id: 'Label_2', from: 'Work', to: 'Office' },
+            { id: 'Label_5', from: 'Work/Shopify', to: 'Office/Shopify' }
+          ]
+        })
+      );
+      expect(result.impact.messages).toBe(40);
+      expect(result.message).toContain('affects 40 messages');
+    });
+
+    it('should rename once confirmed', async () => {
+      const result = await handlers.updateLabel({ labelId: 'Label_2', name: 'Office', confirm: true });
+
+      expect(service.patchLabel).toHaveBeenCalledWith('Label_2', { name: 'Office' });
+      expect(result).toEqual(expect.objectContaining({ success: true, impact: expect.any(Object) }));
+    });
+
+    it('should change colors and visibility without asking', async () => {
+      await handlers.updateLabel({ labelId: 'Label_2', messageListVisibility: 'hide' });
+
+      expect(service.getLabelImpact).not.toHaveBeenCalled();
+      expect(service.patchLabel).toHaveBeenCalledWith('Label_2', { messageListVisibility: 'hide' });
+    });
+
+    it('should only report what a delete would touch until confirmed', async () => {
+      const result = await handlers.deleteLabel({ labelId: 'Label_2' });
+
+      expect(service.deleteLabel).not.toHaveBeenCalled();
+      expect(result.confirmed).toBe(false);
+      expect(result.impact.sublabels).toHaveLength(1);
+      expect(result.message).toContain('removes it from 40 messages');
+    });
+
+    it('should delete once confirmed', async () => {
+      const result = await handlers.deleteLabel({ labelId: 'Label_2', confirm: true });
+
+      expect(service.deleteLabel).toHaveBeenCalledWith('Label_2');
+      expect(result).toEqual(expect.objectContaining({ deleted: true, impact: expect.any(Object) }));
+    });
+  });
+
+  describe('Filters', () => {
+    it('should pass only the changed fields on to be merged', async () => {
+      const result = await handlers.updateFilter({
+        filterId: 'filter-1',
+        action: { removeLabelIds: ['INBOX'] }
+      });
+
+      expect(service.patchFilter).toHaveBeenCalledWith('filter-1', { action: { removeLabelIds: ['INBOX'] } });
+      expect(result).toEqual({ id: 'filter-2', replaced: 'filter-1' });
+    });
+
+    it('should need an action that does something to create a filter from an email', () => {
+      const parse = (args: object) => FilterFromEmailSchema.safeParse({ messageId: 'm1', ...args }).success;
+
+      expect(parse({})).toBe(true);
+      expect(parse({ candidate: 1 })).toBe(false);
+      expect(parse({ candidate: 1, action: {} })).toBe(false);
+      expect(parse({ candidate: 1, action: { addLabelIds: [] } })).toBe(false);
+      expect(parse({ candidate: 1, action: { removeLabelIds: ['INBOX'] } })).toBe(true);
+    });
+
+    it('should delete a filter', async () => {
+      await handlers.deleteFilter({ filterId: 'filter-1' });
+
+      expect(service.deleteFilter).toHaveBeenCalledWith('filter-1');
+    });
+  });
+});
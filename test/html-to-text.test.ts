@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { htmlToText, decodeEntities } from '../src/html-to-text.js';
+
+describe('htmlToText', () => {
+  it('should keep headings and paragraphs', () => {
+    const text = htmlToText('<h1>Weekly   digest</h1><p>First paragraph.</p><h2>Details</h2><p>Second</p>');
+
+    expect(text).toBe('# Weekly digest\n\nFirst paragraph.\n\n## Details\n\nSecond');
+  });
+
+  it('should drop scripts, styles and comments', () => {
+    const text = htmlToText(
+      '<html><head><title>x</title><style>p { color: red }</style></head>' +
+      '<body><!-- tracking --><script>alert(1)</script><p>Visible</p></body></html>'
+    );
+
+    expect(text).toBe('Visible');
+  });
+
+  it('should render links as numbered footnotes', () => {
+    const text = htmlToText(
+      '<p>Read the <a href="https://example.com/post">post</a> or ' +
+      '<a href="https://example.com/unsubscribe">unsubscribe</a>. ' +
+      'Again: <a href="https://example.com/post">post</a></p>'
+    );
+
+    expect(text).toContain('Read the post [1] or unsubscribe [2]. Again: post [1]');
+    expect(text).toContain('Links:\n[1] https://example.com/post\n[2] https://example.com/unsubscribe');
+  });
+
+  it('should show bare links and mailto addresses inline', () => {
+    const text = htmlToText(
+      '<p><a href="https://example.com">https://example.com</a> ' +
+      '<a href="mailto:help@example.com">help@example.com</a></p>'
+    );
+
+    expect(text).toBe('https://example.com help@example.com');
+  });
+
+  it('should render bulleted, numbered and nested lists', () => {
+    const text = htmlToText(
+      '<ul><li>One<li>Two<ul><li>Two-a</li></ul></li></ul><ol start="3"><li>Third</li><li>Fourth</li></ol>'
+    );
+
+    expect(text).toBe('• One\n• Two\n  • Two-a\n\n3. Third\n4. Fourth');
+  });
+
+  it('should draw data tables as aligned columns', () => {
+    const text = htmlToText(
+      '<table><tr><th>Item</th><th>Price</th></tr>' +
+      '<tr><td>Widget</td><td>$5.00</td></tr>' +
+      '<tr><td>Gadget extra</td><td>$12.00</td></tr></table>'
+    );
+
+    expect(text).toBe(
+      'Item         | Price\n' +
+      '-------------+-------\n' +
+      'Widget       | $5.00\n' +
+      'Gadget extra | $12.00'
+    );
+  });
+
+  it('should flatten layout tables into blocks', () => {
+    const text = htmlToText(
+      '<table><tr><td><table><tr><td>Header</td></tr></table></td></tr>' +
+      '<tr><td><p>Body copy</p></td></tr></table>'
+    );
+
+    expect(text).toBe('Header\n\nBody copy');
+  });
+
+  it('should preserve whitespace in preformatted blocks and quote blockquotes', () => {
+    const text = htmlToText('<pre>if (x) {\n    y();\n}</pre><blockquote>On Monday, <b>Ann</b> wrote</blockquote>');
+
+    expect(text).toBe('if (x) {\n    y();\n}\n\n> On Monday, Ann wrote');
+  });
+
+  it('should decode named and numeric entities', () => {
+    expect(decodeEntities('&copy; 2024 &#8212; &#x41;&amp;B &unknown;')).toBe('© 2024 — A&B &unknown;');
+    expect(htmlToText('<p>Fish&nbsp;&amp;&nbsp;chips</p>')).toBe('Fish & chips');
+  });
+
+  it('should return an empty string for empty input', () => {
+    expect(htmlToText('')).toBe('');
+  });
+});
@@ -40,7 +40,8 @@ describe('Integration Tests', () => {
     const { getGmailService } = await import('../src/auth.js');
     vi.mocked(getGmailService).mockResolvedValue(mockGmailAPI);
 
-    gmailService = new GmailService();
+    // back off without actually waiting
+    gmailService = new GmailService({ retry: { sleep: async () => {} } });
     await gmailService.initialize();
   });
 
@@ -260,6 +261,8 @@ describe('Integration Tests', () => {
       await expect(gmailService.searchEmails('test query'))
         .rejects
         .toThrow('Failed to search emails');
+      // first attempt plus the default four retries
+      expect(mockGmailAPI.users.messages.list).toHaveBeenCalledTimes(5);
     });
 
     it('should handle network timeouts', async () => {
@@ -365,22 +368,20 @@ describe('Integration Tests', () => {
         }
       });
 
-      mockGmailAPI.users.messages.modify.mockResolvedValue({
-        data: {
-          id: 'large-msg-1',
-          labelIds: [] // After removing UNREAD
-        }
+      mockGmailAPI.users.messages.batchModify.mockResolvedValue({
+        data: {}
       });
 
       const result = await gmailService.batchOperation('large batch query', 'markRead');
 
       expect(result.affected).toBe(500);
 
-      // Verify modify API was called for messages (at least once)
-      expect(mockGmailAPI.users.messages.modify).toHaveBeenCalledWith({
+      // All 500 messages fit in a single batchModify call
+      expect(mockGmailAPI.users.messages.batchModify).toHaveBeenCalledTimes(1);
+      expect(mockGmailAPI.users.messages.batchModify).toHaveBeenCalledWith({
         userId: 'me',
-        id: 'batch-msg-0',
         requestBody: {
+          ids: largeBatch.map(m => m.id),
           addLabelIds: [],
           removeLabelIds: ['UNREAD']
         }
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fs from 'fs/promises';
+import { GmailService } from '../src/gmail-service.js';
+import { parseLocalQuery, searchDocuments, LocalDocument } from '../src/local-search.js';
+
+vi.mock('../src/auth.js', () => ({
+  getGmailService: vi.fn()
+}));
+
+const doc = (id: string, subject: string, body: string, extra: Record<string, string> = {}): LocalDocument => ({
+  message: {
+    id,
+    threadId: `thread-${id}`,
+    subject,
+    from: extra.from || 'someone@example.com',
+    to: 'me@example.com',
+    date: extra.date || 'Wed, 13 Sep 2023 10:00:00 -0700',
+    snippet: body.slice(0, 40)
+  },
+  content: { id, subject, body }
+});
+
+const documents = [
+  doc('budget', 'Quarterly budget review', 'Please send the budget numbers before the review on Friday.'),
+  doc('mention', 'Team lunch', 'Lunch is on Friday. Also, the budget is fine.'),
+  doc('invoice', 'Your invoice', 'Invoice INV-2041 is attached. Amount due: $120.', { from: 'billing@shop.example' }),
+  doc('newsletter', 'Weekly newsletter: budget tips', 'Ten ways to review your budget.', { from: 'news@letters.example' })
+];
+
+const ids = (query: string) => searchDocuments(documents, query).hits.map((hit) => hit.message.id);
+
+describe('Local Search', () => {
+  describe('Query parsing', () => {
+    it('should parse words, phrases, proximity, regexes and fields', () => {
+      const clauses = parseLocalQuery('budget "budget review"~3 subject:/inv-\\d+/i -from:news budg*');
+
+      expect(clauses).toEqual([
+        { kind: 'term', field: undefined, value: 'budget', prefix: false, negated: false },
+        { kind: 'phrase', field: undefined, tokens: ['budget', 'review'], slop: 3, negated: false },
+        { kind: 'regex', field: 'subject', pattern: /inv-\d+/i, negated: false },
+        { kind: 'term', field: 'from', value: 'news', prefix: false, negated: true },
+        { kind: 'term', field: undefined, value: 'budg', prefix: true, negated: false }
+      ]);
+    });
+
+    it('should search unknown prefixes and paths as plain text', () => {
+      expect(parseLocalQuery('re:lunch /usr/bin')).toEqual([
+        { kind: 'phrase', field: undefined, tokens: ['re', 'lunch'], slop: 0, negated: false },
+        { kind: 'phrase', field: undefined, tokens: ['usr', 'bin'], slop: 0, negated: false }
+      ]);
+    });
+
+    it('should reject invalid regular expressions', () => {
+      expect(() => parseLocalQuery('/inv(/')).toThrow('Invalid regular expression');
+    });
+  });
+
+  describe('Ranking', () => {
+    it('should rank subject matches above body matches', () => {
+      expect(ids('budget')).toEqual(['budget', 'newsletter', 'mention']);
+    });
+
+    it('should require every word to match', () => {
+      expect(ids('budget friday')).toEqual(['budget', 'mention']);
+    });
+
+    it('should match exact phrases in order', () => {
+      expect(ids('"budget review"')).toEqual(['budget']);
+      expect(ids('"review budget"')).toEqual([]);
+    });
+
+    it('should match words near each other in any order', () => {
+      expect(ids('"review budget"~1')).toEqual(expect.arrayContaining(['budget', 'newsletter']));
+      expect(ids('"lunch budget"~2')).toEqual([]);
+      expect(ids('"lunch budget"~6')).toEqual(['mention']);
+    });
+
+    it('should match regular expressions over bodies', () => {
+      expect(ids('/INV-\\d{4}/')).toEqual(['invoice']);
+      expect(ids('body:/\\$\\d+/')).toEqual(['invoice']);
+    });
+
+    it('should restrict terms to a field and exclude negated ones', () => {
+      expect(ids('from:billing')).toEqual(['invoice']);
+      expect(ids('budget -from:news')).toEqual(['budget', 'mention']);
+    });
+
+    it('should match word prefixes', () => {
+      expect(ids('invo*')).toEqual(['invoice']);
+    });
+
+    it('should report the total beyond the limit', () => {
+      const result = searchDocuments(documents, 'budget', 1);
+
+      expect(result.hits).toHaveLength(1);
+      expect(result.total).toBe(3);
+    });
+
+    it('should reject queries with nothing to look for', () => {
+      expect(() => searchDocuments(documents, '-budget')).toThrow('at least one word');
+    });
+  });
+
+  describe('GmailService.localSearch', () => {
+    let mockGmailAPI: any;
+
+    beforeEach(async () => {
+      vi.mocked(fs.readFile).mockRejectedValue(Object.assign(new Error('missing'), { code: 'ENOENT' }));
+      vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+
+      mockGmailAPI = {
+        users: {
+          getProfile: vi.fn().mockResolvedValue({ data: { historyId: '100' } }),
+          history: { list: vi.fn().mockResolvedValue({ data: { historyId: '100' } }) },
+          labels: { list: vi.fn().mockResolvedValue({ data: { labels: [] } }) },
+          messages: {
+            list: vi.fn().mockResolvedValue({
+              data: { messages: [{ id: 'm1', threadId: 't1' }, { id: 'm2', threadId: 't2' }] }
+            }),
+            get: vi.fn().mockImplementation(({ id, format }) => Promise.resolve({
+              data: {
+                id,
+                threadId: id === 'm1' ? 't1' : 't2',
+                snippet: id === 'm1' ? 'Numbers for the budget' : 'See you at lunch',
+                labelIds: ['INBOX'],
+                payload: {
+                  mimeType: 'text/plain',
+                  headers: [
+                    { name: 'Subject', value: id === 'm1' ? 'Budget' : 'Lunch' },
+                    { name: 'From', value: 'ann@example.com' }
+                  ],
+                  body: format === 'full' || !format
+                    ? { data: Buffer.from('The full budget review is attached.').toString('base64') }
+                    : undefined
+                }
+              }
+            }))
+          }
+        }
+      };
+
+      const { getGmailService } = await import('../src/auth.js');
+      vi.mocked(getGmailService).mockResolvedValue(mockGmailAPI);
+    });
+
+    it('should search cached messages without asking Gmail to run the query', async () => {
+      const gmailService = new GmailService({ cache: { path: '/tmp/cache.json' } });
+      await gmailService.initialize();
+      await gmailService.searchEmails('in:inbox');
+
+      const result = await gmailService.localSearch('budget');
+
+      expect(result.messages.map((message) => message.id)).toEqual(['m1']);
+      expect(result.messages[0]).toEqual(expect.objectContaining({ subject: 'Budget', from: 'ann@example.com' }));
+      expect(result.searched).toBe(2);
+      expect(mockGmailAPI.users.messages.list).toHaveBeenCalledTimes(1);
+    });
+
+    it('should search the bodies of messages that have been read', async () => {
+      const gmailService = new GmailService({ cache: { path: '/tmp/cache.json' } });
+      await gmailService.initialize();
+      await gmailService.searchEmails('in:inbox');
+      expect((await gmailService.localSearch('"budget review"')).messages).toEqual([]);
+
+      await gmailService.readEmail('m1');
+
+      expect((await gmailService.localSearch('"budget review"')).messages[0].id).toBe('m1');
+    });
+
+    it('should fail when the cache is disabled', async () => {
+      const gmailService = new GmailService();
+      await gmailService.initialize();
+
+      await expect(gmailService.localSearch('budget')).rejects.toThrow('Failed to search cached emails');
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fs from 'fs/promises';
+import { GmailService } from '../src/gmail-service.js';
+import { MessageCache } from '../src/message-cache.js';
+import { mockMessages } from './setup.js';
+
+vi.mock('../src/auth.js', () => ({
+  getGmailService: vi.fn()
+}));
+
+const summary = (id: string, labelIds: string[] = ['INBOX']) => ({
+  id,
+  threadId: `thread-${id}`,
+  subject: `Subject ${id}`,
+  from: 'sender@example.com',
+  to: 'me@example.com',
+  date: 'Wed, 13 Sep 2023 10:00:00 -0700',
+  snippet: 'snippet',
+  labelIds
+});
+
+describe('MessageCache', () => {
+  let cache: MessageCache;
+
+  beforeEach(async () => {
+    vi.mocked(fs.readFile).mockRejectedValue(Object.assign(new Error('missing'), { code: 'ENOENT' }));
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+
+    cache = new MessageCache({ path: '/tmp/cache.json' });
+    await cache.load();
+    cache.reset('100', []);
+  });
+
+  it('should apply label changes from history', () => {
+    cache.putMessages([summary('m1', ['INBOX', 'UNREAD']), summary('m2')]);
+
+    cache.applyHistory([
+      { id: '101', labelsRemoved: [{ message: { id: 'm1' }, labelIds: ['UNREAD'] }] },
+      { id: '102', labelsAdded: [{ message: { id: 'm2', labelIds: ['INBOX', 'STARRED'] }, labelIds: ['STARRED'] }] }
+    ]);
+
+    expect(cache.getMessage('m1')?.labelIds).toEqual(['INBOX']);
+    expect(cache.getMessage('m2')?.labelIds).toEqual(['INBOX', 'STARRED']);
+  });
+
+  it('should drop deleted messages and track thread membership', () => {
+    cache.putMessages([summary('m1')]);
+    cache.applyHistory([
+      { id: '101', messagesAdded: [{ message: { id: 'm3', threadId: 'thread-m1' } }] },
+      { id: '102', messagesDeleted: [{ message: { id: 'm1' } }] }
+    ]);
+
+    expect(cache.getMessage('m1')).toBeUndefined();
+    expect(cache.getThreadMessageIds('thread-m1')).toEqual(['m3']);
+  });
+
+  it('should serve searches only at the mailbox state they were fetched at', () => {
+    cache.putMessages([summary('m1')]);
+    cache.putSearch('key', ['m1'], 1);
+
+    expect(cache.getSearch('key')?.messages).toHaveLength(1);
+
+    cache.markSynced('105');
+    expect(cache.getSearch('key')).toBeUndefined();
+    expect(cache.getSearch('key', { allowOutdated: true })?.total).toBe(1);
+
+    cache.applyHistory([{ id: '106' }]);
+    expect(cache.getSearch('key', { allowOutdated: true })).toBeUndefined();
+  });
+
+  it('should persist to disk and load it back', async () => {
+    cache.putMessages([summary('m1')]);
+    await cache.save();
+
+    const written = vi.mocked(fs.writeFile).mock.calls[0];
+    expect(written[0]).toBe('/tmp/cache.json');
+
+    vi.mocked(fs.readFile).mockResolvedValue(written[1] as string);
+    const reloaded = new MessageCache({ path: '/tmp/cache.json' });
+    await reloaded.load();
+
+    expect(reloaded.historyId).toBe('100');
+    expect(reloaded.getMessage('m1')?.subject).toBe('Subject m1');
+  });
+
+  it('should move a cache file from an older version once', async () => {
+    cache.putMessages([summary('m1')]);
+    await cache.save();
+    const old = vi.mocked(fs.writeFile).mock.calls[0][1] as string;
+    vi.mocked(fs.writeFile).mockClear();
+    vi.mocked(fs.readFile).mockImplementation(async (file: any) => {
+      if (file === '/old/gmail-cache.json') return old;
+      throw Object.assign(new Error('missing'), { code: 'ENOENT' });
+    });
+
+    const moved = new MessageCache({ path: '/tmp/cache.json', legacyPath: '/old/gmail-cache.json' });
+    await moved.load();
+    expect(moved.getMessage('m1')?.subject).toBe('Subject m1');
+
+    await moved.save();
+    expect(vi.mocked(fs.writeFile).mock.calls[0][0]).toBe('/tmp/cache.json');
+    expect(fs.unlink).toHaveBeenCalledWith('/old/gmail-cache.json');
+  });
+
+  it('should keep only the most recently cached messages', async () => {
+    cache = new MessageCache({ path: '/tmp/cache.json', maxMessages: 2 });
+    cache.reset('100', []);
+    cache.putMessages([summary('old')], 1);
+    cache.putMessages([summary('m1'), summary('m2')], 2);
+    await cache.save();
+
+    expect(cache.getMessage('old')).toBeUndefined();
+    expect(cache.getMessage('m1')).toBeDefined();
+  });
+
+  it('should go stale after maxAgeMs', () => {
+    cache.markSynced('100', 1000);
+
+    expect(cache.isFresh(1000 + 59_000)).toBe(true);
+    expect(cache.isFresh(1000 + 61_000)).toBe(false);
+
+    cache.markSynced('100');
+    cache.markStale();
+    expect(cache.isFresh()).toBe(false);
+  });
+});
+
+describe('GmailService with the message cache', () => {
+  let gmailService: GmailService;
+  let mockGmailAPI: any;
+
+  beforeEach(async () => {
+    vi.mocked(fs.readFile).mockRejectedValue(Object.assign(new Error('missing'), { code: 'ENOENT' }));
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+
+    mockGmailAPI = {
+      users: {
+        getProfile: vi.fn().mockResolvedValue({ data: { emailAddress: 'me@example.com', historyId: '100' } }),
+        history: {
+          list: vi.fn().mockResolvedValue({ data: { historyId: '100' } })
+        },
+        labels: {
+          list: vi.fn().mockResolvedValue({ data: { labels: [] } })
+        },
+        messages: {
+          list: vi.fn().mockResolvedValue({
+            data: {
+              messages: [{ id: 'test-message-1', threadId: 'test-thread-1' }],
+              resultSizeEstimate: 1
+            }
+          }),
+          get: vi.fn().mockResolvedValue({ data: mockMessages[0] }),
+          modify: vi.fn().mockResolvedValue({ data: { labelIds: ['INBOX'] } })
+        }
+      }
+    };
+
+    const { getGmailService } = await import('../src/auth.js');
+    vi.mocked(getGmailService).mockResolvedValue(mockGmailAPI);
+
+    // maxAgeMs 0: every read checks history
+    gmailService = new GmailService({ cache: { path: '/tmp/cache.json', maxAgeMs: 0 } });
+    await gmailService.initialize();
+  });
+
+  it('should answer a repeated search from the cache when nothing changed', async () => {
+    await gmailService.searchEmails('is:unread');
+    const result = await gmailService.searchEmails('is:unread');
+
+    expect(result.messages[0].subject).toBe('Test Email Subject');
+    expect(mockGmailAPI.users.getProfile).toHaveBeenCalledTimes(1);
+    expect(mockGmailAPI.users.history.list).toHaveBeenCalledWith(
+      expect.objectContaining({ startHistoryId: '100' })
+    );
+    expect(mockGmailAPI.users.messages.list).toHaveBeenCalledTimes(1);
+    expect(mockGmailAPI.users.messages.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should re-run the search but reuse cached metadata after a change', async () => {
+    await gmailService.searchEmails('is:unread');
+
+    mockGmailAPI.users.history.list.mockResolvedValue({
+      data: {
+        historyId: '101',
+        history: [{ id: '101', labelsRemoved: [{ message: { id: 'test-message-1', labelIds: ['INBOX'] }, labelIds: ['UNREAD'] }] }]
+      }
+    });
+    const result = await gmailService.searchEmails('is:unread');
+
+    expect(mockGmailAPI.users.messages.list).toHaveBeenCalledTimes(2);
+    expect(mockGmailAPI.users.messages.get).toHaveBeenCalledTimes(1);
+    expect(result.messages[0].labelIds).toEqual(['INBOX']);
+  });
+
+  it('should resync when Gmail no longer has the history', async () => {
+    await gmailService.searchEmails('is:unread');
+
+    mockGmailAPI.users.history.list.mockRejectedValue(
+      Object.assign(new Error('Not Found'), { code: 404 })
+    );
+    mockGmailAPI.users.getProfile.mockResolvedValue({ data: { historyId: '500' } });
+    await gmailService.searchEmails('is:unread');
+
+    expect(mockGmailAPI.users.getProfile).toHaveBeenCalledTimes(2);
+    expect(mockGmailAPI.users.messages.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should serve cached results while offline', async () => {
+    await gmailService.searchEmails('is:unread');
+
+    const offline = Object.assign(new Error('getaddrinfo ENOTFOUND gmail.googleapis.com'), { code: 'ENOTFOUND' });
+    mockGmailAPI.users.history.list.mockRejectedValue(offline);
+    mockGmailAPI.users.messages.list.mockRejectedValue(offline);
+    const result = await gmailService.searchEmails('is:unread');
+
+    expect(result.messages).toHaveLength(1);
+    expect(mockGmailAPI.users.messages.list).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve message bodies from the cache', async () => {
+    await gmailService.readEmail('test-message-1');
+    const email = await gmailService.readEmail('test-message-1');
+
+    expect(email.body).toBe('This is the test email body content.');
+    expect(mockGmailAPI.users.messages.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should check history again after our own changes', async () => {
+    gmailService = new GmailService({ cache: { path: '/tmp/cache.json' } });
+    await gmailService.initialize();
+
+    await gmailService.searchEmails('is:unread');
+    await gmailService.searchEmails('is:unread');
+    expect(mockGmailAPI.users.history.list).not.toHaveBeenCalled();
+
+    await gmailService.modifyLabels(['test-message-1'], [], ['UNREAD']);
+    await gmailService.searchEmails('is:unread');
+    expect(mockGmailAPI.users.history.list).toHaveBeenCalledTimes(1);
+  });
+
+  it('should bypass the cache when disabled', async () => {
+    gmailService = new GmailService();
+    await gmailService.initialize();
+
+    await gmailService.readEmail('test-message-1');
+    await gmailService.readEmail('test-message-1');
+
+    expect(mockGmailAPI.users.messages.get).toHaveBeenCalledTimes(2);
+    expect(mockGmailAPI.users.getProfile).not.toHaveBeenCalled();
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildMimeMessage,
+  encodeAddress,
+  encodeHeaderValue,
+  guessMimeType
+} from '../src/mime-builder.js';
+
+const decodeWords = (value: string) =>
+  value
+    .split('\r\n ')
+    .map(word => Buffer.from(word.replace(/^=\?UTF-8\?B\?|\?=$/g, ''), 'base64').toString())
+    .join('');
+
+describe('MIME builder', () => {
+  describe('Header encoding', () => {
+    it('should leave ASCII headers alone', () => {
+      expect(encodeHeaderValue('Quarterly report')).toBe('Quarterly report');
+    });
+
+    it('should encode non-ASCII headers as RFC 2047 encoded-words', () => {
+      const subject = 'Réunion: 漢字 & Émojis 📧';
+      const encoded = encodeHeaderValue(subject);
+
+      expect(encoded).toMatch(/^=\?UTF-8\?B\?/);
+      expect(decodeWords(encoded)).toBe(subject);
+    });
+
+    it('should fold long subjects into words of at most 75 characters', () => {
+      const subject = 'Ünïcödé '.repeat(20);
+      const words = encodeHeaderValue(subject).split('\r\n ');
+
+      expect(words.length).toBeGreaterThan(1);
+      words.forEach(word => expect(word.length).toBeLessThanOrEqual(75));
+      expect(decodeWords(words.join('\r\n '))).toBe(subject);
+    });
+
+    it('should encode display names but not addresses', () => {
+      expect(encodeAddress('José Núñez <jose@example.com>'))
+        .toMatch(/^=\?UTF-8\?B\?.+\?= <jose@example.com>$/);
+      expect(encodeAddress('Smith, John <john@example.com>')).toBe('"Smith, John" <john@example.com>');
+      expect(encodeAddress(' plain@example.com ')).toBe('plain@example.com');
+    });
+  });
+
+  describe('Message structure', () => {
+    it('should build a single text/plain message with CRLF line endings', () => {
+      const raw = buildMimeMessage({
+        to: ['a@example.com', 'b@example.com'],
+        cc: ['c@example.com'],
+        subject: 'Hello',
+        text: 'Line one\nLine two'
+      });
+
+      expect(raw).toContain('To: a@example.com, b@example.com\r\n');
+      expect(raw).toContain('Cc: c@example.com\r\n');
+      expect(raw).toContain('MIME-Version: 1.0\r\n');
+      expect(raw).toContain('Content-Type: text/plain; charset=UTF-8\r\nContent-Transfer-Encoding: 7bit');
+      expect(raw).toContain('\r\n\r\nLine one\r\nLine two');
+      expect(raw).not.toMatch(/[^\r]\n/);
+    });
+
+    it('should use 8bit for UTF-8 bodies and base64 for very long lines', () => {
+      expect(buildMimeMessage({ to: ['a@example.com'], subject: 's', text: 'Grüße' }))
+        .toContain('Content-Transfer-Encoding: 8bit');
+      expect(buildMimeMessage({ to: ['a@example.com'], subject: 's', text: 'x'.repeat(1200) }))
+        .toContain('Content-Transfer-Encoding: base64');
+    });
+
+    it('should build multipart/alternative when html is given', () => {
+      const raw = buildMimeMessage({
+        to: ['a@example.com'],
+        subject: 'Newsletter',
+        html: '<h1>News</h1><p>Hello</p>'
+      });
+
+      const boundary = raw.match(/multipart\/alternative; boundary="([^"]+)"/)![1];
+      expect(raw.split(`--${boundary}\r\n`)).toHaveLength(3);
+      expect(raw).toContain('Content-Type: text/html; charset=UTF-8');
+      // plain-text alternative derived from the HTML
+      expect(raw).toContain('# News\r\n\r\nHello');
+      expect(raw.trimEnd().endsWith(`--${boundary}--`)).toBe(true);
+    });
+
+    it('should wrap the body and base64 attachments in multipart/mixed', () => {
+      const content = Buffer.alloc(200, 1);
+      const raw = buildMimeMessage({
+        to: ['a@example.com'],
+        subject: 'Report',
+        text: 'See attached',
+        html: '<p>See attached</p>',
+        attachments: [
+          { filename: 'report.pdf', mimeType: 'application/pdf', content },
+          { filename: 'résumé.txt', mimeType: 'text/plain', content: Buffer.from('cv') }
+        ]
+      });
+
+      expect(raw).toMatch(/^Content-Type: multipart\/mixed; boundary=/m);
+      expect(raw).toMatch(/^Content-Type: multipart\/alternative; boundary=/m);
+      expect(raw).toContain('Content-Type: application/pdf; name="report.pdf"');
+      expect(raw).toContain('Content-Disposition: attachment; filename="report.pdf"');
+      expect(raw).toContain("filename*=UTF-8''r%C3%A9sum%C3%A9.txt");
+
+      const encoded = content.toString('base64');
+      expect(raw).toContain(encoded.slice(0, 76) + '\r\n' + encoded.slice(76, 152));
+    });
+
+    it('should include threading headers when replying', () => {
+      const raw = buildMimeMessage({
+        to: ['a@example.com'],
+        subject: 'Re: Plans',
+        text: 'Sounds good',
+        inReplyTo: '<abc@mail.example.com>',
+        references: '<root@mail.example.com> <abc@mail.example.com>'
+      });
+
+      expect(raw).toContain('In-Reply-To: <abc@mail.example.com>\r\n');
+      expect(raw).toContain('References: <root@mail.example.com> <abc@mail.example.com>\r\n');
+    });
+  });
+
+  it('should guess MIME types from file extensions', () => {
+    expect(guessMimeType('Invoice.PDF')).toBe('application/pdf');
+    expect(guessMimeType('photo.jpeg')).toBe('image/jpeg');
+    expect(guessMimeType('archive.unknown')).toBe('application/octet-stream');
+  });
+});
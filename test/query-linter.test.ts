@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { lintQuery } from '../src/query-linter.js';
+import { mockLabels } from './setup.js';
+
+const labels = [
+  ...mockLabels,
+  { id: 'Label_3', name: 'Work/Job Boards', type: 'user' },
+  { id: 'Label_4', name: 'Personal/Receipts', type: 'user' },
+  { id: 'Label_5', name: 'Work/Receipts', type: 'user' }
+];
+
+const lint = (query: string, allowEmpty = false) => lintQuery(query, { labels, allowEmpty });
+
+describe('Query Linter', () => {
+  it('should pass valid queries through unchanged', () => {
+    for (const query of [
+      'is:unread from:ann@example.com',
+      'label:"Work/Job Boards" newer_than:2d',
+      'from:(ann OR bob) -in:trash',
+      'subject:"budget review" has:attachment'
+    ]) {
+      expect(lint(query)).toEqual({ query, fixes: [] });
+    }
+  });
+
+  describe('Fixes', () => {
+    it('should convert fractional and spelled-out relative dates', () => {
+      expect(lint('newer_than:1.5d').query).toBe('newer_than:36h');
+      expect(lint('older_than:0.5y').query).toBe('older_than:6m');
+      expect(lint('newer_than:2 weeks').query).toBe('newer_than:14d');
+      expect(lint('newer_than:3days is:unread').query).toBe('newer_than:3d is:unread');
+      expect(lint('newer_than:1.5d').fixes).toEqual(['"newer_than:1.5d" → "newer_than:36h"']);
+    });
+
+    it('should quote label names with spaces', () => {
+      const result = lint('label:Work/Job Boards is:unread');
+
+      expect(result.query).toBe('label:"Work/Job Boards" is:unread');
+      expect(result.fixes).toHaveLength(1);
+    });
+
+    it('should complete nested label paths when only one label fits', () => {
+      expect(lint('label:"Job Boards"').query).toBe('label:"Work/Job Boards"');
+      expect(lint('label:Job Boards').query).toBe('label:"Work/Job Boards"');
+      expect(lint('label:work-job-boards').query).toBe('label:"Work/Job Boards"');
+    });
+
+    it('should accept label names in any case', () => {
+      expect(lint('label:inbox').fixes).toEqual([]);
+      expect(lint('label:work').fixes).toEqual([]);
+    });
+
+    it('should map invented operators and values to Gmail ones', () => {
+      expect(lint('sender:ann subj:lunch').query).toBe('from:ann subject:lunch');
+      expect(lint('has:attachments').query).toBe('has:attachment');
+      expect(lint('has:pdf').query).toBe('filename:pdf');
+      expect(lint('is:inbox').query).toBe('in:inbox');
+      expect(lint('is:archived from:ann').query).toBe('-in:inbox from:ann');
+      expect(lint('category:promotion').query).toBe('category:promotions');
+    });
+
+    it('should fix sizes, dashed dates and lowercase or', () => {
+      expect(lint('larger:10MB').query).toBe('larger:10M');
+      expect(lint('after:2024-01-05').query).toBe('after:2024/01/05');
+      expect(lint('from:ann or from:bob is:unread').query).toBe('from:ann OR from:bob is:unread');
+    });
+
+    it('should leave quoted text alone', () => {
+      expect(lint('subject:"sender: newer_than:1.5d"')).toEqual({
+        query: 'subject:"sender: newer_than:1.5d"',
+        fixes: []
+      });
+    });
+  });
+
+  describe('Rejections', () => {
+    it('should reject labels that could mean several labels', () => {
+      expect(() => lint('label:Receipts')).toThrow(
+        'label:"Receipts" could mean "Personal/Receipts" or "Work/Receipts"'
+      );
+    });
+
+    it('should reject unknown labels and list the real ones', () => {
+      expect(() => lint('label:Travel')).toThrow(/There is no label "Travel"\. Existing labels: "Test Label", "Work"/);
+    });
+
+    it('should reject unknown operators', () => {
+      expect(() => lint('priority:high')).toThrow('"priority:" is not a Gmail operator');
+      expect(() => lint('is:urgent')).toThrow('"is:urgent" is not valid. is: accepts unread, read');
+    });
+
+    it('should reject queries Gmail would misread', () => {
+      expect(() => lint('(from:ann is:unread')).toThrow('Missing ")"');
+      expect(() => lint('newer_than:soon')).toThrow('Invalid value "soon" for newer_than:');
+      expect(() => lint('after:2024/02/30')).toThrow('Invalid date "2024/02/30"');
+    });
+
+    it('should list every problem at once', () => {
+      let message = '';
+      try {
+        lint('label:Travel is:urgent');
+      } catch (error: any) {
+        message = error.message;
+      }
+
+      expect(message).toContain('The query "label:Travel is:urgent" was not run');
+      expect(message).toContain('There is no label "Travel"');
+      expect(message).toContain('"is:urgent" is not valid');
+    });
+
+    it('should reject an empty query unless allowed', () => {
+      expect(() => lint('  ')).toThrow('An empty query matches every email');
+      expect(lint('', true)).toEqual({ query: '', fixes: [] });
+    });
+  });
+
+  it('should skip label checks when no labels are known', () => {
+    expect(lintQuery('label:Travel').fixes).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RequestScheduler } from '../src/request-scheduler.js';
+import { GmailService } from '../src/gmail-service.js';
+
+vi.mock('../src/auth.js', () => ({
+  getGmailService: vi.fn()
+}));
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+};
+
+describe('RequestScheduler', () => {
+  it('should never run more than maxConcurrent tasks at once', async () => {
+    const scheduler = new RequestScheduler(2);
+    let active = 0;
+    let peak = 0;
+
+    await Promise.all(
+      Array.from({ length: 6 }, () =>
+        scheduler.run(async () => {
+          active++;
+          peak = Math.max(peak, active);
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          active--;
+        })
+      )
+    );
+
+    expect(peak).toBe(2);
+    expect(scheduler.inFlight).toBe(0);
+  });
+
+  it('should start queued tasks in order', async () => {
+    const scheduler = new RequestScheduler(1);
+    const gate = deferred();
+    const order: number[] = [];
+
+    const first = scheduler.run(async () => {
+      await gate.promise;
+      order.push(1);
+    });
+    const rest = [2, 3].map((n) => scheduler.run(async () => order.push(n)));
+
+    expect(scheduler.queued).toBe(2);
+    gate.resolve();
+    await Promise.all([first, ...rest]);
+
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it('should free the slot when a task fails', async () => {
+    const scheduler = new RequestScheduler(1);
+
+    await expect(scheduler.run(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(scheduler.run(async () => 'ok')).resolves.toBe('ok');
+    expect(scheduler.inFlight).toBe(0);
+  });
+
+  it('should reject a limit below one', () => {
+    expect(() => new RequestScheduler(0)).toThrow('maxConcurrent must be at least 1');
+  });
+
+  it('should cap concurrent metadata fetches in searchEmails', async () => {
+    let active = 0;
+    let peak = 0;
+    const mockGmailAPI = {
+      users: {
+        messages: {
+          list: vi.fn().mockResolvedValue({
+            data: { messages: Array.from({ length: 20 }, (_, i) => ({ id: `m${i}`, threadId: `t${i}` })) }
+          }),
+          get: vi.fn().mockImplementation(async ({ id }) => {
+            active++;
+            peak = Math.max(peak, active);
+            await new Promise((resolve) => setTimeout(resolve, 1));
+            active--;
+            return { data: { id, payload: { headers: [{ name: 'Subject', value: id }] } } };
+          })
+        }
+      }
+    };
+
+    const { getGmailService } = await import('../src/auth.js');
+    vi.mocked(getGmailService).mockResolvedValue(mockGmailAPI as any);
+    const gmailService = new GmailService({ maxConcurrentRequests: 3 });
+    await gmailService.initialize();
+
+    const result = await gmailService.searchEmails('in:inbox', 20);
+
+    expect(result.messages).toHaveLength(20);
+    expect(result.messages[19].subject).toBe('m19');
+    expect(peak).toBe(3);
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { google } from 'googleapis';
+import { http, HttpResponse } from 'msw';
+import { GmailService } from '../src/gmail-service.js';
+import {
+  backoffDelay,
+  getRetryAfterMs,
+  isRetryableError,
+  resolveRetryPolicy,
+  withRetry
+} from '../src/retry.js';
+import { mockMessages, server } from './setup.js';
+
+vi.mock('../src/auth.js', () => ({
+  getGmailService: vi.fn()
+}));
+
+const API = 'https://gmail.googleapis.com/gmail/v1/users/me';
+
+const httpError = (status: number, headers: Record<string, string> = {}, reason?: string) =>
+  Object.assign(new Error(`HTTP ${status}`), {
+    response: { status, headers, data: reason ? { error: { errors: [{ reason }] } } : {} }
+  });
+
+describe('Retry Policy', () => {
+  const policy = resolveRetryPolicy({ random: () => 0.5 });
+
+  it('should grow the backoff exponentially up to the cap', () => {
+    expect(backoffDelay(0, policy)).toBe(375);
+    expect(backoffDelay(1, policy)).toBe(750);
+    expect(backoffDelay(3, policy)).toBe(3000);
+    expect(backoffDelay(10, policy)).toBe(24000);
+  });
+
+  it('should jitter within the upper half of the window', () => {
+    expect(backoffDelay(2, resolveRetryPolicy({ random: () => 0 }))).toBe(1000);
+    expect(backoffDelay(2, resolveRetryPolicy({ random: () => 1 }))).toBe(2000);
+  });
+
+  it('should parse Retry-After seconds and dates', () => {
+    const now = Date.parse('Mon, 02 Oct 2023 09:00:00 GMT');
+
+    expect(getRetryAfterMs(httpError(429, { 'retry-after': '3' }))).toBe(3000);
+    expect(getRetryAfterMs(httpError(429, { 'Retry-After': 'Mon, 02 Oct 2023 09:00:05 GMT' }), now)).toBe(5000);
+    expect(getRetryAfterMs(httpError(429))).toBeUndefined();
+  });
+
+  it('should classify retryable errors', () => {
+    expect(isRetryableError(httpError(429), policy)).toBe(true);
+    expect(isRetryableError(httpError(500), policy)).toBe(true);
+    expect(isRetryableError(httpError(503), policy)).toBe(true);
+    expect(isRetryableError(httpError(403, {}, 'userRateLimitExceeded'), policy)).toBe(true);
+    expect(isRetryableError(httpError(403, {}, 'insufficientPermissions'), policy)).toBe(false);
+    expect(isRetryableError(httpError(404), policy)).toBe(false);
+    expect(isRetryableError(new Error('boom'), policy)).toBe(false);
+  });
+
+  it('should only retry rate limits for non-idempotent calls', () => {
+    expect(isRetryableError(httpError(429), policy, false)).toBe(true);
+    expect(isRetryableError(httpError(403, {}, 'rateLimitExceeded'), policy, false)).toBe(true);
+    expect(isRetryableError(httpError(500), policy, false)).toBe(false);
+    expect(isRetryableError(httpError(503), policy, false)).toBe(false);
+  });
+
+  it('should stop after maxRetries', async () => {
+    const sleep = vi.fn(async () => {});
+    const operation = vi.fn().mockRejectedValue(httpError(503));
+
+    await expect(
+      withRetry(operation, resolveRetryPolicy({ maxRetries: 2, sleep }))
+    ).rejects.toThrow('HTTP 503');
+
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(sleep).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up when Retry-After exceeds the maximum delay', async () => {
+    const sleep = vi.fn(async () => {});
+    const operation = vi.fn().mockRejectedValue(httpError(429, { 'retry-after': '3600' }));
+
+    await expect(withRetry(operation, resolveRetryPolicy({ sleep }))).rejects.toThrow('HTTP 429');
+
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  describe('GmailService against the HTTP API', () => {
+    let sleep: ReturnType<typeof vi.fn>;
+    let gmailService: GmailService;
+
+    beforeEach(async () => {
+      const auth = new google.auth.OAuth2();
+      auth.setCredentials({ access_token: 'test-token', expiry_date: Date.now() + 3600_000 });
+
+      const { getGmailService } = await import('../src/auth.js');
+      vi.mocked(getGmailService).mockResolvedValue(
+        google.gmail({ version: 'v1', auth, retry: false })
+      );
+
+      sleep = vi.fn(async () => {});
+      gmailService = new GmailService({ retry: { sleep, random: () => 0 } });
+      await gmailService.initialize();
+    });
+
+    it('should honor Retry-After on 429', async () => {
+      let calls = 0;
+      server.use(
+        http.get(`${API}/messages/:messageId`, () => {
+          calls++;
+          if (calls === 1) {
+            return HttpResponse.json(
+              { error: { code: 429, errors: [{ reason: 'rateLimitExceeded' }] } },
+              { status: 429, headers: { 'Retry-After': '2' } }
+            );
+          }
+          return HttpResponse.json(mockMessages[0]);
+        })
+      );
+
+      const email = await gmailService.readEmail('test-message-1');
+
+      expect(email.subject).toBe('Test Email Subject');
+      expect(calls).toBe(2);
+      expect(sleep).toHaveBeenCalledWith(2000);
+    });
+
+    it('should retry 403 userRateLimitExceeded with backoff', async () => {
+      let calls = 0;
+      server.use(
+        http.get(`${API}/labels`, () => {
+          calls++;
+          if (calls < 3) {
+            return HttpResponse.json(
+              { error: { code: 403, errors: [{ reason: 'userRateLimitExceeded' }] } },
+              { status: 403 }
+            );
+          }
+          return HttpResponse.json({ labels: [] });
+        })
+      );
+
+      await gmailService.listLabels();
+
+      expect(calls).toBe(3);
+      expect(sleep.mock.calls).toEqual([[250], [500]]);
+    });
+
+    it('should retry batchModify on 500', async () => {
+      let calls = 0;
+      server.use(
+        http.post(`${API}/messages/batchModify`, () => {
+          calls++;
+          return calls === 1
+            ? HttpResponse.json({ error: { code: 500 } }, { status: 500 })
+            : new HttpResponse(null, { status: 204 });
+        })
+      );
+
+      const result = await gmailService.batchOperation('is:unread', 'markRead');
+
+      expect(calls).toBe(2);
+      expect(result.failed).toBe(0);
+    });
+
+    it('should never re-send a message after a server error', async () => {
+      let calls = 0;
+      server.use(
+        http.post(`${API}/messages/send`, () => {
+          calls++;
+          return HttpResponse.json({ error: { code: 503 } }, { status: 503 });
+        })
+      );
+
+      await expect(
+        gmailService.sendEmail(['to@example.com'], 'Hi', 'Body')
+      ).rejects.toThrow('Failed to send email');
+
+      expect(calls).toBe(1);
+      expect(sleep).not.toHaveBeenCalled();
+    });
+
+    it('should re-send a message that was rejected by the rate limiter', async () => {
+      let calls = 0;
+      server.use(
+        http.post(`${API}/messages/send`, () => {
+          calls++;
+          return calls === 1
+            ? HttpResponse.json({ error: { code: 429 } }, { status: 429 })
+            : HttpResponse.json({ id: 'sent-1', labelIds: ['SENT'] });
+        })
+      );
+
+      const result = await gmailService.sendEmail(['to@example.com'], 'Hi', 'Body');
+
+      expect(result.id).toBe('sent-1');
+      expect(calls).toBe(2);
+    });
+
+    it('should treat a draft that is gone on retry as deleted', async () => {
+      let calls = 0;
+      server.use(
+        http.delete(`${API}/drafts/:draftId`, () => {
+          calls++;
+          return calls === 1
+            ? HttpResponse.json({ error: { code: 503 } }, { status: 503 })
+            : HttpResponse.json({ error: { code: 404 } }, { status: 404 });
+        })
+      );
+
+      const result = await gmailService.deleteDraft('draft-1');
+
+      expect(result.deleted).toBe(true);
+      expect(calls).toBe(2);
+    });
+
+    it('should not retry client errors', async () => {
+      let calls = 0;
+      server.use(
+        http.get(`${API}/messages/:messageId`, () => {
+          calls++;
+          return HttpResponse.json({ error: { code: 404 } }, { status: 404 });
+        })
+      );
+
+      await expect(gmailService.readEmail('missing')).rejects.toThrow('Failed to read email');
+      expect(calls).toBe(1);
+    });
+
+    it('should be disabled with maxRetries 0', async () => {
+      gmailService = new GmailService({ retry: { maxRetries: 0, sleep } });
+      await gmailService.initialize();
+
+      let calls = 0;
+      server.use(
+        http.get(`${API}/labels`, () => {
+          calls++;
+          return HttpResponse.json({ error: { code: 503 } }, { status: 503 });
+        })
+      );
+
+      await expect(gmailService.listLabels()).rejects.toThrow('Failed to list labels');
+      expect(calls).toBe(1);
+    });
+  });
+});
@@ -201,7 +201,10 @@ process.env.GROQ_API_KEY = 'test-groq-api-key';
 vi.mock('fs/promises', () => ({
   readFile: vi.fn(),
   writeFile: vi.fn(),
-  access: vi.fn()
+  access: vi.fn(),
+  readdir: vi.fn(),
+  mkdir: vi.fn(),
+  unlink: vi.fn()
 }));
 
 // Mock Groq SDK
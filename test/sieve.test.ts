@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import { filtersToSieve, parseSieve } from '../src/sieve.js';
+import { formatQuery, parseGmailQuery } from '../src/gmail-query.js';
+import { mockLabels } from './setup.js';
+
+const labels = [...mockLabels, { id: 'Label_3', name: 'Work/Receipts "2024"', type: 'user' }];
+const NOW = new Date('2024-03-15T12:00:00Z');
+
+const filter = (id: string, criteria: any, action: any) => ({ id, criteria, action });
+const roundTrip = (filters: any[]) => parseSieve(filtersToSieve(filters, labels, { now: NOW }).script);
+
+describe('Sieve', () => {
+  describe('Export', () => {
+    it('should write one rule per filter with the extensions it needs', () => {
+      const { script, exported, skipped } = filtersToSieve(
+        [filter('f1', { from: 'shop@example.com', subject: 'Order' }, { addLabelIds: ['Label_1', 'STARRED'] })],
+        labels,
+        { now: NOW }
+      );
+
+      expect(exported).toBe(1);
+      expect(skipped).toEqual([]);
+      expect(script).toBe(
+        [
+          '# Sieve script exported from Gmail filters on 2024-03-15T12:00:00Z',
+          'require ["fileinto", "imap4flags"];',
+          '',
+          '# Gmail filter f1',
+          'if allof (',
+          '    address :contains "from" "shop@example.com",',
+          '    header :contains "subject" "Order"',
+          ') {',
+          '    addflag "\\\\Flagged";',
+          '    fileinto "Test Label";',
+          '    keep;',
+          '}',
+          ''
+        ].join('\n')
+      );
+    });
+
+    it('should map wildcards, recipients, attachments and sizes', () => {
+      const { script } = filtersToSieve(
+        [
+          filter(
+            'f2',
+            { from: '*@example.com', to: 'team@example.com', hasAttachment: true, size: 1048576, sizeComparison: 'larger' },
+            { forward: 'archive@example.com' }
+          )
+        ],
+        labels
+      );
+
+      expect(script).toContain('address :matches "from" "*@example.com"');
+      expect(script).toContain('address :contains ["to", "cc"] "team@example.com"');
+      expect(script).toContain('header :matches "content-type" "multipart/mixed*"');
+      expect(script).toContain('size :over 1048576');
+      expect(script).toContain('redirect "archive@example.com";');
+      expect(script).not.toContain('require');
+    });
+
+    it('should translate simple queries into nested tests', () => {
+      const { script } = filtersToSieve(
+        [filter('f3', { query: 'from:(ann OR bob) -subject:lunch larger:5M' }, { addLabelIds: ['Label_2'] })],
+        labels
+      );
+
+      expect(script).toContain('anyof (');
+      expect(script).toContain('not header :contains "subject" "lunch"');
+      expect(script).toContain('size :over 5M');
+    });
+
+    it('should comment out filters with criteria Sieve cannot express', () => {
+      const { script, exported, skipped } = filtersToSieve(
+        [
+          filter('f4', { query: 'invoice from:billing' }, { addLabelIds: ['Label_1'] }),
+          filter('f5', { from: 'ann OR bob' }, { addLabelIds: ['Label_1'] }),
+          filter('f6', { query: 'newer_than:2d' }, { addLabelIds: ['Label_1'] })
+        ],
+        labels
+      );
+
+      expect(exported).toBe(0);
+      expect(skipped.map((s) => s.reason)).toEqual([
+        'Not exported: the free-text search "invoice" needs the Sieve body extension',
+        'Not exported: the from "ann OR bob" uses search operators Sieve can\'t express',
+        'Not exported: "newer_than:2d" has no Sieve equivalent'
+      ]);
+      expect(script).toContain('# WARNING: Gmail filter f4. Not exported');
+      expect(script).toContain('#   query: invoice from:billing');
+      expect(script).not.toMatch(/^if /m);
+      expect(parseSieve(script)).toEqual([]);
+    });
+
+    it('should warn about actions it has to leave out', () => {
+      const { script, exported } = filtersToSieve(
+        [filter('f7', { from: 'ann@example.com' }, { addLabelIds: ['IMPORTANT', 'Label_2'] })],
+        labels
+      );
+
+      expect(exported).toBe(1);
+      expect(script).toContain('# WARNING: applying IMPORTANT has no Sieve equivalent; skipped');
+      expect(script).toContain('fileinto "Work";');
+    });
+  });
+
+  describe('Round trip', () => {
+    it('should read back criteria fields and label actions', () => {
+      expect(
+        roundTrip([
+          filter('f1', { from: 'shop@example.com', subject: 'Order shipped' }, { addLabelIds: ['Label_1'] }),
+          filter('f2', { to: 'team@example.com', hasAttachment: true }, { addLabelIds: ['Label_2'], removeLabelIds: ['INBOX'] }),
+          filter('f3', { from: '*@news.example.com' }, { removeLabelIds: ['UNREAD'], addLabelIds: ['STARRED'] }),
+          filter('f4', { size: 10485760, sizeComparison: 'smaller' }, { forward: 'me@example.org' })
+        ])
+      ).toEqual([
+        { criteria: { from: 'shop@example.com', subject: 'Order shipped' }, action: {}, labels: ['Test Label'] },
+        {
+          criteria: { to: 'team@example.com', hasAttachment: true },
+          action: { removeLabelIds: ['INBOX'] },
+          labels: ['Work']
+        },
+        {
+          criteria: { from: '*@news.example.com' },
+          action: { addLabelIds: ['STARRED'], removeLabelIds: ['UNREAD'] },
+          labels: []
+        },
+        {
+          criteria: { size: 10485760, sizeComparison: 'smaller' },
+          action: { forward: 'me@example.org' },
+          labels: []
+        }
+      ]);
+    });
+
+    it('should read queries back as equivalent queries', () => {
+      for (const query of [
+        'list:dev.example.com',
+        'from:(ann OR bob) -subject:lunch',
+        'to:me@example.com has:attachment smaller:2M',
+        '-(cc:boss OR subject:"quarterly review")'
+      ]) {
+        const [definition] = roundTrip([filter('q', { query }, { addLabelIds: ['Label_1'] })]);
+
+        expect(definition.criteria).toEqual({ query: formatQuery(parseGmailQuery(query)) });
+      }
+    });
+
+    it('should keep fields and query apart', () => {
+      const [definition] = roundTrip([
+        filter('q', { from: 'ann@example.com', query: 'from:bob' }, { addLabelIds: ['Label_1'] })
+      ]);
+
+      expect(definition.criteria).toEqual({ from: 'ann@example.com', query: 'from:bob' });
+    });
+
+    it('should escape quotes and backslashes', () => {
+      const [definition] = roundTrip([
+        filter('e', { subject: 'say \\hi\\' }, { addLabelIds: ['Label_3'] })
+      ]);
+
+      expect(definition.criteria.subject).toBe('say \\hi\\');
+      expect(definition.labels).toEqual(['Work/Receipts "2024"']);
+    });
+
+    it('should export the same script from what it reads back', () => {
+      const filters = [
+        filter('f1', { from: 'shop@example.com' }, { addLabelIds: ['Label_1'], removeLabelIds: ['INBOX'] }),
+        filter('f2', { query: 'from:ann OR to:bob' }, { addLabelIds: ['STARRED'] })
+      ];
+      const { script } = filtersToSieve(filters, labels, { now: NOW });
+
+      const reloaded = parseSieve(script).map((definition, i) => ({
+        id: filters[i].id,
+        criteria: definition.criteria,
+        action: {
+          ...definition.action,
+          addLabelIds: [
+            ...(definition.action.addLabelIds || []),
+            ...definition.labels.map((name) => labels.find((l) => l.name === name)!.id)
+          ]
+        }
+      }));
+
+      expect(filtersToSieve(reloaded, labels, { now: NOW }).script).toBe(script);
+    });
+  });
+
+  describe('Parsing', () => {
+    it('should reject Sieve outside the exported subset', () => {
+      expect(() => parseSieve('if true { keep; }')).toThrow('Unsupported test "true"');
+      expect(() => parseSieve('vacation "Away";')).toThrow('Unsupported command "vacation"');
+      expect(() => parseSieve('if size :over 1M { discard; }')).toThrow('Unsupported command "discard"');
+      expect(() => parseSieve('if header :is "subject" "x" { keep; }')).toThrow('Unsupported match type :is');
+      expect(() =>
+        parseSieve('if size :over 1M { keep; } else { keep; }')
+      ).toThrow('elsif and else are not supported');
+      expect(() => parseSieve('if size :over 1M { keep;')).toThrow('at the end of the script');
+    });
+  });
+});